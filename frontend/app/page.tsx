@@ -14,8 +14,17 @@ import { TransactionHistory } from "@/components/TransactionHistory";
 import { LendingPanel } from "@/components/LendingPanel";
 import { SwapPanel } from "@/components/SwapPanel";
 import { RateAMMPanel } from "@/components/RateAMMPanel";
+import { OrderBookPanel } from "@/components/OrderBookPanel";
+import { LiquidationPanel } from "@/components/LiquidationPanel";
+import { KeeperPanel } from "@/components/KeeperPanel";
+import { RiskPanel } from "@/components/RiskPanel";
+import { TermStructure } from "@/components/TermStructure";
+import { OracleHealthPanel } from "@/components/OracleHealthPanel";
+import { OracleStatusBanner } from "@/components/OracleGuard";
 import { GovernancePanel } from "@/components/GovernancePanel";
+import { LimitOrderPanel } from "@/components/LimitOrderPanel";
 import { DashboardOverview } from "@/components/Dashboard";
+import type { WizardPrefill } from "@/hooks/usePositionWizard";
 import {
   TrendingUp,
   Landmark,
@@ -29,16 +38,26 @@ import {
   Sparkles,
   ExternalLink,
   LayoutDashboard,
+  BookOpen,
+  Gavel,
+  Bot,
+  Activity,
+  Gauge,
 } from "lucide-react";
 
-type Tab = "dashboard" | "irs" | "lending" | "swap" | "amm" | "governance";
+type Tab = "dashboard" | "irs" | "risk" | "orderbook" | "lending" | "swap" | "amm" | "liquidations" | "keeper" | "oracle" | "governance";
 
 const tabs: { id: Tab; label: string; icon: React.ReactNode; description: string }[] = [
   { id: "dashboard", label: "Dashboard", icon: <LayoutDashboard className="w-5 h-5" />, description: "Overview & analytics" },
   { id: "irs", label: "Interest Rate Swaps", icon: <TrendingUp className="w-5 h-5" />, description: "Trade fixed vs floating rates" },
+  { id: "risk", label: "Risk", icon: <Gauge className="w-5 h-5" />, description: "DV01 & rate shocks" },
+  { id: "orderbook", label: "Order Book", icon: <BookOpen className="w-5 h-5" />, description: "Match rates peer-to-peer" },
   { id: "lending", label: "Lending", icon: <Landmark className="w-5 h-5" />, description: "Supply & borrow assets" },
   { id: "swap", label: "Swap", icon: <ArrowLeftRight className="w-5 h-5" />, description: "Trade tokens instantly" },
   { id: "amm", label: "Rate AMM", icon: <BarChart3 className="w-5 h-5" />, description: "Provide rate liquidity" },
+  { id: "liquidations", label: "Liquidations", icon: <Gavel className="w-5 h-5" />, description: "Liquidate unhealthy positions" },
+  { id: "keeper", label: "Keeper", icon: <Bot className="w-5 h-5" />, description: "Settle positions for rewards" },
+  { id: "oracle", label: "Oracle", icon: <Activity className="w-5 h-5" />, description: "Rate sources & health" },
   { id: "governance", label: "Governance", icon: <Vote className="w-5 h-5" />, description: "Vote on proposals" },
 ];
 
@@ -65,7 +84,16 @@ export default function Home() {
   const chainId = useChainId();
   const contracts = CONTRACT_ADDRESSES[chainId];
   const [useWizard, setUseWizard] = useState(true);
+  const [irsMode, setIrsMode] = useState<"market" | "limit">("market");
   const [activeTab, setActiveTab] = useState<Tab>("dashboard");
+  const [wizardPrefill, setWizardPrefill] = useState<WizardPrefill | undefined>();
+
+  const openHedge = (prefill: WizardPrefill) => {
+    setWizardPrefill(prefill);
+    setIrsMode("market");
+    setUseWizard(true);
+    setActiveTab("irs");
+  };
 
   return (
     <>
@@ -159,7 +187,10 @@ export default function Home() {
               {tabs.map((tab, index) => (
                 <motion.button
                   key={tab.id}
-                  onClick={() => setActiveTab(tab.id)}
+                  onClick={() => {
+                    setWizardPrefill(undefined);
+                    setActiveTab(tab.id);
+                  }}
                   className={`relative flex items-center gap-2 px-4 py-2 text-sm font-medium whitespace-nowrap transition-all duration-200 rounded-lg border ${
                     activeTab === tab.id
                       ? "text-[--bg-primary] bg-[--text-primary] border-[--text-primary] font-semibold"
@@ -178,6 +209,11 @@ export default function Home() {
         </motion.div>
       )}
 
+      {/* Oracle Status */}
+      {isConnected && contracts && (
+        <OracleStatusBanner rateOracle={contracts.rateOracle} onDetails={() => setActiveTab("oracle")} />
+      )}
+
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 py-8">
         <AnimatePresence mode="wait">
@@ -316,9 +352,27 @@ export default function Home() {
               {activeTab === "irs" && (
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 lg:gap-8">
                   <div className="lg:col-span-2 space-y-6">
-                    {useWizard ? (
+                    <div className="flex gap-1 p-1 rounded-lg border border-[--border] bg-[--bg-secondary] w-fit">
+                      {(["market", "limit"] as const).map((mode) => (
+                        <button
+                          key={mode}
+                          onClick={() => setIrsMode(mode)}
+                          className={`px-4 py-1.5 text-xs font-medium rounded-md transition-colors ${
+                            irsMode === mode
+                              ? "text-[--bg-primary] bg-[--text-primary]"
+                              : "text-[--text-secondary] hover:text-[--text-primary]"
+                          }`}
+                        >
+                          {mode === "market" ? "Market" : "Limit Order"}
+                        </button>
+                      ))}
+                    </div>
+                    {irsMode === "limit" ? (
+                      <LimitOrderPanel contracts={contracts} />
+                    ) : useWizard ? (
                       <PositionWizard
                         contracts={contracts}
+                        prefill={wizardPrefill}
                         onSwitchToAdvanced={() => setUseWizard(false)}
                       />
                     ) : (
@@ -338,11 +392,22 @@ export default function Home() {
                   </div>
                   <div className="space-y-6 order-first lg:order-last">
                     <ProtocolStats contracts={contracts} />
+                    <TermStructure contracts={contracts} />
                     <ActivityFeed contracts={contracts} />
                   </div>
                 </div>
               )}
 
+              {/* Risk Tab */}
+              {activeTab === "risk" && (
+                <RiskPanel contracts={contracts} userAddress={address!} onHedge={openHedge} />
+              )}
+
+              {/* Order Book Tab */}
+              {activeTab === "orderbook" && (
+                <OrderBookPanel contracts={contracts} />
+              )}
+
               {/* Lending Tab */}
               {activeTab === "lending" && (
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8">
@@ -451,6 +516,21 @@ export default function Home() {
                 </div>
               )}
 
+              {/* Liquidations Tab */}
+              {activeTab === "liquidations" && (
+                <LiquidationPanel contracts={contracts} />
+              )}
+
+              {/* Keeper Tab */}
+              {activeTab === "keeper" && (
+                <KeeperPanel contracts={contracts} />
+              )}
+
+              {/* Oracle Tab */}
+              {activeTab === "oracle" && (
+                <OracleHealthPanel contracts={contracts} />
+              )}
+
               {/* Governance Tab */}
               {activeTab === "governance" && (
                 <GovernancePanel contracts={contracts} />
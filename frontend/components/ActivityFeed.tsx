@@ -1,125 +1,71 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { usePublicClient } from "wagmi";
+import { useMemo } from "react";
 import { formatUnits } from "viem";
-import { POSITION_MANAGER_ABI } from "@/lib/abis";
+import { useIndexedEvents } from "@/hooks/useIndexedEvents";
+import type { IndexedEvent } from "@/lib/eventIndexer";
 
 interface Props {
   contracts: {
     positionManager: `0x${string}`;
+    settlementEngine: `0x${string}`;
+    liquidationEngine: `0x${string}`;
+    orderBook: `0x${string}`;
+    automation: `0x${string}`;
+    rateOracle: `0x${string}`;
+    irsGovernor: `0x${string}`;
   };
 }
 
-interface Activity {
+type Activity = {
   id: string;
-  type: "opened" | "closed" | "settled" | "margin";
   positionId: bigint;
   trader: string;
   timestamp: number;
   blockNumber: bigint;
-  details: Record<string, unknown>;
+} & (
+  | { type: "opened"; isPayingFixed: boolean; notional: bigint; fixedRate: bigint }
+  | { type: "closed" }
+  | { type: "settled"; settlementAmount: bigint }
+  | { type: "margin"; amount: bigint }
+);
+
+// Most recent activities shown
+const MAX_ACTIVITIES = 20;
+
+function toActivity(event: IndexedEvent): Activity | null {
+  if (event.contract !== "positionManager") return null;
+  const base = { id: event.id, timestamp: event.timestamp, blockNumber: event.blockNumber };
+  switch (event.eventName) {
+    case "PositionOpened": {
+      const { positionId, trader, isPayingFixed, notional, fixedRate } = event.args;
+      return { ...base, type: "opened", positionId, trader, isPayingFixed, notional, fixedRate };
+    }
+    case "PositionClosed":
+      return { ...base, type: "closed", positionId: event.args.positionId, trader: event.args.trader };
+    case "PositionSettled": {
+      const { positionId, settlementAmount } = event.args;
+      return { ...base, type: "settled", positionId, trader: "", settlementAmount };
+    }
+    case "MarginAdded":
+      return { ...base, type: "margin", positionId: event.args.positionId, trader: "", amount: event.args.amount };
+    default:
+      return null;
+  }
 }
 
 export function ActivityFeed({ contracts }: Props) {
-  const [activities, setActivities] = useState<Activity[]>([]);
-  const [loading, setLoading] = useState(true);
-  const publicClient = usePublicClient();
-
-  useEffect(() => {
-    async function fetchEvents() {
-      if (!publicClient) return;
-
-      setLoading(true);
-      const allActivities: Activity[] = [];
-
-      try {
-        // Get recent blocks (last ~1000 blocks for demo)
-        const currentBlock = await publicClient.getBlockNumber();
-        const fromBlock = currentBlock > BigInt(1000) ? currentBlock - BigInt(1000) : BigInt(0);
-
-        // Fetch PositionOpened events
-        const openedLogs = await publicClient.getLogs({
-          address: contracts.positionManager,
-          event: {
-            type: "event",
-            name: "PositionOpened",
-            inputs: [
-              { indexed: true, name: "positionId", type: "uint256" },
-              { indexed: true, name: "trader", type: "address" },
-              { indexed: false, name: "isPayingFixed", type: "bool" },
-              { indexed: false, name: "notional", type: "uint256" },
-              { indexed: false, name: "fixedRate", type: "uint256" },
-              { indexed: false, name: "margin", type: "uint256" },
-              { indexed: false, name: "maturity", type: "uint256" },
-            ],
-          },
-          fromBlock,
-          toBlock: currentBlock,
-        });
-
-        for (const log of openedLogs) {
-          const block = await publicClient.getBlock({ blockNumber: log.blockNumber });
-          allActivities.push({
-            id: `${log.transactionHash}-${log.logIndex}`,
-            type: "opened",
-            positionId: log.args.positionId!,
-            trader: log.args.trader!,
-            timestamp: Number(block.timestamp),
-            blockNumber: log.blockNumber,
-            details: {
-              isPayingFixed: log.args.isPayingFixed,
-              notional: log.args.notional,
-              fixedRate: log.args.fixedRate,
-              margin: log.args.margin,
-            },
-          });
-        }
-
-        // Fetch PositionSettled events
-        const settledLogs = await publicClient.getLogs({
-          address: contracts.positionManager,
-          event: {
-            type: "event",
-            name: "PositionSettled",
-            inputs: [
-              { indexed: true, name: "positionId", type: "uint256" },
-              { indexed: false, name: "settlementAmount", type: "int256" },
-              { indexed: false, name: "newMargin", type: "int256" },
-            ],
-          },
-          fromBlock,
-          toBlock: currentBlock,
-        });
-
-        for (const log of settledLogs) {
-          const block = await publicClient.getBlock({ blockNumber: log.blockNumber });
-          allActivities.push({
-            id: `${log.transactionHash}-${log.logIndex}`,
-            type: "settled",
-            positionId: log.args.positionId!,
-            trader: "",
-            timestamp: Number(block.timestamp),
-            blockNumber: log.blockNumber,
-            details: {
-              settlementAmount: log.args.settlementAmount,
-              newMargin: log.args.newMargin,
-            },
-          });
-        }
-
-        // Sort by timestamp descending
-        allActivities.sort((a, b) => b.timestamp - a.timestamp);
-        setActivities(allActivities.slice(0, 20)); // Show last 20
-      } catch (e) {
-        console.error("Error fetching events:", e);
-      }
-
-      setLoading(false);
+  const { events, loading } = useIndexedEvents(contracts);
+
+  const activities = useMemo<Activity[]>(() => {
+    const recent: Activity[] = [];
+    // Events are oldest first; walk back from the newest
+    for (let i = events.length - 1; i >= 0 && recent.length < MAX_ACTIVITIES; i--) {
+      const activity = toActivity(events[i]);
+      if (activity) recent.push(activity);
     }
-
-    fetchEvents();
-  }, [publicClient, contracts.positionManager]);
+    return recent;
+  }, [events]);
 
   const formatAmount = (amount: bigint) => {
     return "$" + Number(formatUnits(amount, 6)).toLocaleString();
@@ -199,16 +145,17 @@ export function ActivityFeed({ contracts }: Props) {
                 <div className="text-sm text-gray-500 dark:text-gray-400 mt-1">
                   {activity.type === "opened" && (
                     <>
-                      {(activity.details.isPayingFixed as boolean) ? "Pay Fixed" : "Pay Floating"} •{" "}
-                      {formatAmount(activity.details.notional as bigint)} notional •{" "}
-                      {formatRate(activity.details.fixedRate as bigint)} fixed
+                      {activity.isPayingFixed ? "Pay Fixed" : "Pay Floating"} •{" "}
+                      {formatAmount(activity.notional)} notional •{" "}
+                      {formatRate(activity.fixedRate)} fixed
                     </>
                   )}
                   {activity.type === "settled" && (
                     <>
-                      Settlement: {formatAmount(BigInt(Math.abs(Number(activity.details.settlementAmount))))}
+                      Settlement: {formatAmount(activity.settlementAmount < BigInt(0) ? -activity.settlementAmount : activity.settlementAmount)}
                     </>
                   )}
+                  {activity.type === "margin" && <>Amount: {formatAmount(activity.amount)}</>}
                 </div>
                 {activity.trader && (
                   <div className="text-xs text-gray-400 dark:text-gray-500 mt-1">
@@ -17,6 +17,8 @@ import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/Card";
 import { StatCardSkeleton, ChartSkeleton, PositionSkeleton } from "@/components/ui/Skeleton";
 import { formatUSD, formatRate, formatNumber, cn } from "@/lib/utils";
 import { RATE_ORACLE_ABI, POSITION_MANAGER_ABI } from "@/lib/abis";
+import { POSITION_EVENTS } from "@/lib/eventIndexer";
+import { useLiveEvents } from "@/hooks/useLiveEvents";
 import { PortfolioSummary } from "./PortfolioSummary";
 import { RateChart } from "./RateChart";
 import { PositionBreakdown } from "./PositionBreakdown";
@@ -27,6 +29,11 @@ interface DashboardOverviewProps {
     rateOracle: `0x${string}`;
     marginEngine: `0x${string}`;
     settlementEngine: `0x${string}`;
+    liquidationEngine: `0x${string}`;
+    orderBook: `0x${string}`;
+    automation: `0x${string}`;
+    irsGovernor: `0x${string}`;
+    usdc: `0x${string}`;
   };
 }
 
@@ -42,18 +49,23 @@ export function DashboardOverview({ contracts }: DashboardOverviewProps) {
     functionName: "getCurrentRate",
   });
 
-  const { data: totalMargin, isLoading: marginLoading } = useReadContract({
+  const { data: totalMargin, isLoading: marginLoading, refetch: refetchMargin } = useReadContract({
     address: contracts.positionManager,
     abi: POSITION_MANAGER_ABI,
     functionName: "totalMargin",
   });
 
-  const { data: activePositions, isLoading: positionsLoading } = useReadContract({
+  const { data: activePositions, isLoading: positionsLoading, refetch: refetchActive } = useReadContract({
     address: contracts.positionManager,
     abi: POSITION_MANAGER_ABI,
     functionName: "activePositionCount",
   });
 
+  useLiveEvents(contracts, POSITION_EVENTS, () => {
+    refetchMargin();
+    refetchActive();
+  });
+
   // Simulate loading
   useEffect(() => {
     const timer = setTimeout(() => setIsLoading(false), 1500);
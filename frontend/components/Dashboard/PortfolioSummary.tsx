@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { motion } from "framer-motion";
-import { useReadContract, usePublicClient } from "wagmi";
+import { usePublicClient } from "wagmi";
 import { formatUnits } from "viem";
 import {
   Wallet,
@@ -21,13 +21,19 @@ import {
   getHealthBgColor,
   cn,
 } from "@/lib/utils";
-import { POSITION_MANAGER_ABI, MARGIN_ENGINE_ABI, SETTLEMENT_ENGINE_ABI } from "@/lib/abis";
+import { MARGIN_ENGINE_ABI, SETTLEMENT_ENGINE_ABI } from "@/lib/abis";
+import { useUserPositions } from "@/hooks/useUserPositions";
 
 interface PortfolioSummaryProps {
   contracts: {
     positionManager: `0x${string}`;
     marginEngine: `0x${string}`;
     settlementEngine: `0x${string}`;
+    liquidationEngine: `0x${string}`;
+    orderBook: `0x${string}`;
+    automation: `0x${string}`;
+    rateOracle: `0x${string}`;
+    irsGovernor: `0x${string}`;
   };
   userAddress?: `0x${string}`;
 }
@@ -59,72 +65,19 @@ export function PortfolioSummary({ contracts, userAddress }: PortfolioSummaryPro
 
   const publicClient = usePublicClient();
 
-  // Get next position ID to know how many positions exist
-  const { data: nextPositionId } = useReadContract({
-    address: contracts.positionManager,
-    abi: POSITION_MANAGER_ABI,
-    functionName: "nextPositionId",
-  });
+  // The wallet's positions, shared with the positions list and breakdown
+  const { positions, loading: positionsLoading } = useUserPositions(contracts, userAddress);
 
   const fetchPortfolioData = useCallback(async () => {
-    if (!nextPositionId || !publicClient || !userAddress) {
+    if (!publicClient || !userAddress) {
       setPortfolioStats(prev => ({ ...prev, isLoading: false }));
       return;
     }
+    if (positionsLoading) return;
 
     try {
-      const positionCount = Number(nextPositionId);
-      if (positionCount === 0) {
-        setPortfolioStats(prev => ({ ...prev, isLoading: false }));
-        return;
-      }
-
-      // Batch fetch all positions
-      const positionCalls = [];
-      for (let i = 0; i < positionCount; i++) {
-        positionCalls.push({
-          address: contracts.positionManager,
-          abi: POSITION_MANAGER_ABI,
-          functionName: "positions",
-          args: [BigInt(i)],
-        });
-      }
-
-      const positionsData = await publicClient.multicall({
-        contracts: positionCalls as any,
-        allowFailure: true,
-      });
-
-      // Filter user's active positions
-      const userPositionIds: bigint[] = [];
-      const userPositions: {
-        id: bigint;
-        isPayingFixed: boolean;
-        notional: bigint;
-        margin: bigint;
-        accumulatedPnL: bigint;
-      }[] = [];
-
-      for (let i = 0; i < positionsData.length; i++) {
-        const result = positionsData[i];
-        if (result.status === "success" && result.result) {
-          // ABI order: trader, isPayingFixed, startTime, maturity, isActive, notional, margin, fixedRate, accumulatedPnL, lastSettlement, _reserved
-          const [trader, isPayingFixed, startTime, maturity, isActive, notional, margin, fixedRate, accumulatedPnL] = result.result as [
-            string, boolean, bigint, bigint, boolean, bigint, bigint, bigint, bigint
-          ];
-
-          if (trader.toLowerCase() === userAddress.toLowerCase() && isActive) {
-            userPositionIds.push(BigInt(i));
-            userPositions.push({
-              id: BigInt(i),
-              isPayingFixed,
-              notional,
-              margin,
-              accumulatedPnL,
-            });
-          }
-        }
-      }
+      const userPositions = positions.filter((p) => p.isActive);
+      const userPositionIds = userPositions.map((p) => p.id);
 
       if (userPositions.length === 0) {
         setPortfolioStats({
@@ -219,7 +172,7 @@ export function PortfolioSummary({ contracts, userAddress }: PortfolioSummaryPro
       console.error("Error fetching portfolio data:", error);
       setPortfolioStats(prev => ({ ...prev, isLoading: false }));
     }
-  }, [nextPositionId, publicClient, contracts, userAddress]);
+  }, [positions, positionsLoading, publicClient, contracts, userAddress]);
 
   useEffect(() => {
     fetchPortfolioData();
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { usePublicClient, useReadContract, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
+import { usePublicClient, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
 import { formatUnits } from "viem";
 import {
   BarChart3,
@@ -17,13 +17,15 @@ import {
 } from "lucide-react";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/Card";
 import { PositionSkeleton } from "@/components/ui/Skeleton";
-import { POSITION_MANAGER_ABI, SETTLEMENT_ENGINE_ABI, MARGIN_ENGINE_ABI } from "@/lib/abis";
+import { SETTLEMENT_ENGINE_ABI, MARGIN_ENGINE_ABI } from "@/lib/abis";
 import {
   formatUSD,
   formatTimeRemaining,
   getHealthColor,
   cn,
 } from "@/lib/utils";
+import { StopLossControl } from "@/components/StopLossControl";
+import { useUserPositions } from "@/hooks/useUserPositions";
 
 interface Position {
   id: bigint;
@@ -47,6 +49,12 @@ interface PositionBreakdownProps {
     positionManager: `0x${string}`;
     marginEngine: `0x${string}`;
     settlementEngine: `0x${string}`;
+    liquidationEngine: `0x${string}`;
+    orderBook: `0x${string}`;
+    automation: `0x${string}`;
+    rateOracle: `0x${string}`;
+    irsGovernor: `0x${string}`;
+    usdc: `0x${string}`;
   };
   userAddress: `0x${string}`;
 }
@@ -58,90 +66,27 @@ export function PositionBreakdown({ contracts, userAddress }: PositionBreakdownP
   const [sortBy, setSortBy] = useState<"pnl" | "maturity" | "health">("pnl");
   const publicClient = usePublicClient();
 
-  // Get next position ID
-  const { data: nextPositionId, refetch: refetchNextId } = useReadContract({
-    address: contracts.positionManager,
-    abi: POSITION_MANAGER_ABI,
-    functionName: "nextPositionId",
-  });
+  // The wallet's positions, shared with the positions list and portfolio summary
+  const {
+    positions: owned,
+    loading: ownedLoading,
+    refetch: refetchOwned,
+  } = useUserPositions(contracts, userAddress);
 
   const { writeContract, isPending, data: hash } = useWriteContract();
   const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
 
   const fetchPositions = useCallback(async () => {
-    if (!publicClient || !userAddress) return;
-
-    if (!nextPositionId || nextPositionId === BigInt(0)) {
-      setPositions([]);
-      setLoading(false);
-      return;
-    }
+    if (!publicClient || !userAddress || ownedLoading) return;
 
     setLoading(true);
 
     try {
-      // Build array of position IDs
-      const positionIds = Array.from(
-        { length: Number(nextPositionId) },
-        (_, i) => BigInt(i)
-      );
-
-      // Batch fetch all positions
-      const positionCalls = positionIds.map((id) => ({
-        address: contracts.positionManager,
-        abi: POSITION_MANAGER_ABI,
-        functionName: "positions" as const,
-        args: [id] as const,
-      }));
-
-      const positionsData = await publicClient.multicall({
-        contracts: positionCalls,
-        allowFailure: true,
-      });
-
-      // Parse and filter user's active positions
-      const userPositions: Position[] = [];
-      const activePositionIds: bigint[] = [];
-
-      for (let i = 0; i < positionsData.length; i++) {
-        const result = positionsData[i];
-        if (result.status === "failure") continue;
-
-        const data = result.result as [string, boolean, number, number, boolean, bigint, bigint, bigint, bigint, number, bigint];
-        const [trader, isPayingFixed, startTime, maturity, isActive, notional, margin, fixedRate, accumulatedPnL, lastSettlement] = data;
-
-        // Debug logging
-        console.log(`Position ${i}:`, {
-          trader,
-          isPayingFixed,
-          isActive,
-          notional: notional.toString(),
-          margin: margin.toString(),
-          accumulatedPnL: accumulatedPnL.toString(),
-          userAddress,
-        });
-
-        // Only include user's active positions
-        if (trader.toLowerCase() === userAddress.toLowerCase() && isActive) {
-          userPositions.push({
-            id: BigInt(i),
-            trader,
-            isPayingFixed,
-            startTime: Number(startTime),
-            maturity: Number(maturity),
-            isActive,
-            notional,
-            margin,
-            fixedRate,
-            accumulatedPnL,
-            lastSettlement: Number(lastSettlement),
-            pendingPnL: BigInt(0),
-            canSettle: false,
-            healthFactor: 2.0, // Default, will be updated
-          });
-          activePositionIds.push(BigInt(i));
-        }
-      }
+      // Only the user's active positions
+      const userPositions: Position[] = owned
+        .filter((p) => p.isActive)
+        .map((p) => ({ ...p, pendingPnL: BigInt(0), canSettle: false, healthFactor: 2.0 }));
+      const activePositionIds = userPositions.map((p) => p.id);
 
       // Fetch settlement and health data for user's positions
       if (activePositionIds.length > 0) {
@@ -206,7 +151,7 @@ export function PositionBreakdown({ contracts, userAddress }: PositionBreakdownP
     } finally {
       setLoading(false);
     }
-  }, [nextPositionId, publicClient, contracts, userAddress]);
+  }, [owned, ownedLoading, publicClient, contracts, userAddress]);
 
   useEffect(() => {
     fetchPositions();
@@ -214,9 +159,9 @@ export function PositionBreakdown({ contracts, userAddress }: PositionBreakdownP
 
   useEffect(() => {
     if (isConfirmed) {
-      refetchNextId();
+      refetchOwned();
     }
-  }, [isConfirmed, refetchNextId]);
+  }, [isConfirmed, refetchOwned]);
 
   const handleSettle = (positionId: bigint) => {
     writeContract({
@@ -282,7 +227,7 @@ export function PositionBreakdown({ contracts, userAddress }: PositionBreakdownP
         </CardTitle>
         <div className="flex items-center gap-3">
           <button
-            onClick={() => refetchNextId()}
+            onClick={() => refetchOwned()}
             className="p-2 rounded-lg hover:bg-white/5 transition-colors"
             title="Refresh"
           >
@@ -478,6 +423,17 @@ export function PositionBreakdown({ contracts, userAddress }: PositionBreakdownP
                             )}
                           </div>
 
+                          {/* Stop-Loss */}
+                          <div className="mt-4">
+                            <StopLossControl
+                              contracts={contracts}
+                              positionId={position.id}
+                              notional={position.notional}
+                              currentPnL={position.accumulatedPnL + position.pendingPnL}
+                              variant="glass"
+                            />
+                          </div>
+
                           {/* Actions */}
                           <div className="flex gap-3 mt-4">
                             {position.canSettle && (
@@ -1,37 +1,28 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useMemo } from "react";
 import { motion } from "framer-motion";
 import { useReadContract } from "wagmi";
-import { TrendingUp, Clock, ChevronDown } from "lucide-react";
+import { TrendingUp } from "lucide-react";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/Card";
-import { formatRate, cn } from "@/lib/utils";
+import { formatTimestamp, cn } from "@/lib/utils";
 import { RATE_ORACLE_ABI } from "@/lib/abis";
+import type { IndexerContracts } from "@/lib/eventIndexer";
+import { useRateHistory, RATE_RANGE_SECONDS, type RateRange, type RatePoint } from "@/hooks/useRateHistory";
 
 interface RateChartProps {
-  contracts: {
-    rateOracle: `0x${string}`;
-  };
+  contracts: IndexerContracts;
 }
 
-type TimeRange = "1H" | "24H" | "7D" | "30D";
+type TimeRange = RateRange;
 
-// Generate mock historical data for visualization
-function generateMockRateHistory(currentRate: number, points: number, volatility: number): number[] {
-  const history: number[] = [];
-  let rate = currentRate * (0.8 + Math.random() * 0.2);
-
-  for (let i = 0; i < points; i++) {
-    const change = (Math.random() - 0.5) * volatility;
-    rate = Math.max(0.01, rate + change);
-    history.push(rate);
-  }
-
-  // Ensure last point is close to current rate
-  history[history.length - 1] = currentRate;
-  return history;
+interface ChartPoint extends RatePoint {
+  // Rate carried into the window from an earlier update, or extended to now
+  synthetic?: boolean;
 }
 
+const toRate = (wad: bigint) => Number(wad) / 1e18;
+
 export function RateChart({ contracts }: RateChartProps) {
   const [timeRange, setTimeRange] = useState<TimeRange>("24H");
   const [hoveredPoint, setHoveredPoint] = useState<number | null>(null);
@@ -42,35 +33,63 @@ export function RateChart({ contracts }: RateChartProps) {
     functionName: "getCurrentRate",
   });
 
-  const currentRateNum = currentRate ? Number(currentRate) / 1e18 : 0.05;
+  const { points: history, twaps, source, loading } = useRateHistory(contracts);
+
+  const currentRateNum = currentRate !== undefined ? toRate(currentRate) : undefined;
+  const twap = twaps[timeRange] !== undefined ? toRate(twaps[timeRange]!) : undefined;
+
+  // Oracle rates are a step function: each update holds until the next one
+  const { chartData, windowStart, windowSeconds } = useMemo(() => {
+    const windowSeconds = RATE_RANGE_SECONDS[timeRange];
+    const now = Math.floor(Date.now() / 1000);
+    const windowStart = now - windowSeconds;
+
+    const inWindow: ChartPoint[] = history.filter((p) => p.timestamp >= windowStart);
+    const prior = [...history].reverse().find((p) => p.timestamp < windowStart);
 
-  // Generate chart data based on time range
-  const chartData = useMemo(() => {
-    const points = timeRange === "1H" ? 60 : timeRange === "24H" ? 96 : timeRange === "7D" ? 168 : 720;
-    const volatility = timeRange === "1H" ? 0.001 : timeRange === "24H" ? 0.003 : timeRange === "7D" ? 0.008 : 0.015;
-    return generateMockRateHistory(currentRateNum, points, volatility);
-  }, [currentRateNum, timeRange]);
+    const series: ChartPoint[] = [];
+    if (prior) series.push({ ...prior, timestamp: windowStart, synthetic: true });
+    series.push(...inWindow);
+    if (series.length > 0) {
+      series.push({ ...series[series.length - 1], timestamp: now, synthetic: true });
+    }
 
-  const minRate = Math.min(...chartData);
-  const maxRate = Math.max(...chartData);
+    return { chartData: series, windowStart, windowSeconds };
+  }, [history, timeRange]);
+
+  const updates = chartData.filter((p) => !p.synthetic);
+  const rates = chartData.map((p) => toRate(p.rate));
+  const hasData = rates.length > 0;
+
+  const scaleRates = twap !== undefined ? [...rates, twap] : rates;
+  const minRate = hasData ? Math.min(...scaleRates) : 0;
+  const maxRate = hasData ? Math.max(...scaleRates) : 0;
   const range = maxRate - minRate || 0.01;
 
   // Calculate if rate is up or down
-  const startRate = chartData[0];
-  const endRate = chartData[chartData.length - 1];
+  const startRate = hasData ? rates[0] : 0;
+  const endRate = hasData ? rates[rates.length - 1] : 0;
   const isUp = endRate >= startRate;
-  const changePercent = ((endRate - startRate) / startRate) * 100;
+  const changePercent = startRate > 0 ? ((endRate - startRate) / startRate) * 100 : 0;
 
   // Generate SVG path
   const width = 100;
   const height = 40;
-  const points = chartData.map((rate, i) => {
-    const x = (i / (chartData.length - 1)) * width;
-    const y = height - ((rate - minRate) / range) * height;
-    return `${x},${y}`;
-  });
-  const linePath = `M ${points.join(" L ")}`;
-  const areaPath = `${linePath} L ${width},${height} L 0,${height} Z`;
+  const xOf = (timestamp: number) => ((timestamp - windowStart) / windowSeconds) * width;
+  const yOf = (rate: number) => height - ((rate - minRate) / range) * height;
+  const linePath = chartData
+    .map((p, i) => {
+      const x = xOf(p.timestamp);
+      const y = yOf(rates[i]);
+      if (i === 0) return `M ${x},${y}`;
+      return `H ${x} V ${y}`;
+    })
+    .join(" ");
+  const areaPath = hasData
+    ? `${linePath} L ${width},${height} L ${xOf(chartData[0].timestamp)},${height} Z`
+    : "";
+
+  const hovered = hoveredPoint !== null ? updates[hoveredPoint] : undefined;
 
   const timeRanges: TimeRange[] = ["1H", "24H", "7D", "30D"];
 
@@ -103,7 +122,7 @@ export function RateChart({ contracts }: RateChartProps) {
         <div className="flex items-end justify-between mb-6">
           <div>
             <div className="text-4xl font-bold font-display">
-              {(currentRateNum * 100).toFixed(2)}%
+              {currentRateNum !== undefined ? `${(currentRateNum * 100).toFixed(2)}%` : "--"}
             </div>
             <div className="text-sm text-slate-400 mt-1">Current Floating Rate</div>
           </div>
@@ -130,6 +149,12 @@ export function RateChart({ contracts }: RateChartProps) {
           className="relative h-48 group"
           onMouseLeave={() => setHoveredPoint(null)}
         >
+          {!hasData && (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-500">
+              {loading ? "Loading rate history..." : "No rate updates recorded yet"}
+            </div>
+          )}
+
           {/* Grid Lines */}
           <div className="absolute inset-0 flex flex-col justify-between pointer-events-none">
             {[0, 1, 2, 3].map((i) => (
@@ -181,16 +206,42 @@ export function RateChart({ contracts }: RateChartProps) {
               transition={{ duration: 1, ease: "easeOut" }}
             />
 
+            {/* TWAP Overlay */}
+            {hasData && twap !== undefined && (
+              <line
+                x1={0}
+                x2={width}
+                y1={yOf(twap)}
+                y2={yOf(twap)}
+                stroke="#a78bfa"
+                strokeWidth="0.3"
+                strokeDasharray="1.5 1"
+              />
+            )}
+
+            {/* Update Markers */}
+            {updates.map((p, i) => (
+              <circle
+                key={`${p.timestamp}-${i}`}
+                cx={xOf(p.timestamp)}
+                cy={yOf(toRate(p.rate))}
+                r={hoveredPoint === i ? 1.2 : 0.5}
+                fill={isUp ? "#00ffcc" : "#ef4444"}
+              />
+            ))}
+
             {/* Animated Dot at End */}
-            <motion.circle
-              cx={width}
-              cy={height - ((endRate - minRate) / range) * height}
-              r="1.5"
-              fill={isUp ? "#00ffcc" : "#ef4444"}
-              initial={{ scale: 0 }}
-              animate={{ scale: [1, 1.5, 1] }}
-              transition={{ duration: 2, repeat: Infinity }}
-            />
+            {hasData && (
+              <motion.circle
+                cx={width}
+                cy={yOf(endRate)}
+                r="1.5"
+                fill={isUp ? "#00ffcc" : "#ef4444"}
+                initial={{ scale: 0 }}
+                animate={{ scale: [1, 1.5, 1] }}
+                transition={{ duration: 2, repeat: Infinity }}
+              />
+            )}
           </svg>
 
           {/* Hover Interaction Layer */}
@@ -198,15 +249,20 @@ export function RateChart({ contracts }: RateChartProps) {
             className="absolute inset-0 pl-14 flex"
             onMouseMove={(e) => {
               const rect = e.currentTarget.getBoundingClientRect();
-              const x = (e.clientX - rect.left) / rect.width;
-              const index = Math.floor(x * chartData.length);
-              setHoveredPoint(Math.min(index, chartData.length - 1));
+              if (updates.length === 0) return;
+              const x = ((e.clientX - rect.left) / rect.width) * width;
+              // Snap to the nearest actual oracle update
+              let nearest = 0;
+              updates.forEach((p, i) => {
+                if (Math.abs(xOf(p.timestamp) - x) < Math.abs(xOf(updates[nearest].timestamp) - x)) nearest = i;
+              });
+              setHoveredPoint(nearest);
             }}
           >
-            {hoveredPoint !== null && (
+            {hovered && (
               <motion.div
                 className="absolute top-0 bottom-0 w-px bg-white/30"
-                style={{ left: `${(hoveredPoint / chartData.length) * 100}%` }}
+                style={{ left: `${xOf(hovered.timestamp)}%` }}
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
               />
@@ -214,19 +270,20 @@ export function RateChart({ contracts }: RateChartProps) {
           </div>
 
           {/* Tooltip */}
-          {hoveredPoint !== null && (
+          {hovered && (
             <motion.div
               className="absolute top-2 left-16 glass-card px-3 py-2 text-sm"
               initial={{ opacity: 0, y: 5 }}
               animate={{ opacity: 1, y: 0 }}
             >
-              <div className="font-semibold">{(chartData[hoveredPoint] * 100).toFixed(3)}%</div>
-              <div className="text-xs text-slate-400">
-                {timeRange === "1H" && `${hoveredPoint} min ago`}
-                {timeRange === "24H" && `${Math.floor(hoveredPoint * 15)} min ago`}
-                {timeRange === "7D" && `${Math.floor(hoveredPoint)} hours ago`}
-                {timeRange === "30D" && `${Math.floor(hoveredPoint / 24)} days ago`}
-              </div>
+              <div className="font-semibold">{(toRate(hovered.rate) * 100).toFixed(3)}%</div>
+              <div className="text-xs text-slate-400">{formatTimestamp(hovered.timestamp)}</div>
+              {hovered.blockNumber !== undefined && (
+                <div className="text-xs text-slate-500">
+                  Block #{hovered.blockNumber.toString()}
+                  {hovered.numSources !== undefined && ` • ${hovered.numSources} sources`}
+                </div>
+              )}
             </motion.div>
           )}
         </div>
@@ -239,23 +296,25 @@ export function RateChart({ contracts }: RateChartProps) {
 
         {/* Data Source Note */}
         <div className="mt-2 text-xs text-slate-600 text-center">
-          Current rate is live • Historical data is simulated
+          {source === "observations" ? "Derived from oracle observations" : "From RateUpdated events"} •{" "}
+          {updates.length} update{updates.length === 1 ? "" : "s"} in range
+          {twap !== undefined && <span className="text-violet-400"> • Dashed line: {timeRange} TWAP</span>}
         </div>
 
         {/* Stats Row */}
         <div className="grid grid-cols-3 gap-4 mt-6 pt-6 border-t border-white/5">
           <div>
             <div className="text-xs text-slate-500 mb-1">High</div>
-            <div className="font-semibold text-neon-green">{(maxRate * 100).toFixed(2)}%</div>
+            <div className="font-semibold text-neon-green">{hasData ? `${(Math.max(...rates) * 100).toFixed(2)}%` : "--"}</div>
           </div>
           <div>
             <div className="text-xs text-slate-500 mb-1">Low</div>
-            <div className="font-semibold text-red-400">{(minRate * 100).toFixed(2)}%</div>
+            <div className="font-semibold text-red-400">{hasData ? `${(Math.min(...rates) * 100).toFixed(2)}%` : "--"}</div>
           </div>
           <div>
-            <div className="text-xs text-slate-500 mb-1">Average</div>
-            <div className="font-semibold">
-              {((chartData.reduce((a, b) => a + b, 0) / chartData.length) * 100).toFixed(2)}%
+            <div className="text-xs text-slate-500 mb-1">{timeRange} TWAP</div>
+            <div className="font-semibold text-violet-400">
+              {twap !== undefined ? `${(twap * 100).toFixed(2)}%` : "--"}
             </div>
           </div>
         </div>
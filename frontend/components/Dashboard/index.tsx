@@ -30,6 +30,11 @@ interface DashboardProps {
     rateOracle: `0x${string}`;
     marginEngine: `0x${string}`;
     settlementEngine: `0x${string}`;
+    liquidationEngine: `0x${string}`;
+    orderBook: `0x${string}`;
+    automation: `0x${string}`;
+    irsGovernor: `0x${string}`;
+    usdc: `0x${string}`;
   };
 }
 
@@ -1,86 +1,291 @@
 "use client";
 
-import { useState } from "react";
-import { useAccount } from "wagmi";
+import { useState, useEffect, useCallback } from "react";
+import {
+  useAccount,
+  usePublicClient,
+  useReadContract,
+  useWriteContract,
+  useWaitForTransactionReceipt,
+} from "wagmi";
+import { zeroAddress } from "viem";
+import { IRS_GOVERNOR_ABI } from "@/lib/abis";
+import type { IndexedEventOf } from "@/lib/eventIndexer";
+import { FullStackContracts } from "@/lib/wagmi";
+import { formatTimeRemaining, shortenAddress } from "@/lib/utils";
+import { buildProposalAction, createDraftAction, type DraftAction } from "@/lib/governanceActions";
+import { useToast, parseError } from "./ui/Toast";
+import { ProposalActionEditor, ProposalActionSummary } from "./ProposalActions";
+import { useIndexedEvents } from "@/hooks/useIndexedEvents";
 
 interface GovernancePanelProps {
-  contracts: any;
+  contracts: FullStackContracts;
 }
 
-type ProposalState = "active" | "pending" | "succeeded" | "defeated" | "executed" | "queued";
+type ProposalState =
+  | "pending"
+  | "active"
+  | "canceled"
+  | "defeated"
+  | "succeeded"
+  | "queued"
+  | "expired"
+  | "executed";
+
+// Mirrors IRSGovernor.ProposalState enum order
+const PROPOSAL_STATES: ProposalState[] = [
+  "pending",
+  "active",
+  "canceled",
+  "defeated",
+  "succeeded",
+  "queued",
+  "expired",
+  "executed",
+];
 
 interface Proposal {
-  id: number;
+  id: bigint;
   title: string;
   description: string;
   proposer: string;
   state: ProposalState;
-  forVotes: string;
-  againstVotes: string;
-  abstainVotes: string;
+  forVotes: bigint;
+  againstVotes: bigint;
+  abstainVotes: bigint;
   startTime: number;
   endTime: number;
+  eta: number;
+  hasVoted: boolean;
+  targets: readonly `0x${string}`[];
+  calldatas: readonly `0x${string}`[];
+}
+
+type ProposalCreatedEvent = IndexedEventOf<"irsGovernor", "ProposalCreated">;
+
+// Proposal descriptions are stored as "title\n\nbody"
+function splitDescription(description: string) {
+  const [title, ...rest] = description.split("\n");
+  return { title: title.trim(), body: rest.join("\n").trim() };
 }
 
 export function GovernancePanel({ contracts }: GovernancePanelProps) {
   const { address } = useAccount();
-  const [activeView, setActiveView] = useState<"proposals" | "create" | "delegate">("proposals");
-  const [newProposal, setNewProposal] = useState({
+  const { addToast } = useToast();
+  const publicClient = usePublicClient();
+  const [activeView, setActiveView] = useState<"proposals" | "create" | "parameters">("proposals");
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const [newProposal, setNewProposal] = useState<{
+    title: string;
+    description: string;
+    actions: DraftAction[];
+  }>({
     title: "",
     description: "",
-    target: "",
-    calldata: "",
+    actions: [createDraftAction()],
   });
 
-  // Mock data - would come from contract
-  const governanceStats = {
-    votingPower: "1,000",
-    delegatedTo: "Self",
-    totalProposals: 5,
-    activeProposals: 2,
-    quorum: "4%",
-    votingPeriod: "3 days",
-    timelockDelay: "2 days",
-  };
+  const isDeployed = contracts.irsGovernor !== zeroAddress;
+
+  const { writeContract, data: hash, isPending, error, reset } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+
+  const { data: votingPower, refetch: refetchVotingPower } = useReadContract({
+    address: contracts.irsGovernor,
+    abi: IRS_GOVERNOR_ABI,
+    functionName: "votingPower",
+    args: address ? [address] : undefined,
+    query: { enabled: isDeployed && !!address },
+  });
+
+  const { data: totalVotingPower } = useReadContract({
+    address: contracts.irsGovernor,
+    abi: IRS_GOVERNOR_ABI,
+    functionName: "totalVotingPower",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: proposalThreshold } = useReadContract({
+    address: contracts.irsGovernor,
+    abi: IRS_GOVERNOR_ABI,
+    functionName: "proposalThreshold",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: quorumBps } = useReadContract({
+    address: contracts.irsGovernor,
+    abi: IRS_GOVERNOR_ABI,
+    functionName: "quorumBps",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: votingPeriod } = useReadContract({
+    address: contracts.irsGovernor,
+    abi: IRS_GOVERNOR_ABI,
+    functionName: "votingPeriod",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: votingDelay } = useReadContract({
+    address: contracts.irsGovernor,
+    abi: IRS_GOVERNOR_ABI,
+    functionName: "votingDelay",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: timelockDelay } = useReadContract({
+    address: contracts.irsGovernor,
+    abi: IRS_GOVERNOR_ABI,
+    functionName: "timelockDelay",
+    query: { enabled: isDeployed },
+  });
+
+  const { events } = useIndexedEvents(contracts);
+  const [createdLogs, setCreatedLogs] = useState<ProposalCreatedEvent[]>([]);
+
+  // Only re-read proposals when one is created, not on every indexed event
+  useEffect(() => {
+    const next = events.filter(
+      (e): e is ProposalCreatedEvent => e.contract === "irsGovernor" && e.eventName === "ProposalCreated"
+    );
+    setCreatedLogs((prev) =>
+      prev.length === next.length && prev.every((e, i) => e.id === next[i].id) ? prev : next
+    );
+  }, [events]);
+
+  const fetchProposals = useCallback(async () => {
+    if (!publicClient || !isDeployed) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      if (createdLogs.length === 0) {
+        setProposals([]);
+        return;
+      }
+
+      const ids = createdLogs.map((log) => log.args.proposalId);
+
+      // Batch fetch live proposal data: getProposal, state, eta and the user's vote per proposal
+      const [proposalResults, stateResults, etaResults, votedResults] = await Promise.all([
+        publicClient.multicall({
+          contracts: ids.map((id) => ({
+            address: contracts.irsGovernor,
+            abi: IRS_GOVERNOR_ABI,
+            functionName: "getProposal" as const,
+            args: [id] as const,
+          })),
+          allowFailure: true,
+        }),
+        publicClient.multicall({
+          contracts: ids.map((id) => ({
+            address: contracts.irsGovernor,
+            abi: IRS_GOVERNOR_ABI,
+            functionName: "state" as const,
+            args: [id] as const,
+          })),
+          allowFailure: true,
+        }),
+        publicClient.multicall({
+          contracts: ids.map((id) => ({
+            address: contracts.irsGovernor,
+            abi: IRS_GOVERNOR_ABI,
+            functionName: "proposalEta" as const,
+            args: [id] as const,
+          })),
+          allowFailure: true,
+        }),
+        publicClient.multicall({
+          contracts: ids.map((id) => ({
+            address: contracts.irsGovernor,
+            abi: IRS_GOVERNOR_ABI,
+            functionName: "hasVoted" as const,
+            args: [id, address ?? zeroAddress] as const,
+          })),
+          allowFailure: true,
+        }),
+      ]);
+
+      const parsed: Proposal[] = [];
+      for (let i = 0; i < createdLogs.length; i++) {
+        const log = createdLogs[i];
+        const proposalResult = proposalResults[i];
+        const stateResult = stateResults[i];
+        const etaResult = etaResults[i];
+        const votedResult = votedResults[i];
+
+        if (proposalResult.status === "failure" || stateResult.status === "failure") {
+          console.error(`Error fetching proposal ${ids[i].toString()}`);
+          continue;
+        }
+
+        const [proposer, forVotes, againstVotes, abstainVotes, startTime, endTime] = proposalResult.result;
+        const { title, body } = splitDescription(log.args.description);
+
+        parsed.push({
+          id: ids[i],
+          title: title || `Proposal #${ids[i].toString()}`,
+          description: body,
+          proposer,
+          state: PROPOSAL_STATES[Number(stateResult.result)] ?? "pending",
+          forVotes,
+          againstVotes,
+          abstainVotes,
+          startTime: Number(startTime),
+          endTime: Number(endTime),
+          eta: etaResult.status === "success" ? Number(etaResult.result) : 0,
+          hasVoted: votedResult.status === "success" && votedResult.result,
+          targets: log.args.targets,
+          calldatas: log.args.calldatas,
+        });
+      }
+
+      // Newest first
+      parsed.sort((a, b) => (a.id < b.id ? 1 : -1));
+      setProposals(parsed);
+    } catch (e) {
+      console.error("Error fetching proposals:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [publicClient, isDeployed, contracts.irsGovernor, address, createdLogs]);
+
+  useEffect(() => {
+    fetchProposals();
+  }, [fetchProposals]);
 
-  const proposals: Proposal[] = [
-    {
-      id: 1,
-      title: "Increase Keeper Reward to 15%",
-      description: "Increase keeper rewards from 10% to 15% to incentivize more settlements",
-      proposer: "0x1234...5678",
-      state: "active",
-      forVotes: "125,000",
-      againstVotes: "45,000",
-      abstainVotes: "10,000",
-      startTime: Date.now() - 86400000,
-      endTime: Date.now() + 172800000,
-    },
-    {
-      id: 2,
-      title: "Add Aave V3 Rate Source",
-      description: "Integrate Aave V3 as a new rate source for the oracle",
-      proposer: "0xabcd...efgh",
-      state: "succeeded",
-      forVotes: "200,000",
-      againstVotes: "25,000",
-      abstainVotes: "5,000",
-      startTime: Date.now() - 604800000,
-      endTime: Date.now() - 432000000,
-    },
-    {
-      id: 3,
-      title: "Reduce Liquidation Bonus",
-      description: "Reduce liquidation bonus from 5% to 3% to protect borrowers",
-      proposer: "0x9876...5432",
-      state: "defeated",
-      forVotes: "50,000",
-      againstVotes: "150,000",
-      abstainVotes: "20,000",
-      startTime: Date.now() - 1209600000,
-      endTime: Date.now() - 1036800000,
-    },
-  ];
+  // Tick once a second for voting and timelock countdowns
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (!isSuccess) return;
+    addToast({ type: "success", title: "Success", message: "Transaction confirmed!" });
+    if (pendingAction === "propose") {
+      setNewProposal({ title: "", description: "", actions: [createDraftAction()] });
+      setActiveView("proposals");
+    }
+    setPendingAction(null);
+    reset();
+    fetchProposals();
+    refetchVotingPower();
+  }, [isSuccess, pendingAction, addToast, reset, fetchProposals, refetchVotingPower]);
+
+  useEffect(() => {
+    if (error) {
+      addToast({ type: "error", title: "Error", message: parseError(error) });
+      setPendingAction(null);
+      reset();
+    }
+  }, [error, addToast, reset]);
 
   const getStateColor = (state: ProposalState) => {
     switch (state) {
@@ -91,6 +296,7 @@ export function GovernancePanel({ contracts }: GovernancePanelProps) {
       case "succeeded":
         return "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400";
       case "defeated":
+      case "canceled":
         return "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400";
       case "executed":
         return "bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400";
@@ -101,35 +307,123 @@ export function GovernancePanel({ contracts }: GovernancePanelProps) {
     }
   };
 
-  const handleVote = async (proposalId: number, support: number) => {
-    console.log("Voting:", { proposalId, support });
-    // Would call IRSGovernor.castVote()
+  const handleVote = (proposalId: bigint, support: number) => {
+    setPendingAction(`vote-${proposalId.toString()}`);
+    writeContract({
+      address: contracts.irsGovernor,
+      abi: IRS_GOVERNOR_ABI,
+      functionName: "castVote",
+      args: [proposalId, support],
+    });
+  };
+
+  const handleQueue = (proposalId: bigint) => {
+    setPendingAction(`queue-${proposalId.toString()}`);
+    writeContract({
+      address: contracts.irsGovernor,
+      abi: IRS_GOVERNOR_ABI,
+      functionName: "queue",
+      args: [proposalId],
+    });
   };
 
-  const handleCreateProposal = async () => {
-    console.log("Creating proposal:", newProposal);
-    // Would call IRSGovernor.propose()
+  const handleExecute = (proposalId: bigint) => {
+    setPendingAction(`execute-${proposalId.toString()}`);
+    writeContract({
+      address: contracts.irsGovernor,
+      abi: IRS_GOVERNOR_ABI,
+      functionName: "execute",
+      args: [proposalId],
+    });
+  };
+
+  let builtActions: { target: `0x${string}`; calldata: `0x${string}` }[] | null = null;
+  try {
+    builtActions = newProposal.actions.map((draft) => buildProposalAction(draft, contracts));
+  } catch {
+    builtActions = null;
+  }
+
+  const canPropose =
+    newProposal.title.trim().length > 0 &&
+    builtActions !== null &&
+    builtActions.length > 0 &&
+    votingPower !== undefined &&
+    proposalThreshold !== undefined &&
+    votingPower >= proposalThreshold;
+
+  const handleCreateProposal = () => {
+    if (!canPropose || !builtActions) return;
+    const description = newProposal.description.trim()
+      ? `${newProposal.title.trim()}\n\n${newProposal.description.trim()}`
+      : newProposal.title.trim();
+
+    setPendingAction("propose");
+    writeContract({
+      address: contracts.irsGovernor,
+      abi: IRS_GOVERNOR_ABI,
+      functionName: "propose",
+      args: [
+        builtActions.map((a) => a.target),
+        builtActions.map(() => BigInt(0)),
+        builtActions.map((a) => a.calldata),
+        description,
+      ],
+    });
   };
 
+  const isWorking = isPending || isConfirming;
+
+  const formatVotes = (votes: bigint | undefined) => {
+    if (votes === undefined) return "...";
+    return Number(votes).toLocaleString();
+  };
+
+  const formatDuration = (seconds: bigint | undefined) => {
+    if (seconds === undefined) return "...";
+    return formatTimeRemaining(Number(seconds));
+  };
+
+  const votePercent = (votes: bigint, proposal: Proposal) => {
+    const total = proposal.forVotes + proposal.againstVotes;
+    if (total === BigInt(0)) return 0;
+    return Number((votes * BigInt(10000)) / total) / 100;
+  };
+
+  const activeProposals = proposals.filter((p) => p.state === "active").length;
+
+  if (!isDeployed) {
+    return (
+      <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+        <h2 className="text-lg font-bold mb-2">Governance</h2>
+        <p className="text-sm text-gray-500">
+          The governor contract is not deployed on this network yet.
+        </p>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Stats Cards */}
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
         <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4">
           <div className="text-sm text-gray-500 mb-1">Your Voting Power</div>
-          <div className="text-xl font-bold">{governanceStats.votingPower}</div>
+          <div className="text-xl font-bold">{formatVotes(votingPower)}</div>
         </div>
         <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4">
-          <div className="text-sm text-gray-500 mb-1">Delegated To</div>
-          <div className="text-xl font-bold">{governanceStats.delegatedTo}</div>
+          <div className="text-sm text-gray-500 mb-1">Total Voting Power</div>
+          <div className="text-xl font-bold">{formatVotes(totalVotingPower)}</div>
         </div>
         <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4">
           <div className="text-sm text-gray-500 mb-1">Active Proposals</div>
-          <div className="text-xl font-bold">{governanceStats.activeProposals}</div>
+          <div className="text-xl font-bold">{activeProposals}</div>
         </div>
         <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-4">
           <div className="text-sm text-gray-500 mb-1">Quorum</div>
-          <div className="text-xl font-bold">{governanceStats.quorum}</div>
+          <div className="text-xl font-bold">
+            {quorumBps !== undefined ? `${(Number(quorumBps) / 100).toFixed(2)}%` : "..."}
+          </div>
         </div>
       </div>
 
@@ -137,10 +431,10 @@ export function GovernancePanel({ contracts }: GovernancePanelProps) {
       <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
         {/* Tabs */}
         <div className="flex gap-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1 mb-6 w-fit">
-          {["proposals", "create", "delegate"].map((view) => (
+          {(["proposals", "create", "parameters"] as const).map((view) => (
             <button
               key={view}
-              onClick={() => setActiveView(view as any)}
+              onClick={() => setActiveView(view)}
               className={`px-4 py-2 text-sm font-medium rounded-md capitalize transition-colors ${
                 activeView === view
                   ? "bg-white dark:bg-gray-700 shadow-sm"
@@ -155,91 +449,146 @@ export function GovernancePanel({ contracts }: GovernancePanelProps) {
         {/* Proposals List */}
         {activeView === "proposals" && (
           <div className="space-y-4">
-            {proposals.map((proposal) => (
-              <div
-                key={proposal.id}
-                className="border border-gray-200 dark:border-gray-700 rounded-lg p-4"
-              >
-                <div className="flex items-start justify-between mb-3">
-                  <div>
-                    <div className="flex items-center gap-2 mb-1">
-                      <span className="text-sm text-gray-500">#{proposal.id}</span>
-                      <span
-                        className={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${getStateColor(
-                          proposal.state
-                        )}`}
-                      >
-                        {proposal.state}
-                      </span>
+            {loading ? (
+              <div className="text-center py-8 text-gray-500">Loading proposals...</div>
+            ) : proposals.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">No proposals yet</div>
+            ) : (
+              proposals.map((proposal) => {
+                const id = proposal.id.toString();
+                const isThisPending = isWorking && pendingAction?.endsWith(`-${id}`);
+                const etaReached = proposal.eta > 0 && now >= proposal.eta;
+
+                return (
+                  <div
+                    key={id}
+                    className="border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+                  >
+                    <div className="flex items-start justify-between mb-3">
+                      <div>
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="text-sm text-gray-500">#{id}</span>
+                          <span
+                            className={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${getStateColor(
+                              proposal.state
+                            )}`}
+                          >
+                            {proposal.state}
+                          </span>
+                          {proposal.hasVoted && (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+                              Voted
+                            </span>
+                          )}
+                        </div>
+                        <h3 className="font-medium">{proposal.title}</h3>
+                        {proposal.description && (
+                          <p className="text-sm text-gray-500 mt-1 whitespace-pre-line">
+                            {proposal.description}
+                          </p>
+                        )}
+                        <p className="text-xs text-gray-400 mt-1">
+                          by {shortenAddress(proposal.proposer)}
+                        </p>
+                      </div>
+                      <div className="text-right text-xs text-gray-500 shrink-0">
+                        {proposal.state === "pending" && (
+                          <span>Voting starts in {formatTimeRemaining(proposal.startTime - now)}</span>
+                        )}
+                        {proposal.state === "active" && (
+                          <span>Ends in {formatTimeRemaining(proposal.endTime - now)}</span>
+                        )}
+                        {proposal.state === "queued" && (
+                          <span>
+                            {etaReached ? "Ready to execute" : `Executable in ${formatTimeRemaining(proposal.eta - now)}`}
+                          </span>
+                        )}
+                      </div>
                     </div>
-                    <h3 className="font-medium">{proposal.title}</h3>
-                    <p className="text-sm text-gray-500 mt-1">{proposal.description}</p>
-                  </div>
-                </div>
 
-                {/* Vote Progress */}
-                <div className="mb-4">
-                  <div className="flex justify-between text-xs text-gray-500 mb-1">
-                    <span>For: {proposal.forVotes}</span>
-                    <span>Against: {proposal.againstVotes}</span>
-                  </div>
-                  <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden flex">
-                    <div
-                      className="h-full bg-green-500"
-                      style={{
-                        width: `${
-                          (parseInt(proposal.forVotes.replace(/,/g, "")) /
-                            (parseInt(proposal.forVotes.replace(/,/g, "")) +
-                              parseInt(proposal.againstVotes.replace(/,/g, "")))) *
-                          100
-                        }%`,
-                      }}
-                    />
-                    <div
-                      className="h-full bg-red-500"
-                      style={{
-                        width: `${
-                          (parseInt(proposal.againstVotes.replace(/,/g, "")) /
-                            (parseInt(proposal.forVotes.replace(/,/g, "")) +
-                              parseInt(proposal.againstVotes.replace(/,/g, "")))) *
-                          100
-                        }%`,
-                      }}
+                    <ProposalActionSummary
+                      targets={proposal.targets}
+                      calldatas={proposal.calldatas}
+                      contracts={contracts}
                     />
-                  </div>
-                </div>
-
-                {/* Vote Buttons */}
-                {proposal.state === "active" && (
-                  <div className="flex gap-2">
-                    <button
-                      onClick={() => handleVote(proposal.id, 1)}
-                      className="flex-1 py-2 bg-green-500 hover:bg-green-600 text-white text-sm font-medium rounded-lg transition-colors"
-                    >
-                      For
-                    </button>
-                    <button
-                      onClick={() => handleVote(proposal.id, 0)}
-                      className="flex-1 py-2 bg-red-500 hover:bg-red-600 text-white text-sm font-medium rounded-lg transition-colors"
-                    >
-                      Against
-                    </button>
-                    <button
-                      onClick={() => handleVote(proposal.id, 2)}
-                      className="flex-1 py-2 bg-gray-500 hover:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors"
-                    >
-                      Abstain
-                    </button>
-                  </div>
-                )}
 
-                {proposal.state === "succeeded" && (
-                  <button className="w-full py-2 bg-purple-500 hover:bg-purple-600 text-white text-sm font-medium rounded-lg transition-colors">
-                    Queue for Execution
-                  </button>
-                )}
-              </div>
-            ))}
+                    {/* Vote Progress */}
+                    <div className="mb-4">
+                      <div className="flex justify-between text-xs text-gray-500 mb-1">
+                        <span>For: {formatVotes(proposal.forVotes)}</span>
+                        <span>Abstain: {formatVotes(proposal.abstainVotes)}</span>
+                        <span>Against: {formatVotes(proposal.againstVotes)}</span>
+                      </div>
+                      <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden flex">
+                        <div
+                          className="h-full bg-green-500"
+                          style={{ width: `${votePercent(proposal.forVotes, proposal)}%` }}
+                        />
+                        <div
+                          className="h-full bg-red-500"
+                          style={{ width: `${votePercent(proposal.againstVotes, proposal)}%` }}
+                        />
+                      </div>
+                    </div>
+
+                    {/* Vote Buttons */}
+                    {proposal.state === "active" && !proposal.hasVoted && (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleVote(proposal.id, 1)}
+                          disabled={isWorking || !votingPower}
+                          className="flex-1 py-2 bg-green-500 hover:bg-green-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          {isThisPending ? "..." : "For"}
+                        </button>
+                        <button
+                          onClick={() => handleVote(proposal.id, 0)}
+                          disabled={isWorking || !votingPower}
+                          className="flex-1 py-2 bg-red-500 hover:bg-red-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          {isThisPending ? "..." : "Against"}
+                        </button>
+                        <button
+                          onClick={() => handleVote(proposal.id, 2)}
+                          disabled={isWorking || !votingPower}
+                          className="flex-1 py-2 bg-gray-500 hover:bg-gray-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          {isThisPending ? "..." : "Abstain"}
+                        </button>
+                      </div>
+                    )}
+
+                    {proposal.state === "active" && proposal.hasVoted && (
+                      <div className="text-sm text-gray-500 text-center">You have voted on this proposal</div>
+                    )}
+
+                    {proposal.state === "succeeded" && (
+                      <button
+                        onClick={() => handleQueue(proposal.id)}
+                        disabled={isWorking}
+                        className="w-full py-2 bg-purple-500 hover:bg-purple-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        {isThisPending ? "Queueing..." : "Queue for Execution"}
+                      </button>
+                    )}
+
+                    {proposal.state === "queued" && (
+                      <button
+                        onClick={() => handleExecute(proposal.id)}
+                        disabled={isWorking || !etaReached}
+                        className="w-full py-2 bg-indigo-500 hover:bg-indigo-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        {isThisPending
+                          ? "Executing..."
+                          : etaReached
+                          ? "Execute"
+                          : `Timelocked (${formatTimeRemaining(proposal.eta - now)})`}
+                      </button>
+                    )}
+                  </div>
+                );
+              })
+            )}
           </div>
         )}
 
@@ -267,64 +616,52 @@ export function GovernancePanel({ contracts }: GovernancePanelProps) {
               />
             </div>
             <div>
-              <label className="block text-sm font-medium mb-2">Target Contract</label>
-              <input
-                type="text"
-                value={newProposal.target}
-                onChange={(e) => setNewProposal({ ...newProposal, target: e.target.value })}
-                placeholder="0x..."
-                className="w-full px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg font-mono"
-              />
-            </div>
-            <div>
-              <label className="block text-sm font-medium mb-2">Calldata</label>
-              <input
-                type="text"
-                value={newProposal.calldata}
-                onChange={(e) => setNewProposal({ ...newProposal, calldata: e.target.value })}
-                placeholder="0x..."
-                className="w-full px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg font-mono"
+              <label className="block text-sm font-medium mb-2">Actions</label>
+              <ProposalActionEditor
+                actions={newProposal.actions}
+                contracts={contracts}
+                onChange={(actions) => setNewProposal({ ...newProposal, actions })}
               />
             </div>
             <button
               onClick={handleCreateProposal}
-              className="w-full py-3 bg-gradient-to-r from-indigo-500 to-purple-500 text-white font-medium rounded-lg hover:opacity-90 transition-opacity"
+              disabled={isWorking || !canPropose}
+              className="w-full py-3 bg-gradient-to-r from-indigo-500 to-purple-500 text-white font-medium rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Create Proposal
+              {isWorking && pendingAction === "propose" ? "Creating..." : "Create Proposal"}
             </button>
             <p className="text-sm text-gray-500 text-center">
-              Requires {governanceStats.votingPower} voting power to create a proposal
+              Requires {formatVotes(proposalThreshold)} voting power to create a proposal (you have{" "}
+              {formatVotes(votingPower)})
             </p>
           </div>
         )}
 
-        {/* Delegate */}
-        {activeView === "delegate" && (
+        {/* Parameters */}
+        {activeView === "parameters" && (
           <div className="space-y-4">
-            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
-              <div className="text-sm text-gray-500 mb-1">Current Delegation</div>
-              <div className="font-medium">{governanceStats.delegatedTo}</div>
-            </div>
-            <div>
-              <label className="block text-sm font-medium mb-2">Delegate To</label>
-              <input
-                type="text"
-                placeholder="0x... or ENS name"
-                className="w-full px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg font-mono"
-              />
-            </div>
-            <div className="grid grid-cols-2 gap-3">
-              <button className="py-3 bg-gradient-to-r from-indigo-500 to-purple-500 text-white font-medium rounded-lg hover:opacity-90 transition-opacity">
-                Delegate
-              </button>
-              <button className="py-3 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">
-                Self Delegate
-              </button>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+                <div className="text-sm text-gray-500 mb-1">Voting Delay</div>
+                <div className="font-medium">{formatDuration(votingDelay)}</div>
+              </div>
+              <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+                <div className="text-sm text-gray-500 mb-1">Voting Period</div>
+                <div className="font-medium">{formatDuration(votingPeriod)}</div>
+              </div>
+              <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+                <div className="text-sm text-gray-500 mb-1">Timelock Delay</div>
+                <div className="font-medium">{formatDuration(timelockDelay)}</div>
+              </div>
+              <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+                <div className="text-sm text-gray-500 mb-1">Proposal Threshold</div>
+                <div className="font-medium">{formatVotes(proposalThreshold)}</div>
+              </div>
             </div>
             <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg text-sm text-blue-700 dark:text-blue-300">
               <p>
-                Delegating your voting power allows another address to vote on your behalf.
-                You can reclaim it at any time by self-delegating.
+                Voting power is assigned by the governor owner. Passed proposals must be queued and
+                wait out the timelock delay before anyone can execute them.
               </p>
             </div>
           </div>
@@ -0,0 +1,250 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { usePublicClient, useReadContract } from "wagmi";
+import { formatUnits, zeroAddress } from "viem";
+import { ArrowRight, Scale } from "lucide-react";
+import { IRS_POOL_ABI, ORDER_BOOK_ABI } from "@/lib/abis";
+import {
+  fillFromBook,
+  recommendHedge,
+  suggestHedgeMaturity,
+  HEDGE_MATURITIES,
+  type RestingOrder,
+} from "@/lib/hedge";
+import type { RiskPosition } from "@/lib/risk";
+import type { WizardPrefill } from "@/hooks/usePositionWizard";
+import { cn, formatRate, formatUSD } from "@/lib/utils";
+
+interface HedgeRecommenderProps {
+  contracts: {
+    irsPool: `0x${string}`;
+    orderBook: `0x${string}`;
+  };
+  positions: RiskPosition[];
+  portfolioDv01: bigint;
+  positionDv01: Map<bigint, bigint>;
+  currentRate: bigint;
+  onHedge?: (prefill: WizardPrefill) => void;
+}
+
+// Wizard minimum margin is 10% of notional
+const MARGIN_RATIO = 0.1;
+
+const toUSD = (amount: bigint) => Number(formatUnits(amount, 6));
+const toPercent = (wad: bigint) => Number(formatUnits(wad, 16));
+
+const formatSignedUSD = (amount: bigint) => `${amount >= BigInt(0) ? "+" : "-"}${formatUSD(Math.abs(toUSD(amount)))}`;
+
+export function HedgeRecommender({
+  contracts,
+  positions,
+  portfolioDv01,
+  positionDv01,
+  currentRate,
+  onHedge,
+}: HedgeRecommenderProps) {
+  const [orders, setOrders] = useState<RestingOrder[]>([]);
+  const [maturityOverride, setMaturityOverride] = useState<number | null>(null);
+  const publicClient = usePublicClient();
+
+  const poolDeployed = contracts.irsPool !== zeroAddress;
+  const bookDeployed = contracts.orderBook !== zeroAddress;
+
+  const suggestedMaturity = useMemo(
+    () => suggestHedgeMaturity(positions, positionDv01, BigInt(Math.floor(Date.now() / 1000))),
+    [positions, positionDv01]
+  );
+  const maturityDays = maturityOverride ?? suggestedMaturity;
+
+  const hedge = useMemo(
+    () => recommendHedge(portfolioDv01, currentRate, maturityDays, BigInt(Math.floor(Date.now() / 1000))),
+    [portfolioDv01, currentRate, maturityDays]
+  );
+
+  const { data: poolQuote, isError: poolQuoteFailed } = useReadContract({
+    address: contracts.irsPool,
+    abi: IRS_POOL_ABI,
+    functionName: "getQuote",
+    args: hedge ? [hedge.isPayingFixed, hedge.notional] : undefined,
+    query: { enabled: poolDeployed && !!hedge },
+  });
+
+  const fetchOrders = useCallback(async () => {
+    if (!publicClient || !bookDeployed) return;
+
+    try {
+      const [payFixedIds, payFloatingIds] = await publicClient.readContract({
+        address: contracts.orderBook,
+        abi: ORDER_BOOK_ABI,
+        functionName: "getActiveOrders",
+      });
+      const ids = [...payFixedIds, ...payFloatingIds];
+      if (ids.length === 0) {
+        setOrders([]);
+        return;
+      }
+
+      const results = await publicClient.multicall({
+        contracts: ids.map((id) => ({
+          address: contracts.orderBook,
+          abi: ORDER_BOOK_ABI,
+          functionName: "getOrder" as const,
+          args: [id] as const,
+        })),
+        allowFailure: true,
+      });
+
+      setOrders(
+        results.flatMap((result, i) => {
+          if (result.status === "failure" || !result.result.isActive) return [];
+          const order = result.result;
+          return [
+            {
+              id: ids[i],
+              isPayingFixed: order.isPayingFixed,
+              notional: order.notional,
+              rate: order.isPayingFixed ? order.maxRate : order.minRate,
+              maturityDays: Number(order.maturityDays),
+              expiresAt: Number(order.expiresAt),
+            },
+          ];
+        })
+      );
+    } catch (e) {
+      console.error("Error fetching resting orders:", e);
+    }
+  }, [publicClient, bookDeployed, contracts.orderBook]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  // Auto-refresh every 30 seconds
+  useEffect(() => {
+    const interval = setInterval(fetchOrders, 30000);
+    return () => clearInterval(interval);
+  }, [fetchOrders]);
+
+  const bookFill = useMemo(
+    () =>
+      hedge
+        ? fillFromBook(orders, hedge.isPayingFixed, hedge.maturityDays, hedge.notional, Math.floor(Date.now() / 1000))
+        : null,
+    [orders, hedge]
+  );
+
+  const poolRate = poolQuote ? poolQuote[0] : undefined;
+  const poolFee = poolQuote ? poolQuote[1] : undefined;
+  const bookFullyFilled = !!hedge && !!bookFill && bookFill.filled === hedge.notional;
+
+  // Best venue: lower rate when paying fixed, higher when receiving
+  const bestRate = useMemo(() => {
+    if (!hedge) return undefined;
+    const candidates = [poolRate, bookFullyFilled ? bookFill!.averageRate : undefined].filter(
+      (r): r is bigint => r !== undefined && r > BigInt(0)
+    );
+    if (candidates.length === 0) return currentRate;
+    return candidates.reduce((best, r) => ((hedge.isPayingFixed ? r < best : r > best) ? r : best));
+  }, [hedge, poolRate, bookFill, bookFullyFilled, currentRate]);
+
+  const handlePrefill = () => {
+    if (!hedge || bestRate === undefined || !onHedge) return;
+    const notional = toUSD(hedge.notional);
+    onHedge({
+      isPayingFixed: hedge.isPayingFixed,
+      notional: notional.toString(),
+      fixedRate: toPercent(bestRate).toFixed(2),
+      maturityDays: hedge.maturityDays.toString(),
+      margin: Math.ceil(notional * MARGIN_RATIO).toString(),
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Scale className="w-5 h-5 text-indigo-500" />
+        <h2 className="text-lg font-bold">Hedge</h2>
+      </div>
+
+      {!hedge ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Net DV01 is flat. There is no rate exposure to offset.
+        </p>
+      ) : (
+        <div className="space-y-4 text-sm">
+          <div className="p-3 rounded-lg bg-indigo-50 dark:bg-indigo-900/20">
+            <div className="font-semibold">
+              {hedge.isPayingFixed ? "Pay fixed" : "Receive fixed"} {formatUSD(toUSD(hedge.notional), 0)}
+            </div>
+            <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+              Adds {formatSignedUSD(hedge.dv01)} DV01 against the portfolio&apos;s {formatSignedUSD(portfolioDv01)}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Maturity</div>
+            <div className="flex gap-1">
+              {HEDGE_MATURITIES.map((days) => (
+                <button
+                  key={days}
+                  type="button"
+                  onClick={() => setMaturityOverride(days)}
+                  className={cn(
+                    "flex-1 px-2 py-1 text-xs rounded-md border transition",
+                    maturityDays === days
+                      ? "border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300"
+                      : "border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400"
+                  )}
+                >
+                  {days}d{days === suggestedMaturity ? "*" : ""}
+                </button>
+              ))}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">* matches the portfolio&apos;s DV01-weighted maturity</div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <span className="text-gray-500 dark:text-gray-400">IRS Pool quote</span>
+              <span>
+                {!poolDeployed
+                  ? "Not deployed"
+                  : poolQuoteFailed
+                    ? "No liquidity"
+                    : poolRate !== undefined
+                      ? `${formatRate(poolRate)} (fee ${formatUSD(toUSD(poolFee ?? BigInt(0)))})`
+                      : "..."}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500 dark:text-gray-400">Order book</span>
+              <span>
+                {!bookDeployed
+                  ? "Not deployed"
+                  : bookFill
+                    ? `${formatRate(bookFill.averageRate)} for ${formatUSD(toUSD(bookFill.filled), 0)}`
+                    : "No matching orders"}
+              </span>
+            </div>
+            {bookFill && !bookFullyFilled && (
+              <div className="text-xs text-yellow-700 dark:text-yellow-400">
+                Resting orders cover only part of the hedge at this maturity.
+              </div>
+            )}
+          </div>
+
+          {onHedge && (
+            <button
+              onClick={handlePrefill}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-medium transition"
+            >
+              Open hedge in wizard
+              <ArrowRight className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,483 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  useAccount,
+  usePublicClient,
+  useReadContract,
+  useWriteContract,
+  useWaitForTransactionReceipt,
+} from "wagmi";
+import { formatUnits, parseUnits } from "viem";
+import { POSITION_MANAGER_ABI, SETTLEMENT_ENGINE_ABI } from "@/lib/abis";
+import type { IndexedEventOf } from "@/lib/eventIndexer";
+import { FullStackContracts } from "@/lib/wagmi";
+import { formatTimeRemaining, formatTimestamp } from "@/lib/utils";
+import { useToast, parseError } from "./ui/Toast";
+import { OracleGuardNotice } from "./OracleGuard";
+import { useOracleGuard } from "@/hooks/useOracleGuard";
+import { useIndexedEvents } from "@/hooks/useIndexedEvents";
+
+interface KeeperPanelProps {
+  contracts: FullStackContracts;
+}
+
+interface SettlementCandidate {
+  id: bigint;
+  isPayingFixed: boolean;
+  notional: bigint;
+  pendingPnL: bigint;
+  canSettle: boolean;
+  timeToNext: number;
+  estimatedReward: bigint;
+}
+
+interface RewardRecord {
+  positionId: bigint;
+  reward: bigint;
+  blockNumber: bigint;
+  logIndex: number;
+  timestamp?: number;
+}
+
+const REWARDS_TO_SHOW = 20;
+const WAD = parseUnits("1", 18);
+
+export function KeeperPanel({ contracts }: KeeperPanelProps) {
+  const { address } = useAccount();
+  const { addToast } = useToast();
+  const publicClient = usePublicClient();
+  const [candidates, setCandidates] = useState<SettlementCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isSettling, setIsSettling] = useState(false);
+  const oracleGuard = useOracleGuard(contracts.rateOracle, "settle");
+  const { events, refresh: refreshEvents } = useIndexedEvents(contracts);
+
+  const myRewardEvents = useMemo(
+    () =>
+      events.filter(
+        (e): e is IndexedEventOf<"settlementEngine", "KeeperRewardPaid"> =>
+          e.contract === "settlementEngine" &&
+          e.eventName === "KeeperRewardPaid" &&
+          !!address &&
+          e.args.keeper.toLowerCase() === address.toLowerCase()
+      ),
+    [events, address]
+  );
+
+  const myTotalRewards = useMemo(
+    () => myRewardEvents.reduce((sum, e) => sum + e.args.reward, BigInt(0)),
+    [myRewardEvents]
+  );
+
+  const myRewards = useMemo<RewardRecord[]>(
+    () =>
+      myRewardEvents
+        .slice(-REWARDS_TO_SHOW)
+        .reverse()
+        .map((e) => ({
+          positionId: e.args.positionId,
+          reward: e.args.reward,
+          blockNumber: e.blockNumber,
+          logIndex: e.logIndex,
+          timestamp: e.timestamp,
+        })),
+    [myRewardEvents]
+  );
+
+  const { writeContract, data: hash, isPending, error, reset } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+
+  const { data: nextPositionId, refetch: refetchNextId } = useReadContract({
+    address: contracts.positionManager,
+    abi: POSITION_MANAGER_ABI,
+    functionName: "nextPositionId",
+  });
+
+  const { data: keeperStats, refetch: refetchKeeperStats } = useReadContract({
+    address: contracts.settlementEngine,
+    abi: SETTLEMENT_ENGINE_ABI,
+    functionName: "getKeeperStats",
+  });
+
+  const { data: settlementFee } = useReadContract({
+    address: contracts.settlementEngine,
+    abi: SETTLEMENT_ENGINE_ABI,
+    functionName: "settlementFee",
+  });
+
+  const { data: paused } = useReadContract({
+    address: contracts.settlementEngine,
+    abi: SETTLEMENT_ENGINE_ABI,
+    functionName: "paused",
+  });
+
+  const rewardPercentage = keeperStats ? keeperStats[0] : undefined;
+
+  const fetchCandidates = useCallback(async () => {
+    if (!publicClient || nextPositionId === undefined) return;
+
+    if (nextPositionId === BigInt(0)) {
+      setCandidates([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const positionIds = Array.from({ length: Number(nextPositionId) }, (_, i) => BigInt(i));
+
+      const positionsData = await publicClient.multicall({
+        contracts: positionIds.map((id) => ({
+          address: contracts.positionManager,
+          abi: POSITION_MANAGER_ABI,
+          functionName: "positions" as const,
+          args: [id] as const,
+        })),
+        allowFailure: true,
+      });
+
+      const active: { id: bigint; isPayingFixed: boolean; notional: bigint }[] = [];
+      positionsData.forEach((result, i) => {
+        if (result.status === "failure") return;
+        const [, isPayingFixed, , , isActive, notional] = result.result;
+        if (isActive) active.push({ id: positionIds[i], isPayingFixed, notional });
+      });
+
+      if (active.length === 0) {
+        setCandidates([]);
+        return;
+      }
+
+      const [canSettleResults, pendingResults, timeResults] = await Promise.all([
+        publicClient.multicall({
+          contracts: active.map(({ id }) => ({
+            address: contracts.settlementEngine,
+            abi: SETTLEMENT_ENGINE_ABI,
+            functionName: "canSettle" as const,
+            args: [id] as const,
+          })),
+          allowFailure: true,
+        }),
+        publicClient.multicall({
+          contracts: active.map(({ id }) => ({
+            address: contracts.settlementEngine,
+            abi: SETTLEMENT_ENGINE_ABI,
+            functionName: "getPendingSettlement" as const,
+            args: [id] as const,
+          })),
+          allowFailure: true,
+        }),
+        publicClient.multicall({
+          contracts: active.map(({ id }) => ({
+            address: contracts.settlementEngine,
+            abi: SETTLEMENT_ENGINE_ABI,
+            functionName: "getTimeToNextSettlement" as const,
+            args: [id] as const,
+          })),
+          allowFailure: true,
+        }),
+      ]);
+
+      const parsed: SettlementCandidate[] = active.map((position, i) => {
+        const canSettleResult = canSettleResults[i];
+        const pendingResult = pendingResults[i];
+        const timeResult = timeResults[i];
+        const pendingPnL = pendingResult.status === "success" ? pendingResult.result : BigInt(0);
+
+        // Keepers earn a share of the settlement fee, which is only charged on positive settlements
+        const estimatedReward =
+          pendingPnL > BigInt(0) && settlementFee !== undefined && rewardPercentage !== undefined
+            ? (((pendingPnL * settlementFee) / WAD) * rewardPercentage) / WAD
+            : BigInt(0);
+
+        return {
+          ...position,
+          pendingPnL,
+          canSettle: canSettleResult.status === "success" && canSettleResult.result,
+          timeToNext: timeResult.status === "success" ? Number(timeResult.result) : 0,
+          estimatedReward,
+        };
+      });
+
+      // Settleable first, highest reward first; then soonest upcoming
+      parsed.sort((a, b) => {
+        if (a.canSettle !== b.canSettle) return a.canSettle ? -1 : 1;
+        if (a.canSettle) return a.estimatedReward < b.estimatedReward ? 1 : -1;
+        return a.timeToNext - b.timeToNext;
+      });
+      setCandidates(parsed);
+      setSelected((prev) =>
+        new Set(Array.from(prev).filter((id) => parsed.some((c) => c.canSettle && c.id.toString() === id)))
+      );
+    } catch (e) {
+      console.error("Error fetching settlement candidates:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [
+    publicClient,
+    nextPositionId,
+    contracts.positionManager,
+    contracts.settlementEngine,
+    settlementFee,
+    rewardPercentage,
+  ]);
+
+  useEffect(() => {
+    fetchCandidates();
+  }, [fetchCandidates]);
+
+  // Auto-refresh every 30 seconds
+  useEffect(() => {
+    const interval = setInterval(() => {
+      refetchNextId();
+      fetchCandidates();
+    }, 30000);
+    return () => clearInterval(interval);
+  }, [refetchNextId, fetchCandidates]);
+
+  useEffect(() => {
+    if (!isSuccess || !isSettling) return;
+    addToast({ type: "success", title: "Success", message: "Batch settlement confirmed" });
+    setIsSettling(false);
+    setSelected(new Set());
+    reset();
+    fetchCandidates();
+    refreshEvents();
+    refetchKeeperStats();
+  }, [isSuccess, isSettling, addToast, reset, fetchCandidates, refreshEvents, refetchKeeperStats]);
+
+  useEffect(() => {
+    if (error) {
+      addToast({ type: "error", title: "Error", message: parseError(error) });
+      setIsSettling(false);
+      reset();
+    }
+  }, [error, addToast, reset]);
+
+  const settleable = candidates.filter((c) => c.canSettle);
+  const upcoming = candidates.filter((c) => !c.canSettle);
+  const selectedCandidates = settleable.filter((c) => selected.has(c.id.toString()));
+  const selectedReward = selectedCandidates.reduce((sum, c) => sum + c.estimatedReward, BigInt(0));
+
+  const handleBatchSettle = () => {
+    if (selectedCandidates.length === 0 || !oracleGuard.canProceed) return;
+    setIsSettling(true);
+    writeContract({
+      address: contracts.settlementEngine,
+      abi: SETTLEMENT_ENGINE_ABI,
+      functionName: "batchSettle",
+      args: [selectedCandidates.map((c) => c.id)],
+    });
+  };
+
+  const toggleSelected = (positionId: bigint) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      const key = positionId.toString();
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const isWorking = isPending || isConfirming || isSettling;
+
+  const formatUSDC = (amount: bigint) => {
+    return Number(formatUnits(amount, 6)).toLocaleString(undefined, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 4,
+    });
+  };
+
+  const formatPnL = (pnl: bigint) => {
+    const value = Number(formatUnits(pnl, 6));
+    const formatted = "$" + Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    if (value >= 0) {
+      return <span className="text-green-600 dark:text-green-400">+{formatted}</span>;
+    }
+    return <span className="text-red-600 dark:text-red-400">-{formatted}</span>;
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 lg:gap-8">
+      <div className="lg:col-span-2 space-y-6">
+        {/* Settleable Positions */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-lg font-bold">Ready to Settle</h2>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setSelected(new Set(settleable.map((c) => c.id.toString())))}
+                disabled={settleable.length === 0}
+                className="text-xs px-3 py-1.5 min-h-[32px] bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition disabled:opacity-50"
+              >
+                Select All
+              </button>
+              <button
+                onClick={() => {
+                  refetchNextId();
+                  fetchCandidates();
+                }}
+                disabled={loading}
+                className="text-xs px-3 py-1.5 min-h-[32px] bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition disabled:opacity-50"
+              >
+                {loading ? "..." : "Refresh"}
+              </button>
+            </div>
+          </div>
+
+          {paused && (
+            <div className="mb-4 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-700 dark:text-yellow-300">
+              Settlements are currently paused by governance.
+            </div>
+          )}
+
+          {settleable.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              {loading ? "Loading positions..." : "No positions are due for settlement"}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 text-left">
+                    <th className="pb-2 font-normal w-8" />
+                    <th className="pb-2 font-normal">Position</th>
+                    <th className="pb-2 font-normal text-right">Notional</th>
+                    <th className="pb-2 font-normal text-right">Pending PnL</th>
+                    <th className="pb-2 font-normal text-right">Est. Reward</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {settleable.map((candidate) => (
+                    <tr
+                      key={candidate.id.toString()}
+                      onClick={() => toggleSelected(candidate.id)}
+                      className="border-t border-gray-100 dark:border-gray-800 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800"
+                    >
+                      <td className="py-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(candidate.id.toString())}
+                          onChange={() => toggleSelected(candidate.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          className="w-4 h-4"
+                        />
+                      </td>
+                      <td className="py-2">
+                        #{candidate.id.toString()}{" "}
+                        <span className="text-xs text-gray-500">
+                          {candidate.isPayingFixed ? "Pay Fixed" : "Pay Floating"}
+                        </span>
+                      </td>
+                      <td className="py-2 text-right">${formatUSDC(candidate.notional)}</td>
+                      <td className="py-2 text-right">{formatPnL(candidate.pendingPnL)}</td>
+                      <td className="py-2 text-right font-medium">${formatUSDC(candidate.estimatedReward)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Upcoming */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <h2 className="text-lg font-bold mb-4">Upcoming Settlements</h2>
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-gray-500">No other active positions.</p>
+          ) : (
+            <div className="space-y-2">
+              {upcoming.map((candidate) => (
+                <div
+                  key={candidate.id.toString()}
+                  className="flex justify-between items-center text-sm py-2 border-b border-gray-100 dark:border-gray-800 last:border-0"
+                >
+                  <span>
+                    #{candidate.id.toString()}{" "}
+                    <span className="text-xs text-gray-500">${formatUSDC(candidate.notional)}</span>
+                  </span>
+                  <span className="text-yellow-600 dark:text-yellow-400">
+                    in {formatTimeRemaining(candidate.timeToNext)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-6 order-first lg:order-last">
+        {/* Batch Settle */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <h2 className="text-lg font-bold mb-4">Batch Settle</h2>
+          <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 mb-4 text-sm space-y-2">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Selected</span>
+              <span className="font-medium">{selectedCandidates.length} positions</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Estimated Reward</span>
+              <span className="font-medium text-green-600 dark:text-green-400">${formatUSDC(selectedReward)}</span>
+            </div>
+          </div>
+          <OracleGuardNotice guard={oracleGuard} className="mb-4" />
+          <button
+            onClick={handleBatchSettle}
+            disabled={isWorking || !!paused || !address || selectedCandidates.length === 0 || !oracleGuard.canProceed}
+            className="w-full py-3 bg-green-600 hover:bg-green-500 text-white font-medium rounded-lg transition disabled:opacity-50"
+          >
+            {isSettling ? (isConfirming ? "Confirming..." : "Settling...") : "Settle Selected"}
+          </button>
+          <p className="text-xs text-gray-500 mt-3">
+            Rewards are a share of the settlement fee, charged only when a position settles at a profit.
+          </p>
+        </div>
+
+        {/* Earnings */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <h2 className="text-lg font-bold mb-4">Keeper Earnings</h2>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+              <div className="text-xs text-gray-500 mb-1">Your Lifetime</div>
+              <div className="text-xl font-bold">${formatUSDC(myTotalRewards)}</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+              <div className="text-xs text-gray-500 mb-1">All Keepers</div>
+              <div className="text-xl font-bold">{keeperStats ? `$${formatUSDC(keeperStats[1])}` : "..."}</div>
+            </div>
+          </div>
+          <div className="text-xs text-gray-500 mb-3">
+            Reward share: {rewardPercentage !== undefined ? `${Number(formatUnits(rewardPercentage, 16))}%` : "..."} of a{" "}
+            {settlementFee !== undefined ? `${Number(formatUnits(settlementFee, 16))}%` : "..."} settlement fee
+          </div>
+
+          {myRewards.length === 0 ? (
+            <p className="text-sm text-gray-500">No rewards earned yet.</p>
+          ) : (
+            <div className="space-y-1">
+              {myRewards.map((record) => (
+                <div
+                  key={`${record.blockNumber.toString()}-${record.logIndex}`}
+                  className="flex justify-between text-sm"
+                >
+                  <span>
+                    #{record.positionId.toString()}{" "}
+                    <span className="text-xs text-gray-500">
+                      {record.timestamp ? formatTimestamp(record.timestamp) : `#${record.blockNumber.toString()}`}
+                    </span>
+                  </span>
+                  <span className="text-green-600 dark:text-green-400">+${formatUSDC(record.reward)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,610 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  useAccount,
+  usePublicClient,
+  useReadContract,
+  useWriteContract,
+  useWaitForTransactionReceipt,
+} from "wagmi";
+import { formatUnits, parseUnits, zeroAddress } from "viem";
+import { AUTOMATION_ABI, ERC20_ABI, RATE_ORACLE_ABI } from "@/lib/abis";
+import { FullStackContracts } from "@/lib/wagmi";
+import { formatTimeRemaining, formatTimestamp } from "@/lib/utils";
+import { useToast, parseError } from "./ui/Toast";
+import { useIndexedEvents } from "@/hooks/useIndexedEvents";
+
+interface LimitOrderPanelProps {
+  contracts: FullStackContracts;
+}
+
+type OrderStatus = "active" | "triggerable" | "expired" | "executed" | "cancelled";
+type TxStep = "idle" | "approving" | "creating" | "cancelling";
+
+interface LimitOrder {
+  id: bigint;
+  isPayingFixed: boolean;
+  notional: bigint;
+  targetRate: bigint;
+  triggerAbove: boolean;
+  margin: bigint;
+  maturityDays: number;
+  expiresAt: number;
+  status: OrderStatus;
+  positionId?: bigint;
+}
+
+// Order state read from the contract; executed and cancelled orders are told apart by execution events
+interface FetchedOrder extends Omit<LimitOrder, "status" | "positionId"> {
+  isActive: boolean;
+  canExecute: boolean;
+}
+
+const MATURITY_OPTIONS = ["30", "90", "180", "365"];
+
+const inputClass =
+  "w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg px-4 py-3 min-h-[48px] text-base text-gray-900 dark:text-white focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500";
+
+export function LimitOrderPanel({ contracts }: LimitOrderPanelProps) {
+  const { address } = useAccount();
+  const { addToast } = useToast();
+  const publicClient = usePublicClient();
+  const [isPayingFixed, setIsPayingFixed] = useState(true);
+  const [notional, setNotional] = useState("10000");
+  const [targetRate, setTargetRate] = useState("5");
+  // Payers want to lock in a low fixed rate, receivers a high one
+  const [triggerAbove, setTriggerAbove] = useState(false);
+  const [maturityDays, setMaturityDays] = useState("90");
+  const [margin, setMargin] = useState("1000");
+  const [expiryHours, setExpiryHours] = useState("24");
+  const [fetchedOrders, setFetchedOrders] = useState<FetchedOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [txStep, setTxStep] = useState<TxStep>("idle");
+  const [cancellingId, setCancellingId] = useState<bigint | null>(null);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  const isDeployed = contracts.automation !== zeroAddress;
+
+  const { writeContract, data: hash, isPending, error, reset } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+
+  const { data: currentRate } = useReadContract({
+    address: contracts.rateOracle,
+    abi: RATE_ORACLE_ABI,
+    functionName: "getCurrentRate",
+  });
+
+  const { data: keeperReward } = useReadContract({
+    address: contracts.automation,
+    abi: AUTOMATION_ABI,
+    functionName: "keeperReward",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: minOrderDuration } = useReadContract({
+    address: contracts.automation,
+    abi: AUTOMATION_ABI,
+    functionName: "minOrderDuration",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: maxOrderDuration } = useReadContract({
+    address: contracts.automation,
+    abi: AUTOMATION_ABI,
+    functionName: "maxOrderDuration",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: allowance, refetch: refetchAllowance } = useReadContract({
+    address: contracts.usdc,
+    abi: ERC20_ABI,
+    functionName: "allowance",
+    args: address ? [address, contracts.automation] : undefined,
+    query: { enabled: isDeployed },
+  });
+
+  const toUnits = (value: string, decimals: number) => {
+    try {
+      return value ? parseUnits(value, decimals) : BigInt(0);
+    } catch {
+      return BigInt(0);
+    }
+  };
+
+  const notionalWei = toUnits(notional, 6);
+  const marginWei = toUnits(margin, 6);
+  const targetRateWad = toUnits(targetRate, 16);
+  const durationSeconds = BigInt(Math.round((parseFloat(expiryHours) || 0) * 3600));
+
+  // The contract escrows the margin plus the keeper reward paid on execution
+  const reward = keeperReward !== undefined ? (notionalWei * keeperReward) / parseUnits("1", 18) : BigInt(0);
+  const requiredDeposit = marginWei + reward;
+  const needsApproval = !allowance || allowance < requiredDeposit;
+
+  const minMargin = notionalWei / BigInt(10);
+  const minHours = minOrderDuration !== undefined ? Number(minOrderDuration) / 3600 : undefined;
+  const maxHours = maxOrderDuration !== undefined ? Number(maxOrderDuration) / 3600 : undefined;
+
+  const validationError = (() => {
+    if (notionalWei === BigInt(0)) return "Enter a notional amount";
+    if (targetRateWad === BigInt(0) || targetRateWad > parseUnits("1", 18)) {
+      return "Trigger rate must be between 0% and 100%";
+    }
+    if (marginWei < minMargin) return "Margin must be at least 10% of notional";
+    if (minOrderDuration !== undefined && durationSeconds < minOrderDuration) {
+      return `Expiry must be at least ${minHours} hours`;
+    }
+    if (maxOrderDuration !== undefined && durationSeconds > maxOrderDuration) {
+      return `Expiry must be at most ${maxHours} hours`;
+    }
+    return null;
+  })();
+
+  const fetchOrders = useCallback(async () => {
+    if (!publicClient || !isDeployed || !address) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const ids = await publicClient.readContract({
+        address: contracts.automation,
+        abi: AUTOMATION_ABI,
+        functionName: "getUserLimitOrders",
+        args: [address],
+      });
+
+      if (ids.length === 0) {
+        setFetchedOrders([]);
+        return;
+      }
+
+      const [orderResults, executableResults] = await Promise.all([
+        publicClient.multicall({
+          contracts: ids.map((id) => ({
+            address: contracts.automation,
+            abi: AUTOMATION_ABI,
+            functionName: "getLimitOrder" as const,
+            args: [id] as const,
+          })),
+          allowFailure: true,
+        }),
+        publicClient.multicall({
+          contracts: ids.map((id) => ({
+            address: contracts.automation,
+            abi: AUTOMATION_ABI,
+            functionName: "canExecuteLimitOrder" as const,
+            args: [id] as const,
+          })),
+          allowFailure: true,
+        }),
+      ]);
+
+      const parsed: FetchedOrder[] = [];
+      for (let i = 0; i < ids.length; i++) {
+        const orderResult = orderResults[i];
+        const executableResult = executableResults[i];
+
+        if (orderResult.status === "failure") {
+          console.error(`Error fetching limit order ${ids[i].toString()}`);
+          continue;
+        }
+
+        const order = orderResult.result;
+        const canExecute = executableResult.status === "success" && executableResult.result[0];
+        parsed.push({
+          id: ids[i],
+          isPayingFixed: order.isPayingFixed,
+          notional: order.notional,
+          targetRate: order.targetRate,
+          triggerAbove: order.triggerAbove,
+          margin: order.margin,
+          maturityDays: order.maturityDays,
+          expiresAt: order.expiresAt,
+          isActive: order.isActive,
+          canExecute,
+        });
+      }
+
+      // Newest first
+      parsed.sort((a, b) => (a.id < b.id ? 1 : -1));
+      setFetchedOrders(parsed);
+    } catch (e) {
+      console.error("Error fetching limit orders:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [publicClient, isDeployed, contracts.automation, address]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const { events } = useIndexedEvents(contracts);
+
+  const orders = useMemo<LimitOrder[]>(() => {
+    const executedPositions = new Map<string, bigint>();
+    for (const event of events) {
+      if (event.contract === "automation" && event.eventName === "LimitOrderExecuted") {
+        executedPositions.set(String(event.args.orderId), event.args.positionId);
+      }
+    }
+
+    return fetchedOrders.map(({ isActive, canExecute, ...order }) => {
+      const positionId = executedPositions.get(order.id.toString());
+      let status: OrderStatus;
+      if (!isActive) status = positionId !== undefined ? "executed" : "cancelled";
+      else if (now > order.expiresAt) status = "expired";
+      else if (canExecute) status = "triggerable";
+      else status = "active";
+      return { ...order, status, positionId };
+    });
+  }, [events, fetchedOrders, now]);
+
+  // Tick every 30s so expiry countdowns stay current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const sendCreate = () => {
+    setTxStep("creating");
+    writeContract({
+      address: contracts.automation,
+      abi: AUTOMATION_ABI,
+      functionName: "createLimitOrder",
+      args: [
+        isPayingFixed,
+        notionalWei,
+        targetRateWad,
+        triggerAbove,
+        Number(maturityDays),
+        marginWei,
+        durationSeconds,
+      ],
+    });
+  };
+
+  const handleCreate = () => {
+    if (!address || validationError) return;
+    if (needsApproval) {
+      setTxStep("approving");
+      writeContract({
+        address: contracts.usdc,
+        abi: ERC20_ABI,
+        functionName: "approve",
+        args: [contracts.automation, requiredDeposit],
+      });
+    } else {
+      sendCreate();
+    }
+  };
+
+  const handleCancel = (orderId: bigint) => {
+    setTxStep("cancelling");
+    setCancellingId(orderId);
+    writeContract({
+      address: contracts.automation,
+      abi: AUTOMATION_ABI,
+      functionName: "cancelLimitOrder",
+      args: [orderId],
+    });
+  };
+
+  // Chain approval into order creation, then refresh the order list
+  useEffect(() => {
+    if (!isSuccess) return;
+
+    if (txStep === "approving") {
+      refetchAllowance().then(() => {
+        reset();
+        sendCreate();
+      });
+      return;
+    }
+
+    addToast({
+      type: "success",
+      title: "Success",
+      message: txStep === "creating" ? "Limit order placed" : "Limit order cancelled and margin refunded",
+    });
+    setTxStep("idle");
+    setCancellingId(null);
+    reset();
+    refetchAllowance();
+    fetchOrders();
+  }, [isSuccess, txStep]);
+
+  useEffect(() => {
+    if (error) {
+      addToast({ type: "error", title: "Error", message: parseError(error) });
+      setTxStep("idle");
+      setCancellingId(null);
+      reset();
+    }
+  }, [error, addToast, reset]);
+
+  const isWorking = isPending || isConfirming || txStep !== "idle";
+
+  const formatRate = (rate: bigint | undefined) => {
+    if (rate === undefined) return "...";
+    return (Number(formatUnits(rate, 18)) * 100).toFixed(2);
+  };
+
+  const formatUSDC = (amount: bigint) => {
+    return Number(formatUnits(amount, 6)).toLocaleString(undefined, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  const getStatusColor = (status: OrderStatus) => {
+    switch (status) {
+      case "active":
+        return "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400";
+      case "triggerable":
+        return "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400";
+      case "expired":
+        return "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400";
+      case "executed":
+        return "bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400";
+      case "cancelled":
+        return "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-400";
+    }
+  };
+
+  const getButtonText = () => {
+    if (txStep === "approving") return "Approving...";
+    if (txStep === "creating") return isConfirming ? "Confirming..." : "Placing Order...";
+    return needsApproval ? "Approve & Place Order" : "Place Limit Order";
+  };
+
+  if (!isDeployed) {
+    return (
+      <div className="bg-white dark:bg-gray-900 rounded-xl p-4 sm:p-6 border border-gray-200 dark:border-gray-800">
+        <h2 className="text-lg sm:text-xl font-semibold mb-2">Limit Orders</h2>
+        <p className="text-sm text-gray-500">
+          The automation contract is not deployed on this network yet.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-900 rounded-xl p-4 sm:p-6 border border-gray-200 dark:border-gray-800">
+        <h2 className="text-lg sm:text-xl font-semibold mb-4 sm:mb-6">Limit Order</h2>
+
+        {/* Direction */}
+        <div className="flex gap-2 mb-4 sm:mb-6">
+          <button
+            onClick={() => {
+              setIsPayingFixed(true);
+              setTriggerAbove(false);
+            }}
+            className={`flex-1 py-3 min-h-[48px] rounded-lg font-medium transition ${
+              isPayingFixed ? "bg-indigo-600 text-white" : "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400"
+            }`}
+          >
+            Pay Fixed
+          </button>
+          <button
+            onClick={() => {
+              setIsPayingFixed(false);
+              setTriggerAbove(true);
+            }}
+            className={`flex-1 py-3 min-h-[48px] rounded-lg font-medium transition ${
+              !isPayingFixed ? "bg-indigo-600 text-white" : "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400"
+            }`}
+          >
+            Receive Fixed
+          </button>
+        </div>
+
+        <div className="mb-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg flex justify-between items-center">
+          <span className="text-sm text-gray-500 dark:text-gray-400">Current Oracle Rate</span>
+          <span className="text-xl font-bold">{formatRate(currentRate)}%</span>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm text-gray-600 dark:text-gray-400 mb-2">Notional (USDC)</label>
+            <input
+              type="number"
+              value={notional}
+              onChange={(e) => setNotional(e.target.value)}
+              className={inputClass}
+              placeholder="10000"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-600 dark:text-gray-400 mb-2">Trigger</label>
+            <div className="grid grid-cols-[auto_1fr] gap-2">
+              <select
+                value={triggerAbove ? "above" : "below"}
+                onChange={(e) => setTriggerAbove(e.target.value === "above")}
+                className={inputClass}
+              >
+                <option value="below">Rate falls to or below</option>
+                <option value="above">Rate rises to or above</option>
+              </select>
+              <div className="relative">
+                <input
+                  type="number"
+                  step="0.01"
+                  value={targetRate}
+                  onChange={(e) => setTargetRate(e.target.value)}
+                  className={inputClass}
+                  placeholder="5.0"
+                />
+                <span className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-500">%</span>
+              </div>
+            </div>
+            <div className="text-xs text-gray-500 mt-1">
+              The swap opens at the oracle rate once it crosses the trigger
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm text-gray-600 dark:text-gray-400 mb-2">Maturity</label>
+              <select
+                value={maturityDays}
+                onChange={(e) => setMaturityDays(e.target.value)}
+                className={inputClass}
+              >
+                {MATURITY_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    {days} Days
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-600 dark:text-gray-400 mb-2">Expires In (hours)</label>
+              <input
+                type="number"
+                value={expiryHours}
+                min={minHours}
+                max={maxHours}
+                onChange={(e) => setExpiryHours(e.target.value)}
+                className={inputClass}
+              />
+              <div className="text-xs text-gray-500 mt-1">
+                {minHours !== undefined && maxHours !== undefined
+                  ? `Between ${minHours}h and ${maxHours}h`
+                  : "Loading limits..."}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-gray-600 dark:text-gray-400 mb-2">Margin (USDC)</label>
+            <input
+              type="number"
+              value={margin}
+              onChange={(e) => setMargin(e.target.value)}
+              className={inputClass}
+              placeholder="1000"
+            />
+            <div className="text-xs text-gray-500 mt-1">
+              Min: {formatUSDC(minMargin)} USDC (10% of notional)
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-500">Keeper Reward</span>
+            <span className="font-medium">{formatUSDC(reward)} USDC</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-500">Total Escrowed</span>
+            <span className="font-medium">{formatUSDC(requiredDeposit)} USDC</span>
+          </div>
+        </div>
+
+        {validationError && <div className="mt-3 text-xs text-red-500">{validationError}</div>}
+
+        <button
+          onClick={handleCreate}
+          disabled={isWorking || !!validationError || !address}
+          className="mt-6 w-full py-4 min-h-[56px] bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg font-semibold transition disabled:opacity-50"
+        >
+          {getButtonText()}
+        </button>
+      </div>
+
+      {/* My Orders */}
+      <div className="bg-white dark:bg-gray-900 rounded-xl p-4 sm:p-6 border border-gray-200 dark:border-gray-800">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg sm:text-xl font-semibold">My Limit Orders</h2>
+          <button
+            onClick={fetchOrders}
+            disabled={loading}
+            className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50"
+          >
+            {loading ? "Loading..." : "Refresh"}
+          </button>
+        </div>
+
+        {orders.length === 0 ? (
+          <p className="text-sm text-gray-500">{loading ? "Loading orders..." : "No limit orders yet."}</p>
+        ) : (
+          <div className="space-y-3">
+            {orders.map((order) => {
+              const status: OrderStatus =
+                (order.status === "active" || order.status === "triggerable") && now > order.expiresAt
+                  ? "expired"
+                  : order.status;
+              const canCancel = status !== "executed" && status !== "cancelled";
+              return (
+                <div
+                  key={order.id.toString()}
+                  className="border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="font-medium">
+                      #{order.id.toString()} · {order.isPayingFixed ? "Pay Fixed" : "Receive Fixed"} ·{" "}
+                      {formatUSDC(order.notional)} USDC
+                    </div>
+                    <span
+                      className={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${getStatusColor(status)}`}
+                    >
+                      {status}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+                    <div>
+                      <div className="text-xs text-gray-500">Trigger</div>
+                      <div>
+                        {order.triggerAbove ? "≥" : "≤"} {formatRate(order.targetRate)}%
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-500">Margin</div>
+                      <div>{formatUSDC(order.margin)}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-500">Maturity</div>
+                      <div>{order.maturityDays}d</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-500">
+                        {status === "executed" ? "Position" : "Expires"}
+                      </div>
+                      <div>
+                        {status === "executed"
+                          ? `#${order.positionId!.toString()}`
+                          : status === "cancelled"
+                          ? formatTimestamp(order.expiresAt)
+                          : formatTimeRemaining(order.expiresAt - now)}
+                      </div>
+                    </div>
+                  </div>
+                  {canCancel && (
+                    <button
+                      onClick={() => handleCancel(order.id)}
+                      disabled={isWorking}
+                      className="mt-3 w-full py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+                    >
+                      {cancellingId === order.id
+                        ? "Cancelling..."
+                        : status === "expired"
+                        ? "Refund Margin"
+                        : "Cancel Order"}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,641 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  useAccount,
+  usePublicClient,
+  useReadContract,
+  useWriteContract,
+  useWaitForTransactionReceipt,
+} from "wagmi";
+import { formatUnits, parseUnits } from "viem";
+import { LIQUIDATION_ENGINE_ABI, MARGIN_ENGINE_ABI, POSITION_MANAGER_ABI } from "@/lib/abis";
+import { FullStackContracts } from "@/lib/wagmi";
+import { formatTimestamp, getHealthColor, shortenAddress } from "@/lib/utils";
+import { useToast, parseError } from "./ui/Toast";
+import { useIndexedEvents } from "@/hooks/useIndexedEvents";
+import { useLiveEvents } from "@/hooks/useLiveEvents";
+import { POSITION_EVENTS } from "@/lib/eventIndexer";
+
+interface LiquidationPanelProps {
+  contracts: FullStackContracts;
+}
+
+interface LiquidatablePosition {
+  id: bigint;
+  trader: string;
+  isPayingFixed: boolean;
+  notional: bigint;
+  margin: bigint;
+  healthFactor: number;
+  marginSeized: bigint;
+  liquidatorReward: bigint;
+  protocolFeeAmount: bigint;
+}
+
+interface LiquidationRecord {
+  id: string;
+  positionId: bigint;
+  liquidator: string;
+  positionOwner?: string;
+  isPartial: boolean;
+  marginSeized: bigint;
+  liquidatorReward?: bigint;
+  remainingMargin?: bigint;
+  blockNumber: bigint;
+  timestamp: number;
+}
+
+type TxAction = "liquidate" | "partial" | "batch";
+
+// findLiquidatablePositions loops on-chain, so scan in bounded ranges
+const SCAN_CHUNK = 200;
+const HISTORY_TO_SHOW = 25;
+const WAD = parseUnits("1", 18);
+
+export function LiquidationPanel({ contracts }: LiquidationPanelProps) {
+  const { address } = useAccount();
+  const { addToast } = useToast();
+  const publicClient = usePublicClient();
+  const [positions, setPositions] = useState<LiquidatablePosition[]>([]);
+  const [scanning, setScanning] = useState(false);
+  const [lastScan, setLastScan] = useState<Date | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [partialAmounts, setPartialAmounts] = useState<Record<string, string>>({});
+  const [pendingAction, setPendingAction] = useState<{ action: TxAction; positionId?: bigint } | null>(null);
+
+  const { writeContract, data: hash, isPending, error, reset } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+
+  const { data: nextPositionId, refetch: refetchNextId } = useReadContract({
+    address: contracts.positionManager,
+    abi: POSITION_MANAGER_ABI,
+    functionName: "nextPositionId",
+  });
+
+  const { data: stats, refetch: refetchStats } = useReadContract({
+    address: contracts.liquidationEngine,
+    abi: LIQUIDATION_ENGINE_ABI,
+    functionName: "getStats",
+  });
+
+  const { data: liquidationBonus } = useReadContract({
+    address: contracts.liquidationEngine,
+    abi: LIQUIDATION_ENGINE_ABI,
+    functionName: "liquidationBonus",
+  });
+
+  const { data: protocolFee } = useReadContract({
+    address: contracts.liquidationEngine,
+    abi: LIQUIDATION_ENGINE_ABI,
+    functionName: "protocolFee",
+  });
+
+  const { data: maxLiquidationRatio } = useReadContract({
+    address: contracts.liquidationEngine,
+    abi: LIQUIDATION_ENGINE_ABI,
+    functionName: "maxLiquidationRatio",
+  });
+
+  const { data: paused } = useReadContract({
+    address: contracts.liquidationEngine,
+    abi: LIQUIDATION_ENGINE_ABI,
+    functionName: "paused",
+  });
+
+  const scanPositions = useCallback(async () => {
+    if (!publicClient || nextPositionId === undefined) return;
+
+    if (nextPositionId === BigInt(0)) {
+      setPositions([]);
+      setLastScan(new Date());
+      return;
+    }
+
+    setScanning(true);
+
+    try {
+      const ranges: [bigint, bigint][] = [];
+      for (let start = BigInt(0); start < nextPositionId; start += BigInt(SCAN_CHUNK)) {
+        const end = start + BigInt(SCAN_CHUNK) - BigInt(1);
+        ranges.push([start, end < nextPositionId ? end : nextPositionId - BigInt(1)]);
+      }
+
+      const rangeResults = await publicClient.multicall({
+        contracts: ranges.map(([start, end]) => ({
+          address: contracts.liquidationEngine,
+          abi: LIQUIDATION_ENGINE_ABI,
+          functionName: "findLiquidatablePositions" as const,
+          args: [start, end] as const,
+        })),
+        allowFailure: true,
+      });
+
+      const ids = rangeResults.flatMap((result) => (result.status === "success" ? [...result.result] : []));
+
+      if (ids.length === 0) {
+        setPositions([]);
+        setSelected(new Set());
+        return;
+      }
+
+      const [healthFactors, positionResults, previewResults] = await Promise.all([
+        publicClient.readContract({
+          address: contracts.marginEngine,
+          abi: MARGIN_ENGINE_ABI,
+          functionName: "batchGetHealthFactors",
+          args: [ids],
+        }),
+        publicClient.multicall({
+          contracts: ids.map((id) => ({
+            address: contracts.positionManager,
+            abi: POSITION_MANAGER_ABI,
+            functionName: "positions" as const,
+            args: [id] as const,
+          })),
+          allowFailure: true,
+        }),
+        publicClient.multicall({
+          contracts: ids.map((id) => ({
+            address: contracts.liquidationEngine,
+            abi: LIQUIDATION_ENGINE_ABI,
+            functionName: "previewLiquidation" as const,
+            args: [id] as const,
+          })),
+          allowFailure: true,
+        }),
+      ]);
+
+      const parsed: LiquidatablePosition[] = [];
+      for (let i = 0; i < ids.length; i++) {
+        const positionResult = positionResults[i];
+        const previewResult = previewResults[i];
+        if (positionResult.status === "failure" || previewResult.status === "failure") {
+          console.error(`Error fetching liquidation data for position ${ids[i].toString()}`);
+          continue;
+        }
+
+        const [trader, isPayingFixed, , , , notional, margin] = positionResult.result;
+        const [marginSeized, liquidatorReward, protocolFeeAmount] = previewResult.result;
+
+        parsed.push({
+          id: ids[i],
+          trader,
+          isPayingFixed,
+          notional,
+          margin,
+          healthFactor: Number(formatUnits(healthFactors[i], 18)),
+          marginSeized,
+          liquidatorReward,
+          protocolFeeAmount,
+        });
+      }
+
+      // Most rewarding first
+      parsed.sort((a, b) => (a.liquidatorReward < b.liquidatorReward ? 1 : -1));
+      setPositions(parsed);
+      setSelected((prev) => new Set(Array.from(prev).filter((id) => parsed.some((p) => p.id.toString() === id))));
+    } catch (e) {
+      console.error("Error scanning for liquidatable positions:", e);
+    } finally {
+      setScanning(false);
+      setLastScan(new Date());
+    }
+  }, [publicClient, nextPositionId, contracts.liquidationEngine, contracts.marginEngine, contracts.positionManager]);
+
+  const { events } = useIndexedEvents(contracts);
+
+  // Newest first, from the shared indexer
+  const history = useMemo<LiquidationRecord[]>(() => {
+    const records: LiquidationRecord[] = [];
+    for (let i = events.length - 1; i >= 0 && records.length < HISTORY_TO_SHOW; i--) {
+      const event = events[i];
+      if (event.contract !== "liquidationEngine") continue;
+      const { id, blockNumber, timestamp } = event;
+      if (event.eventName === "PositionLiquidated") {
+        const { args } = event;
+        records.push({
+          id,
+          positionId: args.positionId,
+          liquidator: args.liquidator,
+          positionOwner: args.positionOwner,
+          isPartial: false,
+          marginSeized: args.marginSeized,
+          liquidatorReward: args.liquidatorReward,
+          blockNumber,
+          timestamp,
+        });
+      } else if (event.eventName === "PartialLiquidation") {
+        const { args } = event;
+        records.push({
+          id,
+          positionId: args.positionId,
+          liquidator: args.liquidator,
+          isPartial: true,
+          marginSeized: args.marginSeized,
+          remainingMargin: args.remainingMargin,
+          blockNumber,
+          timestamp,
+        });
+      }
+    }
+    return records;
+  }, [events]);
+
+  useEffect(() => {
+    scanPositions();
+  }, [scanPositions]);
+
+  // Health factors move with margin changes and opens
+  useLiveEvents(contracts, POSITION_EVENTS, () => {
+    refetchNextId();
+    scanPositions();
+    refetchStats();
+  });
+
+  // Rescan every 30 seconds
+  useEffect(() => {
+    const interval = setInterval(() => {
+      refetchNextId();
+      scanPositions();
+    }, 30000);
+    return () => clearInterval(interval);
+  }, [refetchNextId, scanPositions]);
+
+  useEffect(() => {
+    if (!isSuccess || !pendingAction) return;
+    addToast({
+      type: "success",
+      title: "Success",
+      message:
+        pendingAction.action === "batch"
+          ? "Batch liquidation executed"
+          : `Position #${pendingAction.positionId!.toString()} ${
+              pendingAction.action === "partial" ? "partially liquidated" : "liquidated"
+            }`,
+    });
+    if (pendingAction.action === "batch") setSelected(new Set());
+    setPendingAction(null);
+    reset();
+    scanPositions();
+    refetchStats();
+  }, [isSuccess, pendingAction, addToast, reset, scanPositions, refetchStats]);
+
+  useEffect(() => {
+    if (error) {
+      addToast({ type: "error", title: "Error", message: parseError(error) });
+      setPendingAction(null);
+      reset();
+    }
+  }, [error, addToast, reset]);
+
+  const toUnits = (value: string) => {
+    try {
+      return value ? parseUnits(value, 6) : BigInt(0);
+    } catch {
+      return BigInt(0);
+    }
+  };
+
+  const maxSeizable = (position: LiquidatablePosition) =>
+    maxLiquidationRatio !== undefined ? (position.margin * maxLiquidationRatio) / WAD : position.margin;
+
+  // Mirrors LiquidationEngine.partialLiquidate: reward = amount - fee + min(bonus, fee)
+  const previewPartial = (position: LiquidatablePosition, amount: bigint) => {
+    const max = maxSeizable(position);
+    const seized = amount > max ? max : amount;
+    const fee = protocolFee !== undefined ? (seized * protocolFee) / WAD : BigInt(0);
+    const bonusRate =
+      liquidationBonus !== undefined && protocolFee !== undefined
+        ? liquidationBonus > protocolFee
+          ? protocolFee
+          : liquidationBonus
+        : BigInt(0);
+    let reward = seized - fee + (seized * bonusRate) / WAD;
+    if (reward > seized) reward = seized;
+    return { seized, reward, remaining: position.margin - seized };
+  };
+
+  const handleLiquidate = (positionId: bigint) => {
+    setPendingAction({ action: "liquidate", positionId });
+    writeContract({
+      address: contracts.liquidationEngine,
+      abi: LIQUIDATION_ENGINE_ABI,
+      functionName: "liquidate",
+      args: [positionId],
+    });
+  };
+
+  const handlePartial = (position: LiquidatablePosition) => {
+    const amount = toUnits(partialAmounts[position.id.toString()] ?? "");
+    if (amount === BigInt(0)) return;
+    setPendingAction({ action: "partial", positionId: position.id });
+    writeContract({
+      address: contracts.liquidationEngine,
+      abi: LIQUIDATION_ENGINE_ABI,
+      functionName: "partialLiquidate",
+      args: [position.id, amount],
+    });
+  };
+
+  const handleBatch = () => {
+    const ids = positions.filter((p) => selected.has(p.id.toString())).map((p) => p.id);
+    if (ids.length === 0) return;
+    setPendingAction({ action: "batch" });
+    writeContract({
+      address: contracts.liquidationEngine,
+      abi: LIQUIDATION_ENGINE_ABI,
+      functionName: "batchLiquidate",
+      args: [ids],
+    });
+  };
+
+  const toggleSelected = (positionId: bigint) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      const key = positionId.toString();
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const isWorking = isPending || isConfirming || pendingAction !== null;
+
+  const formatUSDC = (amount: bigint) => {
+    return Number(formatUnits(amount, 6)).toLocaleString(undefined, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  const formatPercent = (value: bigint | undefined) => {
+    if (value === undefined) return "...";
+    return `${(Number(formatUnits(value, 18)) * 100).toFixed(2)}%`;
+  };
+
+  const selectedPositions = positions.filter((p) => selected.has(p.id.toString()));
+  const batchReward = selectedPositions.reduce((sum, p) => sum + p.liquidatorReward, BigInt(0));
+
+  const getButtonText = (action: TxAction, label: string, positionId?: bigint) => {
+    if (pendingAction?.action === action && pendingAction.positionId === positionId) {
+      return isConfirming ? "Confirming..." : "Processing...";
+    }
+    return label;
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 lg:gap-8">
+      <div className="lg:col-span-2 space-y-6">
+        {/* Liquidatable Positions */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-lg font-bold">Liquidatable Positions</h2>
+            <div className="flex items-center gap-3">
+              {lastScan && (
+                <span className="text-xs text-gray-500 hidden sm:inline">
+                  Scanned: {lastScan.toLocaleTimeString()}
+                </span>
+              )}
+              <button
+                onClick={() => {
+                  refetchNextId();
+                  scanPositions();
+                }}
+                disabled={scanning}
+                className="text-xs px-3 py-1.5 min-h-[32px] bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition disabled:opacity-50"
+              >
+                {scanning ? "Scanning..." : "Scan"}
+              </button>
+            </div>
+          </div>
+
+          {paused && (
+            <div className="mb-4 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-700 dark:text-yellow-300">
+              Liquidations are currently paused by governance.
+            </div>
+          )}
+
+          {positions.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              <p>{scanning ? "Scanning positions..." : "No liquidatable positions"}</p>
+              {!scanning && (
+                <p className="text-sm mt-2">
+                  Scanned {nextPositionId !== undefined ? nextPositionId.toString() : "..."} positions
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {positions.map((position) => {
+                const key = position.id.toString();
+                const partialInput = partialAmounts[key] ?? "";
+                const partial = previewPartial(position, toUnits(partialInput));
+
+                return (
+                  <div key={key} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+                    <div className="flex justify-between items-start mb-4">
+                      <label className="flex items-center gap-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(key)}
+                          onChange={() => toggleSelected(position.id)}
+                          className="w-4 h-4"
+                        />
+                        <div>
+                          <div className="font-medium">Position #{key}</div>
+                          <div className="text-xs text-gray-500">
+                            {position.isPayingFixed ? "Pay Fixed" : "Pay Floating"} · {shortenAddress(position.trader)}
+                          </div>
+                        </div>
+                      </label>
+                      <div className="text-right">
+                        <div className={`font-bold ${getHealthColor(position.healthFactor)}`}>
+                          {position.healthFactor.toFixed(2)}
+                        </div>
+                        <div className="text-xs text-gray-500">Health</div>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4 text-sm">
+                      <div>
+                        <div className="text-xs text-gray-500">Notional</div>
+                        <div className="font-semibold">${formatUSDC(position.notional)}</div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-gray-500">Margin</div>
+                        <div className="font-semibold">${formatUSDC(position.margin)}</div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-gray-500">Your Reward</div>
+                        <div className="font-semibold text-green-600 dark:text-green-400">
+                          ${formatUSDC(position.liquidatorReward)}
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-gray-500">Margin Left</div>
+                        <div className="font-semibold">${formatUSDC(position.margin - position.marginSeized)}</div>
+                      </div>
+                    </div>
+
+                    <div className="text-xs text-gray-500 mb-3">
+                      Seizes ${formatUSDC(position.marginSeized)} · protocol fee ${formatUSDC(position.protocolFeeAmount)}
+                    </div>
+
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <button
+                        onClick={() => handleLiquidate(position.id)}
+                        disabled={isWorking || !!paused || !address}
+                        className="flex-1 py-2 min-h-[44px] bg-red-600 hover:bg-red-500 text-white rounded text-sm font-medium transition disabled:opacity-50"
+                      >
+                        {getButtonText("liquidate", "Liquidate", position.id)}
+                      </button>
+                      <div className="flex-1 flex gap-2">
+                        <input
+                          type="number"
+                          value={partialInput}
+                          onChange={(e) => setPartialAmounts((prev) => ({ ...prev, [key]: e.target.value }))}
+                          placeholder={`Max ${formatUSDC(maxSeizable(position))}`}
+                          className="flex-1 min-w-0 px-3 py-2 text-sm bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded"
+                        />
+                        <button
+                          onClick={() => handlePartial(position)}
+                          disabled={isWorking || !!paused || !address || partial.seized === BigInt(0)}
+                          className="px-3 py-2 min-h-[44px] border border-gray-300 dark:border-gray-600 rounded text-sm font-medium hover:bg-white dark:hover:bg-gray-700 transition disabled:opacity-50"
+                        >
+                          {getButtonText("partial", "Partial", position.id)}
+                        </button>
+                      </div>
+                    </div>
+                    {partial.seized > BigInt(0) && (
+                      <div className="text-xs text-gray-500 mt-2">
+                        Partial: seize ${formatUSDC(partial.seized)}, reward ${formatUSDC(partial.reward)}, leaves $
+                        {formatUSDC(partial.remaining)} margin
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* History */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <h2 className="text-lg font-bold mb-4">Liquidation History</h2>
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-500">No liquidations yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 text-left">
+                    <th className="pb-2 font-normal">Position</th>
+                    <th className="pb-2 font-normal">Type</th>
+                    <th className="pb-2 font-normal text-right">Seized</th>
+                    <th className="pb-2 font-normal text-right">Reward / Left</th>
+                    <th className="pb-2 font-normal">Liquidator</th>
+                    <th className="pb-2 font-normal text-right">Time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.map((record) => (
+                    <tr
+                      key={record.id}
+                      className="border-t border-gray-100 dark:border-gray-800"
+                    >
+                      <td className="py-2">#{record.positionId.toString()}</td>
+                      <td className="py-2">{record.isPartial ? "Partial" : "Full"}</td>
+                      <td className="py-2 text-right">${formatUSDC(record.marginSeized)}</td>
+                      <td className="py-2 text-right">
+                        {record.isPartial
+                          ? `$${formatUSDC(record.remainingMargin!)} left`
+                          : `$${formatUSDC(record.liquidatorReward!)}`}
+                      </td>
+                      <td className="py-2 font-mono text-xs">
+                        {address && record.liquidator.toLowerCase() === address.toLowerCase()
+                          ? "You"
+                          : shortenAddress(record.liquidator)}
+                      </td>
+                      <td className="py-2 text-right text-gray-500">
+                        {record.timestamp ? formatTimestamp(record.timestamp) : `#${record.blockNumber.toString()}`}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-6 order-first lg:order-last">
+        {/* Batch */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <h2 className="text-lg font-bold mb-4">Batch Liquidation</h2>
+          <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 mb-4 text-sm space-y-2">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Selected</span>
+              <span className="font-medium">{selectedPositions.length} positions</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Expected Reward</span>
+              <span className="font-medium text-green-600 dark:text-green-400">${formatUSDC(batchReward)}</span>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setSelected(new Set(positions.map((p) => p.id.toString())))}
+              disabled={positions.length === 0}
+              className="flex-1 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              Select All
+            </button>
+            <button
+              onClick={handleBatch}
+              disabled={isWorking || !!paused || !address || selectedPositions.length === 0}
+              className="flex-1 py-2 bg-red-600 hover:bg-red-500 text-white text-sm font-medium rounded-lg transition disabled:opacity-50"
+            >
+              {getButtonText("batch", "Liquidate Selected")}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-3">
+            Positions that recover before the transaction lands are skipped, not reverted.
+          </p>
+        </div>
+
+        {/* Parameters & Stats */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <h2 className="text-lg font-bold mb-4">Liquidation Engine</h2>
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Liquidation Bonus</span>
+              <span className="font-medium">{formatPercent(liquidationBonus)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Protocol Fee</span>
+              <span className="font-medium">{formatPercent(protocolFee)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Max Seized per Call</span>
+              <span className="font-medium">{formatPercent(maxLiquidationRatio)}</span>
+            </div>
+            <div className="border-t border-gray-100 dark:border-gray-800 my-2" />
+            <div className="flex justify-between">
+              <span className="text-gray-500">Total Liquidations</span>
+              <span className="font-medium">{stats ? stats[0].toString() : "..."}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Value Liquidated</span>
+              <span className="font-medium">{stats ? `$${formatUSDC(stats[1])}` : "..."}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Fees Collected</span>
+              <span className="font-medium">{stats ? `$${formatUSDC(stats[2])}` : "..."}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
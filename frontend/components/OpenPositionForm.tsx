@@ -5,12 +5,20 @@ import { useWriteContract, useReadContract, useAccount, useWaitForTransactionRec
 import { parseUnits, formatUnits } from "viem";
 import { POSITION_MANAGER_ABI, ERC20_ABI, RATE_ORACLE_ABI } from "@/lib/abis";
 import { useToast, parseError } from "./ui/Toast";
+import { OracleGuardNotice } from "./OracleGuard";
+import { useOracleGuard } from "@/hooks/useOracleGuard";
 import { RateComparison } from "./RateComparison";
 
 interface Props {
   contracts: {
     positionManager: `0x${string}`;
     rateOracle: `0x${string}`;
+    settlementEngine: `0x${string}`;
+    marginEngine: `0x${string}`;
+    liquidationEngine: `0x${string}`;
+    orderBook: `0x${string}`;
+    automation: `0x${string}`;
+    irsGovernor: `0x${string}`;
     usdc: `0x${string}`;
   };
 }
@@ -27,6 +35,7 @@ export function OpenPositionForm({ contracts }: Props) {
   const [showRateAnalysis, setShowRateAnalysis] = useState(false);
 
   const { writeContract, isPending, data: hash, error, reset } = useWriteContract();
+  const oracleGuard = useOracleGuard(contracts.rateOracle, "open");
 
   // Wait for transaction receipt
   const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
@@ -76,6 +85,7 @@ export function OpenPositionForm({ contracts }: Props) {
   };
 
   const handleOpenPosition = () => {
+    if (!oracleGuard.canProceed) return;
     writeContract({
       address: contracts.positionManager,
       abi: POSITION_MANAGER_ABI,
@@ -174,6 +184,8 @@ export function OpenPositionForm({ contracts }: Props) {
             notional={Number(notional)}
             maturityDays={Number(maturityDays)}
             isPayingFixed={isPayingFixed}
+            contracts={contracts}
+            margin={Number(margin)}
           />
         </div>
       )}
@@ -249,6 +261,8 @@ export function OpenPositionForm({ contracts }: Props) {
         </div>
       )}
 
+      <OracleGuardNotice guard={oracleGuard} className="mt-4" />
+
       {/* Action Button */}
       <div className="mt-6">
         {needsApproval ? (
@@ -262,7 +276,7 @@ export function OpenPositionForm({ contracts }: Props) {
         ) : (
           <button
             onClick={handleOpenPosition}
-            disabled={isWorking}
+            disabled={isWorking || !oracleGuard.canProceed}
             className="w-full py-4 min-h-[56px] bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg font-semibold transition disabled:opacity-50"
           >
             {isWorking ? (isConfirming ? "Confirming..." : "Opening...") : "Open Position"}
@@ -0,0 +1,93 @@
+"use client";
+
+import { AlertTriangle, ShieldOff } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useOracleHealth } from "@/hooks/useOracleHealth";
+import type { OracleGuard } from "@/hooks/useOracleGuard";
+
+interface OracleGuardNoticeProps {
+  guard: OracleGuard;
+  className?: string;
+}
+
+// Inline notice for a write flow: explains a block, or asks for acknowledgement
+export function OracleGuardNotice({ guard, className }: OracleGuardNoticeProps) {
+  if (!guard.reason) return null;
+
+  if (guard.blocked) {
+    return (
+      <div
+        className={cn(
+          "p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300 flex gap-2",
+          className
+        )}
+      >
+        <ShieldOff className="w-4 h-4 flex-shrink-0 mt-0.5" />
+        <span>{guard.reason}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        "p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-sm text-yellow-800 dark:text-yellow-300",
+        className
+      )}
+    >
+      <div className="flex gap-2 mb-2">
+        <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+        <span>{guard.reason}</span>
+      </div>
+      <label className="flex items-center gap-2 cursor-pointer font-medium">
+        <input
+          type="checkbox"
+          checked={guard.confirmed}
+          onChange={(e) => guard.setConfirmed(e.target.checked)}
+          className="w-4 h-4"
+        />
+        I understand, continue anyway
+      </label>
+    </div>
+  );
+}
+
+interface OracleStatusBannerProps {
+  rateOracle: `0x${string}`;
+  onDetails?: () => void;
+}
+
+// App-wide banner shown whenever the oracle is not healthy
+export function OracleStatusBanner({ rateOracle, onDetails }: OracleStatusBannerProps) {
+  const health = useOracleHealth(rateOracle);
+
+  if (health.status === "healthy" || health.status === "unknown") return null;
+
+  const isHalted = health.status === "halted";
+
+  return (
+    <div
+      className={cn(
+        "border-b px-4 sm:px-6 py-2 text-sm",
+        isHalted
+          ? "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300"
+          : "bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800 text-yellow-800 dark:text-yellow-300"
+      )}
+    >
+      <div className="max-w-7xl mx-auto flex items-center gap-2">
+        {isHalted ? <ShieldOff className="w-4 h-4 flex-shrink-0" /> : <AlertTriangle className="w-4 h-4 flex-shrink-0" />}
+        <span className="flex-1">
+          <span className="font-semibold">
+            {isHalted ? "Oracle halted: trading and settlement are paused." : "Oracle degraded: review before trading."}
+          </span>{" "}
+          {health.issues.join(". ")}
+        </span>
+        {onDetails && (
+          <button onClick={onDetails} className="text-xs underline whitespace-nowrap">
+            View oracle
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
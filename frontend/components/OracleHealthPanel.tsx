@@ -0,0 +1,366 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { usePublicClient } from "wagmi";
+import { formatUnits } from "viem";
+import { RATE_SOURCE_ABI } from "@/lib/abis";
+import { FullStackContracts } from "@/lib/wagmi";
+import { useIndexedEvents } from "@/hooks/useIndexedEvents";
+import { useOracleHealth, type OracleStatus } from "@/hooks/useOracleHealth";
+import { cn, formatTimestamp, formatTimeRemaining, shortenAddress } from "@/lib/utils";
+
+interface OracleHealthPanelProps {
+  contracts: FullStackContracts;
+}
+
+type AdapterKind = "Aave V3" | "Compound V3" | "Comet" | "Lendle" | "Mock" | "Unknown";
+
+interface SourceDetails {
+  kind: AdapterKind;
+  borrowRate?: bigint;
+  utilization?: bigint;
+  lastUpdate?: number;
+  isHealthy?: boolean;
+}
+
+type OracleEventKind = "tripped" | "reset" | "anomaly";
+
+interface OracleEvent {
+  id: string;
+  kind: OracleEventKind;
+  blockNumber: bigint;
+  timestamp: number;
+  oldRate?: bigint;
+  newRate?: bigint;
+}
+
+const EVENTS_TO_SHOW = 25;
+
+// Each adapter exposes a distinctive immutable; probe them to label sources
+const PROBES = [
+  "getBorrowRate",
+  "lendingPool",
+  "pool",
+  "comet",
+  "isHealthy",
+  "getUtilization",
+  "getLastUpdateTimestamp",
+  "supplyRate",
+] as const;
+
+const statusStyles: Record<OracleStatus, { label: string; className: string }> = {
+  healthy: { label: "Healthy", className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400" },
+  degraded: { label: "Degraded", className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400" },
+  stale: { label: "Stale", className: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400" },
+  halted: { label: "Halted", className: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400" },
+  unknown: { label: "Loading", className: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-400" },
+};
+
+export function OracleHealthPanel({ contracts }: OracleHealthPanelProps) {
+  const publicClient = usePublicClient();
+  const health = useOracleHealth(contracts.rateOracle);
+  const [details, setDetails] = useState<Record<string, SourceDetails>>({});
+
+  const sourceKey = health.sources.map((s) => s.address).join(",");
+
+  const fetchSourceDetails = useCallback(async () => {
+    if (!publicClient || !sourceKey) return;
+
+    const addresses = sourceKey.split(",") as `0x${string}`[];
+    try {
+      const results = await publicClient.multicall({
+        contracts: addresses.flatMap((address) =>
+          PROBES.map((functionName) => ({ address, abi: RATE_SOURCE_ABI, functionName }))
+        ),
+        allowFailure: true,
+      });
+
+      const next: Record<string, SourceDetails> = {};
+      addresses.forEach((address, i) => {
+        const probe = (name: (typeof PROBES)[number]) => {
+          const result = results[i * PROBES.length + PROBES.indexOf(name)];
+          return result.status === "success" ? result.result : undefined;
+        };
+
+        let kind: AdapterKind = "Unknown";
+        if (probe("lendingPool") !== undefined) kind = "Lendle";
+        else if (probe("pool") !== undefined) kind = "Aave V3";
+        else if (probe("comet") !== undefined) kind = probe("isHealthy") !== undefined ? "Comet" : "Compound V3";
+        else if (probe("supplyRate") !== undefined) kind = "Mock";
+
+        const lastUpdate = probe("getLastUpdateTimestamp");
+        next[address] = {
+          kind,
+          borrowRate: probe("getBorrowRate") as bigint | undefined,
+          utilization: probe("getUtilization") as bigint | undefined,
+          lastUpdate: lastUpdate !== undefined ? Number(lastUpdate) : undefined,
+          isHealthy: probe("isHealthy") as boolean | undefined,
+        };
+      });
+      setDetails(next);
+    } catch (e) {
+      console.error("Error probing rate sources:", e);
+    }
+  }, [publicClient, sourceKey]);
+
+  const { events: indexed, loading: eventsLoading } = useIndexedEvents(contracts);
+
+  // Newest first, from the shared indexer
+  const events = useMemo<OracleEvent[]>(() => {
+    const merged: OracleEvent[] = [];
+    for (let i = indexed.length - 1; i >= 0 && merged.length < EVENTS_TO_SHOW; i--) {
+      const event = indexed[i];
+      if (event.contract !== "rateOracle") continue;
+      const { id, blockNumber, timestamp } = event;
+      if (event.eventName === "CircuitBreakerTripped") {
+        const { args } = event;
+        merged.push({
+          id,
+          kind: "tripped",
+          blockNumber,
+          timestamp: Number(args.timestamp),
+          oldRate: args.oldRate,
+          newRate: args.newRate,
+        });
+      } else if (event.eventName === "CircuitBreakerReset") {
+        merged.push({ id, kind: "reset", blockNumber, timestamp: Number(event.args.timestamp) });
+      } else if (event.eventName === "RateAnomalyDetected") {
+        merged.push({
+          id,
+          kind: "anomaly",
+          blockNumber,
+          timestamp,
+          oldRate: event.args.expectedRate,
+          newRate: event.args.actualRate,
+        });
+      }
+    }
+    return merged;
+  }, [indexed]);
+
+  useEffect(() => {
+    fetchSourceDetails();
+  }, [fetchSourceDetails]);
+
+  // Auto-refresh every 30 seconds
+  useEffect(() => {
+    const interval = setInterval(fetchSourceDetails, 30000);
+    return () => clearInterval(interval);
+  }, [fetchSourceDetails]);
+
+  const formatRate = (rate?: bigint) => {
+    if (rate === undefined) return "--";
+    return `${Number(formatUnits(rate, 16)).toFixed(3)}%`;
+  };
+
+  const median = health.currentRate;
+  const stalenessPct =
+    health.age !== undefined && health.maxStaleness ? Math.min(100, (health.age / health.maxStaleness) * 100) : 0;
+  const statusStyle = statusStyles[health.status];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 lg:gap-8">
+      <div className="lg:col-span-2 space-y-6">
+        {/* Sources */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-lg font-bold">Rate Sources</h2>
+            <button
+              onClick={() => {
+                health.refetch();
+                fetchSourceDetails();
+              }}
+              className="text-xs px-3 py-1.5 min-h-[32px] bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition"
+            >
+              Refresh
+            </button>
+          </div>
+
+          {health.sources.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              {health.isLoading ? "Loading sources..." : "No rate sources configured"}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 text-left">
+                    <th className="pb-2 font-normal">Source</th>
+                    <th className="pb-2 font-normal text-right">Supply</th>
+                    <th className="pb-2 font-normal text-right">Borrow</th>
+                    <th className="pb-2 font-normal text-right">vs Median</th>
+                    <th className="pb-2 font-normal text-right">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {health.sources.map((source) => {
+                    const info = details[source.address];
+                    const deviationBps =
+                      source.isValid && median && median > BigInt(0)
+                        ? Number(((source.supplyRate! - median) * BigInt(10000)) / median)
+                        : undefined;
+                    return (
+                      <tr key={source.address} className="border-t border-gray-100 dark:border-gray-800">
+                        <td className="py-3">
+                          <div className="font-medium">{info?.kind ?? "..."}</div>
+                          <div className="text-xs text-gray-500 font-mono">{shortenAddress(source.address)}</div>
+                          {info?.utilization !== undefined && (
+                            <div className="text-xs text-gray-500">
+                              Utilization {Number(formatUnits(info.utilization, 16)).toFixed(1)}%
+                            </div>
+                          )}
+                          {info?.lastUpdate !== undefined && info.lastUpdate > 0 && (
+                            <div className="text-xs text-gray-500">Reserve updated {formatTimestamp(info.lastUpdate)}</div>
+                          )}
+                        </td>
+                        <td className="py-3 text-right">{formatRate(source.supplyRate)}</td>
+                        <td className="py-3 text-right text-gray-500">{formatRate(info?.borrowRate)}</td>
+                        <td className="py-3 text-right">
+                          {deviationBps === undefined ? "--" : `${deviationBps >= 0 ? "+" : ""}${deviationBps} bp`}
+                        </td>
+                        <td className="py-3 text-right">
+                          {source.isValid && info?.isHealthy !== false ? (
+                            <span className="text-xs px-2 py-0.5 rounded bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400">
+                              OK
+                            </span>
+                          ) : source.isValid ? (
+                            <span className="text-xs px-2 py-0.5 rounded bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400">
+                              Unhealthy
+                            </span>
+                          ) : (
+                            <span
+                              className="text-xs px-2 py-0.5 rounded bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400"
+                              title="Excluded from the median"
+                            >
+                              {source.supplyRate === undefined ? "Reverting" : "Zero rate"}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-xs text-gray-500 mt-4">
+            The oracle takes the median supply rate of sources returning a non-zero rate.
+          </p>
+        </div>
+
+        {/* Anomaly Log */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <h2 className="text-lg font-bold mb-4">Circuit Breaker & Anomaly Log</h2>
+          {events.length === 0 ? (
+            <p className="text-sm text-gray-500">{eventsLoading ? "Loading events..." : "No anomalies recorded."}</p>
+          ) : (
+            <div className="space-y-2">
+              {events.map((event) => (
+                <div
+                  key={event.id}
+                  className="flex justify-between items-start text-sm py-2 border-b border-gray-100 dark:border-gray-800 last:border-0"
+                >
+                  <div>
+                    <div
+                      className={cn(
+                        "font-medium",
+                        event.kind === "reset" ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+                      )}
+                    >
+                      {event.kind === "tripped"
+                        ? event.newRate === BigInt(0)
+                          ? "Circuit breaker tripped by owner"
+                          : "Circuit breaker tripped"
+                        : event.kind === "reset"
+                        ? "Circuit breaker reset"
+                        : "Rate anomaly detected"}
+                    </div>
+                    {event.kind !== "reset" && (
+                      <div className="text-xs text-gray-500">
+                        {formatRate(event.oldRate)} → {formatRate(event.newRate)}
+                      </div>
+                    )}
+                  </div>
+                  <span className="text-xs text-gray-500">
+                    {event.timestamp ? formatTimestamp(event.timestamp) : `Block #${event.blockNumber.toString()}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-6 order-first lg:order-last">
+        {/* Status */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-bold">Oracle Status</h2>
+            <span className={cn("px-2 py-1 rounded text-xs font-medium", statusStyle.className)}>
+              {statusStyle.label}
+            </span>
+          </div>
+
+          {health.issues.length > 0 && (
+            <div className="mb-4 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-700 dark:text-yellow-300 space-y-1">
+              {health.issues.map((issue) => (
+                <div key={issue}>{issue}</div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Live Median</span>
+              <span className="font-medium">{formatRate(health.currentRate)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Last Recorded Rate</span>
+              <span className="font-medium">{formatRate(health.lastRate)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Valid Sources</span>
+              <span className="font-medium">
+                {health.validSources} / {health.sources.length}
+                {health.minSources !== undefined && (
+                  <span className="text-gray-500 font-normal"> (min {health.minSources})</span>
+                )}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Circuit Breaker</span>
+              <span className={health.isCircuitBreakerActive ? "font-medium text-red-600 dark:text-red-400" : "font-medium"}>
+                {health.isCircuitBreakerActive ? "Tripped" : "Armed"}
+              </span>
+            </div>
+          </div>
+        </div>
+
+        {/* Staleness */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <h2 className="text-lg font-bold mb-4">Freshness</h2>
+          <div className="flex justify-between text-sm mb-2">
+            <span className="text-gray-500">Last update</span>
+            <span>{health.lastUpdateTime ? formatTimestamp(health.lastUpdateTime) : "--"}</span>
+          </div>
+          <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden mb-2">
+            <div
+              className={cn(
+                "h-full rounded-full",
+                health.isStale ? "bg-red-500" : stalenessPct > 75 ? "bg-yellow-500" : "bg-green-500"
+              )}
+              style={{ width: `${stalenessPct}%` }}
+            />
+          </div>
+          <div className="text-xs text-gray-500">
+            {health.maxStaleness === undefined || health.age === undefined
+              ? "..."
+              : health.isStale
+              ? `Stale: exceeded the ${formatTimeRemaining(health.maxStaleness)} limit`
+              : `Stale in ${formatTimeRemaining(health.maxStaleness - health.age)}`}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,788 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  useAccount,
+  usePublicClient,
+  useReadContract,
+  useWriteContract,
+  useWaitForTransactionReceipt,
+} from "wagmi";
+import { formatUnits, parseUnits, zeroAddress } from "viem";
+import { ORDER_BOOK_ABI, ERC20_ABI } from "@/lib/abis";
+import { FullStackContracts } from "@/lib/wagmi";
+import { formatTimeRemaining, formatTimestamp } from "@/lib/utils";
+import { useToast, parseError } from "./ui/Toast";
+import { useIndexedEvents } from "@/hooks/useIndexedEvents";
+import { useLiveEvents } from "@/hooks/useLiveEvents";
+import { ORDER_EVENTS } from "@/lib/eventIndexer";
+
+interface OrderBookPanelProps {
+  contracts: FullStackContracts;
+}
+
+interface BookOrder {
+  id: bigint;
+  trader: string;
+  isPayingFixed: boolean;
+  notional: bigint;
+  // Limit rate: maxRate for pay-fixed orders, minRate for receive-fixed orders
+  rate: bigint;
+  margin: bigint;
+  maturityDays: number;
+  expiresAt: number;
+  isActive: boolean;
+}
+
+interface UserOrder extends BookOrder {
+  // Resting orders on the other side this one can be matched against
+  matches: bigint[];
+}
+
+interface MyOrder extends UserOrder {
+  originalNotional: bigint;
+  status: "open" | "partial" | "filled" | "cancelled" | "expired";
+}
+
+interface PriceLevel {
+  rate: bigint;
+  notional: bigint;
+  count: number;
+}
+
+interface Trade {
+  id: string;
+  payFixedOrderId: bigint;
+  payFloatingOrderId: bigint;
+  rate: bigint;
+  notional: bigint;
+  blockNumber: bigint;
+  timestamp: number;
+}
+
+type TxStep = "idle" | "approving" | "creating" | "cancelling" | "matching";
+
+const MATURITY_OPTIONS = [30, 90, 180, 365];
+const TRADES_TO_SHOW = 20;
+const WAD = parseUnits("1", 18);
+
+const inputClass =
+  "w-full px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+// Aggregate orders into price levels, best rate first
+function toPriceLevels(orders: BookOrder[], descending: boolean): PriceLevel[] {
+  const levels = new Map<string, PriceLevel>();
+  for (const order of orders) {
+    const key = order.rate.toString();
+    const level = levels.get(key) ?? { rate: order.rate, notional: BigInt(0), count: 0 };
+    level.notional += order.notional;
+    level.count += 1;
+    levels.set(key, level);
+  }
+  return Array.from(levels.values()).sort((a, b) =>
+    a.rate === b.rate ? 0 : (a.rate < b.rate) === descending ? 1 : -1
+  );
+}
+
+export function OrderBookPanel({ contracts }: OrderBookPanelProps) {
+  const { address } = useAccount();
+  const { addToast } = useToast();
+  const publicClient = usePublicClient();
+  const [maturity, setMaturity] = useState(90);
+  const [bookOrders, setBookOrders] = useState<BookOrder[]>([]);
+  const [userOrders, setUserOrders] = useState<UserOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isPayingFixed, setIsPayingFixed] = useState(true);
+  const [rate, setRate] = useState("5");
+  const [notional, setNotional] = useState("");
+  const [margin, setMargin] = useState("");
+  const [durationHours, setDurationHours] = useState("24");
+  const [txStep, setTxStep] = useState<TxStep>("idle");
+  const [pendingOrderId, setPendingOrderId] = useState<bigint | null>(null);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  const isDeployed = contracts.orderBook !== zeroAddress;
+
+  const { writeContract, data: hash, isPending, error, reset } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+
+  const { data: matchingFee } = useReadContract({
+    address: contracts.orderBook,
+    abi: ORDER_BOOK_ABI,
+    functionName: "matchingFee",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: minOrderDuration } = useReadContract({
+    address: contracts.orderBook,
+    abi: ORDER_BOOK_ABI,
+    functionName: "minOrderDuration",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: maxOrderDuration } = useReadContract({
+    address: contracts.orderBook,
+    abi: ORDER_BOOK_ABI,
+    functionName: "maxOrderDuration",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: allowance, refetch: refetchAllowance } = useReadContract({
+    address: contracts.usdc,
+    abi: ERC20_ABI,
+    functionName: "allowance",
+    args: address ? [address, contracts.orderBook] : undefined,
+    query: { enabled: isDeployed },
+  });
+
+  const toUnits = (value: string, decimals: number) => {
+    try {
+      return value ? parseUnits(value, decimals) : BigInt(0);
+    } catch {
+      return BigInt(0);
+    }
+  };
+
+  const notionalWei = toUnits(notional, 6);
+  const marginWei = toUnits(margin, 6);
+  const rateWad = toUnits(rate, 16);
+  const durationSeconds = BigInt(Math.round((parseFloat(durationHours) || 0) * 3600));
+  const minMargin = notionalWei / BigInt(10);
+  const minHours = minOrderDuration !== undefined ? Number(minOrderDuration) / 3600 : undefined;
+  const maxHours = maxOrderDuration !== undefined ? Number(maxOrderDuration) / 3600 : undefined;
+
+  const validationError = (() => {
+    if (notionalWei === BigInt(0)) return "Enter a notional amount";
+    if (rateWad === BigInt(0) || rateWad > WAD) return "Rate must be between 0% and 100%";
+    if (marginWei < minMargin) return "Margin must be at least 10% of notional";
+    if (minOrderDuration !== undefined && durationSeconds < minOrderDuration) {
+      return `Duration must be at least ${minHours} hours`;
+    }
+    if (maxOrderDuration !== undefined && durationSeconds > maxOrderDuration) {
+      return `Duration must be at most ${maxHours} hours`;
+    }
+    return null;
+  })();
+
+  const fetchOrderBook = useCallback(async () => {
+    if (!publicClient || !isDeployed) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const [payFixedIds, payFloatingIds] = await publicClient.readContract({
+        address: contracts.orderBook,
+        abi: ORDER_BOOK_ABI,
+        functionName: "getActiveOrders",
+      });
+
+      const userIds = address
+        ? await publicClient.readContract({
+            address: contracts.orderBook,
+            abi: ORDER_BOOK_ABI,
+            functionName: "getUserOrders",
+            args: [address],
+          })
+        : [];
+
+      const activeIds = [...payFixedIds, ...payFloatingIds];
+      const allIds = [...activeIds, ...userIds.filter((id) => !activeIds.includes(id))];
+
+      const orderResults = allIds.length
+        ? await publicClient.multicall({
+            contracts: allIds.map((id) => ({
+              address: contracts.orderBook,
+              abi: ORDER_BOOK_ABI,
+              functionName: "getOrder" as const,
+              args: [id] as const,
+            })),
+            allowFailure: true,
+          })
+        : [];
+
+      const ordersById = new Map<string, BookOrder>();
+      orderResults.forEach((result, i) => {
+        if (result.status === "failure") {
+          console.error(`Error fetching order ${allIds[i].toString()}`);
+          return;
+        }
+        const order = result.result;
+        ordersById.set(allIds[i].toString(), {
+          id: allIds[i],
+          trader: order.trader,
+          isPayingFixed: order.isPayingFixed,
+          notional: order.notional,
+          rate: order.isPayingFixed ? order.maxRate : order.minRate,
+          margin: order.margin,
+          maturityDays: Number(order.maturityDays),
+          expiresAt: Number(order.expiresAt),
+          isActive: order.isActive,
+        });
+      });
+
+      setBookOrders(
+        activeIds.map((id) => ordersById.get(id.toString())).filter((o): o is BookOrder => !!o)
+      );
+
+      // Matches are only worth looking up for the user's orders still on the book
+      const openUserIds = userIds.filter((id) => {
+        const order = ordersById.get(id.toString());
+        return order?.isActive && order.expiresAt >= Math.floor(Date.now() / 1000);
+      });
+      const matchResults = openUserIds.length
+        ? await publicClient.multicall({
+            contracts: openUserIds.map((id) => ({
+              address: contracts.orderBook,
+              abi: ORDER_BOOK_ABI,
+              functionName: "findMatchingOrders" as const,
+              args: [id] as const,
+            })),
+            allowFailure: true,
+          })
+        : [];
+      const matchesById = new Map(
+        openUserIds.map((id, i) => {
+          const result = matchResults[i];
+          return [id.toString(), result.status === "success" ? [...result.result] : []];
+        })
+      );
+
+      setUserOrders(
+        userIds
+          .map((id) => ordersById.get(id.toString()))
+          .filter((o): o is BookOrder => !!o)
+          .map((order) => ({ ...order, matches: matchesById.get(order.id.toString()) ?? [] }))
+          .sort((a, b) => (a.id < b.id ? 1 : -1))
+      );
+    } catch (e) {
+      console.error("Error fetching order book:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [publicClient, isDeployed, contracts.orderBook, address]);
+
+  useEffect(() => {
+    fetchOrderBook();
+  }, [fetchOrderBook]);
+
+  const { events } = useIndexedEvents(contracts);
+
+  // Original sizes and cancellations come from the shared indexer; current notional shrinks on partial fills
+  const myOrders = useMemo<MyOrder[]>(() => {
+    if (userOrders.length === 0) return [];
+    const originalNotional = new Map<string, bigint>();
+    const cancelledIds = new Set<string>();
+    for (const event of events) {
+      if (event.contract !== "orderBook") continue;
+      if (event.eventName === "OrderCreated") originalNotional.set(String(event.args.orderId), event.args.notional);
+      else if (event.eventName === "OrderCancelled") cancelledIds.add(String(event.args.orderId));
+    }
+
+    return userOrders.map((order) => {
+      const original = originalNotional.get(order.id.toString()) ?? order.notional;
+      let status: MyOrder["status"];
+      if (!order.isActive) status = cancelledIds.has(order.id.toString()) ? "cancelled" : "filled";
+      else if (now > order.expiresAt) status = "expired";
+      else if (order.notional < original) status = "partial";
+      else status = "open";
+      return { ...order, originalNotional: original, status };
+    });
+  }, [events, userOrders, now]);
+
+  // Trades tape, newest first
+  const trades = useMemo<Trade[]>(() => {
+    const recent: Trade[] = [];
+    for (let i = events.length - 1; i >= 0 && recent.length < TRADES_TO_SHOW; i--) {
+      const event = events[i];
+      if (event.contract !== "orderBook" || event.eventName !== "OrdersMatched") continue;
+      const { args, id, blockNumber, timestamp } = event;
+      recent.push({
+        id,
+        payFixedOrderId: args.payFixedOrderId,
+        payFloatingOrderId: args.payFloatingOrderId,
+        rate: args.matchedRate,
+        notional: args.matchedNotional,
+        blockNumber,
+        timestamp,
+      });
+    }
+    return recent;
+  }, [events]);
+
+  // Orders placed, cancelled or filled by anyone show up as soon as they are mined
+  useLiveEvents(contracts, ORDER_EVENTS, fetchOrderBook);
+
+  // Refresh the book every 30 seconds
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setNow(Math.floor(Date.now() / 1000));
+      fetchOrderBook();
+    }, 30000);
+    return () => clearInterval(interval);
+  }, [fetchOrderBook]);
+
+  const sendCreate = () => {
+    setTxStep("creating");
+    writeContract({
+      address: contracts.orderBook,
+      abi: ORDER_BOOK_ABI,
+      functionName: "createOrder",
+      // Only the bound on the trader's own side matters for matching
+      args: isPayingFixed
+        ? [true, notionalWei, BigInt(0), rateWad, maturity, marginWei, durationSeconds]
+        : [false, notionalWei, rateWad, WAD, maturity, marginWei, durationSeconds],
+    });
+  };
+
+  const handleCreate = () => {
+    if (!address || validationError) return;
+    if (!allowance || allowance < marginWei) {
+      setTxStep("approving");
+      writeContract({
+        address: contracts.usdc,
+        abi: ERC20_ABI,
+        functionName: "approve",
+        args: [contracts.orderBook, marginWei],
+      });
+    } else {
+      sendCreate();
+    }
+  };
+
+  const handleCancel = (orderId: bigint) => {
+    setTxStep("cancelling");
+    setPendingOrderId(orderId);
+    writeContract({
+      address: contracts.orderBook,
+      abi: ORDER_BOOK_ABI,
+      functionName: "cancelOrder",
+      args: [orderId],
+    });
+  };
+
+  const handleMatch = (order: MyOrder) => {
+    // Take the best counterparty: lowest receive-fixed rate for a payer, highest pay-fixed rate for a receiver
+    const counterparties = bookOrders.filter((o) => order.matches.includes(o.id));
+    if (counterparties.length === 0) return;
+    const best = counterparties.reduce((a, b) =>
+      order.isPayingFixed ? (b.rate < a.rate ? b : a) : (b.rate > a.rate ? b : a)
+    );
+
+    setTxStep("matching");
+    setPendingOrderId(order.id);
+    writeContract({
+      address: contracts.orderBook,
+      abi: ORDER_BOOK_ABI,
+      functionName: "matchOrders",
+      args: order.isPayingFixed ? [order.id, best.id] : [best.id, order.id],
+    });
+  };
+
+  // Chain approval into order creation, then refresh the book
+  useEffect(() => {
+    if (!isSuccess) return;
+
+    if (txStep === "approving") {
+      refetchAllowance().then(() => {
+        reset();
+        sendCreate();
+      });
+      return;
+    }
+
+    addToast({
+      type: "success",
+      title: "Success",
+      message:
+        txStep === "creating"
+          ? "Order placed"
+          : txStep === "matching"
+          ? "Orders matched, positions opened"
+          : "Order cancelled and margin refunded",
+    });
+    if (txStep === "creating") {
+      setNotional("");
+      setMargin("");
+    }
+    setTxStep("idle");
+    setPendingOrderId(null);
+    reset();
+    refetchAllowance();
+    fetchOrderBook();
+  }, [isSuccess, txStep]);
+
+  useEffect(() => {
+    if (error) {
+      addToast({ type: "error", title: "Error", message: parseError(error) });
+      setTxStep("idle");
+      setPendingOrderId(null);
+      reset();
+    }
+  }, [error, addToast, reset]);
+
+  const isWorking = isPending || isConfirming || txStep !== "idle";
+
+  const formatRate = (value: bigint | undefined) => {
+    if (value === undefined) return "...";
+    return (Number(formatUnits(value, 18)) * 100).toFixed(2);
+  };
+
+  const formatUSDC = (amount: bigint) => {
+    return Number(formatUnits(amount, 6)).toLocaleString(undefined, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  const getStatusColor = (status: MyOrder["status"]) => {
+    switch (status) {
+      case "open":
+        return "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400";
+      case "partial":
+        return "bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400";
+      case "filled":
+        return "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400";
+      case "expired":
+        return "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400";
+      case "cancelled":
+        return "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-400";
+    }
+  };
+
+  if (!isDeployed) {
+    return (
+      <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+        <h2 className="text-lg font-bold mb-2">Order Book</h2>
+        <p className="text-sm text-gray-500">
+          The order book is not deployed on this network yet.
+        </p>
+      </div>
+    );
+  }
+
+  const maturityOrders = bookOrders.filter((o) => o.maturityDays === maturity);
+  // Payers bid for fixed (highest first), receivers offer it (lowest first)
+  const bids = toPriceLevels(maturityOrders.filter((o) => o.isPayingFixed), true);
+  const asks = toPriceLevels(maturityOrders.filter((o) => !o.isPayingFixed), false);
+  const maxLevelNotional = [...bids, ...asks].reduce(
+    (max, level) => (level.notional > max ? level.notional : max),
+    BigInt(1)
+  );
+  const spread = bids.length && asks.length ? asks[0].rate - bids[0].rate : undefined;
+  const fee = matchingFee !== undefined ? (notionalWei * matchingFee) / WAD : BigInt(0);
+
+  const renderLevels = (levels: PriceLevel[], side: "bid" | "ask") =>
+    levels.length === 0 ? (
+      <div className="text-sm text-gray-500 py-4 text-center">No orders</div>
+    ) : (
+      levels.map((level) => (
+        <button
+          key={level.rate.toString()}
+          onClick={() => {
+            // Clicking a level prefills the opposite side at that rate
+            setIsPayingFixed(side === "ask");
+            setRate(formatUnits(level.rate, 16));
+          }}
+          className="relative w-full grid grid-cols-3 text-sm py-1.5 px-2 hover:bg-gray-50 dark:hover:bg-gray-800 rounded"
+        >
+          <div
+            className={`absolute inset-y-0 right-0 rounded ${
+              side === "bid" ? "bg-green-500/10" : "bg-red-500/10"
+            }`}
+            style={{ width: `${Number((level.notional * BigInt(100)) / maxLevelNotional)}%` }}
+          />
+          <span className={`relative text-left font-medium ${side === "bid" ? "text-green-600" : "text-red-500"}`}>
+            {formatRate(level.rate)}%
+          </span>
+          <span className="relative text-right">{formatUSDC(level.notional)}</span>
+          <span className="relative text-right text-gray-500">{level.count}</span>
+        </button>
+      ))
+    );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 lg:gap-8">
+      <div className="lg:col-span-2 space-y-6">
+        {/* Book */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-lg font-bold">Order Book</h2>
+            <div className="flex gap-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
+              {MATURITY_OPTIONS.map((days) => (
+                <button
+                  key={days}
+                  onClick={() => setMaturity(days)}
+                  className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                    maturity === days ? "bg-white dark:bg-gray-700 shadow-sm" : "text-gray-500"
+                  }`}
+                >
+                  {days}d
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <div className="text-sm font-medium mb-2">Pay Fixed (bids)</div>
+              <div className="grid grid-cols-3 text-xs text-gray-500 px-2 mb-1">
+                <span>Max Rate</span>
+                <span className="text-right">Notional</span>
+                <span className="text-right">Orders</span>
+              </div>
+              {renderLevels(bids, "bid")}
+            </div>
+            <div>
+              <div className="text-sm font-medium mb-2">Receive Fixed (offers)</div>
+              <div className="grid grid-cols-3 text-xs text-gray-500 px-2 mb-1">
+                <span>Min Rate</span>
+                <span className="text-right">Notional</span>
+                <span className="text-right">Orders</span>
+              </div>
+              {renderLevels(asks, "ask")}
+            </div>
+          </div>
+
+          <div className="mt-4 text-sm text-gray-500 text-center">
+            {loading
+              ? "Loading orders..."
+              : spread === undefined
+              ? "No two-sided market at this maturity"
+              : spread <= BigInt(0)
+              ? "Book is crossed: matching orders can be filled at the midpoint"
+              : `Spread: ${formatRate(spread)}%`}
+          </div>
+        </div>
+
+        {/* My Orders */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-bold">My Orders</h2>
+            <button
+              onClick={fetchOrderBook}
+              disabled={loading}
+              className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50"
+            >
+              {loading ? "Loading..." : "Refresh"}
+            </button>
+          </div>
+
+          {myOrders.length === 0 ? (
+            <p className="text-sm text-gray-500">No orders yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {myOrders.map((order) => {
+                const filled = order.originalNotional - (order.status === "filled" ? BigInt(0) : order.notional);
+                const filledPct =
+                  order.originalNotional > BigInt(0)
+                    ? Number((filled * BigInt(100)) / order.originalNotional)
+                    : 0;
+                const isOpen = order.status === "open" || order.status === "partial";
+
+                return (
+                  <div
+                    key={order.id.toString()}
+                    className="border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="font-medium">
+                        #{order.id.toString()} · {order.isPayingFixed ? "Pay Fixed" : "Receive Fixed"}{" "}
+                        {order.isPayingFixed ? "≤" : "≥"} {formatRate(order.rate)}% · {order.maturityDays}d
+                      </div>
+                      <span
+                        className={`px-2 py-0.5 text-xs font-medium rounded-full capitalize ${getStatusColor(order.status)}`}
+                      >
+                        {order.status === "partial" ? "Partially filled" : order.status}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-500 mb-1">
+                      <span>
+                        Filled {formatUSDC(filled)} / {formatUSDC(order.originalNotional)} USDC
+                      </span>
+                      <span>
+                        {isOpen || order.status === "expired"
+                          ? formatTimeRemaining(order.expiresAt - now)
+                          : formatTimestamp(order.expiresAt)}
+                      </span>
+                    </div>
+                    <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-500" style={{ width: `${filledPct}%` }} />
+                    </div>
+                    {(isOpen || order.status === "expired") && (
+                      <div className="flex gap-2 mt-3">
+                        {isOpen && order.matches.length > 0 && (
+                          <button
+                            onClick={() => handleMatch(order)}
+                            disabled={isWorking}
+                            className="flex-1 py-2 bg-gradient-to-r from-indigo-500 to-purple-500 text-white text-sm font-medium rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
+                          >
+                            {txStep === "matching" && pendingOrderId === order.id
+                              ? "Matching..."
+                              : `Match (${order.matches.length} available)`}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleCancel(order.id)}
+                          disabled={isWorking}
+                          className="flex-1 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+                        >
+                          {txStep === "cancelling" && pendingOrderId === order.id
+                            ? "Cancelling..."
+                            : order.status === "expired"
+                            ? "Refund Margin"
+                            : "Cancel"}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {/* Order Entry */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <h2 className="text-lg font-bold mb-4">Place Order</h2>
+
+          <div className="grid grid-cols-2 gap-2 mb-4">
+            <button
+              onClick={() => setIsPayingFixed(true)}
+              className={`p-3 rounded-lg border-2 transition-colors ${
+                isPayingFixed
+                  ? "border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20"
+                  : "border-gray-200 dark:border-gray-700"
+              }`}
+            >
+              <div className="font-medium">Pay Fixed</div>
+            </button>
+            <button
+              onClick={() => setIsPayingFixed(false)}
+              className={`p-3 rounded-lg border-2 transition-colors ${
+                !isPayingFixed
+                  ? "border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20"
+                  : "border-gray-200 dark:border-gray-700"
+              }`}
+            >
+              <div className="font-medium">Receive Fixed</div>
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                {isPayingFixed ? "Max Fixed Rate" : "Min Fixed Rate"} (%)
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Notional (USDC)</label>
+              <input
+                type="number"
+                value={notional}
+                onChange={(e) => setNotional(e.target.value)}
+                placeholder="0.00"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Margin (USDC)</label>
+              <input
+                type="number"
+                value={margin}
+                onChange={(e) => setMargin(e.target.value)}
+                placeholder={formatUSDC(minMargin)}
+                className={inputClass}
+              />
+              <div className="text-xs text-gray-500 mt-1">Min: {formatUSDC(minMargin)} USDC (10% of notional)</div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Good For (hours)</label>
+              <input
+                type="number"
+                value={durationHours}
+                onChange={(e) => setDurationHours(e.target.value)}
+                className={inputClass}
+              />
+              <div className="text-xs text-gray-500 mt-1">
+                {minHours !== undefined && maxHours !== undefined
+                  ? `Between ${minHours}h and ${maxHours}h`
+                  : "Loading limits..."}
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 my-4 text-sm space-y-2">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Maturity</span>
+              <span className="font-medium">{maturity} days</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">
+                Matching Fee ({matchingFee !== undefined ? formatRate(matchingFee) : "..."}%)
+              </span>
+              <span className="font-medium">{formatUSDC(fee)} USDC</span>
+            </div>
+          </div>
+
+          {validationError && notional && <div className="text-xs text-red-500 mb-3">{validationError}</div>}
+
+          <button
+            onClick={handleCreate}
+            disabled={isWorking || !!validationError || !address}
+            className="w-full py-3 bg-gradient-to-r from-indigo-500 to-purple-500 text-white font-medium rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {txStep === "approving"
+              ? "Approving..."
+              : txStep === "creating"
+              ? isConfirming
+                ? "Confirming..."
+                : "Placing..."
+              : !allowance || allowance < marginWei
+              ? "Approve & Place Order"
+              : "Place Order"}
+          </button>
+        </div>
+
+        {/* Trades Tape */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <h2 className="text-lg font-bold mb-4">Recent Trades</h2>
+          {trades.length === 0 ? (
+            <p className="text-sm text-gray-500">No matched trades yet.</p>
+          ) : (
+            <div className="space-y-1">
+              <div className="grid grid-cols-3 text-xs text-gray-500 mb-1">
+                <span>Rate</span>
+                <span className="text-right">Notional</span>
+                <span className="text-right">Time</span>
+              </div>
+              {trades.map((trade) => (
+                <div
+                  key={trade.id}
+                  className="grid grid-cols-3 text-sm"
+                >
+                  <span className="font-medium">{formatRate(trade.rate)}%</span>
+                  <span className="text-right">{formatUSDC(trade.notional)}</span>
+                  <span className="text-right text-gray-500">
+                    {trade.timestamp ? formatTimestamp(trade.timestamp) : `#${trade.blockNumber.toString()}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { RateComparison } from "../RateComparison";
+import type { FairRate, assessFixedRate } from "@/lib/fairRate";
 
 interface Props {
   isPayingFixed: boolean;
@@ -10,6 +11,8 @@ interface Props {
   onFixedRateChange: (value: string) => void;
   onMaturityChange: (value: string) => void;
   notional: string;
+  fairRate: FairRate | null;
+  rateAssessment: ReturnType<typeof assessFixedRate> | null;
 }
 
 const MATURITY_OPTIONS = [
@@ -27,6 +30,8 @@ export function Step2Parameters({
   onFixedRateChange,
   onMaturityChange,
   notional,
+  fairRate,
+  rateAssessment,
 }: Props) {
   return (
     <div className="space-y-6 font-mono">
@@ -73,6 +78,52 @@ export function Step2Parameters({
             [MATCH]
           </button>
         </div>
+
+        {/* Fair Value Suggestion */}
+        {fairRate && (
+          <div className="mt-3 border border-[--terminal-green-dark] bg-black p-3 text-xs">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-[--text-secondary] font-bold uppercase">
+                fair value ({maturityDays}d): <span className="text-[--terminal-green]">{fairRate.rate.toFixed(2)}%</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => onFixedRateChange(fairRate.rate.toFixed(2))}
+                style={{ all: 'unset', cursor: 'pointer', color: 'var(--terminal-green)', fontSize: '11px', fontWeight: 700 }}
+              >
+                [USE]
+              </button>
+            </div>
+            <div className="space-y-0.5 text-[--text-comment]">
+              {fairRate.components.map((component) => (
+                <div key={component.label} className="flex justify-between">
+                  <span>{component.label}</span>
+                  <span>
+                    {component.rate.toFixed(2)}% × {(component.weight * 100).toFixed(0)}%
+                  </span>
+                </div>
+              ))}
+            </div>
+            {rateAssessment && (
+              <div
+                className={`mt-2 font-bold ${
+                  rateAssessment.severity === "danger"
+                    ? "text-[--terminal-red]"
+                    : rateAssessment.severity === "warn"
+                    ? "text-[--terminal-amber]"
+                    : "text-[--terminal-green]"
+                }`}
+              >
+                {rateAssessment.deviationBps === 0
+                  ? "> at fair value"
+                  : `> ${Math.abs(rateAssessment.deviationBps)}bp ${rateAssessment.deviationBps > 0 ? "above" : "below"} fair value`}
+                {rateAssessment.assessment === "unfavorable" &&
+                  ` (off-market: you ${isPayingFixed ? "pay" : "receive"} a worse fixed rate)`}
+                {rateAssessment.assessment === "favorable" && " (in your favour)"}
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Maturity Selection */}
@@ -2,6 +2,8 @@
 
 import { useMemo } from "react";
 import { RateComparison } from "../RateComparison";
+import type { BacktestContracts } from "../RateComparison/Backtest";
+import type { assessFixedRate } from "@/lib/fairRate";
 
 interface Props {
   isPayingFixed: boolean;
@@ -11,6 +13,10 @@ interface Props {
   margin: string;
   currentFloatingRate: number;
   errors: string[];
+  fairRate?: number;
+  rateAssessment: ReturnType<typeof assessFixedRate> | null;
+  curveRate?: number;
+  contracts: BacktestContracts;
 }
 
 export function Step4Review({
@@ -21,6 +27,10 @@ export function Step4Review({
   margin,
   currentFloatingRate,
   errors,
+  fairRate,
+  rateAssessment,
+  curveRate,
+  contracts,
 }: Props) {
   const notionalNum = parseFloat(notional) || 0;
   const marginNum = parseFloat(margin) || 0;
@@ -74,6 +84,27 @@ export function Step4Review({
         </div>
       )}
 
+      {rateAssessment?.assessment === "unfavorable" && fairRate !== undefined && (
+        <div
+          className={`border-2 bg-black p-4 ${
+            rateAssessment.severity === "danger" ? "border-[--terminal-red]" : "border-[--terminal-amber]"
+          }`}
+        >
+          <h4
+            className={`text-sm font-bold mb-1 ${
+              rateAssessment.severity === "danger" ? "text-[--terminal-red]" : "text-[--terminal-amber]"
+            }`}
+          >
+            Warning: Off-Market Rate
+          </h4>
+          <div className="text-sm text-[--text-secondary]">
+            Your {fixedRate}% fixed rate is {Math.abs(rateAssessment.deviationBps)}bp{" "}
+            {rateAssessment.deviationBps > 0 ? "above" : "below"} the {fairRate.toFixed(2)}% fair value for this
+            maturity. You would lock in a worse rate than the market implies.
+          </div>
+        </div>
+      )}
+
       {/* Position Summary Card */}
       <div className="border-2 border-[--terminal-green] bg-[--bg-secondary]">
         {/* Terminal Header */}
@@ -190,6 +221,9 @@ export function Step4Review({
         notional={notionalNum}
         maturityDays={maturityDaysNum}
         isPayingFixed={isPayingFixed}
+        curveRate={curveRate}
+        contracts={contracts}
+        margin={marginNum}
       />
 
       {/* Disclaimer */}
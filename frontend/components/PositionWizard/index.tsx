@@ -5,7 +5,13 @@ import { useWriteContract, useReadContract, useAccount, useWaitForTransactionRec
 import { parseUnits, formatUnits } from "viem";
 import { POSITION_MANAGER_ABI, ERC20_ABI, RATE_ORACLE_ABI } from "@/lib/abis";
 import { useToast, parseError } from "../ui/Toast";
-import { usePositionWizard } from "@/hooks/usePositionWizard";
+import { OracleGuardNotice } from "../OracleGuard";
+import { useOracleGuard } from "@/hooks/useOracleGuard";
+import { useFairFixedRate } from "@/hooks/useFairFixedRate";
+import { useTermStructure } from "@/hooks/useTermStructure";
+import { bucketFor } from "@/lib/termStructure";
+import { assessFixedRate } from "@/lib/fairRate";
+import { usePositionWizard, type WizardPrefill } from "@/hooks/usePositionWizard";
 import { StepIndicator } from "./StepIndicator";
 import { Step1PositionType } from "./Step1PositionType";
 import { Step2Parameters } from "./Step2Parameters";
@@ -16,15 +22,33 @@ interface Props {
   contracts: {
     positionManager: `0x${string}`;
     rateOracle: `0x${string}`;
+    irsPool: `0x${string}`;
+    orderBook: `0x${string}`;
+    settlementEngine: `0x${string}`;
+    liquidationEngine: `0x${string}`;
+    marginEngine: `0x${string}`;
+    automation: `0x${string}`;
+    irsGovernor: `0x${string}`;
     usdc: `0x${string}`;
   };
+  prefill?: WizardPrefill;
   onSwitchToAdvanced?: () => void;
 }
 
-export function PositionWizard({ contracts, onSwitchToAdvanced }: Props) {
+export function PositionWizard({ contracts, prefill, onSwitchToAdvanced }: Props) {
   const { address } = useAccount();
   const { addToast } = useToast();
-  const wizard = usePositionWizard();
+  const wizard = usePositionWizard(prefill);
+  const oracleGuard = useOracleGuard(contracts.rateOracle, "open");
+  const { fairRate } = useFairFixedRate({
+    rateOracle: contracts.rateOracle,
+    irsPool: contracts.irsPool,
+    maturityDays: parseInt(wizard.state.maturityDays) || 90,
+  });
+  const termStructure = useTermStructure(contracts);
+  const curveRate = termStructure.points.find(
+    (p) => p.maturityDays === bucketFor(parseInt(wizard.state.maturityDays) || 90)
+  )?.impliedRate;
 
   const { writeContract, isPending, data: hash, error, reset } = useWriteContract();
 
@@ -70,6 +94,7 @@ export function PositionWizard({ contracts, onSwitchToAdvanced }: Props) {
   };
 
   const handleOpenPosition = () => {
+    if (!oracleGuard.canProceed) return;
     writeContract({
       address: contracts.positionManager,
       abi: POSITION_MANAGER_ABI,
@@ -95,6 +120,10 @@ export function PositionWizard({ contracts, onSwitchToAdvanced }: Props) {
 
   const validation = wizard.getStepValidation(wizard.step);
 
+  const typedRate = parseFloat(wizard.state.fixedRate);
+  const rateAssessment =
+    fairRate && !isNaN(typedRate) ? assessFixedRate(typedRate, fairRate.rate, wizard.state.isPayingFixed) : null;
+
   return (
     <div className="terminal-window">
       {/* Terminal Header */}
@@ -136,6 +165,8 @@ export function PositionWizard({ contracts, onSwitchToAdvanced }: Props) {
             onFixedRateChange={(value) => wizard.updateField("fixedRate", value)}
             onMaturityChange={(value) => wizard.updateField("maturityDays", value)}
             notional={wizard.state.notional}
+            fairRate={fairRate}
+            rateAssessment={rateAssessment}
           />
         )}
 
@@ -157,10 +188,16 @@ export function PositionWizard({ contracts, onSwitchToAdvanced }: Props) {
             margin={wizard.state.margin}
             currentFloatingRate={currentFloatingRate}
             errors={validation.errors}
+            fairRate={fairRate?.rate}
+            rateAssessment={rateAssessment}
+            curveRate={curveRate}
+            contracts={contracts}
           />
         )}
       </div>
 
+      {wizard.isLastStep && <OracleGuardNotice guard={oracleGuard} className="mt-4" />}
+
       {/* Transaction Status */}
       {(isPending || isConfirming) && (
         <div className="mt-4 p-3 border border-[--terminal-blue] bg-black text-[--terminal-blue] text-center font-mono text-sm">
@@ -199,7 +236,7 @@ export function PositionWizard({ contracts, onSwitchToAdvanced }: Props) {
             <button
               type="button"
               onClick={handleOpenPosition}
-              disabled={isWorking || !validation.isValid}
+              disabled={isWorking || !validation.isValid || !oracleGuard.canProceed}
               className="flex-1 py-3 min-h-[48px] neon-button primary disabled:opacity-50"
             >
               {isWorking ? (isConfirming ? "Confirming..." : "Opening...") : "Open Position"}
@@ -1,16 +1,26 @@
 "use client";
 
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
+import { useWriteContract, useWaitForTransactionReceipt } from "wagmi";
 import { formatUnits } from "viem";
-import { POSITION_MANAGER_ABI, MARGIN_ENGINE_ABI, SETTLEMENT_ENGINE_ABI } from "@/lib/abis";
+import { SETTLEMENT_ENGINE_ABI } from "@/lib/abis";
 import { useState, useEffect, useCallback } from "react";
 import { usePublicClient } from "wagmi";
+import { StopLossControl } from "./StopLossControl";
+import { OracleGuardNotice } from "./OracleGuard";
+import { useOracleGuard } from "@/hooks/useOracleGuard";
+import { useUserPositions } from "@/hooks/useUserPositions";
 
 interface Props {
   contracts: {
     positionManager: `0x${string}`;
+    rateOracle: `0x${string}`;
     marginEngine: `0x${string}`;
     settlementEngine: `0x${string}`;
+    liquidationEngine: `0x${string}`;
+    orderBook: `0x${string}`;
+    automation: `0x${string}`;
+    irsGovernor: `0x${string}`;
+    usdc: `0x${string}`;
   };
   userAddress: `0x${string}`;
 }
@@ -37,96 +47,29 @@ export function PositionsList({ contracts, userAddress }: Props) {
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
   const publicClient = usePublicClient();
 
-  // Get next position ID to know how many to query
-  const { data: nextPositionId, refetch: refetchNextId } = useReadContract({
-    address: contracts.positionManager,
-    abi: POSITION_MANAGER_ABI,
-    functionName: "nextPositionId",
-  });
+  // The wallet's positions, discovered from NFT transfers and shared with the dashboard
+  const {
+    positions: owned,
+    loading: ownedLoading,
+    discovering,
+    refetch: refetchOwned,
+  } = useUserPositions(contracts, userAddress);
 
   const { writeContract, isPending, data: hash } = useWriteContract();
+  const oracleGuard = useOracleGuard(contracts.rateOracle, "settle");
 
   const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({
     hash,
   });
 
   const fetchPositions = useCallback(async () => {
-      if (!publicClient) return;
-
-      // No positions exist yet
-      if (!nextPositionId || nextPositionId === BigInt(0)) {
-        setPositions([]);
-        setLoading(false);
-        setLastRefresh(new Date());
-        return;
-      }
+      if (!publicClient || ownedLoading) return;
 
       setLoading(true);
 
       try {
-        // Build array of position IDs to fetch
-        const positionIds = Array.from(
-          { length: Number(nextPositionId) },
-          (_, i) => BigInt(i)
-        );
-
-        // Batch fetch all positions in a single multicall
-        const positionCalls = positionIds.map((id) => ({
-          address: contracts.positionManager,
-          abi: POSITION_MANAGER_ABI,
-          functionName: "positions" as const,
-          args: [id] as const,
-        }));
-
-        const positionsData = await publicClient.multicall({
-          contracts: positionCalls,
-          allowFailure: true,
-        });
-
-        // Parse positions and identify active ones for settlement queries
-        const parsedPositions: Position[] = [];
-        const activePositionIds: bigint[] = [];
-
-        for (let i = 0; i < positionsData.length; i++) {
-          const result = positionsData[i];
-          if (result.status === "failure") {
-            console.error(`Error fetching position ${i}:`, result.error);
-            continue;
-          }
-
-          const data = result.result as [string, boolean, number, number, boolean, bigint, bigint, bigint, bigint, number, bigint];
-          const [trader, isPayingFixed, startTime, maturity, isActive, notional, margin, fixedRate, accumulatedPnL, lastSettlement] = data;
-
-          // Debug logging
-          console.log(`[PositionsList] Position ${i}:`, {
-            trader,
-            isActive,
-            notional: notional.toString(),
-            margin: margin.toString(),
-            accumulatedPnL: accumulatedPnL.toString(),
-            fixedRate: fixedRate.toString(),
-          });
-
-          parsedPositions.push({
-            id: BigInt(i),
-            trader,
-            isPayingFixed,
-            startTime: Number(startTime),
-            maturity: Number(maturity),
-            isActive,
-            notional,
-            margin,
-            fixedRate,
-            accumulatedPnL,
-            lastSettlement: Number(lastSettlement),
-            pendingPnL: BigInt(0),
-            canSettle: false,
-          });
-
-          if (isActive) {
-            activePositionIds.push(BigInt(i));
-          }
-        }
+        const parsedPositions: Position[] = owned.map((p) => ({ ...p, pendingPnL: BigInt(0), canSettle: false }));
+        const activePositionIds = owned.filter((p) => p.isActive).map((p) => p.id);
 
         // Batch fetch settlement data for active positions only
         if (activePositionIds.length > 0) {
@@ -181,34 +124,28 @@ export function PositionsList({ contracts, userAddress }: Props) {
         setLoading(false);
         setLastRefresh(new Date());
       }
-  }, [nextPositionId, publicClient, contracts.positionManager, contracts.settlementEngine]);
-
-  // Refetch on mount to get fresh data
-  useEffect(() => {
-    refetchNextId();
-  }, [refetchNextId]);
+  }, [owned, ownedLoading, publicClient, contracts.settlementEngine]);
 
-  // Fetch positions when nextPositionId changes
+  // Fetch settlement data whenever the wallet's positions change
   useEffect(() => {
     fetchPositions();
   }, [fetchPositions]);
 
-  // Auto-refresh every 30 seconds
+  // Pending PnL accrues with time; auto-refresh every 30 seconds
   useEffect(() => {
-    const interval = setInterval(() => {
-      refetchNextId();
-    }, 30000);
+    const interval = setInterval(fetchPositions, 30000);
     return () => clearInterval(interval);
-  }, [refetchNextId]);
+  }, [fetchPositions]);
 
   // Refetch positions after transaction confirms
   useEffect(() => {
     if (isConfirmed) {
-      refetchNextId();
+      refetchOwned();
     }
-  }, [isConfirmed, refetchNextId]);
+  }, [isConfirmed, refetchOwned]);
 
   const handleSettle = (positionId: bigint) => {
+    if (!oracleGuard.canProceed) return;
     writeContract({
       address: contracts.settlementEngine,
       abi: SETTLEMENT_ENGINE_ABI,
@@ -218,6 +155,7 @@ export function PositionsList({ contracts, userAddress }: Props) {
   };
 
   const handleCloseMatured = (positionId: bigint) => {
+    if (!oracleGuard.canProceed) return;
     writeContract({
       address: contracts.settlementEngine,
       abi: SETTLEMENT_ENGINE_ABI,
@@ -252,17 +190,21 @@ export function PositionsList({ contracts, userAddress }: Props) {
   };
 
   const isWorking = isPending || isConfirming;
+  const hasOwnActive = positions.some((p) => p.isActive);
 
   return (
     <div className="bg-white dark:bg-gray-900 rounded-xl p-4 sm:p-6 border border-gray-200 dark:border-gray-800">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 mb-6">
-        <h2 className="text-lg sm:text-xl font-semibold">All Positions</h2>
+        <h2 className="text-lg sm:text-xl font-semibold">Your Positions</h2>
         <div className="flex items-center gap-3">
           <span className="text-xs text-gray-500 hidden sm:inline">
-            Updated: {lastRefresh.toLocaleTimeString()}
+            {discovering ? "Scanning history..." : `Updated: ${lastRefresh.toLocaleTimeString()}`}
           </span>
           <button
-            onClick={() => refetchNextId()}
+            onClick={() => {
+              refetchOwned();
+              fetchPositions();
+            }}
             disabled={loading}
             className="text-xs px-3 py-1.5 min-h-[32px] bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition disabled:opacity-50"
           >
@@ -271,6 +213,8 @@ export function PositionsList({ contracts, userAddress }: Props) {
         </div>
       </div>
 
+      {hasOwnActive && <OracleGuardNotice guard={oracleGuard} className="mb-4" />}
+
       {loading ? (
         <div className="text-center py-8 text-gray-500 dark:text-gray-400">
           <p>Loading positions...</p>
@@ -286,11 +230,6 @@ export function PositionsList({ contracts, userAddress }: Props) {
             <div key={position.id.toString()} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
               <div className="flex justify-between items-start mb-4">
                 <div className="flex flex-wrap gap-2">
-                  {position.trader.toLowerCase() === userAddress.toLowerCase() && (
-                    <span className="text-xs px-2 py-1 rounded bg-blue-100 dark:bg-blue-600 text-blue-700 dark:text-white">
-                      Yours
-                    </span>
-                  )}
                   <span className={`text-xs px-2 py-1 rounded text-white ${
                     position.isPayingFixed ? "bg-indigo-600" : "bg-purple-600"
                   }`}>
@@ -363,11 +302,20 @@ export function PositionsList({ contracts, userAddress }: Props) {
                 </div>
               </div>
 
-              {position.isActive && position.trader.toLowerCase() === userAddress.toLowerCase() && (
+              {position.isActive && (
+                <StopLossControl
+                  contracts={contracts}
+                  positionId={position.id}
+                  notional={position.notional}
+                  currentPnL={position.accumulatedPnL + position.pendingPnL}
+                />
+              )}
+
+              {position.isActive && (
                 <div className="flex flex-col sm:flex-row gap-2">
                   <button
                     onClick={() => handleSettle(position.id)}
-                    disabled={isWorking || !position.canSettle}
+                    disabled={isWorking || !position.canSettle || !oracleGuard.canProceed}
                     className={`flex-1 py-2 min-h-[44px] rounded text-sm font-medium text-white transition disabled:opacity-50 ${
                       position.canSettle
                         ? "bg-green-600 hover:bg-green-500"
@@ -379,7 +327,7 @@ export function PositionsList({ contracts, userAddress }: Props) {
                   {isMatured(position.maturity) && (
                     <button
                       onClick={() => handleCloseMatured(position.id)}
-                      disabled={isWorking}
+                      disabled={isWorking || !oracleGuard.canProceed}
                       className="flex-1 py-2 min-h-[44px] bg-red-600 hover:bg-red-500 text-white rounded text-sm font-medium transition disabled:opacity-50"
                     >
                       {isWorking ? "..." : "Close"}
@@ -391,7 +339,7 @@ export function PositionsList({ contracts, userAddress }: Props) {
           ))}
 
           <div className="text-center text-sm text-gray-500 mt-4">
-            Showing {positions.length} of {(nextPositionId ? nextPositionId - BigInt(1) : BigInt(0)).toString()} total positions
+            {positions.filter((p) => p.isActive).length} active of {positions.length} positions held
           </div>
         </div>
       )}
@@ -0,0 +1,218 @@
+"use client";
+
+import { FullStackContracts } from "@/lib/wagmi";
+import { shortenAddress } from "@/lib/utils";
+import {
+  GOVERNANCE_ACTIONS,
+  GOVERNABLE_CONTRACT_LABELS,
+  type DraftAction,
+  type GovernableContract,
+  buildProposalAction,
+  createDraftAction,
+  decodeProposalAction,
+  getActionDefinition,
+} from "@/lib/governanceActions";
+
+const inputClass =
+  "w-full px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg";
+
+interface ProposalActionEditorProps {
+  actions: DraftAction[];
+  contracts: FullStackContracts;
+  onChange: (actions: DraftAction[]) => void;
+}
+
+export function ProposalActionEditor({ actions, contracts, onChange }: ProposalActionEditorProps) {
+  const updateAction = (index: number, update: Partial<DraftAction>) => {
+    onChange(actions.map((action, i) => (i === index ? { ...action, ...update } : action)));
+  };
+
+  const selectAction = (index: number, actionId: string) => {
+    const def = getActionDefinition(actionId);
+    updateAction(index, { actionId, inputs: def ? def.params.map(() => "") : [] });
+  };
+
+  const removeAction = (index: number) => {
+    onChange(actions.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {actions.map((draft, index) => {
+        const def = getActionDefinition(draft.actionId);
+        let preview: { target: string; calldata: string } | null = null;
+        let previewError: string | null = null;
+        try {
+          preview = buildProposalAction(draft, contracts);
+        } catch (e) {
+          previewError = e instanceof Error ? e.message : "Invalid action";
+        }
+
+        return (
+          <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Action {index + 1}</span>
+              <div className="flex items-center gap-2">
+                <div className="flex gap-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
+                  {(["builder", "raw"] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => updateAction(index, { mode })}
+                      className={`px-3 py-1 text-xs font-medium rounded-md capitalize transition-colors ${
+                        draft.mode === mode ? "bg-white dark:bg-gray-700 shadow-sm" : "text-gray-500"
+                      }`}
+                    >
+                      {mode}
+                    </button>
+                  ))}
+                </div>
+                {actions.length > 1 && (
+                  <button
+                    onClick={() => removeAction(index)}
+                    className="text-xs text-red-500 hover:text-red-600"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {draft.mode === "builder" ? (
+              <>
+                <select
+                  value={draft.actionId}
+                  onChange={(e) => selectAction(index, e.target.value)}
+                  className={inputClass}
+                >
+                  {(Object.keys(GOVERNABLE_CONTRACT_LABELS) as GovernableContract[]).map((contract) => (
+                    <optgroup key={contract} label={GOVERNABLE_CONTRACT_LABELS[contract]}>
+                      {GOVERNANCE_ACTIONS.filter((a) => a.contract === contract).map((a) => (
+                        <option key={a.id} value={a.id}>
+                          {a.label}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+                {def?.params.map((param, paramIndex) => (
+                  <div key={paramIndex}>
+                    <label className="block text-xs text-gray-500 mb-1">{param.label}</label>
+                    {param.kind === "bool" ? (
+                      <select
+                        value={draft.inputs[paramIndex] ?? ""}
+                        onChange={(e) => {
+                          const inputs = [...draft.inputs];
+                          inputs[paramIndex] = e.target.value;
+                          updateAction(index, { inputs });
+                        }}
+                        className={inputClass}
+                      >
+                        <option value="">Select...</option>
+                        <option value="true">true</option>
+                        <option value="false">false</option>
+                      </select>
+                    ) : (
+                      <input
+                        type="text"
+                        value={draft.inputs[paramIndex] ?? ""}
+                        onChange={(e) => {
+                          const inputs = [...draft.inputs];
+                          inputs[paramIndex] = e.target.value;
+                          updateAction(index, { inputs });
+                        }}
+                        placeholder={param.kind === "address" ? "0x..." : "0"}
+                        className={`${inputClass} ${param.kind === "address" ? "font-mono" : ""}`}
+                      />
+                    )}
+                  </div>
+                ))}
+              </>
+            ) : (
+              <>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Target Contract</label>
+                  <input
+                    type="text"
+                    value={draft.target}
+                    onChange={(e) => updateAction(index, { target: e.target.value })}
+                    placeholder="0x..."
+                    className={`${inputClass} font-mono`}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Calldata</label>
+                  <input
+                    type="text"
+                    value={draft.calldata}
+                    onChange={(e) => updateAction(index, { calldata: e.target.value })}
+                    placeholder="0x..."
+                    className={`${inputClass} font-mono`}
+                  />
+                </div>
+              </>
+            )}
+
+            {preview ? (
+              <div className="text-xs text-gray-500 font-mono break-all">
+                {shortenAddress(preview.target)} ← {preview.calldata}
+              </div>
+            ) : (
+              previewError &&
+              (draft.mode === "raw" ? draft.target || draft.calldata : draft.inputs.some(Boolean)) && (
+                <div className="text-xs text-red-500">{previewError}</div>
+              )
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => onChange([...actions, createDraftAction()])}
+        className="w-full py-2 border border-dashed border-gray-300 dark:border-gray-600 text-sm text-gray-500 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+      >
+        + Add Action
+      </button>
+    </div>
+  );
+}
+
+interface ProposalActionSummaryProps {
+  targets: readonly `0x${string}`[];
+  calldatas: readonly `0x${string}`[];
+  contracts: FullStackContracts;
+}
+
+export function ProposalActionSummary({ targets, calldatas, contracts }: ProposalActionSummaryProps) {
+  if (targets.length === 0) return null;
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 mb-4 space-y-2">
+      <div className="text-xs font-medium text-gray-500">Actions</div>
+      {targets.map((target, i) => {
+        const decoded = decodeProposalAction(target, calldatas[i], contracts);
+        return (
+          <div key={i} className="text-sm font-mono break-all">
+            <span className="text-indigo-600 dark:text-indigo-400">
+              {decoded.contractLabel ?? shortenAddress(target)}
+            </span>
+            {decoded.functionName ? (
+              <>
+                .{decoded.functionName}(
+                {decoded.args.map((arg, argIndex) => (
+                  <span key={argIndex}>
+                    {argIndex > 0 && ", "}
+                    <span className="text-gray-500">{arg.label}: </span>
+                    {arg.value}
+                  </span>
+                ))}
+                )
+              </>
+            ) : (
+              <span className="text-gray-500"> raw call {decoded.calldata}</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,22 +3,29 @@
 import { useReadContract } from "wagmi";
 import { formatUnits } from "viem";
 import { POSITION_MANAGER_ABI, RATE_ORACLE_ABI } from "@/lib/abis";
+import { useLiveEvents } from "@/hooks/useLiveEvents";
+import { POSITION_EVENTS } from "@/lib/eventIndexer";
 
 interface Props {
   contracts: {
     positionManager: `0x${string}`;
+    settlementEngine: `0x${string}`;
+    liquidationEngine: `0x${string}`;
+    orderBook: `0x${string}`;
+    automation: `0x${string}`;
+    irsGovernor: `0x${string}`;
     rateOracle: `0x${string}`;
   };
 }
 
 export function ProtocolStats({ contracts }: Props) {
-  const { data: totalMargin } = useReadContract({
+  const { data: totalMargin, refetch: refetchMargin } = useReadContract({
     address: contracts.positionManager,
     abi: POSITION_MANAGER_ABI,
     functionName: "totalMargin",
   });
 
-  const { data: activePositions } = useReadContract({
+  const { data: activePositions, refetch: refetchActive } = useReadContract({
     address: contracts.positionManager,
     abi: POSITION_MANAGER_ABI,
     functionName: "activePositionCount",
@@ -30,6 +37,11 @@ export function ProtocolStats({ contracts }: Props) {
     functionName: "getCurrentRate",
   });
 
+  useLiveEvents(contracts, POSITION_EVENTS, () => {
+    refetchMargin();
+    refetchActive();
+  });
+
   const formatUSDC = (value: bigint | undefined) => {
     if (!value) return "$0";
     return `$${Number(formatUnits(value, 6)).toLocaleString()}`;
@@ -1,46 +1,332 @@
 "use client";
 
-import { useState } from "react";
-import { useAccount } from "wagmi";
+import { useState, useEffect } from "react";
+import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
+import { formatUnits, parseUnits, maxUint256, zeroAddress } from "viem";
+import { IRS_POOL_ABI, ERC20_ABI } from "@/lib/abis";
+import { FullStackContracts } from "@/lib/wagmi";
+import { useToast, parseError } from "./ui/Toast";
 
 interface RateAMMPanelProps {
-  contracts: any;
+  contracts: FullStackContracts;
 }
 
+type PoolAction = "trade" | "addLiquidity" | "removeLiquidity";
+type TxStep = "idle" | "approving" | "executing";
+
+// Max slippage presets in percent
+const SLIPPAGE_PRESETS = ["0.1", "0.5", "1.0"];
+
 export function RateAMMPanel({ contracts }: RateAMMPanelProps) {
   const { address } = useAccount();
+  const { addToast } = useToast();
   const [mode, setMode] = useState<"trade" | "liquidity">("trade");
   const [isPayingFixed, setIsPayingFixed] = useState(true);
   const [notional, setNotional] = useState("");
   const [liquidityAmount, setLiquidityAmount] = useState("");
+  const [pendingAction, setPendingAction] = useState<PoolAction | null>(null);
+  const [txStep, setTxStep] = useState<TxStep>("idle");
+  const [maxSlippage, setMaxSlippage] = useState("0.5");
+  const [lockedQuote, setLockedQuote] = useState<bigint | null>(null);
+
+  const isDeployed = contracts.irsPool !== zeroAddress;
+
+  const { writeContract, data: hash, isPending, error, reset } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+
+  // Pool reads
+  const { data: currentRate, refetch: refetchRate } = useReadContract({
+    address: contracts.irsPool,
+    abi: IRS_POOL_ABI,
+    functionName: "getCurrentRate",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: targetRate } = useReadContract({
+    address: contracts.irsPool,
+    abi: IRS_POOL_ABI,
+    functionName: "targetRate",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: totalLiquidity, refetch: refetchLiquidity } = useReadContract({
+    address: contracts.irsPool,
+    abi: IRS_POOL_ABI,
+    functionName: "getTotalLiquidity",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: poolState, refetch: refetchPool } = useReadContract({
+    address: contracts.irsPool,
+    abi: IRS_POOL_ABI,
+    functionName: "pool",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: feeBps } = useReadContract({
+    address: contracts.irsPool,
+    abi: IRS_POOL_ABI,
+    functionName: "fee",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: lpPosition, refetch: refetchLpPosition } = useReadContract({
+    address: contracts.irsPool,
+    abi: IRS_POOL_ABI,
+    functionName: "getLpPosition",
+    args: address ? [address] : undefined,
+    query: { enabled: isDeployed && !!address },
+  });
+
+  const toUnits = (value: string) => {
+    try {
+      return value ? parseUnits(value, 6) : BigInt(0);
+    } catch {
+      return BigInt(0);
+    }
+  };
+
+  const notionalWei = toUnits(notional);
+  const liquidityWei = toUnits(liquidityAmount);
+
+  // Live quote for the notional being typed
+  const { data: quote, refetch: refetchQuote, isFetching: isQuoting } = useReadContract({
+    address: contracts.irsPool,
+    abi: IRS_POOL_ABI,
+    functionName: "getQuote",
+    args: [isPayingFixed, notionalWei],
+    query: { enabled: isDeployed && notionalWei > BigInt(0) },
+  });
+
+  // Collateral reads
+  const { data: usdcBalance, refetch: refetchBalance } = useReadContract({
+    address: contracts.usdc,
+    abi: ERC20_ABI,
+    functionName: "balanceOf",
+    args: address ? [address] : undefined,
+  });
 
-  // Mock data - would come from contract reads
-  const poolData = {
-    currentRate: "5.25",
-    targetRate: "5.00",
-    totalLiquidity: "1,250,000",
-    fixedLiquidity: "625,000",
-    floatingLiquidity: "625,000",
-    fee: "0.30",
-    yourShares: "0",
-    yourValue: "0",
+  const { data: allowance, refetch: refetchAllowance } = useReadContract({
+    address: contracts.usdc,
+    abi: ERC20_ABI,
+    functionName: "allowance",
+    args: address ? [address, contracts.irsPool] : undefined,
+    query: { enabled: isDeployed },
+  });
+
+  const quoteRate = quote ? quote[0] : undefined;
+  const tradeFee = quote
+    ? quote[1]
+    : feeBps !== undefined
+    ? (notionalWei * feeBps) / BigInt(10000)
+    : BigInt(0);
+  const lpShares = lpPosition ? lpPosition[0] : BigInt(0);
+  const lpValue = lpPosition ? lpPosition[1] : BigInt(0);
+  const fixedLiquidity = poolState ? poolState[0] : BigInt(0);
+  const floatingLiquidity = poolState ? poolState[1] : BigInt(0);
+
+  const slippageBps = Math.round(parseFloat(maxSlippage) * 100);
+  const isSlippageValid = Number.isFinite(slippageBps) && slippageBps > 0 && slippageBps < 5000;
+
+  // Price impact of the quote against the pool's current rate, positive when adverse
+  const priceImpactBps =
+    quoteRate !== undefined && currentRate
+      ? Number(
+          ((isPayingFixed ? quoteRate - currentRate : currentRate - quoteRate) * BigInt(10000)) /
+            currentRate
+        )
+      : undefined;
+
+  // Worst rate the trader accepts: above the quote when paying fixed, below it when receiving
+  const getRateLimit = (rate: bigint) => {
+    const bps = BigInt(slippageBps);
+    return isPayingFixed
+      ? (rate * (BigInt(10000) + bps)) / BigInt(10000)
+      : (rate * (BigInt(10000) - bps)) / BigInt(10000);
   };
 
-  const handleTrade = async () => {
-    // Would call IRSPool.swap()
-    console.log("Trading:", { isPayingFixed, notional });
+  // Swaps only pull the fee; deposits pull the full amount
+  const requiredAllowance = (action: PoolAction) => {
+    if (action === "trade") return tradeFee;
+    if (action === "addLiquidity") return liquidityWei;
+    return BigInt(0);
   };
 
-  const handleAddLiquidity = async () => {
-    // Would call IRSPool.addLiquidity()
-    console.log("Adding liquidity:", liquidityAmount);
+  const abortAction = () => {
+    setPendingAction(null);
+    setLockedQuote(null);
+    setTxStep("idle");
+    reset();
   };
 
-  const handleRemoveLiquidity = async () => {
-    // Would call IRSPool.removeLiquidity()
-    console.log("Removing liquidity");
+  // Re-quote right before sending; refuse to swap if the rate drifted past the tolerance
+  const sendSwap = async (quotedRate: bigint) => {
+    const { data: freshQuote } = await refetchQuote();
+    if (!freshQuote) {
+      addToast({ type: "error", title: "Quote unavailable", message: "Could not refresh the pool quote" });
+      abortAction();
+      return;
+    }
+
+    const rateLimit = getRateLimit(quotedRate);
+    const freshRate = freshQuote[0];
+    if (isPayingFixed ? freshRate > rateLimit : freshRate < rateLimit) {
+      addToast({
+        type: "warning",
+        title: "Quote moved",
+        message: `Rate moved from ${formatRate(quotedRate)}% to ${formatRate(freshRate)}%, beyond your ${maxSlippage}% slippage. Review the new quote and try again.`,
+      });
+      abortAction();
+      return;
+    }
+
+    setTxStep("executing");
+    writeContract({
+      address: contracts.irsPool,
+      abi: IRS_POOL_ABI,
+      functionName: "swap",
+      args: isPayingFixed
+        ? [true, notionalWei, BigInt(0), rateLimit]
+        : [false, notionalWei, rateLimit, maxUint256],
+    });
   };
 
+  const executeAction = (action: PoolAction, quotedRate: bigint | null) => {
+    if (action === "trade") {
+      if (quotedRate !== null) sendSwap(quotedRate);
+      return;
+    }
+
+    setTxStep("executing");
+    if (action === "addLiquidity") {
+      writeContract({
+        address: contracts.irsPool,
+        abi: IRS_POOL_ABI,
+        functionName: "addLiquidity",
+        args: [liquidityWei],
+      });
+    } else {
+      writeContract({
+        address: contracts.irsPool,
+        abi: IRS_POOL_ABI,
+        functionName: "removeLiquidity",
+        args: [lpShares],
+      });
+    }
+  };
+
+  const startAction = (action: PoolAction) => {
+    if (!address || !isDeployed) return;
+    if (action === "trade" && (quoteRate === undefined || !isSlippageValid)) return;
+
+    const quotedRate = action === "trade" && quoteRate !== undefined ? quoteRate : null;
+    setPendingAction(action);
+    setLockedQuote(quotedRate);
+    const required = requiredAllowance(action);
+    if (required > BigInt(0) && (!allowance || allowance < required)) {
+      setTxStep("approving");
+      writeContract({
+        address: contracts.usdc,
+        abi: ERC20_ABI,
+        functionName: "approve",
+        args: [contracts.irsPool, required],
+      });
+    } else {
+      executeAction(action, quotedRate);
+    }
+  };
+
+  // Chain approval into the pending action, then refresh pool state on completion
+  useEffect(() => {
+    if (!isSuccess || !pendingAction) return;
+
+    if (txStep === "approving") {
+      refetchAllowance().then(() => {
+        reset();
+        executeAction(pendingAction, lockedQuote);
+      });
+    } else if (txStep === "executing") {
+      addToast({
+        type: "success",
+        title: "Success",
+        message:
+          pendingAction === "trade"
+            ? "Rate swap executed"
+            : pendingAction === "addLiquidity"
+            ? "Liquidity added"
+            : "Liquidity removed",
+      });
+      if (pendingAction === "trade") setNotional("");
+      if (pendingAction === "addLiquidity") setLiquidityAmount("");
+      setPendingAction(null);
+      setLockedQuote(null);
+      setTxStep("idle");
+      reset();
+      refetchRate();
+      refetchLiquidity();
+      refetchPool();
+      refetchLpPosition();
+      refetchBalance();
+      refetchAllowance();
+    }
+  }, [isSuccess, txStep, pendingAction]);
+
+  useEffect(() => {
+    if (error) {
+      addToast({ type: "error", title: "Error", message: parseError(error) });
+      setPendingAction(null);
+      setLockedQuote(null);
+      setTxStep("idle");
+      reset();
+    }
+  }, [error, addToast, reset]);
+
+  const handleTrade = () => startAction("trade");
+  const handleAddLiquidity = () => startAction("addLiquidity");
+  const handleRemoveLiquidity = () => startAction("removeLiquidity");
+
+  const isWorking = isPending || isConfirming || pendingAction !== null;
+
+  const formatRate = (rate: bigint | undefined) => {
+    if (rate === undefined) return "...";
+    return (Number(formatUnits(rate, 18)) * 100).toFixed(2);
+  };
+
+  const formatUSDC = (amount: bigint) => {
+    return Number(formatUnits(amount, 6)).toLocaleString(undefined, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  };
+
+  const fixedSharePct =
+    fixedLiquidity + floatingLiquidity > BigInt(0)
+      ? Number((fixedLiquidity * BigInt(10000)) / (fixedLiquidity + floatingLiquidity)) / 100
+      : 50;
+
+  const getButtonText = (action: PoolAction, label: string) => {
+    if (isWorking && pendingAction === action) {
+      if (txStep === "approving") return "Approving...";
+      return isConfirming ? "Confirming..." : "Processing...";
+    }
+    const required = requiredAllowance(action);
+    if (required > BigInt(0) && (!allowance || allowance < required)) {
+      return `Approve & ${label}`;
+    }
+    return label;
+  };
+
+  if (!isDeployed) {
+    return (
+      <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+        <h2 className="text-lg font-bold mb-2">Rate AMM</h2>
+        <p className="text-sm text-gray-500">
+          The rate AMM pool is not deployed on this network yet.
+        </p>
+      </div>
+    );
+  }
+
   return (
     <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
       <div className="flex items-center justify-between mb-6">
@@ -74,15 +360,15 @@ export function RateAMMPanel({ contracts }: RateAMMPanelProps) {
         <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
           <div className="text-sm text-gray-500 mb-1">Current Rate</div>
           <div className="text-2xl font-bold text-indigo-600">
-            {poolData.currentRate}%
+            {formatRate(currentRate)}%
           </div>
           <div className="text-xs text-gray-400">
-            Target: {poolData.targetRate}%
+            Target: {formatRate(targetRate)}%
           </div>
         </div>
         <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
           <div className="text-sm text-gray-500 mb-1">Total Liquidity</div>
-          <div className="text-2xl font-bold">${poolData.totalLiquidity}</div>
+          <div className="text-2xl font-bold">${formatUSDC(totalLiquidity ?? BigInt(0))}</div>
           <div className="text-xs text-gray-400">USDC</div>
         </div>
       </div>
@@ -90,11 +376,14 @@ export function RateAMMPanel({ contracts }: RateAMMPanelProps) {
       {/* Liquidity Distribution */}
       <div className="mb-6">
         <div className="flex justify-between text-sm mb-2">
-          <span className="text-gray-500">Fixed: ${poolData.fixedLiquidity}</span>
-          <span className="text-gray-500">Floating: ${poolData.floatingLiquidity}</span>
+          <span className="text-gray-500">Fixed: ${formatUSDC(fixedLiquidity)}</span>
+          <span className="text-gray-500">Floating: ${formatUSDC(floatingLiquidity)}</span>
         </div>
         <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
-          <div className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 w-1/2" />
+          <div
+            className="h-full bg-gradient-to-r from-indigo-500 to-purple-500"
+            style={{ width: `${fixedSharePct}%` }}
+          />
         </div>
       </div>
 
@@ -131,7 +420,12 @@ export function RateAMMPanel({ contracts }: RateAMMPanelProps) {
 
           {/* Notional Input */}
           <div className="mb-4">
-            <label className="block text-sm font-medium mb-2">Notional Amount</label>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium">Notional Amount</label>
+              <span className="text-xs text-gray-400">
+                Balance: {usdcBalance !== undefined ? formatUSDC(usdcBalance) : "0.00"} USDC
+              </span>
+            </div>
             <div className="relative">
               <input
                 type="number"
@@ -146,33 +440,93 @@ export function RateAMMPanel({ contracts }: RateAMMPanelProps) {
             </div>
           </div>
 
+          {/* Max Slippage */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2">Max Slippage</label>
+            <div className="flex gap-2">
+              {SLIPPAGE_PRESETS.map((preset) => (
+                <button
+                  key={preset}
+                  onClick={() => setMaxSlippage(preset)}
+                  className={`px-3 py-1.5 text-sm font-medium rounded-md border transition-colors ${
+                    maxSlippage === preset
+                      ? "border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20"
+                      : "border-gray-200 dark:border-gray-700 text-gray-500"
+                  }`}
+                >
+                  {preset}%
+                </button>
+              ))}
+              <div className="relative flex-1">
+                <input
+                  type="number"
+                  step="0.1"
+                  value={maxSlippage}
+                  onChange={(e) => setMaxSlippage(e.target.value)}
+                  className="w-full px-3 py-1.5 text-sm bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-gray-500">%</span>
+              </div>
+            </div>
+            {!isSlippageValid && (
+              <div className="text-xs text-red-500 mt-1">Enter a slippage between 0.01% and 50%</div>
+            )}
+          </div>
+
           {/* Quote */}
-          {notional && (
+          {notionalWei > BigInt(0) && (
             <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 mb-4">
               <div className="flex justify-between text-sm mb-2">
                 <span className="text-gray-500">You Will {isPayingFixed ? "Pay" : "Receive"}</span>
-                <span className="font-medium">{poolData.currentRate}% Fixed</span>
+                <span className="font-medium">
+                  {isQuoting && quoteRate === undefined ? "Quoting..." : `${formatRate(quoteRate)}% Fixed`}
+                </span>
               </div>
               <div className="flex justify-between text-sm mb-2">
-                <span className="text-gray-500">Fee ({poolData.fee}%)</span>
-                <span className="font-medium">
-                  {(parseFloat(notional) * 0.003).toFixed(2)} USDC
+                <span className="text-gray-500">
+                  Fee ({feeBps !== undefined ? (Number(feeBps) / 100).toFixed(2) : "..."}%)
+                </span>
+                <span className="font-medium">{formatUSDC(tradeFee)} USDC</span>
+              </div>
+              <div className="flex justify-between text-sm mb-2">
+                <span className="text-gray-500">Price Impact</span>
+                <span
+                  className={`font-medium ${
+                    priceImpactBps === undefined
+                      ? ""
+                      : priceImpactBps < 50
+                      ? "text-green-500"
+                      : priceImpactBps < 200
+                      ? "text-yellow-500"
+                      : "text-red-500"
+                  }`}
+                >
+                  {priceImpactBps === undefined ? "..." : `${(priceImpactBps / 100).toFixed(2)}%`}
                 </span>
               </div>
               <div className="flex justify-between text-sm">
-                <span className="text-gray-500">Slippage Impact</span>
-                <span className="font-medium text-green-500">~0.01%</span>
+                <span className="text-gray-500">
+                  {isPayingFixed ? "Max Rate Paid" : "Min Rate Received"}
+                </span>
+                <span className="font-medium">
+                  {quoteRate !== undefined && isSlippageValid ? `${formatRate(getRateLimit(quoteRate))}%` : "..."}
+                </span>
               </div>
+              {priceImpactBps !== undefined && priceImpactBps >= 200 && (
+                <div className="mt-3 text-xs text-red-500">
+                  High price impact: this trade moves the pool rate significantly. Consider a smaller notional.
+                </div>
+              )}
             </div>
           )}
 
           {/* Trade Button */}
           <button
             onClick={handleTrade}
-            disabled={!notional}
+            disabled={isWorking || notionalWei === BigInt(0) || quoteRate === undefined || !isSlippageValid || !address}
             className="w-full py-3 bg-gradient-to-r from-indigo-500 to-purple-500 text-white font-medium rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {isPayingFixed ? "Pay Fixed Rate" : "Receive Fixed Rate"}
+            {getButtonText("trade", isPayingFixed ? "Pay Fixed Rate" : "Receive Fixed Rate")}
           </button>
         </>
       ) : (
@@ -182,11 +536,11 @@ export function RateAMMPanel({ contracts }: RateAMMPanelProps) {
             <div className="text-sm text-gray-500 mb-2">Your LP Position</div>
             <div className="flex justify-between">
               <div>
-                <div className="text-lg font-bold">{poolData.yourShares}</div>
+                <div className="text-lg font-bold">{formatUSDC(lpShares)}</div>
                 <div className="text-xs text-gray-500">LP Shares</div>
               </div>
               <div className="text-right">
-                <div className="text-lg font-bold">${poolData.yourValue}</div>
+                <div className="text-lg font-bold">${formatUSDC(lpValue)}</div>
                 <div className="text-xs text-gray-500">Value</div>
               </div>
             </div>
@@ -194,7 +548,12 @@ export function RateAMMPanel({ contracts }: RateAMMPanelProps) {
 
           {/* Add Liquidity */}
           <div className="mb-4">
-            <label className="block text-sm font-medium mb-2">Add Liquidity</label>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium">Add Liquidity</label>
+              <span className="text-xs text-gray-400">
+                Balance: {usdcBalance !== undefined ? formatUSDC(usdcBalance) : "0.00"} USDC
+              </span>
+            </div>
             <div className="relative">
               <input
                 type="number"
@@ -212,25 +571,25 @@ export function RateAMMPanel({ contracts }: RateAMMPanelProps) {
           <div className="grid grid-cols-2 gap-3">
             <button
               onClick={handleAddLiquidity}
-              disabled={!liquidityAmount}
+              disabled={isWorking || liquidityWei === BigInt(0) || !address}
               className="py-3 bg-gradient-to-r from-indigo-500 to-purple-500 text-white font-medium rounded-lg hover:opacity-90 transition-opacity disabled:opacity-50"
             >
-              Add Liquidity
+              {getButtonText("addLiquidity", "Add Liquidity")}
             </button>
             <button
               onClick={handleRemoveLiquidity}
-              disabled={poolData.yourShares === "0"}
+              disabled={isWorking || lpShares === BigInt(0)}
               className="py-3 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 font-medium rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
             >
-              Remove
+              {getButtonText("removeLiquidity", "Remove All")}
             </button>
           </div>
 
           {/* LP Info */}
           <div className="mt-4 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg text-sm text-blue-700 dark:text-blue-300">
             <p>
-              LP providers earn {poolData.fee}% fees on all trades. Liquidity is split
-              between fixed and floating sides to facilitate rate swaps.
+              LP providers earn {feeBps !== undefined ? (Number(feeBps) / 100).toFixed(2) : "..."}% fees
+              on all trades. Liquidity is split between fixed and floating sides to facilitate rate swaps.
             </p>
           </div>
         </>
@@ -0,0 +1,224 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { formatUnits } from "viem";
+import { useRateHistory } from "@/hooks/useRateHistory";
+import { useEngineParams } from "@/hooks/useEngineParams";
+import { parseRateCsv, runBacktest, type HistoricalRate } from "@/lib/backtest";
+import { formatTimestamp } from "@/lib/utils";
+import type { IndexerContracts } from "@/lib/eventIndexer";
+
+export interface BacktestContracts extends IndexerContracts {
+  marginEngine: `0x${string}`;
+}
+
+interface Props {
+  contracts: BacktestContracts;
+  fixedRate: number;
+  notional: number;
+  maturityDays: number;
+  isPayingFixed: boolean;
+  margin: number;
+}
+
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 120;
+
+export function Backtest({ contracts, fixedRate, notional, maturityDays, isPayingFixed, margin }: Props) {
+  const [source, setSource] = useState<"oracle" | "csv">("oracle");
+  const [csvRates, setCsvRates] = useState<HistoricalRate[] | null>(null);
+  const [csvName, setCsvName] = useState<string | null>(null);
+  const [csvError, setCsvError] = useState<string | null>(null);
+
+  const history = useRateHistory(contracts);
+
+  const params = useEngineParams(contracts);
+
+  const oracleRates = useMemo<HistoricalRate[]>(
+    () => history.points.map((p) => ({ timestamp: p.timestamp, rate: Number(formatUnits(p.rate, 16)) })),
+    [history.points]
+  );
+
+  const rates = source === "oracle" ? oracleRates : csvRates ?? [];
+
+  const result = useMemo(
+    () =>
+      runBacktest(rates, {
+        notional,
+        fixedRate,
+        maturityDays,
+        isPayingFixed,
+        margin,
+        ...params,
+      }),
+    [rates, notional, fixedRate, maturityDays, isPayingFixed, margin, params]
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsvName(file.name);
+    try {
+      setCsvRates(parseRateCsv(await file.text()));
+      setCsvError(null);
+    } catch (e) {
+      setCsvRates(null);
+      setCsvError(e instanceof Error ? e.message : "Could not read file");
+    }
+  };
+
+  const path = useMemo(() => {
+    if (!result || result.points.length === 0) return null;
+    const values = [0, ...result.points.map((p) => p.cumulativePnL)];
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const span = max - min || 1;
+    const x = (i: number) => (i / (values.length - 1)) * CHART_WIDTH;
+    const y = (v: number) => CHART_HEIGHT - ((v - min) / span) * CHART_HEIGHT;
+    return {
+      line: values.map((v, i) => `${i === 0 ? "M" : "L"}${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(" "),
+      zeroY: y(0),
+      breachX: result.maintenanceBreach ? x(result.points.indexOf(result.maintenanceBreach) + 1) : null,
+    };
+  }, [result]);
+
+  const pnlColor = (value: number) =>
+    value >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400";
+
+  return (
+    <div className="space-y-4">
+      {/* Source */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex gap-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
+          {(["oracle", "csv"] as const).map((s) => (
+            <button
+              key={s}
+              type="button"
+              onClick={() => setSource(s)}
+              className={`px-3 py-1 text-xs font-medium rounded-md transition ${
+                source === s
+                  ? "bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm"
+                  : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+              }`}
+            >
+              {s === "oracle" ? "Oracle history" : "Import CSV"}
+            </button>
+          ))}
+        </div>
+        {source === "csv" && (
+          <label className="text-xs text-indigo-600 dark:text-indigo-400 cursor-pointer hover:underline">
+            {csvName ?? "Choose file…"}
+            <input
+              type="file"
+              accept=".csv,text/csv,text/plain"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+      </div>
+
+      {source === "csv" && !csvRates && (
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          One row per adapter rate: <code>timestamp,rate</code>, with unix seconds or ISO dates and the rate in
+          percent.
+          {csvError && <div className="mt-1 text-red-600 dark:text-red-400">{csvError}</div>}
+        </div>
+      )}
+
+      {source === "oracle" && history.loading && (
+        <div className="h-32 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse" />
+      )}
+
+      {source === "oracle" && !history.loading && oracleRates.length === 0 && (
+        <div className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+          {history.error ?? "No oracle rate history yet. Import a CSV instead."}
+        </div>
+      )}
+
+      {result && path && (
+        <>
+          {/* Cumulative PnL path */}
+          <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-32" preserveAspectRatio="none">
+              <line
+                x1={0}
+                x2={CHART_WIDTH}
+                y1={path.zeroY}
+                y2={path.zeroY}
+                stroke="currentColor"
+                className="text-gray-300 dark:text-gray-600"
+                strokeDasharray="4 4"
+                vectorEffect="non-scaling-stroke"
+              />
+              {path.breachX !== null && (
+                <line
+                  x1={path.breachX}
+                  x2={path.breachX}
+                  y1={0}
+                  y2={CHART_HEIGHT}
+                  stroke="#ef4444"
+                  strokeDasharray="2 3"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+              <path
+                d={path.line}
+                fill="none"
+                stroke={result.finalPnL >= 0 ? "#22c55e" : "#ef4444"}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+              <span>{formatTimestamp(result.startTimestamp)}</span>
+              <span>{formatTimestamp(result.endTimestamp)}</span>
+            </div>
+          </div>
+
+          {/* Stats */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Final P&L</div>
+              <div className={`font-bold ${pnlColor(result.finalPnL)}`}>
+                {result.finalPnL >= 0 ? "+" : "-"}${Math.abs(result.finalPnL).toFixed(2)}
+              </div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Worst Drawdown</div>
+              <div className="font-bold text-red-600 dark:text-red-400">-${result.maxDrawdown.toFixed(2)}</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Min Health</div>
+              <div className={`font-bold ${result.maintenanceBreach ? "text-red-600 dark:text-red-400" : ""}`}>
+                {result.minHealthFactor.toFixed(2)}
+              </div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Settlements</div>
+              <div className="font-bold">{result.points.length}</div>
+            </div>
+          </div>
+
+          {result.maintenanceBreach ? (
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+              Margin would have hit maintenance on {formatTimestamp(result.maintenanceBreach.timestamp)}{" "}
+              (floating at {result.maintenanceBreach.floatingRate.toFixed(2)}%). Add margin or reduce notional.
+            </div>
+          ) : (
+            <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-green-700 dark:text-green-300">
+              Margin stayed above maintenance for the whole replay.
+            </div>
+          )}
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Settled every {(params.settlementIntervalSec / 3600).toFixed(params.settlementIntervalSec % 3600 ? 1 : 0)}h
+            with a {(params.settlementFee * 100).toFixed(2)}% fee on gains and{" "}
+            {(params.maintenanceMarginRatio * 100).toFixed(0)}% maintenance margin.
+            {result.coverage < 1 &&
+              ` History covers only ${(result.coverage * 100).toFixed(0)}% of the ${maturityDays}-day maturity.`}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { formatUnits } from "viem";
+import { useRateHistory } from "@/hooks/useRateHistory";
+import { useEngineParams } from "@/hooks/useEngineParams";
+import { useMonteCarlo } from "@/hooks/useMonteCarlo";
+import { calibrateModel, type RateModel, type SimulationInput } from "@/lib/monteCarlo";
+import type { BacktestContracts } from "./Backtest";
+
+interface Props {
+  contracts: BacktestContracts;
+  currentFloatingRate: number;
+  fixedRate: number;
+  notional: number;
+  maturityDays: number;
+  isPayingFixed: boolean;
+  margin: number;
+}
+
+const PATH_OPTIONS = [1000, 5000, 20000];
+
+// Used until the oracle has enough history to calibrate against
+const DEFAULT_SPEED = 1;
+const DEFAULT_VOLATILITY = 1.5;
+
+const SEED = 42;
+
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 120;
+
+const formatPnL = (value: number) => `${value >= 0 ? "+" : "-"}$${Math.abs(value).toFixed(2)}`;
+
+const pnlColor = (value: number) =>
+  value >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400";
+
+export function MonteCarlo({
+  contracts,
+  currentFloatingRate,
+  fixedRate,
+  notional,
+  maturityDays,
+  isPayingFixed,
+  margin,
+}: Props) {
+  const [overrides, setOverrides] = useState<Partial<RateModel>>({});
+  const [paths, setPaths] = useState(PATH_OPTIONS[1]);
+
+  const history = useRateHistory(contracts);
+  const params = useEngineParams(contracts);
+
+  const calibrated = useMemo(
+    () =>
+      calibrateModel(
+        history.points.map((p) => ({ timestamp: p.timestamp, rate: Number(formatUnits(p.rate, 16)) }))
+      ),
+    [history.points]
+  );
+
+  const model: RateModel = {
+    kind: "mean-reverting",
+    mean: currentFloatingRate,
+    speed: DEFAULT_SPEED,
+    volatility: DEFAULT_VOLATILITY,
+    ...calibrated,
+    ...overrides,
+  };
+
+  const input: SimulationInput | null =
+    notional > 0 && maturityDays > 0
+      ? {
+          model,
+          startRate: currentFloatingRate,
+          notional,
+          fixedRate,
+          maturityDays,
+          isPayingFixed,
+          margin,
+          ...params,
+          paths,
+          seed: SEED,
+        }
+      : null;
+
+  const { result, running, error } = useMonteCarlo(input);
+
+  const fanPaths = useMemo(() => {
+    if (!result || result.fan.length === 0) return null;
+    const points = [{ day: 0, p5: 0, p50: 0, p95: 0 }, ...result.fan];
+    const values = points.flatMap((p) => [p.p5, p.p95]);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const span = max - min || 1;
+    const x = (day: number) => (day / maturityDays) * CHART_WIDTH;
+    const y = (v: number) => CHART_HEIGHT - ((v - min) / span) * CHART_HEIGHT;
+    const line = (key: "p5" | "p50" | "p95") =>
+      points.map((p, i) => `${i === 0 ? "M" : "L"}${x(p.day).toFixed(1)},${y(p[key]).toFixed(1)}`).join(" ");
+    const band =
+      points.map((p, i) => `${i === 0 ? "M" : "L"}${x(p.day).toFixed(1)},${y(p.p95).toFixed(1)}`).join(" ") +
+      " " +
+      [...points]
+        .reverse()
+        .map((p) => `L${x(p.day).toFixed(1)},${y(p.p5).toFixed(1)}`)
+        .join(" ") +
+      " Z";
+    return { band, median: line("p50"), zeroY: y(0) };
+  }, [result, maturityDays]);
+
+  const setModelField = (field: "mean" | "speed" | "volatility", value: string) => {
+    const parsed = parseFloat(value);
+    setOverrides((prev) => ({ ...prev, [field]: Number.isFinite(parsed) ? parsed : 0 }));
+  };
+
+  const inputClass =
+    "w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md px-2 py-1 text-sm focus:outline-none focus:border-indigo-500";
+
+  return (
+    <div className="space-y-4">
+      {/* Model */}
+      <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex gap-1 bg-gray-100 dark:bg-gray-900 rounded-lg p-1">
+            {(["mean-reverting", "random-walk"] as const).map((kind) => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => setOverrides((prev) => ({ ...prev, kind }))}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition ${
+                  model.kind === kind
+                    ? "bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm"
+                    : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                }`}
+              >
+                {kind === "mean-reverting" ? "Mean-reverting" : "Random walk"}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+            <span>Paths</span>
+            <select
+              value={paths}
+              onChange={(e) => setPaths(Number(e.target.value))}
+              className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md px-2 py-1"
+            >
+              {PATH_OPTIONS.map((n) => (
+                <option key={n} value={n}>
+                  {n.toLocaleString()}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            Long-run mean (%)
+            <input
+              type="number"
+              step="0.1"
+              value={Number(model.mean.toFixed(2))}
+              disabled={model.kind !== "mean-reverting"}
+              onChange={(e) => setModelField("mean", e.target.value)}
+              className={`${inputClass} mt-1 disabled:opacity-50`}
+            />
+          </label>
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            Reversion speed (/yr)
+            <input
+              type="number"
+              step="0.1"
+              value={Number(model.speed.toFixed(2))}
+              disabled={model.kind !== "mean-reverting"}
+              onChange={(e) => setModelField("speed", e.target.value)}
+              className={`${inputClass} mt-1 disabled:opacity-50`}
+            />
+          </label>
+          <label className="text-xs text-gray-500 dark:text-gray-400">
+            Volatility (pp/√yr)
+            <input
+              type="number"
+              step="0.1"
+              value={Number(model.volatility.toFixed(2))}
+              onChange={(e) => setModelField("volatility", e.target.value)}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span>
+            {calibrated
+              ? `Calibrated from ${history.points.length} oracle updates`
+              : history.loading
+                ? "Loading oracle history..."
+                : "Not enough oracle history to calibrate; using defaults"}
+          </span>
+          {Object.keys(overrides).length > 0 && (
+            <button type="button" onClick={() => setOverrides({})} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+              Reset
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600 dark:text-red-400">{error}</div>}
+
+      {!result && running && <div className="h-32 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse" />}
+
+      {result && fanPaths && (
+        <div className={`space-y-4 transition-opacity ${running ? "opacity-60" : ""}`}>
+          {/* PnL fan */}
+          <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-32" preserveAspectRatio="none">
+              <path d={fanPaths.band} fill="#6366f1" fillOpacity={0.15} />
+              <line
+                x1={0}
+                x2={CHART_WIDTH}
+                y1={fanPaths.zeroY}
+                y2={fanPaths.zeroY}
+                stroke="currentColor"
+                className="text-gray-300 dark:text-gray-600"
+                strokeDasharray="4 4"
+                vectorEffect="non-scaling-stroke"
+              />
+              <path d={fanPaths.median} fill="none" stroke="#6366f1" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+            </svg>
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+              <span>Today</span>
+              <span>Median with 5th-95th percentile band</span>
+              <span>{maturityDays}d</span>
+            </div>
+          </div>
+
+          {/* Percentiles */}
+          <div className="grid grid-cols-5 gap-2 text-center">
+            {(["p5", "p25", "p50", "p75", "p95"] as const).map((key) => (
+              <div key={key} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2">
+                <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">{key.toUpperCase()}</div>
+                <div className={`text-sm font-bold ${pnlColor(result.finalPnL[key])}`}>
+                  {formatPnL(result.finalPnL[key])}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Risk and fees */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Liquidation Risk</div>
+              <div
+                className={`font-bold ${
+                  result.liquidationProbability > 0.05
+                    ? "text-red-600 dark:text-red-400"
+                    : result.liquidationProbability > 0
+                      ? "text-yellow-600 dark:text-yellow-400"
+                      : "text-green-600 dark:text-green-400"
+                }`}
+              >
+                {(result.liquidationProbability * 100).toFixed(1)}%
+              </div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">P(Profit)</div>
+              <div className="font-bold">{(result.probabilityOfProfit * 100).toFixed(1)}%</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Expected Fees</div>
+              <div className="font-bold">${result.expectedSettlementFees.toFixed(2)}</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">To Keepers</div>
+              <div className="font-bold">${result.expectedKeeperRewards.toFixed(2)}</div>
+            </div>
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Mean P&L {formatPnL(result.meanPnL)} over {paths.toLocaleString()} paths. Liquidation risk is the chance
+            margin falls below {(params.maintenanceMarginRatio * 100).toFixed(0)}% maintenance before maturity.
+            {result.stepSec > params.settlementIntervalSec &&
+              ` Settlements are grouped into ${(result.stepSec / 3600).toFixed(1)}h steps to keep the run fast.`}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
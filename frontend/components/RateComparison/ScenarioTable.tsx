@@ -1,6 +1,7 @@
 "use client";
 
 import { useMemo } from "react";
+import { projectSettlement } from "@/lib/pricing";
 
 interface Props {
   fixedRate: number;
@@ -8,6 +9,8 @@ interface Props {
   notional: number;
   maturityDays: number;
   isPayingFixed: boolean;
+  // Market-implied fixed rate for this maturity, shown as its own scenario
+  curveRate?: number;
 }
 
 interface Scenario {
@@ -25,17 +28,13 @@ export function ScenarioTable({
   notional,
   maturityDays,
   isPayingFixed,
+  curveRate,
 }: Props) {
   const scenarios = useMemo<Scenario[]>(() => {
-    const calculatePnL = (floatingRate: number): number => {
-      const rateDiff = isPayingFixed
-        ? floatingRate - fixedRate
-        : fixedRate - floatingRate;
-      const annualizedPnL = (notional * rateDiff) / 100;
-      return (annualizedPnL * maturityDays) / 365;
-    };
+    const calculatePnL = (floatingRate: number): number =>
+      projectSettlement({ notional, fixedRate, isPayingFixed }, floatingRate, maturityDays);
 
-    return [
+    const rows: Scenario[] = [
       {
         name: "Bull (+2%)",
         rateChange: 2,
@@ -77,7 +76,20 @@ export function ScenarioTable({
         bgColor: "bg-red-50 dark:bg-red-900/20",
       },
     ];
-  }, [fixedRate, currentFloatingRate, notional, maturityDays, isPayingFixed]);
+
+    if (curveRate !== undefined) {
+      rows.push({
+        name: "Market curve",
+        rateChange: curveRate - currentFloatingRate,
+        projectedRate: curveRate,
+        pnl: calculatePnL(curveRate),
+        color: "text-indigo-600 dark:text-indigo-400",
+        bgColor: "bg-indigo-50/50 dark:bg-indigo-900/10",
+      });
+    }
+
+    return rows;
+  }, [fixedRate, currentFloatingRate, notional, maturityDays, isPayingFixed, curveRate]);
 
   return (
     <div className="space-y-3">
@@ -1,9 +1,12 @@
 "use client";
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { BreakevenAnalysis } from "./BreakevenAnalysis";
 import { ScenarioTable } from "./ScenarioTable";
 import { RateChart } from "./RateChart";
+import { Backtest, type BacktestContracts } from "./Backtest";
+import { MonteCarlo } from "./MonteCarlo";
+import { projectSettlement } from "@/lib/pricing";
 
 interface Props {
   currentFloatingRate: number; // As percentage (e.g., 5.5 for 5.5%)
@@ -11,6 +14,10 @@ interface Props {
   notional: number; // In USDC (e.g., 10000)
   maturityDays: number;
   isPayingFixed: boolean;
+  curveRate?: number; // Market-implied fixed rate at this maturity, as percentage
+  // Enables backtest and simulation modes, which model the deployed engines
+  contracts?: BacktestContracts;
+  margin?: number; // In USDC; defaults to 10% of notional
 }
 
 export function RateComparison({
@@ -19,7 +26,12 @@ export function RateComparison({
   notional,
   maturityDays,
   isPayingFixed,
+  curveRate,
+  contracts,
+  margin,
 }: Props) {
+  const [mode, setMode] = useState<"scenarios" | "backtest" | "simulate">("scenarios");
+
   // Calculate rate differential
   const rateDiff = useMemo(() => {
     if (isPayingFixed) {
@@ -31,15 +43,10 @@ export function RateComparison({
     }
   }, [currentFloatingRate, fixedRate, isPayingFixed]);
 
-  // Calculate annualized PnL based on current rates
-  const annualizedPnL = useMemo(() => {
-    return (notional * rateDiff) / 100;
-  }, [notional, rateDiff]);
-
   // Calculate PnL for maturity period
   const periodPnL = useMemo(() => {
-    return (annualizedPnL * maturityDays) / 365;
-  }, [annualizedPnL, maturityDays]);
+    return projectSettlement({ notional, fixedRate, isPayingFixed }, currentFloatingRate, maturityDays);
+  }, [notional, fixedRate, isPayingFixed, currentFloatingRate, maturityDays]);
 
   // Determine position outlook
   const outlook = useMemo(() => {
@@ -61,88 +68,132 @@ export function RateComparison({
 
   return (
     <div className="bg-white dark:bg-gray-900 rounded-xl p-4 sm:p-6 border border-gray-200 dark:border-gray-800 space-y-6">
-      <div className="flex items-center justify-between">
+      <div className="flex flex-wrap items-center justify-between gap-2">
         <h3 className="text-lg font-semibold">Rate Analysis</h3>
-        <span
-          className={`text-xs px-2 py-1 rounded ${outlookBgColors[outlook]} ${outlookColors[outlook]}`}
-        >
-          {outlook === "favorable" && "Favorable"}
-          {outlook === "unfavorable" && "Unfavorable"}
-          {outlook === "neutral" && "Neutral"}
-        </span>
+        <div className="flex items-center gap-2">
+          {contracts && (
+            <div className="flex gap-1 bg-gray-100 dark:bg-gray-800 rounded-lg p-1">
+              {(["scenarios", "backtest", "simulate"] as const).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setMode(m)}
+                  className={`px-2 py-0.5 text-xs font-medium rounded-md transition ${
+                    mode === m
+                      ? "bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm"
+                      : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  }`}
+                >
+                  {m === "scenarios" ? "Scenarios" : m === "backtest" ? "Backtest" : "Simulate"}
+                </button>
+              ))}
+            </div>
+          )}
+          <span
+            className={`text-xs px-2 py-1 rounded ${outlookBgColors[outlook]} ${outlookColors[outlook]}`}
+          >
+            {outlook === "favorable" && "Favorable"}
+            {outlook === "unfavorable" && "Unfavorable"}
+            {outlook === "neutral" && "Neutral"}
+          </span>
+        </div>
       </div>
 
-      {/* Rate Comparison Summary */}
-      <div className={`rounded-lg p-4 ${outlookBgColors[outlook]}`}>
-        <div className="grid grid-cols-3 gap-4 text-center">
-          <div>
-            <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
-              You Pay
-            </div>
-            <div className="text-lg font-bold">
-              {isPayingFixed ? fixedRate.toFixed(2) : currentFloatingRate.toFixed(2)}%
-            </div>
-            <div className="text-xs text-gray-500">
-              {isPayingFixed ? "Fixed" : "Floating"}
+      {contracts && mode === "backtest" ? (
+        <Backtest
+          contracts={contracts}
+          fixedRate={fixedRate}
+          notional={notional}
+          maturityDays={maturityDays}
+          isPayingFixed={isPayingFixed}
+          margin={margin ?? notional * 0.1}
+        />
+      ) : contracts && mode === "simulate" ? (
+        <MonteCarlo
+          contracts={contracts}
+          currentFloatingRate={currentFloatingRate}
+          fixedRate={fixedRate}
+          notional={notional}
+          maturityDays={maturityDays}
+          isPayingFixed={isPayingFixed}
+          margin={margin ?? notional * 0.1}
+        />
+      ) : (
+        <>
+          {/* Rate Comparison Summary */}
+          <div className={`rounded-lg p-4 ${outlookBgColors[outlook]}`}>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  You Pay
+                </div>
+                <div className="text-lg font-bold">
+                  {isPayingFixed ? fixedRate.toFixed(2) : currentFloatingRate.toFixed(2)}%
+                </div>
+                <div className="text-xs text-gray-500">
+                  {isPayingFixed ? "Fixed" : "Floating"}
+                </div>
+              </div>
+              <div className="flex items-center justify-center">
+                <div className={`text-2xl font-bold ${outlookColors[outlook]}`}>
+                  {rateDiff >= 0 ? "+" : ""}
+                  {rateDiff.toFixed(2)}%
+                </div>
+              </div>
+              <div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  You Receive
+                </div>
+                <div className="text-lg font-bold">
+                  {isPayingFixed ? currentFloatingRate.toFixed(2) : fixedRate.toFixed(2)}%
+                </div>
+                <div className="text-xs text-gray-500">
+                  {isPayingFixed ? "Floating" : "Fixed"}
+                </div>
+              </div>
             </div>
           </div>
-          <div className="flex items-center justify-center">
-            <div className={`text-2xl font-bold ${outlookColors[outlook]}`}>
-              {rateDiff >= 0 ? "+" : ""}
-              {rateDiff.toFixed(2)}%
-            </div>
-          </div>
-          <div>
-            <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">
-              You Receive
-            </div>
-            <div className="text-lg font-bold">
-              {isPayingFixed ? currentFloatingRate.toFixed(2) : fixedRate.toFixed(2)}%
+
+          {/* Projected PnL */}
+          <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                Projected P&L ({maturityDays} days)
+              </span>
+              <span className={`text-lg font-bold ${periodPnL >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+                {periodPnL >= 0 ? "+" : ""}${Math.abs(periodPnL).toFixed(2)}
+              </span>
             </div>
-            <div className="text-xs text-gray-500">
-              {isPayingFixed ? "Floating" : "Fixed"}
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              Based on current floating rate of {currentFloatingRate.toFixed(2)}% remaining constant
             </div>
           </div>
-        </div>
-      </div>
-
-      {/* Projected PnL */}
-      <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
-        <div className="flex justify-between items-center mb-2">
-          <span className="text-sm text-gray-600 dark:text-gray-400">
-            Projected P&L ({maturityDays} days)
-          </span>
-          <span className={`text-lg font-bold ${periodPnL >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
-            {periodPnL >= 0 ? "+" : ""}${Math.abs(periodPnL).toFixed(2)}
-          </span>
-        </div>
-        <div className="text-xs text-gray-500 dark:text-gray-400">
-          Based on current floating rate of {currentFloatingRate.toFixed(2)}% remaining constant
-        </div>
-      </div>
 
-      {/* Breakeven Analysis */}
-      <BreakevenAnalysis
-        fixedRate={fixedRate}
-        currentFloatingRate={currentFloatingRate}
-        isPayingFixed={isPayingFixed}
-      />
+          {/* Breakeven Analysis */}
+          <BreakevenAnalysis
+            fixedRate={fixedRate}
+            currentFloatingRate={currentFloatingRate}
+            isPayingFixed={isPayingFixed}
+          />
 
-      {/* Scenario Analysis */}
-      <ScenarioTable
-        fixedRate={fixedRate}
-        currentFloatingRate={currentFloatingRate}
-        notional={notional}
-        maturityDays={maturityDays}
-        isPayingFixed={isPayingFixed}
-      />
+          {/* Scenario Analysis */}
+          <ScenarioTable
+            fixedRate={fixedRate}
+            currentFloatingRate={currentFloatingRate}
+            notional={notional}
+            maturityDays={maturityDays}
+            isPayingFixed={isPayingFixed}
+            curveRate={curveRate}
+          />
 
-      {/* Rate Chart */}
-      <RateChart
-        fixedRate={fixedRate}
-        currentFloatingRate={currentFloatingRate}
-        isPayingFixed={isPayingFixed}
-      />
+          {/* Rate Chart */}
+          <RateChart
+            fixedRate={fixedRate}
+            currentFloatingRate={currentFloatingRate}
+            isPayingFixed={isPayingFixed}
+          />
+        </>
+      )}
     </div>
   );
 }
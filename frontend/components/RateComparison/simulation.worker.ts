@@ -0,0 +1,11 @@
+// Runs Monte Carlo simulations off the main thread
+import { simulate, type SimulationInput } from "@/lib/monteCarlo";
+
+self.onmessage = (event: MessageEvent<{ id: number; input: SimulationInput }>) => {
+  const { id, input } = event.data;
+  try {
+    self.postMessage({ id, result: simulate(input) });
+  } catch (e) {
+    self.postMessage({ id, error: e instanceof Error ? e.message : "Simulation failed" });
+  }
+};
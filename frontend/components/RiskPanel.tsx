@@ -0,0 +1,363 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { usePublicClient, useReadContract } from "wagmi";
+import { formatUnits, parseUnits, zeroAddress } from "viem";
+import { AlertTriangle } from "lucide-react";
+import { MARGIN_ENGINE_ABI, POSITION_MANAGER_ABI, RATE_ORACLE_ABI } from "@/lib/abis";
+import { FullStackContracts } from "@/lib/wagmi";
+import { analyzePortfolio, type RiskPosition } from "@/lib/risk";
+import type { WizardPrefill } from "@/hooks/usePositionWizard";
+import { useTermStructure } from "@/hooks/useTermStructure";
+import { HedgeRecommender } from "./HedgeRecommender";
+import { cn, formatRate, formatUSD, getHealthColor } from "@/lib/utils";
+
+interface RiskPanelProps {
+  contracts: FullStackContracts;
+  userAddress: `0x${string}`;
+  onHedge?: (prefill: WizardPrefill) => void;
+}
+
+// MarginEngine defaults, used when it is not deployed
+const DEFAULT_MAINTENANCE_RATIO = parseUnits("0.05", 18);
+const DEFAULT_LIQUIDATION_THRESHOLD = parseUnits("1", 18);
+
+const toUSD = (amount: bigint) => Number(formatUnits(amount, 6));
+const toHealth = (wad: bigint) => Number(formatUnits(wad, 18));
+
+const formatSignedUSD = (amount: bigint) => `${amount >= BigInt(0) ? "+" : "-"}${formatUSD(Math.abs(toUSD(amount)))}`;
+
+const formatShock = (bps: number) => (bps === 0 ? "Base" : `${bps > 0 ? "+" : ""}${bps}bp`);
+
+export function RiskPanel({ contracts, userAddress, onHedge }: RiskPanelProps) {
+  const [positions, setPositions] = useState<RiskPosition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [curveSource, setCurveSource] = useState<"flat" | "market">("flat");
+  const publicClient = usePublicClient();
+  const { curve: marketCurve } = useTermStructure(contracts);
+
+  const marginDeployed = contracts.marginEngine !== zeroAddress;
+
+  const { data: nextPositionId } = useReadContract({
+    address: contracts.positionManager,
+    abi: POSITION_MANAGER_ABI,
+    functionName: "nextPositionId",
+  });
+
+  const { data: currentRate } = useReadContract({
+    address: contracts.rateOracle,
+    abi: RATE_ORACLE_ABI,
+    functionName: "getCurrentRate",
+    query: { refetchInterval: 30000 },
+  });
+
+  const { data: maintenanceMarginRatio } = useReadContract({
+    address: contracts.marginEngine,
+    abi: MARGIN_ENGINE_ABI,
+    functionName: "maintenanceMarginRatio",
+    query: { enabled: marginDeployed },
+  });
+
+  const { data: liquidationThreshold } = useReadContract({
+    address: contracts.marginEngine,
+    abi: MARGIN_ENGINE_ABI,
+    functionName: "liquidationThreshold",
+    query: { enabled: marginDeployed },
+  });
+
+  const fetchPositions = useCallback(async () => {
+    if (!publicClient || nextPositionId === undefined) return;
+
+    try {
+      const positionIds = Array.from({ length: Number(nextPositionId) }, (_, i) => BigInt(i));
+
+      const positionsData = await publicClient.multicall({
+        contracts: positionIds.map((id) => ({
+          address: contracts.positionManager,
+          abi: POSITION_MANAGER_ABI,
+          functionName: "positions" as const,
+          args: [id] as const,
+        })),
+        allowFailure: true,
+      });
+
+      const owned: RiskPosition[] = [];
+      positionsData.forEach((result, i) => {
+        if (result.status === "failure") return;
+        const [trader, isPayingFixed, startTime, maturity, isActive, notional, margin, fixedRate, accumulatedPnL, lastSettlement] =
+          result.result;
+        if (!isActive || trader.toLowerCase() !== userAddress.toLowerCase()) return;
+        owned.push({
+          id: positionIds[i],
+          isPayingFixed,
+          startTime: BigInt(startTime),
+          maturity: BigInt(maturity),
+          notional,
+          margin,
+          fixedRate,
+          accumulatedPnL,
+          lastSettlement: BigInt(lastSettlement),
+        });
+      });
+
+      setPositions(owned);
+    } catch (e) {
+      console.error("Error fetching positions for risk:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [publicClient, nextPositionId, contracts.positionManager, userAddress]);
+
+  useEffect(() => {
+    fetchPositions();
+  }, [fetchPositions]);
+
+  // Auto-refresh every 30 seconds
+  useEffect(() => {
+    const interval = setInterval(fetchPositions, 30000);
+    return () => clearInterval(interval);
+  }, [fetchPositions]);
+
+  const curve = curveSource === "market" && marketCurve ? marketCurve : undefined;
+
+  const risk = useMemo(() => {
+    if (currentRate === undefined || positions.length === 0) return null;
+    return analyzePortfolio(
+      positions,
+      currentRate,
+      {
+        maintenanceMarginRatio: maintenanceMarginRatio ?? DEFAULT_MAINTENANCE_RATIO,
+        liquidationThreshold: liquidationThreshold ?? DEFAULT_LIQUIDATION_THRESHOLD,
+      },
+      BigInt(Math.floor(Date.now() / 1000)),
+      curve
+    );
+  }, [positions, currentRate, maintenanceMarginRatio, liquidationThreshold, curve]);
+
+  if (loading || (positions.length > 0 && !risk)) {
+    return (
+      <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+        <div className="h-48 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse" />
+      </div>
+    );
+  }
+
+  if (!risk) {
+    return (
+      <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6 text-center text-gray-500 dark:text-gray-400">
+        No active positions. Open a swap to see its rate risk here.
+      </div>
+    );
+  }
+
+  const netDirection =
+    risk.netNotional > BigInt(0) ? "Net pay-fixed" : risk.netNotional < BigInt(0) ? "Net receive-fixed" : "Flat";
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 lg:gap-8">
+      <div className="lg:col-span-2 space-y-6">
+        {/* Shock Ladder */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+            <div>
+              <h2 className="text-lg font-bold">Rate Shock Ladder</h2>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {curve
+                  ? "Parallel shifts of the market fixed-rate curve"
+                  : `Parallel shifts from ${currentRate !== undefined ? formatRate(currentRate) : "..."}`}
+              </span>
+            </div>
+            <div className="flex gap-1 p-1 rounded-lg bg-gray-100 dark:bg-gray-800">
+              {(["flat", "market"] as const).map((source) => (
+                <button
+                  key={source}
+                  type="button"
+                  disabled={source === "market" && !marketCurve}
+                  onClick={() => setCurveSource(source)}
+                  className={cn(
+                    "px-3 py-1 text-xs font-medium rounded-md transition disabled:opacity-50",
+                    curveSource === source
+                      ? "bg-white dark:bg-gray-900 shadow-sm"
+                      : "text-gray-500 dark:text-gray-400"
+                  )}
+                >
+                  {source === "market" ? "Market curve" : "Flat"}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
+                  <th className="py-2 pr-4">Shock</th>
+                  <th className="py-2 pr-4">Rate</th>
+                  <th className="py-2 pr-4 text-right">P&L</th>
+                  <th className="py-2 pr-4 text-right">Min Health</th>
+                  <th className="py-2 text-right">Liquidatable</th>
+                </tr>
+              </thead>
+              <tbody>
+                {risk.ladder.map((row) => (
+                  <tr
+                    key={row.shockBps}
+                    className={cn(
+                      "border-b border-gray-100 dark:border-gray-800/50",
+                      row.shockBps === 0 && "bg-gray-50 dark:bg-gray-800/50 font-medium"
+                    )}
+                  >
+                    <td className="py-2 pr-4">{formatShock(row.shockBps)}</td>
+                    <td className="py-2 pr-4">{formatRate(row.rate)}</td>
+                    <td
+                      className={cn(
+                        "py-2 pr-4 text-right",
+                        row.pnl >= BigInt(0) ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+                      )}
+                    >
+                      {formatSignedUSD(row.pnl)}
+                    </td>
+                    <td className={cn("py-2 pr-4 text-right", getHealthColor(toHealth(row.minHealth)))}>
+                      {toHealth(row.minHealth).toFixed(2)}
+                    </td>
+                    <td className="py-2 text-right">
+                      {row.liquidatableCount > 0 ? (
+                        <span className="inline-flex items-center gap-1 text-red-600 dark:text-red-400">
+                          <AlertTriangle className="w-3.5 h-3.5" />
+                          {row.liquidatableCount}
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+            P&L is the change in mark-to-market value. Health is the lower of health right after the shock and at
+            maturity if the shocked rate persists.
+          </p>
+        </div>
+
+        {/* Per-position Health */}
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <h2 className="text-lg font-bold mb-4">Health by Position</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
+                  <th className="py-2 pr-3">Position</th>
+                  {risk.ladder.map((row) => (
+                    <th key={row.shockBps} className="py-2 px-1 text-center">
+                      {formatShock(row.shockBps)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {positions.map((position, i) => (
+                  <tr key={position.id.toString()} className="border-b border-gray-100 dark:border-gray-800/50">
+                    <td className="py-2 pr-3 whitespace-nowrap">
+                      #{position.id.toString()}{" "}
+                      <span className="text-gray-500">{position.isPayingFixed ? "Pay" : "Rcv"}</span>
+                    </td>
+                    {risk.ladder.map((row) => {
+                      const shock = row.positions[i];
+                      const worst = shock.healthNow < shock.healthAtMaturity ? shock.healthNow : shock.healthAtMaturity;
+                      return (
+                        <td
+                          key={row.shockBps}
+                          title={
+                            shock.liquidatable === "now"
+                              ? "Liquidatable immediately"
+                              : shock.liquidatable === "before-maturity"
+                                ? "Liquidatable before maturity if the shock persists"
+                                : undefined
+                          }
+                          className={cn(
+                            "py-2 px-1 text-center",
+                            shock.liquidatable ? "bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 font-bold" : getHealthColor(toHealth(worst))
+                          )}
+                        >
+                          {shock.liquidatable === "now" ? "LIQ" : toHealth(worst).toFixed(2)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {/* Exposure Summary */}
+      <div className="space-y-6">
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <h2 className="text-lg font-bold mb-4">Exposure</h2>
+          <div className="space-y-3 text-sm">
+            <div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">Portfolio DV01</div>
+              <div
+                className={cn(
+                  "text-2xl font-bold",
+                  risk.dv01 >= BigInt(0) ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+                )}
+              >
+                {formatSignedUSD(risk.dv01)}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">Value change per +1bp</div>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500 dark:text-gray-400">Pay-fixed notional</span>
+              <span>{formatUSD(toUSD(risk.payFixedNotional))}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500 dark:text-gray-400">Receive-fixed notional</span>
+              <span>{formatUSD(toUSD(risk.receiveFixedNotional))}</span>
+            </div>
+            <div className="flex justify-between pt-3 border-t border-gray-200 dark:border-gray-800 font-medium">
+              <span>{netDirection}</span>
+              <span>{formatUSD(Math.abs(toUSD(risk.netNotional)))}</span>
+            </div>
+          </div>
+        </div>
+
+        {currentRate !== undefined && (
+          <HedgeRecommender
+            contracts={contracts}
+            positions={positions}
+            portfolioDv01={risk.dv01}
+            positionDv01={risk.positionDv01}
+            currentRate={currentRate}
+            onHedge={onHedge}
+          />
+        )}
+
+        <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+          <h2 className="text-lg font-bold mb-4">DV01 by Position</h2>
+          <div className="space-y-2 text-sm">
+            {positions.map((position) => {
+              const value = risk.positionDv01.get(position.id) ?? BigInt(0);
+              return (
+                <div key={position.id.toString()} className="flex justify-between">
+                  <span>
+                    #{position.id.toString()}{" "}
+                    <span className="text-gray-500">
+                      {position.isPayingFixed ? "Pay" : "Rcv"} {formatRate(position.fixedRate)}
+                    </span>
+                  </span>
+                  <span className={value >= BigInt(0) ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}>
+                    {formatSignedUSD(value)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,368 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
+import { formatUnits, parseUnits, zeroAddress } from "viem";
+import { AUTOMATION_ABI, ERC20_ABI } from "@/lib/abis";
+import { cn } from "@/lib/utils";
+import { useToast, parseError } from "./ui/Toast";
+
+interface StopLossControlProps {
+  contracts: {
+    automation: `0x${string}`;
+    usdc: `0x${string}`;
+  };
+  positionId: bigint;
+  notional: bigint;
+  // Settled plus pending PnL, the same figure Automation compares against
+  currentPnL: bigint;
+  variant?: "default" | "glass";
+}
+
+// "replacing" cancels the existing order first; setStopLoss reverts while one is active
+type TxStep = "idle" | "replacing" | "approving" | "setting" | "cancelling" | "executing";
+
+const variantStyles = {
+  default: {
+    container: "bg-gray-100 dark:bg-gray-700/50",
+    muted: "text-gray-500 dark:text-gray-400",
+    input:
+      "bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-white focus:border-indigo-500",
+    primary: "bg-indigo-600 hover:bg-indigo-500 text-white",
+    secondary: "bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500",
+  },
+  glass: {
+    container: "bg-dark-800/50",
+    muted: "text-slate-400",
+    input: "bg-dark-800 border border-white/10 focus:border-neon-cyan/50",
+    primary: "bg-neon-cyan/20 text-neon-cyan hover:bg-neon-cyan/30",
+    secondary: "bg-white/5 text-slate-300 hover:bg-white/10",
+  },
+};
+
+export function StopLossControl({
+  contracts,
+  positionId,
+  notional,
+  currentPnL,
+  variant = "default",
+}: StopLossControlProps) {
+  const { address } = useAccount();
+  const { addToast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [maxLoss, setMaxLoss] = useState("");
+  const [takeProfit, setTakeProfit] = useState("");
+  const [txStep, setTxStep] = useState<TxStep>("idle");
+
+  const styles = variantStyles[variant];
+  const isDeployed = contracts.automation !== zeroAddress;
+
+  const { writeContract, data: hash, isPending, error, reset } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({ hash });
+
+  const { data: stopLoss, refetch: refetchStopLoss } = useReadContract({
+    address: contracts.automation,
+    abi: AUTOMATION_ABI,
+    functionName: "getStopLoss",
+    args: [positionId],
+    query: { enabled: isDeployed },
+  });
+
+  const { data: executable, refetch: refetchExecutable } = useReadContract({
+    address: contracts.automation,
+    abi: AUTOMATION_ABI,
+    functionName: "canExecuteStopLoss",
+    args: [positionId],
+    query: { enabled: isDeployed && !!stopLoss?.isActive },
+  });
+
+  const { data: keeperReward } = useReadContract({
+    address: contracts.automation,
+    abi: AUTOMATION_ABI,
+    functionName: "keeperReward",
+    query: { enabled: isDeployed },
+  });
+
+  const { data: allowance, refetch: refetchAllowance } = useReadContract({
+    address: contracts.usdc,
+    abi: ERC20_ABI,
+    functionName: "allowance",
+    args: address ? [address, contracts.automation] : undefined,
+    query: { enabled: isDeployed && !!address },
+  });
+
+  const toUnits = (value: string) => {
+    try {
+      return value ? parseUnits(value, 6) : BigInt(0);
+    } catch {
+      return BigInt(0);
+    }
+  };
+
+  const maxLossWei = toUnits(maxLoss);
+  const takeProfitWei = toUnits(takeProfit);
+  const enableStopLoss = maxLossWei > BigInt(0);
+  const enableTakeProfit = takeProfitWei > BigInt(0);
+
+  // Setting a stop-loss escrows the keeper reward, refunded on cancel
+  const reward = keeperReward !== undefined ? (notional * keeperReward) / parseUnits("1", 18) : BigInt(0);
+
+  const isActive = !!stopLoss?.isActive;
+  const isTriggered = !!executable?.[0];
+
+  const sendSetStopLoss = () => {
+    setTxStep("setting");
+    writeContract({
+      address: contracts.automation,
+      abi: AUTOMATION_ABI,
+      functionName: "setStopLoss",
+      args: [positionId, -maxLossWei, takeProfitWei, enableStopLoss, enableTakeProfit],
+    });
+  };
+
+  const approveOrSet = (currentAllowance: bigint | undefined) => {
+    if (reward > BigInt(0) && (!currentAllowance || currentAllowance < reward)) {
+      setTxStep("approving");
+      writeContract({
+        address: contracts.usdc,
+        abi: ERC20_ABI,
+        functionName: "approve",
+        args: [contracts.automation, reward],
+      });
+    } else {
+      sendSetStopLoss();
+    }
+  };
+
+  const handleSave = () => {
+    if (!enableStopLoss && !enableTakeProfit) return;
+    if (isActive) {
+      setTxStep("replacing");
+      writeContract({
+        address: contracts.automation,
+        abi: AUTOMATION_ABI,
+        functionName: "cancelStopLoss",
+        args: [positionId],
+      });
+    } else {
+      approveOrSet(allowance);
+    }
+  };
+
+  const handleCancel = () => {
+    setTxStep("cancelling");
+    writeContract({
+      address: contracts.automation,
+      abi: AUTOMATION_ABI,
+      functionName: "cancelStopLoss",
+      args: [positionId],
+    });
+  };
+
+  const handleExecute = () => {
+    setTxStep("executing");
+    writeContract({
+      address: contracts.automation,
+      abi: AUTOMATION_ABI,
+      functionName: "executeStopLoss",
+      args: [positionId],
+    });
+  };
+
+  const startEditing = () => {
+    if (stopLoss?.isActive) {
+      setMaxLoss(stopLoss.hasStopLoss ? formatUnits(-stopLoss.stopLossPnL, 6) : "");
+      setTakeProfit(stopLoss.hasTakeProfit ? formatUnits(stopLoss.takeProfitPnL, 6) : "");
+    }
+    setEditing(true);
+  };
+
+  // Chain cancel -> approve -> set, then refresh
+  useEffect(() => {
+    if (!isSuccess) return;
+
+    if (txStep === "replacing") {
+      reset();
+      refetchAllowance().then(({ data }) => approveOrSet(data));
+      return;
+    }
+    if (txStep === "approving") {
+      refetchAllowance().then(() => {
+        reset();
+        sendSetStopLoss();
+      });
+      return;
+    }
+
+    addToast({
+      type: "success",
+      title: "Success",
+      message:
+        txStep === "setting"
+          ? "Stop-loss saved"
+          : txStep === "executing"
+          ? "Stop-loss triggered. Your position is still open; close it to lock in the result"
+          : "Stop-loss cancelled",
+    });
+    setTxStep("idle");
+    setEditing(false);
+    reset();
+    refetchStopLoss();
+    refetchExecutable();
+    refetchAllowance();
+  }, [isSuccess, txStep]);
+
+  useEffect(() => {
+    if (error) {
+      addToast({ type: "error", title: "Error", message: parseError(error) });
+      setTxStep("idle");
+      reset();
+      refetchStopLoss();
+    }
+  }, [error, addToast, reset, refetchStopLoss]);
+
+  const isWorking = isPending || isConfirming || txStep !== "idle";
+
+  const formatUSDC = (amount: bigint) => {
+    const value = Number(formatUnits(amount, 6));
+    return (value < 0 ? "-$" : "$") + Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  };
+
+  if (!isDeployed) return null;
+
+  const stopDistance = isActive && stopLoss!.hasStopLoss ? currentPnL - stopLoss!.stopLossPnL : undefined;
+  const profitDistance = isActive && stopLoss!.hasTakeProfit ? stopLoss!.takeProfitPnL - currentPnL : undefined;
+
+  return (
+    <div className={cn("rounded-lg p-3 mb-4 text-sm", styles.container)}>
+      <div className="flex justify-between items-center mb-2">
+        <span className={cn("text-xs font-medium", styles.muted)}>Stop-Loss / Take-Profit</span>
+        {isActive ? (
+          isTriggered ? (
+            <span className="text-xs text-red-500 animate-pulse">
+              {executable![2] ? "Stop-loss triggered" : "Take-profit triggered"}
+            </span>
+          ) : (
+            <span className="text-xs text-green-600 dark:text-green-400">Armed</span>
+          )
+        ) : (
+          <span className={cn("text-xs", styles.muted)}>Not set</span>
+        )}
+      </div>
+
+      {isActive && !editing && (
+        <div className="space-y-1 mb-3">
+          {stopLoss!.hasStopLoss && (
+            <div className="flex justify-between">
+              <span className={styles.muted}>Stop at PnL {formatUSDC(stopLoss!.stopLossPnL)}</span>
+              <span className={stopDistance! > BigInt(0) ? "" : "text-red-500"}>
+                {formatUSDC(stopDistance!)} away
+              </span>
+            </div>
+          )}
+          {stopLoss!.hasTakeProfit && (
+            <div className="flex justify-between">
+              <span className={styles.muted}>Take profit at PnL {formatUSDC(stopLoss!.takeProfitPnL)}</span>
+              <span className={profitDistance! > BigInt(0) ? "" : "text-green-600 dark:text-green-400"}>
+                {formatUSDC(profitDistance!)} away
+              </span>
+            </div>
+          )}
+          <div className={cn("text-xs", styles.muted)}>Current PnL: {formatUSDC(currentPnL)}</div>
+          {isTriggered && (
+            <div className="text-xs text-red-500">
+              Executing records the trigger and pays the keeper reward. It does not close the position; you must
+              close it yourself.
+            </div>
+          )}
+        </div>
+      )}
+
+      {editing && (
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          <div>
+            <label className={cn("block text-xs mb-1", styles.muted)}>Max Loss (USDC)</label>
+            <input
+              type="number"
+              value={maxLoss}
+              onChange={(e) => setMaxLoss(e.target.value)}
+              placeholder="500"
+              className={cn("w-full rounded px-3 py-2 focus:outline-none", styles.input)}
+            />
+          </div>
+          <div>
+            <label className={cn("block text-xs mb-1", styles.muted)}>Take Profit (USDC)</label>
+            <input
+              type="number"
+              value={takeProfit}
+              onChange={(e) => setTakeProfit(e.target.value)}
+              placeholder="Optional"
+              className={cn("w-full rounded px-3 py-2 focus:outline-none", styles.input)}
+            />
+          </div>
+          <div className={cn("col-span-2 text-xs", styles.muted)}>
+            Escrows a {formatUSDC(reward)} keeper reward, refunded if you cancel. Triggering only notifies you and
+            pays the keeper; it does not close the position, so you must close it yourself.
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {editing ? (
+          <>
+            <button
+              onClick={handleSave}
+              disabled={isWorking || (!enableStopLoss && !enableTakeProfit)}
+              className={cn("flex-1 py-2 min-h-[36px] rounded text-xs font-medium transition disabled:opacity-50", styles.primary)}
+            >
+              {txStep === "replacing"
+                ? "Replacing..."
+                : txStep === "approving"
+                ? "Approving..."
+                : txStep === "setting"
+                ? "Saving..."
+                : isActive
+                ? "Replace Stop-Loss"
+                : "Set Stop-Loss"}
+            </button>
+            <button
+              onClick={() => setEditing(false)}
+              disabled={isWorking}
+              className={cn("px-3 py-2 min-h-[36px] rounded text-xs font-medium transition disabled:opacity-50", styles.secondary)}
+            >
+              Back
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={startEditing}
+              disabled={isWorking}
+              className={cn("flex-1 py-2 min-h-[36px] rounded text-xs font-medium transition disabled:opacity-50", styles.primary)}
+            >
+              {isActive ? "Edit" : "Add Stop-Loss"}
+            </button>
+            {isActive && isTriggered && (
+              <button
+                onClick={handleExecute}
+                disabled={isWorking}
+                className="flex-1 py-2 min-h-[36px] rounded text-xs font-medium bg-red-600 hover:bg-red-500 text-white transition disabled:opacity-50"
+              >
+                {txStep === "executing" ? "Executing..." : "Execute"}
+              </button>
+            )}
+            {isActive && (
+              <button
+                onClick={handleCancel}
+                disabled={isWorking}
+                className={cn("px-3 py-2 min-h-[36px] rounded text-xs font-medium transition disabled:opacity-50", styles.secondary)}
+              >
+                {txStep === "cancelling" ? "Cancelling..." : "Cancel"}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
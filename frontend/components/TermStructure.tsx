@@ -0,0 +1,154 @@
+"use client";
+
+import { useMemo } from "react";
+import { LineChart } from "lucide-react";
+import { useTermStructure } from "@/hooks/useTermStructure";
+import { cn } from "@/lib/utils";
+
+interface TermStructureProps {
+  contracts: {
+    positionManager: `0x${string}`;
+    settlementEngine: `0x${string}`;
+    liquidationEngine: `0x${string}`;
+    rateOracle: `0x${string}`;
+    irsPool: `0x${string}`;
+    orderBook: `0x${string}`;
+    automation: `0x${string}`;
+    irsGovernor: `0x${string}`;
+  };
+}
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 140;
+const PADDING = 16;
+
+const formatPercent = (rate: number | undefined) => (rate === undefined ? "-" : `${rate.toFixed(2)}%`);
+
+export function TermStructure({ contracts }: TermStructureProps) {
+  const { points, loading } = useTermStructure(contracts);
+
+  const chart = useMemo(() => {
+    const rates = points.flatMap((p) => [p.impliedRate, p.twapRate, p.bookMid, p.tradedRate]).filter(
+      (r): r is number => r !== undefined
+    );
+    if (rates.length === 0) return null;
+
+    // Pad the range so a flat curve still sits inside the chart
+    const min = Math.min(...rates) - 0.25;
+    const max = Math.max(...rates) + 0.25;
+    const x = (i: number) => PADDING + (i * (CHART_WIDTH - 2 * PADDING)) / (points.length - 1);
+    const y = (rate: number) => CHART_HEIGHT - PADDING - ((rate - min) / (max - min)) * (CHART_HEIGHT - 2 * PADDING);
+
+    const line = (key: "impliedRate" | "twapRate") =>
+      points
+        .map((p, i) => (p[key] === undefined ? null : `${x(i)},${y(p[key]!)}`))
+        .filter((s): s is string => s !== null)
+        .map((s, i) => `${i === 0 ? "M" : "L"}${s}`)
+        .join(" ");
+
+    return { x, y, implied: line("impliedRate"), twap: line("twapRate") };
+  }, [points]);
+
+  if (loading) {
+    return (
+      <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+        <div className="h-48 bg-gray-100 dark:bg-gray-800 rounded-lg animate-pulse" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-900 rounded-xl border border-gray-200 dark:border-gray-800 p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <LineChart className="w-5 h-5 text-indigo-500" />
+        <h2 className="text-lg font-bold">Fixed-Rate Curve</h2>
+      </div>
+
+      {!chart ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No pool, order book or oracle rates yet.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+              {chart.twap && (
+                <path d={chart.twap} fill="none" stroke="#8b5cf6" strokeWidth={1.5} strokeDasharray="4 4" />
+              )}
+              {chart.implied && <path d={chart.implied} fill="none" stroke="#6366f1" strokeWidth={2} />}
+              {points.map((p, i) => (
+                <g key={p.maturityDays}>
+                  {p.bookMid !== undefined && <circle cx={chart.x(i)} cy={chart.y(p.bookMid)} r={3} fill="#f59e0b" />}
+                  {p.tradedRate !== undefined && (
+                    <circle cx={chart.x(i)} cy={chart.y(p.tradedRate)} r={3} fill="#22c55e" />
+                  )}
+                </g>
+              ))}
+            </svg>
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {points.map((p) => (
+                <span key={p.maturityDays}>{p.maturityDays}d</span>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-500 dark:text-gray-400 mt-2">
+              <span className="text-indigo-500">— Implied</span>
+              <span className="text-violet-500">- - Oracle TWAP</span>
+              <span className="text-amber-500">● Book mid</span>
+              <span className="text-green-500">● Traded</span>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-800">
+                  <th className="py-2 pr-2">Tenor</th>
+                  <th className="py-2 pr-2 text-right">Implied</th>
+                  <th className="py-2 pr-2 text-right">Book</th>
+                  <th className="py-2 pr-2 text-right">Traded</th>
+                  <th className="py-2 text-right">vs TWAP</th>
+                </tr>
+              </thead>
+              <tbody>
+                {points.map((p) => {
+                  const spreadBps =
+                    p.impliedRate !== undefined && p.twapRate !== undefined
+                      ? Math.round((p.impliedRate - p.twapRate) * 100)
+                      : undefined;
+                  return (
+                    <tr key={p.maturityDays} className="border-b border-gray-100 dark:border-gray-800/50">
+                      <td className="py-2 pr-2">{p.maturityDays}d</td>
+                      <td className="py-2 pr-2 text-right font-medium">{formatPercent(p.impliedRate)}</td>
+                      <td className="py-2 pr-2 text-right">
+                        {p.bookBid === undefined && p.bookAsk === undefined
+                          ? "-"
+                          : `${formatPercent(p.bookBid)} / ${formatPercent(p.bookAsk)}`}
+                      </td>
+                      <td className="py-2 pr-2 text-right">
+                        {formatPercent(p.tradedRate)}
+                        {p.tradeCount > 0 && <span className="text-gray-400"> ({p.tradeCount})</span>}
+                      </td>
+                      <td
+                        className={cn(
+                          "py-2 text-right",
+                          spreadBps === undefined
+                            ? "text-gray-400"
+                            : spreadBps >= 0
+                              ? "text-green-600 dark:text-green-400"
+                              : "text-red-600 dark:text-red-400"
+                        )}
+                      >
+                        {spreadBps === undefined ? "-" : `${spreadBps > 0 ? "+" : ""}${spreadBps}bp`}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Book shows the best pay-fixed bid / receive-fixed offer. The IRS pool quote applies to every tenor.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
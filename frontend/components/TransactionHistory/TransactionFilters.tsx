@@ -7,49 +7,76 @@ interface Props {
   onFilterChange: (filters: TransactionType[]) => void;
 }
 
-const FILTER_OPTIONS: { value: TransactionType; label: string; color: string }[] = [
-  { value: "opened", label: "Opened", color: "green" },
-  { value: "closed", label: "Closed", color: "red" },
-  { value: "settled", label: "Settled", color: "blue" },
-  { value: "margin_added", label: "Margin +", color: "indigo" },
-  { value: "margin_removed", label: "Margin -", color: "orange" },
+// Related events share one toggle so the filter row stays short
+const FILTER_OPTIONS: { types: TransactionType[]; label: string; color: string }[] = [
+  { types: ["opened"], label: "Opened", color: "green" },
+  { types: ["closed"], label: "Closed", color: "red" },
+  { types: ["settled"], label: "Settled", color: "blue" },
+  { types: ["margin_added"], label: "Margin +", color: "indigo" },
+  { types: ["margin_removed"], label: "Margin -", color: "orange" },
+  { types: ["liquidated", "partially_liquidated"], label: "Liquidations", color: "rose" },
+  { types: ["trading_fee", "settlement_fee", "close_fee"], label: "Fees", color: "amber" },
+  { types: ["order_placed", "order_cancelled", "order_filled"], label: "Orders", color: "purple" },
+  {
+    types: ["limit_order_placed", "limit_order_cancelled", "limit_order_executed"],
+    label: "Limit Orders",
+    color: "teal",
+  },
+  { types: ["stop_loss_set", "stop_loss_cancelled", "stop_loss_triggered"], label: "Stop Loss", color: "slate" },
 ];
 
 export function TransactionFilters({ activeFilters, onFilterChange }: Props) {
-  const toggleFilter = (filter: TransactionType) => {
-    if (activeFilters.includes(filter)) {
-      onFilterChange(activeFilters.filter((f) => f !== filter));
+  const isActive = (types: TransactionType[]) => types.every((t) => activeFilters.includes(t));
+
+  const toggleFilter = (types: TransactionType[]) => {
+    if (isActive(types)) {
+      onFilterChange(activeFilters.filter((f) => !types.includes(f)));
     } else {
-      onFilterChange([...activeFilters, filter]);
+      onFilterChange([...activeFilters.filter((f) => !types.includes(f)), ...types]);
     }
   };
 
   const selectAll = () => {
-    onFilterChange(FILTER_OPTIONS.map((o) => o.value));
+    onFilterChange(FILTER_OPTIONS.flatMap((o) => o.types));
   };
 
   const clearAll = () => {
     onFilterChange([]);
   };
 
-  const getButtonClasses = (filter: TransactionType, color: string) => {
-    const isActive = activeFilters.includes(filter);
+  const getButtonClasses = (types: TransactionType[], color: string) => {
+    const active = isActive(types);
     const colorClasses: Record<string, string> = {
-      green: isActive
+      green: active
         ? "bg-green-500 text-white border-green-500"
         : "bg-transparent text-green-600 dark:text-green-400 border-green-300 dark:border-green-700 hover:bg-green-50 dark:hover:bg-green-900/30",
-      red: isActive
+      red: active
         ? "bg-red-500 text-white border-red-500"
         : "bg-transparent text-red-600 dark:text-red-400 border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/30",
-      blue: isActive
+      blue: active
         ? "bg-blue-500 text-white border-blue-500"
         : "bg-transparent text-blue-600 dark:text-blue-400 border-blue-300 dark:border-blue-700 hover:bg-blue-50 dark:hover:bg-blue-900/30",
-      indigo: isActive
+      indigo: active
         ? "bg-indigo-500 text-white border-indigo-500"
         : "bg-transparent text-indigo-600 dark:text-indigo-400 border-indigo-300 dark:border-indigo-700 hover:bg-indigo-50 dark:hover:bg-indigo-900/30",
-      orange: isActive
+      orange: active
         ? "bg-orange-500 text-white border-orange-500"
         : "bg-transparent text-orange-600 dark:text-orange-400 border-orange-300 dark:border-orange-700 hover:bg-orange-50 dark:hover:bg-orange-900/30",
+      rose: active
+        ? "bg-rose-500 text-white border-rose-500"
+        : "bg-transparent text-rose-600 dark:text-rose-400 border-rose-300 dark:border-rose-700 hover:bg-rose-50 dark:hover:bg-rose-900/30",
+      amber: active
+        ? "bg-amber-500 text-white border-amber-500"
+        : "bg-transparent text-amber-600 dark:text-amber-400 border-amber-300 dark:border-amber-700 hover:bg-amber-50 dark:hover:bg-amber-900/30",
+      purple: active
+        ? "bg-purple-500 text-white border-purple-500"
+        : "bg-transparent text-purple-600 dark:text-purple-400 border-purple-300 dark:border-purple-700 hover:bg-purple-50 dark:hover:bg-purple-900/30",
+      teal: active
+        ? "bg-teal-500 text-white border-teal-500"
+        : "bg-transparent text-teal-600 dark:text-teal-400 border-teal-300 dark:border-teal-700 hover:bg-teal-50 dark:hover:bg-teal-900/30",
+      slate: active
+        ? "bg-slate-500 text-white border-slate-500"
+        : "bg-transparent text-slate-600 dark:text-slate-400 border-slate-300 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-900/30",
     };
     return colorClasses[color] || colorClasses.blue;
   };
@@ -59,11 +86,11 @@ export function TransactionFilters({ activeFilters, onFilterChange }: Props) {
       <div className="flex flex-wrap gap-2">
         {FILTER_OPTIONS.map((option) => (
           <button
-            key={option.value}
+            key={option.label}
             type="button"
-            onClick={() => toggleFilter(option.value)}
+            onClick={() => toggleFilter(option.types)}
             className={`px-3 py-1.5 text-xs font-medium rounded-full border transition ${getButtonClasses(
-              option.value,
+              option.types,
               option.color
             )}`}
           >
@@ -42,6 +42,90 @@ const TYPE_CONFIG: Record<
     color: "text-orange-600 dark:text-orange-400",
     bgColor: "bg-orange-100 dark:bg-orange-900/30",
   },
+  liquidated: {
+    label: "Liquidated",
+    icon: "!",
+    color: "text-rose-600 dark:text-rose-400",
+    bgColor: "bg-rose-100 dark:bg-rose-900/30",
+  },
+  partially_liquidated: {
+    label: "Partially Liquidated",
+    icon: "!",
+    color: "text-rose-600 dark:text-rose-400",
+    bgColor: "bg-rose-100 dark:bg-rose-900/30",
+  },
+  trading_fee: {
+    label: "Trading Fee",
+    icon: "%",
+    color: "text-amber-600 dark:text-amber-400",
+    bgColor: "bg-amber-100 dark:bg-amber-900/30",
+  },
+  settlement_fee: {
+    label: "Settlement Fee",
+    icon: "%",
+    color: "text-amber-600 dark:text-amber-400",
+    bgColor: "bg-amber-100 dark:bg-amber-900/30",
+  },
+  close_fee: {
+    label: "Close Fee",
+    icon: "%",
+    color: "text-amber-600 dark:text-amber-400",
+    bgColor: "bg-amber-100 dark:bg-amber-900/30",
+  },
+  order_placed: {
+    label: "Order Placed",
+    icon: "o",
+    color: "text-purple-600 dark:text-purple-400",
+    bgColor: "bg-purple-100 dark:bg-purple-900/30",
+  },
+  order_cancelled: {
+    label: "Order Cancelled",
+    icon: "-",
+    color: "text-purple-600 dark:text-purple-400",
+    bgColor: "bg-purple-100 dark:bg-purple-900/30",
+  },
+  order_filled: {
+    label: "Order Filled",
+    icon: "=",
+    color: "text-purple-600 dark:text-purple-400",
+    bgColor: "bg-purple-100 dark:bg-purple-900/30",
+  },
+  limit_order_placed: {
+    label: "Limit Order Placed",
+    icon: "o",
+    color: "text-teal-600 dark:text-teal-400",
+    bgColor: "bg-teal-100 dark:bg-teal-900/30",
+  },
+  limit_order_cancelled: {
+    label: "Limit Order Cancelled",
+    icon: "-",
+    color: "text-teal-600 dark:text-teal-400",
+    bgColor: "bg-teal-100 dark:bg-teal-900/30",
+  },
+  limit_order_executed: {
+    label: "Limit Order Executed",
+    icon: "=",
+    color: "text-teal-600 dark:text-teal-400",
+    bgColor: "bg-teal-100 dark:bg-teal-900/30",
+  },
+  stop_loss_set: {
+    label: "Stop Loss Set",
+    icon: "s",
+    color: "text-slate-600 dark:text-slate-400",
+    bgColor: "bg-slate-200 dark:bg-slate-700/50",
+  },
+  stop_loss_cancelled: {
+    label: "Stop Loss Cancelled",
+    icon: "-",
+    color: "text-slate-600 dark:text-slate-400",
+    bgColor: "bg-slate-200 dark:bg-slate-700/50",
+  },
+  stop_loss_triggered: {
+    label: "Stop Loss Triggered",
+    icon: "s",
+    color: "text-slate-600 dark:text-slate-400",
+    bgColor: "bg-slate-200 dark:bg-slate-700/50",
+  },
 };
 
 export function TransactionRow({ transaction, explorerUrl }: Props) {
@@ -134,6 +218,88 @@ export function TransactionRow({ transaction, explorerUrl }: Props) {
             New Margin: {formatUSDC(transaction.details.newMargin)}
           </div>
         );
+      case "liquidated":
+        return (
+          <div className="text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+            <div>Margin Seized: {formatUSDC(transaction.details.marginSeized)}</div>
+            <div>
+              Liquidator Reward: {formatUSDC(transaction.details.liquidatorReward)} •{" "}
+              Protocol Fee: {formatUSDC(transaction.details.protocolFeeAmount)}
+            </div>
+          </div>
+        );
+      case "partially_liquidated":
+        return (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Margin Seized: {formatUSDC(transaction.details.marginSeized)} •{" "}
+            Remaining Margin: {formatUSDC(transaction.details.remainingMargin)}
+          </div>
+        );
+      case "trading_fee":
+      case "settlement_fee":
+      case "close_fee":
+        return (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Fee: {formatUSDC(transaction.details.feeAmount)}
+          </div>
+        );
+      case "order_placed":
+        return (
+          <div className="text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+            <div>
+              {(transaction.details.isPayingFixed as boolean) ? "Pay Fixed" : "Pay Floating"} •{" "}
+              {formatUSDC(transaction.details.notional)} notional
+            </div>
+            <div>
+              {(transaction.details.isPayingFixed as boolean)
+                ? `Max Rate: ${formatRate(transaction.details.maxRate)}`
+                : `Min Rate: ${formatRate(transaction.details.minRate)}`}{" "}
+              • {String(transaction.details.maturityDays)}d maturity
+            </div>
+          </div>
+        );
+      case "order_filled":
+        return (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {(transaction.details.isPayingFixed as boolean) ? "Pay Fixed" : "Pay Floating"} •{" "}
+            {formatUSDC(transaction.details.matchedNotional)} at {formatRate(transaction.details.matchedRate)}
+            {(transaction.details.remainingNotional as bigint) > BigInt(0) &&
+              ` • ${formatUSDC(transaction.details.remainingNotional)} remaining`}
+          </div>
+        );
+      case "limit_order_placed":
+        return (
+          <div className="text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+            <div>
+              {(transaction.details.isPayingFixed as boolean) ? "Pay Fixed" : "Pay Floating"} •{" "}
+              {formatUSDC(transaction.details.notional)} notional
+            </div>
+            <div>
+              Trigger: rate {(transaction.details.triggerAbove as boolean) ? "above" : "below"}{" "}
+              {formatRate(transaction.details.targetRate)}
+            </div>
+          </div>
+        );
+      case "limit_order_executed":
+        return (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Executed at {formatRate(transaction.details.executedRate)}
+          </div>
+        );
+      case "stop_loss_set":
+        return (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            Stop Loss: {formatPnL(transaction.details.stopLossPnL)} •{" "}
+            Take Profit: {formatPnL(transaction.details.takeProfitPnL)}
+          </div>
+        );
+      case "stop_loss_triggered":
+        return (
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {(transaction.details.wasStopLoss as boolean) ? "Stop loss" : "Take profit"} hit at P&L{" "}
+            {formatPnL(transaction.details.currentPnL)}
+          </div>
+        );
       default:
         return null;
     }
@@ -154,7 +320,9 @@ export function TransactionRow({ transaction, explorerUrl }: Props) {
           <div className="flex items-center gap-2">
             <span className={`font-medium text-sm ${config.color}`}>{config.label}</span>
             <span className="text-xs text-gray-400 dark:text-gray-500">
-              #{transaction.positionId.toString()}
+              {transaction.positionId !== null
+                ? `#${transaction.positionId.toString()}`
+                : `Order #${transaction.orderId?.toString()}`}
             </span>
           </div>
           <span className="text-xs text-gray-400 dark:text-gray-500">
@@ -7,6 +7,12 @@ import { TransactionRow } from "./TransactionRow";
 interface Props {
   contracts: {
     positionManager: `0x${string}`;
+    settlementEngine: `0x${string}`;
+    liquidationEngine: `0x${string}`;
+    orderBook: `0x${string}`;
+    automation: `0x${string}`;
+    rateOracle: `0x${string}`;
+    irsGovernor: `0x${string}`;
   };
   userAddress?: `0x${string}`;
   showFilters?: boolean;
@@ -33,8 +39,9 @@ export function TransactionHistory({
     nextPage,
     prevPage,
     refresh,
+    progress,
   } = useTransactionHistory({
-    positionManagerAddress: contracts.positionManager,
+    contracts,
     userAddress,
     pageSize,
   });
@@ -54,6 +61,18 @@ export function TransactionHistory({
         </button>
       </div>
 
+      {/* Backfill Progress */}
+      {progress && (
+        <div className="mb-4 text-xs text-gray-500 dark:text-gray-400">
+          Indexing history from deployment...{" "}
+          {Math.floor(
+            (Number(progress.indexedTo - progress.startBlock) * 100) /
+              Math.max(1, Number(progress.head - progress.startBlock))
+          )}
+          %
+        </div>
+      )}
+
       {/* Filters */}
       {showFilters && (
         <div className="mb-4">
@@ -0,0 +1,72 @@
+"use client";
+
+import { useMemo } from "react";
+import { useReadContracts } from "wagmi";
+import { formatUnits, zeroAddress } from "viem";
+import { MARGIN_ENGINE_ABI, SETTLEMENT_ENGINE_ABI } from "@/lib/abis";
+
+interface UseEngineParamsProps {
+  settlementEngine: `0x${string}`;
+  marginEngine: `0x${string}`;
+}
+
+// Settlement and margin parameters as plain numbers, for client-side modelling
+export interface EngineParams {
+  settlementIntervalSec: number;
+  // Fraction of positive settlements taken as a fee, e.g. 0.01
+  settlementFee: number;
+  // Fraction of the settlement fee paid to the keeper
+  keeperRewardShare: number;
+  // Fraction of notional, e.g. 0.05
+  maintenanceMarginRatio: number;
+  // Health factor below which a position is liquidatable, e.g. 1
+  liquidationThreshold: number;
+}
+
+// Contract defaults, used when an engine is not deployed
+export const DEFAULT_ENGINE_PARAMS: EngineParams = {
+  settlementIntervalSec: 24 * 60 * 60,
+  settlementFee: 0.01,
+  keeperRewardShare: 0.1,
+  maintenanceMarginRatio: 0.05,
+  liquidationThreshold: 1,
+};
+
+const fromWad = (value: bigint | undefined, fallback: number) =>
+  value !== undefined ? Number(formatUnits(value, 18)) : fallback;
+
+export function useEngineParams({ settlementEngine, marginEngine }: UseEngineParamsProps): EngineParams {
+  const settlementDeployed = settlementEngine !== zeroAddress;
+  const marginDeployed = marginEngine !== zeroAddress;
+
+  const { data: settlementData } = useReadContracts({
+    contracts: [
+      { address: settlementEngine, abi: SETTLEMENT_ENGINE_ABI, functionName: "settlementInterval" },
+      { address: settlementEngine, abi: SETTLEMENT_ENGINE_ABI, functionName: "settlementFee" },
+      { address: settlementEngine, abi: SETTLEMENT_ENGINE_ABI, functionName: "getKeeperStats" },
+    ],
+    query: { enabled: settlementDeployed },
+  });
+
+  const { data: marginData } = useReadContracts({
+    contracts: [
+      { address: marginEngine, abi: MARGIN_ENGINE_ABI, functionName: "maintenanceMarginRatio" },
+      { address: marginEngine, abi: MARGIN_ENGINE_ABI, functionName: "liquidationThreshold" },
+    ],
+    query: { enabled: marginDeployed },
+  });
+
+  return useMemo(() => {
+    const [interval, fee, keeperStats] = settlementData ?? [];
+    const [maintenance, threshold] = marginData ?? [];
+    const defaults = DEFAULT_ENGINE_PARAMS;
+
+    return {
+      settlementIntervalSec: interval?.status === "success" ? Number(interval.result) : defaults.settlementIntervalSec,
+      settlementFee: fromWad(fee?.result, defaults.settlementFee),
+      keeperRewardShare: fromWad(keeperStats?.result?.[0], defaults.keeperRewardShare),
+      maintenanceMarginRatio: fromWad(maintenance?.result, defaults.maintenanceMarginRatio),
+      liquidationThreshold: fromWad(threshold?.result, defaults.liquidationThreshold),
+    };
+  }, [settlementData, marginData]);
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useMemo } from "react";
+import { useReadContracts } from "wagmi";
+import { formatUnits, zeroAddress } from "viem";
+import { IRS_POOL_ABI, RATE_ORACLE_ABI } from "@/lib/abis";
+import { calculateFairRate, TWAP_WINDOW_SECONDS, type FairRate, type TwapWindow } from "@/lib/fairRate";
+
+interface UseFairFixedRateProps {
+  rateOracle: `0x${string}`;
+  irsPool: `0x${string}`;
+  maturityDays: number;
+}
+
+export interface UseFairFixedRateReturn {
+  fairRate: FairRate | null;
+  twaps: Partial<Record<TwapWindow, number>>;
+  poolRate?: number;
+  isLoading: boolean;
+}
+
+const WINDOWS = Object.keys(TWAP_WINDOW_SECONDS) as TwapWindow[];
+
+const toPercent = (wad: bigint) => Number(formatUnits(wad, 16));
+
+export function useFairFixedRate({ rateOracle, irsPool, maturityDays }: UseFairFixedRateProps): UseFairFixedRateReturn {
+  const poolDeployed = irsPool !== zeroAddress;
+
+  const { data: twapData, isLoading } = useReadContracts({
+    contracts: WINDOWS.map((window) => ({
+      address: rateOracle,
+      abi: RATE_ORACLE_ABI,
+      functionName: "getTWAP" as const,
+      args: [BigInt(TWAP_WINDOW_SECONDS[window])] as const,
+    })),
+    query: { refetchInterval: 60000 },
+  });
+
+  const { data: poolData } = useReadContracts({
+    contracts: [{ address: irsPool, abi: IRS_POOL_ABI, functionName: "getCurrentRate" }],
+    query: { enabled: poolDeployed, refetchInterval: 60000 },
+  });
+
+  return useMemo(() => {
+    const twaps: Partial<Record<TwapWindow, number>> = {};
+    WINDOWS.forEach((window, i) => {
+      const result = twapData?.[i];
+      // getTWAP falls back to lastRate, which is zero before the first update
+      if (result?.status === "success" && result.result > BigInt(0)) {
+        twaps[window] = toPercent(result.result);
+      }
+    });
+
+    const poolResult = poolData?.[0];
+    const poolRate = poolDeployed && poolResult?.status === "success" ? toPercent(poolResult.result) : undefined;
+
+    return {
+      fairRate: calculateFairRate({ twaps, poolRate, maturityDays }),
+      twaps,
+      poolRate,
+      isLoading,
+    };
+  }, [twapData, poolData, poolDeployed, maturityDays, isLoading]);
+}
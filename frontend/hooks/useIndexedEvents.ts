@@ -0,0 +1,88 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useChainId, usePublicClient } from "wagmi";
+import { zeroAddress } from "viem";
+import { DEPLOYMENT_BLOCKS } from "@/lib/wagmi";
+import {
+  contractsForScope,
+  indexScope,
+  subscribeEvents,
+  syncEvents,
+  watchEvents,
+  type IndexedEvent,
+  type IndexerContracts,
+  type IndexProgress,
+} from "@/lib/eventIndexer";
+
+export interface UseIndexedEventsReturn {
+  // Every indexed protocol event, oldest first
+  events: IndexedEvent[];
+  progress: IndexProgress | null;
+  // True until the cache has loaded; backfill continues after this with events streaming in
+  loading: boolean;
+  syncing: boolean;
+  error: string | null;
+  refresh: () => void;
+}
+
+export function useIndexedEvents(contracts: IndexerContracts): UseIndexedEventsReturn {
+  const [events, setEvents] = useState<IndexedEvent[]>([]);
+  const [progress, setProgress] = useState<IndexProgress | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const publicClient = usePublicClient();
+  const chainId = useChainId();
+
+  // Callers pass a fresh contracts object each render; the scope only changes with an address
+  const scope = indexScope(chainId, contracts);
+  const scoped = useMemo(() => contractsForScope(scope), [scope]);
+  const isDeployed = contracts.positionManager !== zeroAddress;
+
+  useEffect(() => {
+    if (!isDeployed) {
+      setLoading(false);
+      return;
+    }
+    return subscribeEvents(scope, (indexed, p) => {
+      setEvents(indexed);
+      setProgress(p);
+      setLoading(false);
+    });
+  }, [scope, isDeployed]);
+
+  // New events stream in as they are mined
+  useEffect(() => {
+    if (!publicClient || !isDeployed) return;
+    return watchEvents(publicClient, chainId, scoped);
+  }, [publicClient, chainId, scoped, isDeployed]);
+
+  const sync = useCallback(async () => {
+    if (!publicClient || !isDeployed) return;
+
+    setSyncing(true);
+    setError(null);
+    try {
+      await syncEvents(publicClient, chainId, scoped, DEPLOYMENT_BLOCKS[chainId] ?? BigInt(0));
+    } catch (e) {
+      console.error("Error indexing events:", e);
+      setError("Failed to index contract events");
+    } finally {
+      setSyncing(false);
+      setLoading(false);
+    }
+  }, [publicClient, chainId, scoped, isDeployed]);
+
+  useEffect(() => {
+    sync();
+  }, [sync]);
+
+  // Re-scan recent blocks every 30 seconds to catch anything the watcher missed or a reorg dropped
+  useEffect(() => {
+    const interval = setInterval(sync, 30000);
+    return () => clearInterval(interval);
+  }, [sync]);
+
+  return { events, progress, loading, syncing, error, refresh: sync };
+}
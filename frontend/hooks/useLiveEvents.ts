@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useChainId, usePublicClient } from "wagmi";
+import { zeroAddress } from "viem";
+import { contractsForScope, indexScope, subscribeChanges, watchEvents, type IndexerContracts } from "@/lib/eventIndexer";
+
+// A burst of events from one block or transaction triggers a single callback
+const DEBOUNCE_MS = 500;
+
+/**
+ * Call onEvent when any of the named events is mined, or dropped by a reorg.
+ * Lets views that read contract state refetch as soon as it changes instead of on a timer.
+ */
+export function useLiveEvents(contracts: IndexerContracts, eventNames: string[], onEvent: () => void) {
+  const publicClient = usePublicClient();
+  const chainId = useChainId();
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const scope = indexScope(chainId, contracts);
+  const isDeployed = contracts.positionManager !== zeroAddress;
+  const names = eventNames.join(",");
+
+  useEffect(() => {
+    if (!publicClient || !isDeployed) return;
+
+    const watched = new Set(names.split(","));
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = subscribeChanges(scope, (added, removedIds) => {
+      if (removedIds.length === 0 && !added.some((e) => watched.has(e.eventName))) return;
+      clearTimeout(timeout);
+      timeout = setTimeout(() => onEventRef.current(), DEBOUNCE_MS);
+    });
+    const unwatch = watchEvents(publicClient, chainId, contractsForScope(scope));
+
+    return () => {
+      clearTimeout(timeout);
+      unsubscribe();
+      unwatch();
+    };
+  }, [publicClient, chainId, scope, isDeployed, names]);
+}
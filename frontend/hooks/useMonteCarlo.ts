@@ -0,0 +1,58 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import type { SimulationInput, SimulationResult } from "@/lib/monteCarlo";
+
+export interface UseMonteCarloReturn {
+  result: SimulationResult | null;
+  running: boolean;
+  error: string | null;
+}
+
+// Wait for inputs to settle before starting a run
+const DEBOUNCE_MS = 300;
+
+// Runs the simulation in a web worker whenever the input changes; stale runs are discarded
+export function useMonteCarlo(input: SimulationInput | null): UseMonteCarloReturn {
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef(0);
+
+  useEffect(() => {
+    const worker = new Worker(new URL("../components/RateComparison/simulation.worker.ts", import.meta.url));
+    worker.onmessage = (
+      event: MessageEvent<{ id: number; result?: SimulationResult; error?: string }>
+    ) => {
+      if (event.data.id !== runIdRef.current) return;
+      setRunning(false);
+      if (event.data.error) {
+        setError(event.data.error);
+      } else {
+        setResult(event.data.result ?? null);
+        setError(null);
+      }
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  // Inputs are plain data, so compare them by value
+  const key = input ? JSON.stringify(input) : null;
+
+  useEffect(() => {
+    if (!key) return;
+    const id = ++runIdRef.current;
+    setRunning(true);
+    const timeout = setTimeout(() => {
+      workerRef.current?.postMessage({ id, input: JSON.parse(key) as SimulationInput });
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [key]);
+
+  return { result, running, error };
+}
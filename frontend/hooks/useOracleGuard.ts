@@ -0,0 +1,59 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useOracleHealth, type OracleHealth, type OracleStatus } from "./useOracleHealth";
+
+// Write flows that price against the oracle
+export type GuardedAction = "open" | "settle";
+
+export interface OracleGuard {
+  status: OracleStatus;
+  // Why the action is blocked or needs confirmation; null when the oracle is healthy
+  reason: string | null;
+  // Halted oracle: the action is disabled outright
+  blocked: boolean;
+  // Stale or degraded oracle: the action needs an explicit acknowledgement
+  needsConfirmation: boolean;
+  confirmed: boolean;
+  setConfirmed: (confirmed: boolean) => void;
+  canProceed: boolean;
+  health: OracleHealth;
+}
+
+const BLOCKED_REASONS: Record<GuardedAction, string> = {
+  open: "New positions can't be opened while the oracle is halted; the swap would lock in a frozen rate.",
+  settle: "Settlement is unavailable while the oracle is halted; it would revert or settle at a frozen rate.",
+};
+
+const CONFIRM_REASONS: Record<GuardedAction, string> = {
+  open: "The position will be priced against a rate that may not reflect the market.",
+  settle: "Settlement will use a rate that may not reflect the market.",
+};
+
+export function useOracleGuard(rateOracle: `0x${string}`, action: GuardedAction): OracleGuard {
+  const health = useOracleHealth(rateOracle);
+  const [confirmed, setConfirmed] = useState(false);
+
+  // An acknowledgement only covers the condition the user saw
+  useEffect(() => {
+    setConfirmed(false);
+  }, [health.status]);
+
+  const blocked = health.status === "halted";
+  const needsConfirmation = health.status === "stale" || health.status === "degraded";
+
+  let reason: string | null = null;
+  if (blocked) reason = `${health.issues.join(". ")}. ${BLOCKED_REASONS[action]}`;
+  else if (needsConfirmation) reason = `${health.issues.join(". ")}. ${CONFIRM_REASONS[action]}`;
+
+  return {
+    status: health.status,
+    reason,
+    blocked,
+    needsConfirmation,
+    confirmed,
+    setConfirmed,
+    canProceed: !blocked && (!needsConfirmation || confirmed),
+    health,
+  };
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useReadContract, useReadContracts } from "wagmi";
+import { RATE_ORACLE_ABI, RATE_SOURCE_ABI } from "@/lib/abis";
+
+export type OracleStatus = "healthy" | "degraded" | "stale" | "halted" | "unknown";
+
+export interface OracleSourceRate {
+  address: `0x${string}`;
+  // Undefined when the source reverted; the oracle treats that and zero as invalid
+  supplyRate?: bigint;
+  isValid: boolean;
+}
+
+export interface OracleHealth {
+  status: OracleStatus;
+  // Human-readable reasons behind a non-healthy status
+  issues: string[];
+  currentRate?: bigint;
+  lastRate?: bigint;
+  lastUpdateTime?: number;
+  maxStaleness?: number;
+  // Seconds since the last updateRate, against the local clock
+  age?: number;
+  isStale: boolean;
+  isCircuitBreakerActive: boolean;
+  sources: OracleSourceRate[];
+  validSources: number;
+  minSources?: number;
+  // The live median would move more than RateOracle.MAX_RATE_CHANGE from lastRate,
+  // so the next updateRate will hit the circuit breaker and revert
+  pendingAnomaly: boolean;
+  isLoading: boolean;
+  refetch: () => void;
+}
+
+// Mirrors RateOracle.MAX_RATE_CHANGE (5e18, i.e. a 500% move)
+const MAX_RATE_CHANGE_MULTIPLE = BigInt(5);
+
+export function useOracleHealth(rateOracle: `0x${string}`): OracleHealth {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 10000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const { data, isLoading, refetch } = useReadContracts({
+    contracts: [
+      { address: rateOracle, abi: RATE_ORACLE_ABI, functionName: "getCurrentRate" },
+      { address: rateOracle, abi: RATE_ORACLE_ABI, functionName: "lastRate" },
+      { address: rateOracle, abi: RATE_ORACLE_ABI, functionName: "lastUpdateTime" },
+      { address: rateOracle, abi: RATE_ORACLE_ABI, functionName: "maxStaleness" },
+      { address: rateOracle, abi: RATE_ORACLE_ABI, functionName: "isStale" },
+      { address: rateOracle, abi: RATE_ORACLE_ABI, functionName: "isCircuitBreakerActive" },
+      { address: rateOracle, abi: RATE_ORACLE_ABI, functionName: "minSources" },
+    ],
+    query: { refetchInterval: 30000 },
+  });
+
+  const [
+    currentRateResult,
+    lastRateResult,
+    lastUpdateResult,
+    maxStalenessResult,
+    isStaleResult,
+    breakerResult,
+    minSourcesResult,
+  ] = data ?? [];
+
+  const { data: sourceAddresses, refetch: refetchSources } = useReadContract({
+    address: rateOracle,
+    abi: RATE_ORACLE_ABI,
+    functionName: "getSources",
+    query: { refetchInterval: 30000 },
+  });
+
+  const { data: sourceRates, refetch: refetchSourceRates } = useReadContracts({
+    contracts: (sourceAddresses ?? []).map((address) => ({
+      address,
+      abi: RATE_SOURCE_ABI,
+      functionName: "getSupplyRate" as const,
+    })),
+    query: { enabled: !!sourceAddresses?.length, refetchInterval: 30000 },
+  });
+
+  const sources: OracleSourceRate[] = (sourceAddresses ?? []).map((address, i) => {
+    const result = sourceRates?.[i];
+    const supplyRate = result?.status === "success" ? result.result : undefined;
+    return { address, supplyRate, isValid: supplyRate !== undefined && supplyRate > BigInt(0) };
+  });
+  const validSources = sources.filter((s) => s.isValid).length;
+
+  // getCurrentRate reverts when the breaker is tripped or too few sources respond
+  const currentRate = currentRateResult?.status === "success" ? currentRateResult.result : undefined;
+  const lastRate = lastRateResult?.status === "success" ? lastRateResult.result : undefined;
+  const lastUpdateTime = lastUpdateResult?.status === "success" ? Number(lastUpdateResult.result) : undefined;
+  const maxStaleness = maxStalenessResult?.status === "success" ? Number(maxStalenessResult.result) : undefined;
+  const isStale = isStaleResult?.status === "success" && isStaleResult.result;
+  const isCircuitBreakerActive = breakerResult?.status === "success" && breakerResult.result;
+  const minSources = minSourcesResult?.status === "success" ? Number(minSourcesResult.result) : undefined;
+
+  const pendingAnomaly =
+    currentRate !== undefined &&
+    lastRate !== undefined &&
+    lastRate > BigInt(0) &&
+    (currentRate > lastRate ? currentRate - lastRate : lastRate - currentRate) > lastRate * MAX_RATE_CHANGE_MULTIPLE;
+
+  const issues: string[] = [];
+  if (isCircuitBreakerActive) issues.push("Circuit breaker is tripped; rate reads and updates revert");
+  if (!isCircuitBreakerActive && data && currentRate === undefined) issues.push("Not enough rate sources are responding");
+  if (isStale) issues.push("Last rate update is older than the staleness limit");
+  if (sourceRates && validSources < sources.length) {
+    issues.push(`${sources.length - validSources} of ${sources.length} rate sources are returning no rate`);
+  }
+  if (pendingAnomaly) issues.push("Live rate moved past the circuit-breaker threshold; the next update will be rejected");
+
+  let status: OracleStatus = "unknown";
+  if (data) {
+    if (isCircuitBreakerActive || currentRate === undefined) status = "halted";
+    else if (isStale) status = "stale";
+    else if (pendingAnomaly || (sourceRates && validSources < sources.length)) status = "degraded";
+    else status = "healthy";
+  }
+
+  return {
+    status,
+    issues,
+    currentRate,
+    lastRate,
+    lastUpdateTime,
+    maxStaleness,
+    age: lastUpdateTime !== undefined ? Math.max(0, now - lastUpdateTime) : undefined,
+    isStale,
+    isCircuitBreakerActive,
+    sources,
+    validSources,
+    minSources,
+    pendingAnomaly,
+    isLoading,
+    refetch: () => {
+      refetch();
+      refetchSources();
+      refetchSourceRates();
+    },
+  };
+}
@@ -11,6 +11,9 @@ export interface WizardState {
   margin: string;
 }
 
+// Values handed in from elsewhere in the app, e.g. a recommended hedge
+export type WizardPrefill = Partial<Omit<WizardState, "step">>;
+
 export interface UsePositionWizardReturn {
   state: WizardState;
   step: number;
@@ -37,8 +40,11 @@ const initialState: WizardState = {
   margin: "1000",
 };
 
-export function usePositionWizard(): UsePositionWizardReturn {
-  const [state, setState] = useState<WizardState>(initialState);
+export function usePositionWizard(prefill?: WizardPrefill): UsePositionWizardReturn {
+  // A prefilled wizard opens on the review step
+  const [state, setState] = useState<WizardState>(() =>
+    prefill ? { ...initialState, ...prefill, step: TOTAL_STEPS } : initialState
+  );
 
   const setStep = useCallback((step: number) => {
     if (step >= 1 && step <= TOTAL_STEPS) {
@@ -0,0 +1,159 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { usePublicClient } from "wagmi";
+import { RATE_ORACLE_ABI } from "@/lib/abis";
+import type { IndexedEventOf, IndexerContracts } from "@/lib/eventIndexer";
+import { TWAP_WINDOW_SECONDS, type TwapWindow } from "@/lib/fairRate";
+import { useIndexedEvents } from "./useIndexedEvents";
+
+export type RateRange = TwapWindow;
+
+export const RATE_RANGE_SECONDS = TWAP_WINDOW_SECONDS;
+
+export interface RatePoint {
+  rate: bigint;
+  // Block timestamp of the update, in seconds
+  timestamp: number;
+  blockNumber?: bigint;
+  numSources?: number;
+}
+
+export interface UseRateHistoryReturn {
+  points: RatePoint[];
+  twaps: Partial<Record<RateRange, bigint>>;
+  // Where the history came from; observations cover recent history until the indexer has caught up
+  source: "events" | "observations" | null;
+  loading: boolean;
+  error: string | null;
+  refresh: () => void;
+}
+
+// Observations read back while indexed events are unavailable
+const MAX_OBSERVATIONS = 500;
+
+const RANGES = Object.keys(RATE_RANGE_SECONDS) as RateRange[];
+
+export function useRateHistory(contracts: IndexerContracts): UseRateHistoryReturn {
+  const [observationPoints, setObservationPoints] = useState<RatePoint[]>([]);
+  const [twaps, setTwaps] = useState<Partial<Record<RateRange, bigint>>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const publicClient = usePublicClient();
+  const rateOracleAddress = contracts.rateOracle;
+
+  const { events, progress, error: eventsError, refresh: refreshEvents } = useIndexedEvents(contracts);
+  // Partial history would chart as a gap, so events are only used once the backfill has reached the head
+  const fromEvents = !eventsError && progress !== null && progress.indexedTo >= progress.head;
+
+  const eventPoints = useMemo<RatePoint[]>(
+    () =>
+      events
+        .filter(
+          (e): e is IndexedEventOf<"rateOracle", "RateUpdated"> =>
+            e.contract === "rateOracle" && e.eventName === "RateUpdated"
+        )
+        .map((e) => ({
+          rate: e.args.rate,
+          timestamp: Number(e.args.timestamp),
+          blockNumber: e.blockNumber,
+          numSources: Number(e.args.numSources),
+        })),
+    [events]
+  );
+
+  // Each observation stores cumulativeRate += rate * elapsed, so the rate set at
+  // observation i is the cumulative delta over the time delta since i - 1
+  const fetchFromObservations = useCallback(async (): Promise<RatePoint[]> => {
+    const count = await publicClient!.readContract({
+      address: rateOracleAddress,
+      abi: RATE_ORACLE_ABI,
+      functionName: "getObservationCount",
+    });
+
+    const total = Number(count);
+    const start = Math.max(0, total - MAX_OBSERVATIONS - 1);
+    const results = await publicClient!.multicall({
+      contracts: Array.from({ length: total - start }, (_, i) => ({
+        address: rateOracleAddress,
+        abi: RATE_ORACLE_ABI,
+        functionName: "observations" as const,
+        args: [BigInt(start + i)] as const,
+      })),
+      allowFailure: true,
+    });
+
+    const observations = results
+      .filter((r): r is Extract<(typeof results)[number], { status: "success" }> => r.status === "success")
+      .map((r) => r.result);
+
+    const derived: RatePoint[] = [];
+    for (let i = 1; i < observations.length; i++) {
+      const [prevTime, prevCumulative] = observations[i - 1];
+      const [time, cumulative] = observations[i];
+      if (time <= prevTime) continue;
+      derived.push({
+        rate: (cumulative - prevCumulative) / BigInt(time - prevTime),
+        timestamp: time,
+      });
+    }
+    return derived;
+  }, [publicClient, rateOracleAddress]);
+
+  const fetchHistory = useCallback(async () => {
+    if (!publicClient) return;
+
+    setError(null);
+
+    try {
+      const twapResults = await publicClient.multicall({
+        contracts: RANGES.map((range) => ({
+          address: rateOracleAddress,
+          abi: RATE_ORACLE_ABI,
+          functionName: "getTWAP" as const,
+          args: [BigInt(RATE_RANGE_SECONDS[range])] as const,
+        })),
+        allowFailure: true,
+      });
+      setTwaps(
+        Object.fromEntries(
+          RANGES.flatMap((range, i) => {
+            const result = twapResults[i];
+            return result.status === "success" ? [[range, result.result]] : [];
+          })
+        )
+      );
+
+      if (!fromEvents) setObservationPoints(await fetchFromObservations());
+    } catch (e) {
+      console.error("Error fetching rate history:", e);
+      setError("Failed to load rate history");
+    } finally {
+      setLoading(false);
+    }
+  }, [publicClient, rateOracleAddress, fromEvents, fetchFromObservations]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  // Auto-refresh every 30 seconds
+  useEffect(() => {
+    const interval = setInterval(fetchHistory, 30000);
+    return () => clearInterval(interval);
+  }, [fetchHistory]);
+
+  const refresh = useCallback(() => {
+    fetchHistory();
+    refreshEvents();
+  }, [fetchHistory, refreshEvents]);
+
+  return {
+    points: fromEvents ? eventPoints : observationPoints,
+    twaps,
+    source: loading ? null : fromEvents ? "events" : "observations",
+    loading,
+    error,
+    refresh,
+  };
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { usePublicClient } from "wagmi";
+import { formatUnits, zeroAddress } from "viem";
+import { ORDER_BOOK_ABI } from "@/lib/abis";
+import type { IndexedEventOf } from "@/lib/eventIndexer";
+import { useFairFixedRate } from "./useFairFixedRate";
+import { useIndexedEvents } from "./useIndexedEvents";
+import { buildTermStructure, toRateCurve, type BookQuote, type TermPoint, type TradeObservation } from "@/lib/termStructure";
+import type { RateCurve } from "@/lib/pricing";
+import type { TwapWindow } from "@/lib/fairRate";
+
+interface UseTermStructureProps {
+  positionManager: `0x${string}`;
+  settlementEngine: `0x${string}`;
+  liquidationEngine: `0x${string}`;
+  rateOracle: `0x${string}`;
+  irsPool: `0x${string}`;
+  orderBook: `0x${string}`;
+  automation: `0x${string}`;
+  irsGovernor: `0x${string}`;
+}
+
+export interface UseTermStructureReturn {
+  points: TermPoint[];
+  // Implied rates as a pricing curve from now; null until a market source is available
+  curve: RateCurve | null;
+  twaps: Partial<Record<TwapWindow, number>>;
+  loading: boolean;
+  refresh: () => void;
+}
+
+// Recent opens that count towards traded rates
+const TRADE_LOOKBACK_SECONDS = 30 * 24 * 60 * 60;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const toPercent = (wad: bigint) => Number(formatUnits(wad, 16));
+
+export function useTermStructure({
+  positionManager,
+  settlementEngine,
+  liquidationEngine,
+  rateOracle,
+  irsPool,
+  orderBook,
+  automation,
+  irsGovernor,
+}: UseTermStructureProps): UseTermStructureReturn {
+  const [quotes, setQuotes] = useState<BookQuote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const publicClient = usePublicClient();
+
+  const bookDeployed = orderBook !== zeroAddress;
+  const {
+    events,
+    loading: eventsLoading,
+    refresh: refreshEvents,
+  } = useIndexedEvents({
+    positionManager,
+    settlementEngine,
+    liquidationEngine,
+    orderBook,
+    automation,
+    rateOracle,
+    irsGovernor,
+  });
+
+  // The open's block time gives the tenor the position was opened with
+  const trades = useMemo<TradeObservation[]>(() => {
+    const since = Math.floor(Date.now() / 1000) - TRADE_LOOKBACK_SECONDS;
+    return events
+      .filter(
+        (e): e is IndexedEventOf<"positionManager", "PositionOpened"> =>
+          e.contract === "positionManager" && e.eventName === "PositionOpened" && e.timestamp >= since
+      )
+      .map((e) => ({
+        fixedRate: toPercent(e.args.fixedRate),
+        notional: Number(formatUnits(e.args.notional, 6)),
+        maturityDays: (Number(e.args.maturity) - e.timestamp) / DAY_SECONDS,
+      }));
+  }, [events]);
+
+  // TWAPs and the pool rate do not depend on maturity; the maturity argument only shapes fairRate
+  const { twaps, poolRate } = useFairFixedRate({ rateOracle, irsPool, maturityDays: 90 });
+
+  const fetchQuotes = useCallback(async (): Promise<BookQuote[]> => {
+    if (!bookDeployed) return [];
+
+    const [payFixedIds, payFloatingIds] = await publicClient!.readContract({
+      address: orderBook,
+      abi: ORDER_BOOK_ABI,
+      functionName: "getActiveOrders",
+    });
+    const ids = [...payFixedIds, ...payFloatingIds];
+    if (ids.length === 0) return [];
+
+    const results = await publicClient!.multicall({
+      contracts: ids.map((id) => ({
+        address: orderBook,
+        abi: ORDER_BOOK_ABI,
+        functionName: "getOrder" as const,
+        args: [id] as const,
+      })),
+      allowFailure: true,
+    });
+
+    return results.flatMap((result) => {
+      if (result.status === "failure" || !result.result.isActive) return [];
+      const order = result.result;
+      return [
+        {
+          isPayingFixed: order.isPayingFixed,
+          rate: toPercent(order.isPayingFixed ? order.maxRate : order.minRate),
+          maturityDays: Number(order.maturityDays),
+          expiresAt: Number(order.expiresAt),
+        },
+      ];
+    });
+  }, [publicClient, bookDeployed, orderBook]);
+
+  const fetchMarket = useCallback(async () => {
+    if (!publicClient) return;
+
+    try {
+      setQuotes(await fetchQuotes());
+    } catch (e) {
+      console.error("Error fetching resting orders:", e);
+    } finally {
+      setLoading(false);
+    }
+  }, [publicClient, fetchQuotes]);
+
+  useEffect(() => {
+    fetchMarket();
+  }, [fetchMarket]);
+
+  // Auto-refresh every 30 seconds
+  useEffect(() => {
+    const interval = setInterval(fetchMarket, 30000);
+    return () => clearInterval(interval);
+  }, [fetchMarket]);
+
+  const points = useMemo(
+    () => buildTermStructure({ poolRate, quotes, trades, twaps, now: Math.floor(Date.now() / 1000) }),
+    [poolRate, quotes, trades, twaps]
+  );
+
+  const curve = useMemo(() => toRateCurve(points, BigInt(Math.floor(Date.now() / 1000))), [points]);
+
+  const refresh = useCallback(() => {
+    fetchMarket();
+    refreshEvents();
+  }, [fetchMarket, refreshEvents]);
+
+  return { points, curve, twaps, loading: loading || eventsLoading, refresh };
+}
@@ -1,15 +1,39 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
-import { usePublicClient } from "wagmi";
-import { POSITION_MANAGER_ABI } from "@/lib/abis";
+import { useState, useCallback, useMemo } from "react";
+import { zeroAddress } from "viem";
+import { useIndexedEvents } from "./useIndexedEvents";
+import type { IndexedEvent, IndexerContracts, IndexProgress } from "@/lib/eventIndexer";
 
-export type TransactionType = "opened" | "closed" | "settled" | "margin_added" | "margin_removed";
+export type TransactionType =
+  | "opened"
+  | "closed"
+  | "settled"
+  | "margin_added"
+  | "margin_removed"
+  | "liquidated"
+  | "partially_liquidated"
+  | "trading_fee"
+  | "settlement_fee"
+  | "close_fee"
+  | "order_placed"
+  | "order_cancelled"
+  | "order_filled"
+  | "limit_order_placed"
+  | "limit_order_cancelled"
+  | "limit_order_executed"
+  | "stop_loss_set"
+  | "stop_loss_cancelled"
+  | "stop_loss_triggered";
 
 export interface Transaction {
   id: string;
   type: TransactionType;
-  positionId: bigint;
+  // Null for order events that have not opened a position
+  positionId: bigint | null;
+  // Order book or automation order id, for order events
+  orderId: bigint | null;
+  // Owner of the position (or order) when the event happened
   trader: string;
   timestamp: number;
   blockNumber: bigint;
@@ -18,7 +42,7 @@ export interface Transaction {
 }
 
 export interface UseTransactionHistoryProps {
-  positionManagerAddress: `0x${string}`;
+  contracts: IndexerContracts;
   userAddress?: `0x${string}`;
   pageSize?: number;
 }
@@ -35,230 +59,174 @@ export interface UseTransactionHistoryReturn {
   nextPage: () => void;
   prevPage: () => void;
   refresh: () => void;
+  // Set while the indexer is still backfilling from deployment
+  progress: IndexProgress | null;
 }
 
-const ALL_TYPES: TransactionType[] = ["opened", "closed", "settled", "margin_added", "margin_removed"];
+const ALL_TYPES: TransactionType[] = [
+  "opened",
+  "closed",
+  "settled",
+  "margin_added",
+  "margin_removed",
+  "liquidated",
+  "partially_liquidated",
+  "trading_fee",
+  "settlement_fee",
+  "close_fee",
+  "order_placed",
+  "order_cancelled",
+  "order_filled",
+  "limit_order_placed",
+  "limit_order_cancelled",
+  "limit_order_executed",
+  "stop_loss_set",
+  "stop_loss_cancelled",
+  "stop_loss_triggered",
+];
 
-export function useTransactionHistory({
-  positionManagerAddress,
-  userAddress,
-  pageSize = 10,
-}: UseTransactionHistoryProps): UseTransactionHistoryReturn {
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [page, setPage] = useState(1);
-  const [filters, setFilters] = useState<TransactionType[]>(ALL_TYPES);
-  const publicClient = usePublicClient();
-
-  const fetchTransactions = useCallback(async () => {
-    if (!publicClient) return;
+// Events shown in the history, keyed by contract and event name, and the args each one carries into details
+const EVENT_TYPES: Record<string, { type: TransactionType; details: string[] }> = {
+  "positionManager:PositionOpened": {
+    type: "opened",
+    details: ["isPayingFixed", "notional", "fixedRate", "margin", "maturity"],
+  },
+  "positionManager:PositionClosed": { type: "closed", details: ["finalPnL", "marginReturned"] },
+  "positionManager:PositionSettled": { type: "settled", details: ["settlementAmount", "newMargin"] },
+  "positionManager:MarginAdded": { type: "margin_added", details: ["amount", "newMargin"] },
+  "positionManager:MarginRemoved": { type: "margin_removed", details: ["amount", "newMargin"] },
+  "positionManager:TradingFeeCollected": { type: "trading_fee", details: ["feeAmount"] },
+  "settlementEngine:SettlementFeeCollected": { type: "settlement_fee", details: ["feeAmount"] },
+  "settlementEngine:CloseFeeCollected": { type: "close_fee", details: ["feeAmount"] },
+  "liquidationEngine:PositionLiquidated": {
+    type: "liquidated",
+    details: ["liquidator", "marginSeized", "liquidatorReward", "protocolFeeAmount"],
+  },
+  "liquidationEngine:PartialLiquidation": {
+    type: "partially_liquidated",
+    details: ["liquidator", "marginSeized", "remainingMargin"],
+  },
+  "orderBook:OrderCreated": {
+    type: "order_placed",
+    details: ["isPayingFixed", "notional", "minRate", "maxRate", "maturityDays", "expiresAt"],
+  },
+  "orderBook:OrderCancelled": { type: "order_cancelled", details: [] },
+  "automation:LimitOrderCreated": {
+    type: "limit_order_placed",
+    details: ["isPayingFixed", "notional", "targetRate", "triggerAbove", "expiresAt"],
+  },
+  "automation:LimitOrderCancelled": { type: "limit_order_cancelled", details: [] },
+  "automation:LimitOrderExecuted": { type: "limit_order_executed", details: ["executedRate"] },
+  "automation:StopLossCreated": { type: "stop_loss_set", details: ["stopLossPnL", "takeProfitPnL"] },
+  "automation:StopLossCancelled": { type: "stop_loss_cancelled", details: [] },
+  "automation:StopLossTriggered": { type: "stop_loss_triggered", details: ["currentPnL", "wasStopLoss"] },
+};
 
-    setLoading(true);
-    setError(null);
+/**
+ * Turn indexed events into history rows, oldest first. Most events only carry a position or order id,
+ * so rows are attributed by replaying position NFT transfers and order creations up to each event:
+ * a position that changed hands shows under the seller before the transfer and the buyer after it.
+ */
+function toTransactions(events: IndexedEvent[]): Transaction[] {
+  const owners = new Map<bigint, string>();
+  const orderTraders = new Map<string, string>();
+  // Remaining notional of orders partially filled in a transaction, folded into its OrdersMatched row
+  const remaining = new Map<string, bigint>();
+  const transactions: Transaction[] = [];
 
-    try {
-      const allTransactions: Transaction[] = [];
-      const currentBlock = await publicClient.getBlockNumber();
-      const fromBlock = currentBlock > BigInt(5000) ? currentBlock - BigInt(5000) : BigInt(0);
+  const row = (event: IndexedEvent, type: TransactionType, fields: Partial<Transaction>): Transaction => ({
+    id: event.id,
+    type,
+    positionId: null,
+    orderId: null,
+    trader: "",
+    timestamp: event.timestamp,
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+    details: {},
+    ...fields,
+  });
 
-      // Fetch PositionOpened events
-      if (filters.includes("opened")) {
-        const openedLogs = await publicClient.getLogs({
-          address: positionManagerAddress,
-          event: {
-            type: "event",
-            name: "PositionOpened",
-            inputs: [
-              { indexed: true, name: "positionId", type: "uint256" },
-              { indexed: true, name: "trader", type: "address" },
-              { indexed: false, name: "isPayingFixed", type: "bool" },
-              { indexed: false, name: "notional", type: "uint256" },
-              { indexed: false, name: "fixedRate", type: "uint256" },
-              { indexed: false, name: "margin", type: "uint256" },
-              { indexed: false, name: "maturity", type: "uint256" },
-            ],
-          },
-          fromBlock,
-          toBlock: currentBlock,
-          args: userAddress ? { trader: userAddress } : undefined,
-        });
+  for (const event of events) {
+    const orderKey = (orderId: bigint) => `${event.contract}:${orderId}`;
 
-        for (const log of openedLogs) {
-          const block = await publicClient.getBlock({ blockNumber: log.blockNumber });
-          allTransactions.push({
-            id: `${log.transactionHash}-${log.logIndex}`,
-            type: "opened",
-            positionId: log.args.positionId!,
-            trader: log.args.trader!,
-            timestamp: Number(block.timestamp),
-            blockNumber: log.blockNumber,
-            transactionHash: log.transactionHash,
-            details: {
-              isPayingFixed: log.args.isPayingFixed,
-              notional: log.args.notional,
-              fixedRate: log.args.fixedRate,
-              margin: log.args.margin,
-              maturity: log.args.maturity,
-            },
-          });
-        }
-      }
-
-      // Fetch PositionClosed events
-      if (filters.includes("closed")) {
-        const closedLogs = await publicClient.getLogs({
-          address: positionManagerAddress,
-          event: {
-            type: "event",
-            name: "PositionClosed",
-            inputs: [
-              { indexed: true, name: "positionId", type: "uint256" },
-              { indexed: true, name: "trader", type: "address" },
-              { indexed: false, name: "finalPnL", type: "int256" },
-            ],
-          },
-          fromBlock,
-          toBlock: currentBlock,
-          args: userAddress ? { trader: userAddress } : undefined,
-        });
-
-        for (const log of closedLogs) {
-          const block = await publicClient.getBlock({ blockNumber: log.blockNumber });
-          allTransactions.push({
-            id: `${log.transactionHash}-${log.logIndex}`,
-            type: "closed",
-            positionId: log.args.positionId!,
-            trader: log.args.trader!,
-            timestamp: Number(block.timestamp),
-            blockNumber: log.blockNumber,
-            transactionHash: log.transactionHash,
-            details: {
-              finalPnL: log.args.finalPnL,
-            },
-          });
-        }
-      }
-
-      // Fetch PositionSettled events
-      if (filters.includes("settled")) {
-        const settledLogs = await publicClient.getLogs({
-          address: positionManagerAddress,
-          event: {
-            type: "event",
-            name: "PositionSettled",
-            inputs: [
-              { indexed: true, name: "positionId", type: "uint256" },
-              { indexed: false, name: "settlementAmount", type: "int256" },
-              { indexed: false, name: "newMargin", type: "int256" },
-            ],
-          },
-          fromBlock,
-          toBlock: currentBlock,
-        });
-
-        for (const log of settledLogs) {
-          const block = await publicClient.getBlock({ blockNumber: log.blockNumber });
-          allTransactions.push({
-            id: `${log.transactionHash}-${log.logIndex}`,
-            type: "settled",
-            positionId: log.args.positionId!,
-            trader: "",
-            timestamp: Number(block.timestamp),
-            blockNumber: log.blockNumber,
-            transactionHash: log.transactionHash,
-            details: {
-              settlementAmount: log.args.settlementAmount,
-              newMargin: log.args.newMargin,
-            },
-          });
-        }
-      }
-
-      // Fetch MarginAdded events
-      if (filters.includes("margin_added")) {
-        const addedLogs = await publicClient.getLogs({
-          address: positionManagerAddress,
-          event: {
-            type: "event",
-            name: "MarginAdded",
-            inputs: [
-              { indexed: true, name: "positionId", type: "uint256" },
-              { indexed: false, name: "amount", type: "uint256" },
-              { indexed: false, name: "newMargin", type: "uint256" },
-            ],
-          },
-          fromBlock,
-          toBlock: currentBlock,
-        });
+    if (event.contract === "positionManager" && event.eventName === "Transfer") {
+      // Positions are never burned, but keep the last owner if one ever is
+      if (event.args.to !== zeroAddress) owners.set(event.args.tokenId, event.args.to);
+      continue;
+    }
+    if (event.eventName === "OrderCreated" || event.eventName === "LimitOrderCreated") {
+      orderTraders.set(orderKey(event.args.orderId), event.args.trader);
+    }
+    if (event.contract === "orderBook" && event.eventName === "OrderPartiallyFilled") {
+      remaining.set(`${event.transactionHash}-${event.args.orderId}`, event.args.remainingNotional);
+      continue;
+    }
 
-        for (const log of addedLogs) {
-          const block = await publicClient.getBlock({ blockNumber: log.blockNumber });
-          allTransactions.push({
-            id: `${log.transactionHash}-${log.logIndex}`,
-            type: "margin_added",
-            positionId: log.args.positionId!,
-            trader: "",
-            timestamp: Number(block.timestamp),
-            blockNumber: log.blockNumber,
-            transactionHash: log.transactionHash,
+    // A match fills one order on each side, and each side gets its own position
+    if (event.contract === "orderBook" && event.eventName === "OrdersMatched") {
+      const { args } = event;
+      const sides = [
+        { orderId: args.payFixedOrderId, positionId: args.payFixedPositionId, isPayingFixed: true },
+        { orderId: args.payFloatingOrderId, positionId: args.payFloatingPositionId, isPayingFixed: false },
+      ];
+      for (const side of sides) {
+        transactions.push(
+          row(event, "order_filled", {
+            id: `${event.id}-${side.isPayingFixed ? "fixed" : "floating"}`,
+            positionId: side.positionId,
+            orderId: side.orderId,
+            trader: orderTraders.get(orderKey(side.orderId)) ?? owners.get(side.positionId) ?? "",
             details: {
-              amount: log.args.amount,
-              newMargin: log.args.newMargin,
+              isPayingFixed: side.isPayingFixed,
+              matchedRate: args.matchedRate,
+              matchedNotional: args.matchedNotional,
+              remainingNotional: remaining.get(`${event.transactionHash}-${side.orderId}`) ?? BigInt(0),
             },
-          });
-        }
+          })
+        );
       }
+      continue;
+    }
 
-      // Fetch MarginRemoved events
-      if (filters.includes("margin_removed")) {
-        const removedLogs = await publicClient.getLogs({
-          address: positionManagerAddress,
-          event: {
-            type: "event",
-            name: "MarginRemoved",
-            inputs: [
-              { indexed: true, name: "positionId", type: "uint256" },
-              { indexed: false, name: "amount", type: "uint256" },
-              { indexed: false, name: "newMargin", type: "uint256" },
-            ],
-          },
-          fromBlock,
-          toBlock: currentBlock,
-        });
-
-        for (const log of removedLogs) {
-          const block = await publicClient.getBlock({ blockNumber: log.blockNumber });
-          allTransactions.push({
-            id: `${log.transactionHash}-${log.logIndex}`,
-            type: "margin_removed",
-            positionId: log.args.positionId!,
-            trader: "",
-            timestamp: Number(block.timestamp),
-            blockNumber: log.blockNumber,
-            transactionHash: log.transactionHash,
-            details: {
-              amount: log.args.amount,
-              newMargin: log.args.newMargin,
-            },
-          });
-        }
-      }
+    const config = EVENT_TYPES[`${event.contract}:${event.eventName}`];
+    if (!config) continue;
+    // The table covers many event shapes, so fields are read by name
+    const args: Record<string, unknown> = event.args;
+    const positionId = "positionId" in event.args ? event.args.positionId : null;
+    const orderId = "orderId" in event.args ? event.args.orderId : null;
+    const trader =
+      (orderId !== null ? orderTraders.get(orderKey(orderId)) : undefined) ??
+      (positionId !== null ? owners.get(positionId) : undefined) ??
+      "";
+    transactions.push(
+      row(event, config.type, {
+        positionId,
+        orderId,
+        trader,
+        details: Object.fromEntries(config.details.map((key) => [key, args[key]])),
+      })
+    );
+  }
 
-      // Sort by timestamp descending
-      allTransactions.sort((a, b) => b.timestamp - a.timestamp);
-      setTransactions(allTransactions);
-    } catch (e) {
-      console.error("Error fetching transactions:", e);
-      setError("Failed to fetch transaction history");
-    }
+  return transactions;
+}
 
-    setLoading(false);
-  }, [publicClient, positionManagerAddress, userAddress, filters]);
+export function useTransactionHistory({
+  contracts,
+  userAddress,
+  pageSize = 10,
+}: UseTransactionHistoryProps): UseTransactionHistoryReturn {
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<TransactionType[]>(ALL_TYPES);
+  const { events, progress, loading, error, refresh } = useIndexedEvents(contracts);
 
-  useEffect(() => {
-    fetchTransactions();
-  }, [fetchTransactions]);
+  const transactions = useMemo(() => {
+    const user = userAddress?.toLowerCase();
+    return toTransactions(events)
+      .filter((tx) => filters.includes(tx.type) && (!user || tx.trader.toLowerCase() === user))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }, [events, filters, userAddress]);
 
   // Pagination
   const totalPages = Math.ceil(transactions.length / pageSize);
@@ -291,6 +259,7 @@ export function useTransactionHistory({
     setFilters: handleSetFilters,
     nextPage,
     prevPage,
-    refresh: fetchTransactions,
+    refresh,
+    progress: progress && progress.indexedTo < progress.head ? progress : null,
   };
 }
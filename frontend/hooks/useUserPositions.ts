@@ -0,0 +1,137 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { keepPreviousData, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useChainId, usePublicClient } from "wagmi";
+import { zeroAddress } from "viem";
+import { POSITION_MANAGER_ABI } from "@/lib/abis";
+import { POSITION_EVENTS, type IndexedEvent, type IndexerContracts } from "@/lib/eventIndexer";
+import { useIndexedEvents } from "./useIndexedEvents";
+import { useLiveEvents } from "./useLiveEvents";
+
+export interface PositionData {
+  id: bigint;
+  // Wallet that opened the position; ownership follows the NFT and may differ
+  trader: string;
+  isPayingFixed: boolean;
+  startTime: number;
+  maturity: number;
+  isActive: boolean;
+  notional: bigint;
+  margin: bigint;
+  fixedRate: bigint;
+  accumulatedPnL: bigint;
+  lastSettlement: number;
+}
+
+export interface UseUserPositionsReturn {
+  // Every position the wallet currently holds, open or closed, newest first
+  positions: PositionData[];
+  loading: boolean;
+  // True while the event backfill is still catching up, so older positions may be missing
+  discovering: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+/**
+ * Replay position NFT transfers (mints included) and return the ids `owner` holds now.
+ */
+export function ownedPositionIds(events: IndexedEvent[], owner: string): bigint[] {
+  const owners = new Map<bigint, string>();
+  for (const event of events) {
+    if (event.contract !== "positionManager" || event.eventName !== "Transfer") continue;
+    owners.set(event.args.tokenId, event.args.to.toLowerCase());
+  }
+
+  const account = owner.toLowerCase();
+  return Array.from(owners)
+    .filter(([, holder]) => holder === account)
+    .map(([id]) => id)
+    .sort((a, b) => (a < b ? 1 : a > b ? -1 : 0));
+}
+
+const NO_POSITIONS: PositionData[] = [];
+
+const positionsKey = (chainId: number, positionManager: string) => ["positions", chainId, positionManager];
+
+/**
+ * The connected wallet's positions, shared by every view through React Query so the dashboard
+ * reads each struct once. Ids come from indexed Transfer events rather than scanning every id.
+ */
+export function useUserPositions(
+  contracts: IndexerContracts,
+  userAddress: `0x${string}` | undefined
+): UseUserPositionsReturn {
+  const publicClient = usePublicClient();
+  const chainId = useChainId();
+  const queryClient = useQueryClient();
+  const { events, progress, loading: eventsLoading, error: eventsError } = useIndexedEvents(contracts);
+
+  const { positionManager } = contracts;
+  const isDeployed = positionManager !== zeroAddress;
+
+  const ids = useMemo(
+    () => (userAddress ? ownedPositionIds(events, userAddress) : []),
+    [events, userAddress]
+  );
+
+  const query = useQuery({
+    queryKey: [...positionsKey(chainId, positionManager), ids.map(String)],
+    queryFn: async (): Promise<PositionData[]> => {
+      const results = await publicClient!.multicall({
+        contracts: ids.map((id) => ({
+          address: positionManager,
+          abi: POSITION_MANAGER_ABI,
+          functionName: "positions" as const,
+          args: [id] as const,
+        })),
+        allowFailure: true,
+      });
+
+      return results.flatMap((result, i) => {
+        if (result.status === "failure") {
+          console.error(`Error fetching position ${ids[i]}:`, result.error);
+          return [];
+        }
+        const [trader, isPayingFixed, startTime, maturity, isActive, notional, margin, fixedRate, accumulatedPnL, lastSettlement] =
+          result.result;
+        return [
+          {
+            id: ids[i],
+            trader,
+            isPayingFixed,
+            startTime: Number(startTime),
+            maturity: Number(maturity),
+            isActive,
+            notional,
+            margin,
+            fixedRate,
+            accumulatedPnL,
+            lastSettlement: Number(lastSettlement),
+          },
+        ];
+      });
+    },
+    enabled: !!publicClient && isDeployed && ids.length > 0,
+    // Keep showing the last set while a new id is being read
+    placeholderData: keepPreviousData,
+    // Auto-refresh every 30 seconds
+    refetchInterval: 30000,
+  });
+
+  const refetch = useCallback(() => {
+    // Every mounted view invalidates on the same event; let them share one in-flight read
+    queryClient.invalidateQueries({ queryKey: positionsKey(chainId, positionManager) }, { cancelRefetch: false });
+  }, [queryClient, chainId, positionManager]);
+
+  useLiveEvents(contracts, POSITION_EVENTS, refetch);
+
+  return {
+    positions: ids.length > 0 ? query.data ?? NO_POSITIONS : NO_POSITIONS,
+    loading: eventsLoading || (ids.length > 0 && query.isPending),
+    discovering: progress !== null && progress.indexedTo < progress.head,
+    error: eventsError ?? (query.error ? "Failed to load positions" : null),
+    refetch,
+  };
+}
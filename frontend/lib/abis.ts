@@ -120,12 +120,24 @@ export const POSITION_MANAGER_ABI = [
     anonymous: false,
     inputs: [
       { indexed: true, name: "positionId", type: "uint256" },
+      { indexed: true, name: "sender", type: "address" },
       { indexed: false, name: "amount", type: "uint256" },
       { indexed: false, name: "newMargin", type: "uint256" },
     ],
     name: "MarginAdded",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "positionId", type: "uint256" },
+      { indexed: true, name: "trader", type: "address" },
+      { indexed: false, name: "amount", type: "uint256" },
+      { indexed: false, name: "newMargin", type: "uint256" },
+    ],
+    name: "MarginRemoved",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -136,6 +148,26 @@ export const POSITION_MANAGER_ABI = [
     name: "PositionSettled",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "positionId", type: "uint256" },
+      { indexed: false, name: "feeAmount", type: "uint256" },
+    ],
+    name: "TradingFeeCollected",
+    type: "event",
+  },
+  // ERC-721 position ownership
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "from", type: "address" },
+      { indexed: true, name: "to", type: "address" },
+      { indexed: true, name: "tokenId", type: "uint256" },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
 ] as const;
 
 export const SETTLEMENT_ENGINE_ABI = [
@@ -167,6 +199,112 @@ export const SETTLEMENT_ENGINE_ABI = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [{ name: "positionIds", type: "uint256[]" }],
+    name: "batchSettle",
+    outputs: [
+      { name: "settledCount", type: "uint256" },
+      { name: "failedCount", type: "uint256" },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "positionId", type: "uint256" }],
+    name: "getTimeToNextSettlement",
+    outputs: [{ name: "timeRemaining", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getKeeperStats",
+    outputs: [
+      { name: "rewardPercentage", type: "uint256" },
+      { name: "totalPaid", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "settlementFee",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "settlementInterval",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "keeper", type: "address" },
+      { indexed: true, name: "positionId", type: "uint256" },
+      { indexed: false, name: "reward", type: "uint256" },
+    ],
+    name: "KeeperRewardPaid",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "positionId", type: "uint256" },
+      { indexed: false, name: "settlementAmount", type: "int256" },
+      { indexed: false, name: "floatingRate", type: "uint256" },
+      { indexed: false, name: "fixedRate", type: "uint256" },
+      { indexed: false, name: "periodDays", type: "uint256" },
+    ],
+    name: "PositionSettled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "positionId", type: "uint256" },
+      { indexed: false, name: "finalSettlement", type: "int256" },
+    ],
+    name: "PositionMatured",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "positionId", type: "uint256" },
+      { indexed: false, name: "feeAmount", type: "uint256" },
+    ],
+    name: "SettlementFeeCollected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "positionId", type: "uint256" },
+      { indexed: false, name: "feeAmount", type: "uint256" },
+    ],
+    name: "CloseFeeCollected",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, name: "settledCount", type: "uint256" },
+      { indexed: false, name: "failedCount", type: "uint256" },
+    ],
+    name: "BatchSettlementCompleted",
+    type: "event",
+  },
 ] as const;
 
 export const MARGIN_ENGINE_ABI = [
@@ -198,51 +336,1098 @@ export const MARGIN_ENGINE_ABI = [
     stateMutability: "view",
     type: "function",
   },
-] as const;
-
-export const RATE_ORACLE_ABI = [
+  {
+    inputs: [{ name: "positionIds", type: "uint256[]" }],
+    name: "batchGetHealthFactors",
+    outputs: [{ name: "healthFactors", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
-    name: "getCurrentRate",
+    name: "maintenanceMarginRatio",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "liquidationThreshold",
     outputs: [{ name: "", type: "uint256" }],
     stateMutability: "view",
     type: "function",
   },
 ] as const;
 
-export const ERC20_ABI = [
+export const LIQUIDATION_ENGINE_ABI = [
+  // Read functions
   {
     inputs: [
-      { name: "spender", type: "address" },
-      { name: "amount", type: "uint256" },
+      { name: "startId", type: "uint256" },
+      { name: "endId", type: "uint256" },
     ],
-    name: "approve",
-    outputs: [{ name: "", type: "bool" }],
-    stateMutability: "nonpayable",
+    name: "findLiquidatablePositions",
+    outputs: [{ name: "liquidatableIds", type: "uint256[]" }],
+    stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [{ name: "account", type: "address" }],
-    name: "balanceOf",
+    inputs: [{ name: "positionId", type: "uint256" }],
+    name: "previewLiquidation",
+    outputs: [
+      { name: "marginSeized", type: "uint256" },
+      { name: "liquidatorReward", type: "uint256" },
+      { name: "protocolFeeAmount", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "positionId", type: "uint256" }],
+    name: "canLiquidate",
+    outputs: [
+      { name: "canLiquidate", type: "bool" },
+      { name: "healthFactor", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getStats",
+    outputs: [
+      { name: "liquidations", type: "uint256" },
+      { name: "valueLiquidated", type: "uint256" },
+      { name: "feesCollected", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "liquidationBonus",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolFee",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxLiquidationRatio",
     outputs: [{ name: "", type: "uint256" }],
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  // Write functions
+  {
+    inputs: [{ name: "positionId", type: "uint256" }],
+    name: "liquidate",
+    outputs: [
+      { name: "marginSeized", type: "uint256" },
+      { name: "liquidatorReward", type: "uint256" },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
-      { name: "owner", type: "address" },
-      { name: "spender", type: "address" },
+      { name: "positionId", type: "uint256" },
+      { name: "amount", type: "uint256" },
     ],
-    name: "allowance",
+    name: "partialLiquidate",
+    outputs: [{ name: "liquidatorReward", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "positionIds", type: "uint256[]" }],
+    name: "batchLiquidate",
+    outputs: [
+      { name: "liquidatedCount", type: "uint256" },
+      { name: "totalReward", type: "uint256" },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  // Events
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "positionId", type: "uint256" },
+      { indexed: true, name: "liquidator", type: "address" },
+      { indexed: true, name: "positionOwner", type: "address" },
+      { indexed: false, name: "marginSeized", type: "uint256" },
+      { indexed: false, name: "liquidatorReward", type: "uint256" },
+      { indexed: false, name: "protocolFeeAmount", type: "uint256" },
+    ],
+    name: "PositionLiquidated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "positionId", type: "uint256" },
+      { indexed: true, name: "liquidator", type: "address" },
+      { indexed: false, name: "marginSeized", type: "uint256" },
+      { indexed: false, name: "remainingMargin", type: "uint256" },
+    ],
+    name: "PartialLiquidation",
+    type: "event",
+  },
+] as const;
+
+export const RATE_ORACLE_ABI = [
+  {
+    inputs: [],
+    name: "getCurrentRate",
     outputs: [{ name: "", type: "uint256" }],
     stateMutability: "view",
     type: "function",
   },
   {
     inputs: [],
-    name: "decimals",
-    outputs: [{ name: "", type: "uint8" }],
+    name: "getFreshRate",
+    outputs: [{ name: "rate", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "lastRate",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getSources",
+    outputs: [{ name: "", type: "address[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getSourceCount",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minSources",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isStale",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isCircuitBreakerActive",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "lastUpdateTime",
+    outputs: [{ name: "", type: "uint256" }],
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "maxStaleness",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "period", type: "uint256" }],
+    name: "getTWAP",
+    outputs: [{ name: "twap", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getObservationCount",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "", type: "uint256" }],
+    name: "observations",
+    outputs: [
+      { name: "timestamp", type: "uint40" },
+      { name: "cumulativeRate", type: "uint216" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  // Write functions
+  {
+    inputs: [],
+    name: "updateRate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  // Events
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, name: "rate", type: "uint256" },
+      { indexed: false, name: "timestamp", type: "uint256" },
+      { indexed: false, name: "numSources", type: "uint256" },
+    ],
+    name: "RateUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, name: "timestamp", type: "uint256" },
+      { indexed: false, name: "oldRate", type: "uint256" },
+      { indexed: false, name: "newRate", type: "uint256" },
+    ],
+    name: "CircuitBreakerTripped",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, name: "timestamp", type: "uint256" }],
+    name: "CircuitBreakerReset",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: false, name: "expectedRate", type: "uint256" },
+      { indexed: false, name: "actualRate", type: "uint256" },
+    ],
+    name: "RateAnomalyDetected",
+    type: "event",
+  },
+] as const;
+
+// Union of the IRateSource adapters' views; optional ones are probed with allowFailure
+export const RATE_SOURCE_ABI = [
+  {
+    inputs: [],
+    name: "getSupplyRate",
+    outputs: [{ name: "rate", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getBorrowRate",
+    outputs: [{ name: "rate", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  // Aave V3 / Lendle
+  {
+    inputs: [],
+    name: "getLastUpdateTimestamp",
+    outputs: [{ name: "timestamp", type: "uint40" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pool",
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "lendingPool",
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  // Compound V3 / Comet
+  {
+    inputs: [],
+    name: "comet",
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getUtilization",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isHealthy",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  // MockRateSource
+  {
+    inputs: [],
+    name: "supplyRate",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export const ERC20_ABI = [
+  {
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    name: "approve",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "account", type: "address" }],
+    name: "balanceOf",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    name: "allowance",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [{ name: "", type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export const IRS_POOL_ABI = [
+  // Read functions
+  {
+    inputs: [],
+    name: "getCurrentRate",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getTotalLiquidity",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "provider", type: "address" }],
+    name: "getLpPosition",
+    outputs: [
+      { name: "shares", type: "uint256" },
+      { name: "value", type: "uint256" },
+      { name: "depositTime", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "isPayingFixed", type: "bool" },
+      { name: "notional", type: "uint256" },
+    ],
+    name: "getQuote",
+    outputs: [
+      { name: "rate", type: "uint256" },
+      { name: "feeAmount", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pool",
+    outputs: [
+      { name: "fixedRateLiquidity", type: "uint256" },
+      { name: "floatingRateLiquidity", type: "uint256" },
+      { name: "totalLpShares", type: "uint256" },
+      { name: "lastRate", type: "uint256" },
+      { name: "lastUpdateTime", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "targetRate",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "fee",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  // Write functions
+  {
+    inputs: [{ name: "amount", type: "uint256" }],
+    name: "addLiquidity",
+    outputs: [{ name: "shares", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "shares", type: "uint256" }],
+    name: "removeLiquidity",
+    outputs: [{ name: "amount", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "isPayingFixed", type: "bool" },
+      { name: "notional", type: "uint256" },
+      { name: "minRate", type: "uint256" },
+      { name: "maxRate", type: "uint256" },
+    ],
+    name: "swap",
+    outputs: [{ name: "rate", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  // Events
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "provider", type: "address" },
+      { indexed: false, name: "amount", type: "uint256" },
+      { indexed: false, name: "shares", type: "uint256" },
+    ],
+    name: "LiquidityAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "provider", type: "address" },
+      { indexed: false, name: "amount", type: "uint256" },
+      { indexed: false, name: "shares", type: "uint256" },
+    ],
+    name: "LiquidityRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "trader", type: "address" },
+      { indexed: false, name: "isPayingFixed", type: "bool" },
+      { indexed: false, name: "notional", type: "uint256" },
+      { indexed: false, name: "rate", type: "uint256" },
+      { indexed: false, name: "fee", type: "uint256" },
+    ],
+    name: "RateSwap",
+    type: "event",
+  },
+] as const;
+
+export const IRS_GOVERNOR_ABI = [
+  // Read functions
+  {
+    inputs: [{ name: "proposalId", type: "uint256" }],
+    name: "getProposal",
+    outputs: [
+      { name: "proposer", type: "address" },
+      { name: "forVotes", type: "uint256" },
+      { name: "againstVotes", type: "uint256" },
+      { name: "abstainVotes", type: "uint256" },
+      { name: "startTime", type: "uint256" },
+      { name: "endTime", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "proposalId", type: "uint256" }],
+    name: "state",
+    outputs: [{ name: "", type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "proposalId", type: "uint256" },
+      { name: "account", type: "address" },
+    ],
+    name: "hasVoted",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "proposalId", type: "uint256" }],
+    name: "proposalEta",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "account", type: "address" }],
+    name: "votingPower",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalVotingPower",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proposalThreshold",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "quorumBps",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "votingPeriod",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "votingDelay",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "timelockDelay",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  // Write functions
+  {
+    inputs: [
+      { name: "targets", type: "address[]" },
+      { name: "values", type: "uint256[]" },
+      { name: "calldatas", type: "bytes[]" },
+      { name: "description", type: "string" },
+    ],
+    name: "propose",
+    outputs: [{ name: "proposalId", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "proposalId", type: "uint256" },
+      { name: "support", type: "uint8" },
+    ],
+    name: "castVote",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "proposalId", type: "uint256" }],
+    name: "queue",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "proposalId", type: "uint256" }],
+    name: "execute",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  // Events
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "proposalId", type: "uint256" },
+      { indexed: true, name: "proposer", type: "address" },
+      { indexed: false, name: "targets", type: "address[]" },
+      { indexed: false, name: "values", type: "uint256[]" },
+      { indexed: false, name: "calldatas", type: "bytes[]" },
+      { indexed: false, name: "description", type: "string" },
+      { indexed: false, name: "startTime", type: "uint256" },
+      { indexed: false, name: "endTime", type: "uint256" },
+    ],
+    name: "ProposalCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "voter", type: "address" },
+      { indexed: true, name: "proposalId", type: "uint256" },
+      { indexed: false, name: "support", type: "uint8" },
+      { indexed: false, name: "weight", type: "uint256" },
+    ],
+    name: "VoteCast",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "proposalId", type: "uint256" },
+      { indexed: false, name: "eta", type: "uint256" },
+    ],
+    name: "ProposalQueued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, name: "proposalId", type: "uint256" }],
+    name: "ProposalExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, name: "proposalId", type: "uint256" }],
+    name: "ProposalCanceled",
+    type: "event",
+  },
+] as const;
+
+export const AUTOMATION_ABI = [
+  // Read functions
+  {
+    inputs: [{ name: "user", type: "address" }],
+    name: "getUserLimitOrders",
+    outputs: [{ name: "", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "orderId", type: "uint256" }],
+    name: "getLimitOrder",
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "trader", type: "address" },
+          { name: "isPayingFixed", type: "bool" },
+          { name: "notional", type: "uint128" },
+          { name: "targetRate", type: "uint128" },
+          { name: "triggerAbove", type: "bool" },
+          { name: "margin", type: "uint128" },
+          { name: "maturityDays", type: "uint40" },
+          { name: "expiresAt", type: "uint40" },
+          { name: "isActive", type: "bool" },
+        ],
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "orderId", type: "uint256" }],
+    name: "canExecuteLimitOrder",
+    outputs: [
+      { name: "canExecute", type: "bool" },
+      { name: "currentRate", type: "uint256" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "positionId", type: "uint256" }],
+    name: "getStopLoss",
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "positionId", type: "uint256" },
+          { name: "owner", type: "address" },
+          { name: "stopLossPnL", type: "int128" },
+          { name: "takeProfitPnL", type: "int128" },
+          { name: "hasStopLoss", type: "bool" },
+          { name: "hasTakeProfit", type: "bool" },
+          { name: "isActive", type: "bool" },
+        ],
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "positionId", type: "uint256" }],
+    name: "canExecuteStopLoss",
+    outputs: [
+      { name: "canExecute", type: "bool" },
+      { name: "currentPnL", type: "int128" },
+      { name: "isStopLoss", type: "bool" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "keeperReward",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minOrderDuration",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxOrderDuration",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getExecutableLimitOrders",
+    outputs: [{ name: "orderIds", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getTriggerableStopLosses",
+    outputs: [{ name: "positionIds", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  // Write functions
+  {
+    inputs: [
+      { name: "isPayingFixed", type: "bool" },
+      { name: "notional", type: "uint128" },
+      { name: "targetRate", type: "uint128" },
+      { name: "triggerAbove", type: "bool" },
+      { name: "maturityDays", type: "uint40" },
+      { name: "margin", type: "uint128" },
+      { name: "duration", type: "uint256" },
+    ],
+    name: "createLimitOrder",
+    outputs: [{ name: "orderId", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "orderId", type: "uint256" }],
+    name: "cancelLimitOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "orderId", type: "uint256" }],
+    name: "executeLimitOrder",
+    outputs: [{ name: "positionId", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "positionId", type: "uint256" },
+      { name: "stopLossPnL", type: "int128" },
+      { name: "takeProfitPnL", type: "int128" },
+      { name: "enableStopLoss", type: "bool" },
+      { name: "enableTakeProfit", type: "bool" },
+    ],
+    name: "setStopLoss",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "positionId", type: "uint256" }],
+    name: "cancelStopLoss",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "positionId", type: "uint256" }],
+    name: "executeStopLoss",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  // Events
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "orderId", type: "uint256" },
+      { indexed: true, name: "trader", type: "address" },
+      { indexed: false, name: "isPayingFixed", type: "bool" },
+      { indexed: false, name: "notional", type: "uint128" },
+      { indexed: false, name: "targetRate", type: "uint128" },
+      { indexed: false, name: "triggerAbove", type: "bool" },
+      { indexed: false, name: "expiresAt", type: "uint40" },
+    ],
+    name: "LimitOrderCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "orderId", type: "uint256" },
+      { indexed: true, name: "trader", type: "address" },
+    ],
+    name: "LimitOrderCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "orderId", type: "uint256" },
+      { indexed: true, name: "positionId", type: "uint256" },
+      { indexed: true, name: "keeper", type: "address" },
+      { indexed: false, name: "executedRate", type: "uint128" },
+      { indexed: false, name: "keeperReward", type: "uint256" },
+    ],
+    name: "LimitOrderExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "positionId", type: "uint256" },
+      { indexed: true, name: "owner", type: "address" },
+      { indexed: false, name: "stopLossPnL", type: "int128" },
+      { indexed: false, name: "takeProfitPnL", type: "int128" },
+    ],
+    name: "StopLossCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "positionId", type: "uint256" },
+      { indexed: true, name: "owner", type: "address" },
+    ],
+    name: "StopLossCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "positionId", type: "uint256" },
+      { indexed: true, name: "keeper", type: "address" },
+      { indexed: false, name: "currentPnL", type: "int128" },
+      { indexed: false, name: "wasStopLoss", type: "bool" },
+      { indexed: false, name: "keeperReward", type: "uint256" },
+    ],
+    name: "StopLossTriggered",
+    type: "event",
+  },
+] as const;
+
+export const ORDER_BOOK_ABI = [
+  // Read functions
+  {
+    inputs: [],
+    name: "getActiveOrders",
+    outputs: [
+      { name: "payFixedOrders", type: "uint256[]" },
+      { name: "payFloatingOrders", type: "uint256[]" },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "orderId", type: "uint256" }],
+    name: "getOrder",
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "trader", type: "address" },
+          { name: "isPayingFixed", type: "bool" },
+          { name: "notional", type: "uint128" },
+          { name: "minRate", type: "uint128" },
+          { name: "maxRate", type: "uint128" },
+          { name: "margin", type: "uint128" },
+          { name: "maturityDays", type: "uint40" },
+          { name: "createdAt", type: "uint40" },
+          { name: "expiresAt", type: "uint40" },
+          { name: "isActive", type: "bool" },
+        ],
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "user", type: "address" }],
+    name: "getUserOrders",
+    outputs: [{ name: "", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "orderId", type: "uint256" }],
+    name: "findMatchingOrders",
+    outputs: [{ name: "matchingOrderIds", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "matchingFee",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minOrderDuration",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxOrderDuration",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  // Write functions
+  {
+    inputs: [
+      { name: "isPayingFixed", type: "bool" },
+      { name: "notional", type: "uint128" },
+      { name: "minRate", type: "uint128" },
+      { name: "maxRate", type: "uint128" },
+      { name: "maturityDays", type: "uint40" },
+      { name: "margin", type: "uint128" },
+      { name: "duration", type: "uint256" },
+    ],
+    name: "createOrder",
+    outputs: [{ name: "orderId", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "orderId", type: "uint256" }],
+    name: "cancelOrder",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "payFixedOrderId", type: "uint256" },
+      { name: "payFloatingOrderId", type: "uint256" },
+    ],
+    name: "matchOrders",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  // Events
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "orderId", type: "uint256" },
+      { indexed: true, name: "trader", type: "address" },
+      { indexed: false, name: "isPayingFixed", type: "bool" },
+      { indexed: false, name: "notional", type: "uint128" },
+      { indexed: false, name: "minRate", type: "uint128" },
+      { indexed: false, name: "maxRate", type: "uint128" },
+      { indexed: false, name: "maturityDays", type: "uint40" },
+      { indexed: false, name: "expiresAt", type: "uint40" },
+    ],
+    name: "OrderCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "orderId", type: "uint256" },
+      { indexed: true, name: "trader", type: "address" },
+    ],
+    name: "OrderCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "payFixedOrderId", type: "uint256" },
+      { indexed: true, name: "payFloatingOrderId", type: "uint256" },
+      { indexed: false, name: "payFixedPositionId", type: "uint256" },
+      { indexed: false, name: "payFloatingPositionId", type: "uint256" },
+      { indexed: false, name: "matchedRate", type: "uint128" },
+      { indexed: false, name: "matchedNotional", type: "uint128" },
+    ],
+    name: "OrdersMatched",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "orderId", type: "uint256" },
+      { indexed: false, name: "filledNotional", type: "uint128" },
+      { indexed: false, name: "remainingNotional", type: "uint128" },
+    ],
+    name: "OrderPartiallyFilled",
+    type: "event",
+  },
 ] as const;
@@ -0,0 +1,132 @@
+/**
+ * Backtest tests
+ * Settlement follows SettlementEngine: the rate at settlement time covers the whole period
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { CsvParseError, parseRateCsv, runBacktest, type BacktestParams, type HistoricalRate } from "./backtest";
+import { close } from "./testing";
+
+const DAY = 24 * 60 * 60;
+const YEAR = 365 * DAY;
+const START = 1_700_000_000;
+
+const params = (overrides: Partial<BacktestParams> = {}): BacktestParams => ({
+  notional: 100_000,
+  fixedRate: 5,
+  maturityDays: 10,
+  isPayingFixed: true,
+  margin: 10_000,
+  settlementIntervalSec: DAY,
+  settlementFee: 0,
+  maintenanceMarginRatio: 0.05,
+  liquidationThreshold: 1,
+  ...overrides,
+});
+
+const flat = (rate: number, days: number): HistoricalRate[] => [
+  { timestamp: START, rate },
+  { timestamp: START + days * DAY, rate },
+];
+
+// One day of a 2-point spread on 100k
+const DAILY_CARRY = (100_000 * 2 * DAY) / YEAR / 100;
+
+describe("parseRateCsv", () => {
+  test("reads unix and ISO timestamps, skips a header and sorts", () => {
+    const rates = parseRateCsv("time,rate\n2024-01-02T00:00:00Z,5.5\n1704067200;5.25\n");
+
+    assert.deepEqual(rates, [
+      { timestamp: 1704067200, rate: 5.25 },
+      { timestamp: 1704153600, rate: 5.5 },
+    ]);
+  });
+
+  test("ignores extra columns and blank lines", () => {
+    assert.equal(parseRateCsv("1,5,extra\n\n2\t6\n").length, 2);
+  });
+
+  test("rejects malformed rows after the header", () => {
+    assert.throws(
+      () => parseRateCsv("1,5\nnot,a rate\n3,6"),
+      (e) => e instanceof CsvParseError && /Line 2/.test(e.message)
+    );
+  });
+
+  test("needs at least two rows", () => {
+    assert.throws(() => parseRateCsv("time,rate\n1,5"), CsvParseError);
+  });
+});
+
+describe("runBacktest", () => {
+  test("returns null without history or with invalid parameters", () => {
+    assert.equal(runBacktest([], params()), null);
+    assert.equal(runBacktest(flat(7, 10), params({ notional: 0 })), null);
+    assert.equal(runBacktest(flat(7, 10), params({ settlementIntervalSec: 0 })), null);
+  });
+
+  test("a payer earns the carry at a constant rate above fixed", () => {
+    const result = runBacktest(flat(7, 10), params())!;
+
+    assert.equal(result.points.length, 10);
+    close(result.finalPnL, DAILY_CARRY * 10);
+    assert.equal(result.maxDrawdown, 0);
+    assert.equal(result.coverage, 1);
+    assert.equal(result.maintenanceBreach, undefined);
+  });
+
+  test("the receiver side has the opposite sign and draws down", () => {
+    const result = runBacktest(flat(7, 10), params({ isPayingFixed: false }))!;
+
+    close(result.finalPnL, -DAILY_CARRY * 10);
+    close(result.maxDrawdown, DAILY_CARRY * 10);
+  });
+
+  test("fees apply only to positive settlements", () => {
+    close(runBacktest(flat(7, 10), params({ settlementFee: 0.1 }))!.finalPnL, DAILY_CARRY * 10 * 0.9);
+    close(runBacktest(flat(3, 10), params({ settlementFee: 0.1 }))!.finalPnL, -DAILY_CARRY * 10);
+  });
+
+  test("applies the rate in effect at settlement time to the whole period", () => {
+    // Rate jumps from 5% to 7% halfway through the first day
+    const history = [
+      { timestamp: START, rate: 5 },
+      { timestamp: START + DAY / 2, rate: 7 },
+      { timestamp: START + DAY, rate: 7 },
+    ];
+    const result = runBacktest(history, params({ maturityDays: 1 }))!;
+
+    assert.equal(result.points[0].floatingRate, 7);
+    close(result.finalPnL, DAILY_CARRY);
+  });
+
+  test("replays the most recent maturity window", () => {
+    const result = runBacktest(flat(7, 30), params())!;
+
+    assert.equal(result.startTimestamp, START + 20 * DAY);
+    assert.equal(result.endTimestamp, START + 30 * DAY);
+  });
+
+  test("reports partial coverage for short history", () => {
+    const result = runBacktest(flat(7, 5), params())!;
+
+    assert.equal(result.coverage, 0.5);
+    assert.equal(result.points.length, 5);
+  });
+
+  test("flags the first settlement below maintenance", () => {
+    // 5,000 required; 5,010 of margin loses about 5.48 a day at 3% against 5%
+    const result = runBacktest(flat(3, 10), params({ margin: 5_010 }))!;
+
+    assert.equal(result.maintenanceBreach?.timestamp, START + 2 * DAY);
+    assert.ok(result.minHealthFactor < 1);
+  });
+
+  test("keeps the opening health factor when nothing settles", () => {
+    const result = runBacktest([{ timestamp: START, rate: 7 }], params())!;
+
+    assert.equal(result.points.length, 0);
+    assert.equal(result.minHealthFactor, 2);
+  });
+});
@@ -0,0 +1,145 @@
+// Replays a swap against historical floating rates, settling the way SettlementEngine does
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+export interface HistoricalRate {
+  // Unix seconds
+  timestamp: number;
+  // Annual rate as a percentage, e.g. 5.25
+  rate: number;
+}
+
+export interface BacktestParams {
+  notional: number;
+  // Percentage
+  fixedRate: number;
+  maturityDays: number;
+  isPayingFixed: boolean;
+  margin: number;
+  settlementIntervalSec: number;
+  // Fraction of positive settlements taken as a fee, e.g. 0.01
+  settlementFee: number;
+  // Fraction of notional, e.g. 0.05
+  maintenanceMarginRatio: number;
+  // Health factor below which the position is liquidatable, e.g. 1
+  liquidationThreshold: number;
+}
+
+export interface BacktestPoint {
+  timestamp: number;
+  floatingRate: number;
+  settlement: number;
+  cumulativePnL: number;
+  healthFactor: number;
+}
+
+export interface BacktestResult {
+  points: BacktestPoint[];
+  finalPnL: number;
+  // Largest peak-to-trough fall in cumulative PnL, as a positive number
+  maxDrawdown: number;
+  minHealthFactor: number;
+  // First settlement at which margin fell below maintenance, if any
+  maintenanceBreach?: BacktestPoint;
+  // Share of the maturity the history actually covers (0-1)
+  coverage: number;
+  startTimestamp: number;
+  endTimestamp: number;
+}
+
+export class CsvParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CsvParseError";
+  }
+}
+
+/**
+ * Parse "timestamp,rate" rows. Timestamps may be unix seconds or ISO dates;
+ * rates are percentages. A header row and extra columns are ignored.
+ */
+export function parseRateCsv(text: string): HistoricalRate[] {
+  const rates: HistoricalRate[] = [];
+
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .forEach((line, i) => {
+      const [rawTime, rawRate] = line.split(/[,;\t]/).map((cell) => cell.trim());
+      const rate = Number(rawRate);
+      const timestamp = /^\d+$/.test(rawTime) ? Number(rawTime) : Math.floor(Date.parse(rawTime) / 1000);
+
+      if (!Number.isFinite(rate) || !Number.isFinite(timestamp)) {
+        if (i === 0) return; // header
+        throw new CsvParseError(`Line ${i + 1}: expected "timestamp,rate", got "${line}"`);
+      }
+      rates.push({ timestamp, rate });
+    });
+
+  if (rates.length < 2) throw new CsvParseError("Need at least two rate rows");
+  return rates.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function runBacktest(history: HistoricalRate[], params: BacktestParams): BacktestResult | null {
+  if (history.length === 0 || params.notional <= 0 || params.settlementIntervalSec <= 0) return null;
+
+  const sorted = [...history].sort((a, b) => a.timestamp - b.timestamp);
+  const maturitySec = params.maturityDays * 24 * 60 * 60;
+  const lastTimestamp = sorted[sorted.length - 1].timestamp;
+
+  // Replay the most recent maturity-length window, or all of history if it is shorter
+  const startTimestamp = Math.max(sorted[0].timestamp, lastTimestamp - maturitySec);
+  const endTimestamp = Math.min(lastTimestamp, startTimestamp + maturitySec);
+
+  const required = params.notional * params.maintenanceMarginRatio;
+  const points: BacktestPoint[] = [];
+  let cumulativePnL = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  let minHealthFactor = Infinity;
+  let maintenanceBreach: BacktestPoint | undefined;
+
+  // Index of the rate in effect at time t (step function between updates)
+  let cursor = 0;
+  const rateAt = (t: number) => {
+    while (cursor + 1 < sorted.length && sorted[cursor + 1].timestamp <= t) cursor++;
+    return sorted[cursor].rate;
+  };
+
+  let lastSettled = startTimestamp;
+  while (lastSettled < endTimestamp) {
+    const t = Math.min(lastSettled + params.settlementIntervalSec, endTimestamp);
+    // The contract applies the rate at settlement time to the whole elapsed period
+    const floatingRate = rateAt(t);
+    const yearFraction = (t - lastSettled) / SECONDS_PER_YEAR;
+    const diff = params.isPayingFixed ? floatingRate - params.fixedRate : params.fixedRate - floatingRate;
+    const gross = (params.notional * diff * yearFraction) / 100;
+    const settlement = gross > 0 ? gross * (1 - params.settlementFee) : gross;
+
+    cumulativePnL += settlement;
+    peak = Math.max(peak, cumulativePnL);
+    maxDrawdown = Math.max(maxDrawdown, peak - cumulativePnL);
+
+    const effectiveMargin = params.margin + cumulativePnL;
+    const healthFactor = effectiveMargin <= 0 ? 0 : effectiveMargin / required;
+    minHealthFactor = Math.min(minHealthFactor, healthFactor);
+
+    const point = { timestamp: t, floatingRate, settlement, cumulativePnL, healthFactor };
+    points.push(point);
+    if (!maintenanceBreach && healthFactor < params.liquidationThreshold) maintenanceBreach = point;
+
+    lastSettled = t;
+  }
+
+  return {
+    points,
+    finalPnL: cumulativePnL,
+    maxDrawdown,
+    minHealthFactor: points.length > 0 ? minHealthFactor : params.margin / required,
+    maintenanceBreach,
+    coverage: maturitySec > 0 ? Math.min(1, (endTimestamp - startTimestamp) / maturitySec) : 0,
+    startTimestamp,
+    endTimestamp,
+  };
+}
@@ -0,0 +1,203 @@
+// Persistent store for indexed events, block timestamps and indexing cursors.
+// Uses IndexedDB in the browser and falls back to memory where it is unavailable (SSR, private mode).
+
+import type { IndexedEvent } from "./eventIndexer";
+
+const DB_NAME = "cascade-events";
+const DB_VERSION = 1;
+
+const EVENTS = "events";
+const BLOCKS = "blocks";
+const CURSORS = "cursors";
+
+type StoredEvent = IndexedEvent & {
+  scope: string;
+  // blockNumber as a number, since bigints cannot be IndexedDB keys
+  block: number;
+};
+
+export interface EventCache {
+  // Last block fully indexed for a scope
+  getCursor(scope: string): Promise<bigint | undefined>;
+  getEvents(scope: string): Promise<IndexedEvent[]>;
+  getBlockTimes(chainId: number, blockNumbers: bigint[]): Promise<Map<bigint, number>>;
+  // Replace everything indexed in [fromBlock, lastBlock] and advance the cursor, in one transaction
+  // so the cursor never runs ahead and re-scanned ranges drop events that were reorged out
+  putChunk(
+    scope: string,
+    chainId: number,
+    fromBlock: bigint,
+    events: IndexedEvent[],
+    blockTimes: Map<bigint, number>,
+    lastBlock: bigint
+  ): Promise<void>;
+  // Live events past the cursor; the next sync re-scans and reconciles them
+  putEvents(scope: string, chainId: number, events: IndexedEvent[], blockTimes: Map<bigint, number>): Promise<void>;
+  removeEvents(scope: string, ids: string[]): Promise<void>;
+  clear(scope: string): Promise<void>;
+}
+
+const blockKey = (chainId: number, blockNumber: bigint) => `${chainId}:${blockNumber}`;
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      db.createObjectStore(BLOCKS);
+      const events = db.createObjectStore(EVENTS, { keyPath: ["scope", "id"] });
+      events.createIndex("scope", "scope");
+      events.createIndex("block", ["scope", "block"]);
+      db.createObjectStore(CURSORS);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function writeEvents(
+  tx: IDBTransaction,
+  scope: string,
+  chainId: number,
+  events: IndexedEvent[],
+  blockTimes: Map<bigint, number>
+) {
+  const eventStore = tx.objectStore(EVENTS);
+  for (const event of events) eventStore.put({ ...event, scope, block: Number(event.blockNumber) });
+  const blockStore = tx.objectStore(BLOCKS);
+  blockTimes.forEach((timestamp, n) => blockStore.put(timestamp, blockKey(chainId, n)));
+}
+
+function indexedDbCache(db: IDBDatabase): EventCache {
+  return {
+    async getCursor(scope) {
+      return request<bigint | undefined>(db.transaction(CURSORS).objectStore(CURSORS).get(scope));
+    },
+
+    async getEvents(scope) {
+      // The extra scope field is harmless to readers
+      return request<StoredEvent[]>(db.transaction(EVENTS).objectStore(EVENTS).index("scope").getAll(scope));
+    },
+
+    async getBlockTimes(chainId, blockNumbers) {
+      const store = db.transaction(BLOCKS).objectStore(BLOCKS);
+      const times = await Promise.all(
+        blockNumbers.map((n) => request<number | undefined>(store.get(blockKey(chainId, n))))
+      );
+      const found = new Map<bigint, number>();
+      blockNumbers.forEach((n, i) => {
+        if (times[i] !== undefined) found.set(n, times[i]!);
+      });
+      return found;
+    },
+
+    async putChunk(scope, chainId, fromBlock, events, blockTimes, lastBlock) {
+      const tx = db.transaction([EVENTS, BLOCKS, CURSORS], "readwrite");
+      const eventStore = tx.objectStore(EVENTS);
+      const range = IDBKeyRange.bound([scope, Number(fromBlock)], [scope, Number(lastBlock)]);
+      const stale = await request(eventStore.index("block").getAllKeys(range));
+      for (const key of stale) eventStore.delete(key);
+      writeEvents(tx, scope, chainId, events, blockTimes);
+      tx.objectStore(CURSORS).put(lastBlock, scope);
+      await done(tx);
+    },
+
+    async putEvents(scope, chainId, events, blockTimes) {
+      const tx = db.transaction([EVENTS, BLOCKS], "readwrite");
+      writeEvents(tx, scope, chainId, events, blockTimes);
+      await done(tx);
+    },
+
+    async removeEvents(scope, ids) {
+      const tx = db.transaction(EVENTS, "readwrite");
+      for (const id of ids) tx.objectStore(EVENTS).delete([scope, id]);
+      await done(tx);
+    },
+
+    async clear(scope) {
+      const tx = db.transaction([EVENTS, CURSORS], "readwrite");
+      const keys = await request(tx.objectStore(EVENTS).index("scope").getAllKeys(scope));
+      for (const key of keys) tx.objectStore(EVENTS).delete(key);
+      tx.objectStore(CURSORS).delete(scope);
+      await done(tx);
+    },
+  };
+}
+
+function memoryCache(): EventCache {
+  const events = new Map<string, Map<string, IndexedEvent>>();
+  const blocks = new Map<string, number>();
+  const cursors = new Map<string, bigint>();
+
+  return {
+    async getCursor(scope) {
+      return cursors.get(scope);
+    },
+    async getEvents(scope) {
+      return Array.from(events.get(scope)?.values() ?? []);
+    },
+    async getBlockTimes(chainId, blockNumbers) {
+      const found = new Map<bigint, number>();
+      for (const n of blockNumbers) {
+        const timestamp = blocks.get(blockKey(chainId, n));
+        if (timestamp !== undefined) found.set(n, timestamp);
+      }
+      return found;
+    },
+    async putChunk(scope, chainId, fromBlock, chunk, blockTimes, lastBlock) {
+      const scoped = events.get(scope) ?? new Map<string, IndexedEvent>();
+      scoped.forEach((event, id) => {
+        if (event.blockNumber >= fromBlock && event.blockNumber <= lastBlock) scoped.delete(id);
+      });
+      for (const event of chunk) scoped.set(event.id, event);
+      events.set(scope, scoped);
+      blockTimes.forEach((timestamp, n) => blocks.set(blockKey(chainId, n), timestamp));
+      cursors.set(scope, lastBlock);
+    },
+    async putEvents(scope, chainId, chunk, blockTimes) {
+      const scoped = events.get(scope) ?? new Map<string, IndexedEvent>();
+      for (const event of chunk) scoped.set(event.id, event);
+      events.set(scope, scoped);
+      blockTimes.forEach((timestamp, n) => blocks.set(blockKey(chainId, n), timestamp));
+    },
+    async removeEvents(scope, ids) {
+      for (const id of ids) events.get(scope)?.delete(id);
+    },
+    async clear(scope) {
+      events.delete(scope);
+      cursors.delete(scope);
+    },
+  };
+}
+
+let cachePromise: Promise<EventCache> | null = null;
+
+export function getEventCache(): Promise<EventCache> {
+  if (!cachePromise) {
+    cachePromise =
+      typeof indexedDB === "undefined"
+        ? Promise.resolve(memoryCache())
+        : openDatabase()
+            .then(indexedDbCache)
+            .catch((e) => {
+              console.warn("IndexedDB unavailable, caching events in memory:", e);
+              return memoryCache();
+            });
+  }
+  return cachePromise;
+}
@@ -0,0 +1,500 @@
+// Client-side event indexer shared by history and analytics views. Backfills protocol logs from
+// deployment in chunked ranges, follows new blocks live, decodes everything once and caches the result.
+// When an indexer service is configured, confirmed history comes from it and only the tail from the chain.
+
+import {
+  decodeEventLog,
+  zeroAddress,
+  type Abi,
+  type ContractEventName,
+  type DecodeEventLogReturnType,
+  type Hex,
+  type Log,
+  type PublicClient,
+} from "viem";
+import {
+  AUTOMATION_ABI,
+  IRS_GOVERNOR_ABI,
+  LIQUIDATION_ENGINE_ABI,
+  ORDER_BOOK_ABI,
+  POSITION_MANAGER_ABI,
+  RATE_ORACLE_ABI,
+  SETTLEMENT_ENGINE_ABI,
+} from "./abis";
+import { getEventCache } from "./eventCache";
+import { createIndexerApi, INDEXER_URL } from "./indexerApi";
+
+// Key order fixes the address order in scope keys, so cached scopes depend on it
+const ABIS = {
+  positionManager: POSITION_MANAGER_ABI,
+  settlementEngine: SETTLEMENT_ENGINE_ABI,
+  liquidationEngine: LIQUIDATION_ENGINE_ABI,
+  orderBook: ORDER_BOOK_ABI,
+  automation: AUTOMATION_ABI,
+  rateOracle: RATE_ORACLE_ABI,
+  irsGovernor: IRS_GOVERNOR_ABI,
+};
+
+export type IndexedContract = keyof typeof ABIS;
+
+// Every event one contract emits, with ABI-typed args; narrow on eventName
+type ContractEvent<C extends IndexedContract> = { contract: C } & DecodeEventLogReturnType<
+  (typeof ABIS)[C],
+  undefined,
+  Hex[],
+  Hex
+>;
+
+type DecodedEvent<C extends IndexedContract = IndexedContract> = { [K in C]: ContractEvent<K> }[C];
+
+export type IndexedEvent = DecodedEvent & {
+  // `${transactionHash}-${logIndex}`
+  id: string;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+  // Block timestamp, in seconds
+  timestamp: number;
+};
+
+// A single event's shape, e.g. IndexedEventOf<"irsGovernor", "ProposalCreated">
+export type IndexedEventOf<C extends IndexedContract, N extends ContractEventName<(typeof ABIS)[C]>> = Extract<
+  IndexedEvent,
+  { contract: C; eventName: N }
+>;
+
+export interface IndexerContracts {
+  positionManager: `0x${string}`;
+  settlementEngine: `0x${string}`;
+  liquidationEngine: `0x${string}`;
+  orderBook: `0x${string}`;
+  automation: `0x${string}`;
+  rateOracle: `0x${string}`;
+  irsGovernor: `0x${string}`;
+}
+
+export interface IndexProgress {
+  indexedTo: bigint;
+  head: bigint;
+  startBlock: bigint;
+}
+
+// Events that change position state, for views that re-read positions when one lands
+export const POSITION_EVENTS = [
+  "PositionOpened",
+  "PositionClosed",
+  "PositionSettled",
+  "PositionMatured",
+  "MarginAdded",
+  "MarginRemoved",
+  "PositionLiquidated",
+  "PartialLiquidation",
+  "Transfer",
+];
+
+export const ORDER_EVENTS = ["OrderCreated", "OrderCancelled", "OrdersMatched", "OrderPartiallyFilled"];
+
+type IndexerClient = Pick<PublicClient, "getBlockNumber" | "getBlock" | "getLogs" | "watchContractEvent">;
+
+// Most RPCs cap eth_getLogs ranges; the chunk shrinks on errors and grows back while logs are sparse
+const INITIAL_CHUNK = BigInt(10_000);
+const MIN_CHUNK = BigInt(100);
+const MAX_CHUNK = BigInt(100_000);
+const SPARSE_CHUNK_LOGS = 1_000;
+// getBlock calls in flight at once when filling timestamps
+const BLOCK_BATCH = 10;
+// Several views share a scope and each polls; syncs closer together than this reuse the last result
+const MIN_SYNC_INTERVAL_MS = 5_000;
+// Each sync re-scans this many blocks behind the cursor and drops events that were reorged out
+const REORG_DEPTH = BigInt(12);
+// Watchers poll at this interval when the transport has no websocket subscription
+const POLLING_INTERVAL_MS = 4_000;
+// Events per indexer service request
+const API_PAGE_SIZE = 1_000;
+
+const SOURCES: { contract: IndexedContract; abi: Abi }[] = (Object.keys(ABIS) as IndexedContract[]).map(
+  (contract) => ({ contract, abi: ABIS[contract] })
+);
+
+type Listener = (events: IndexedEvent[], progress: IndexProgress | null) => void;
+type ChangeListener = (added: IndexedEvent[], removedIds: string[]) => void;
+
+interface ScopeState {
+  events: IndexedEvent[];
+  // Set once the cached events have been read back
+  loaded: boolean;
+  progress: IndexProgress | null;
+  listeners: Set<Listener>;
+  changeListeners: Set<ChangeListener>;
+  syncing: Promise<IndexedEvent[]> | null;
+  lastSynced: number;
+  watchers: number;
+  unwatch: (() => void) | null;
+}
+
+const scopes = new Map<string, ScopeState>();
+
+export function indexScope(chainId: number, contracts: IndexerContracts): string {
+  return [chainId, ...SOURCES.map((s) => contracts[s.contract])].join(":").toLowerCase();
+}
+
+// Inverse of indexScope, so hooks can key effects on the scope string rather than every address
+export function contractsForScope(scope: string): IndexerContracts {
+  const addresses = scope.split(":").slice(1) as `0x${string}`[];
+  const address = (contract: IndexedContract) => addresses[SOURCES.findIndex((s) => s.contract === contract)];
+  return {
+    positionManager: address("positionManager"),
+    settlementEngine: address("settlementEngine"),
+    liquidationEngine: address("liquidationEngine"),
+    orderBook: address("orderBook"),
+    automation: address("automation"),
+    rateOracle: address("rateOracle"),
+    irsGovernor: address("irsGovernor"),
+  };
+}
+
+function stateFor(scope: string): ScopeState {
+  let state = scopes.get(scope);
+  if (!state) {
+    state = {
+      events: [],
+      loaded: false,
+      progress: null,
+      listeners: new Set(),
+      changeListeners: new Set(),
+      syncing: null,
+      lastSynced: 0,
+      watchers: 0,
+      unwatch: null,
+    };
+    scopes.set(scope, state);
+  }
+  return state;
+}
+
+function notify(state: ScopeState, added: IndexedEvent[] = [], removedIds: string[] = []) {
+  state.listeners.forEach((listener) => listener(state.events, state.progress));
+  if (added.length > 0 || removedIds.length > 0) {
+    state.changeListeners.forEach((listener) => listener(added, removedIds));
+  }
+}
+
+// Drop removed ids and merge in added events that are not already known
+function apply(state: ScopeState, added: IndexedEvent[], removedIds: string[]) {
+  const removed = new Set(removedIds);
+  const kept = state.events.filter((e) => !removed.has(e.id));
+  state.events = [...kept, ...added].sort(compareEvents);
+}
+
+export function compareEvents(a: IndexedEvent, b: IndexedEvent): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  return a.logIndex - b.logIndex;
+}
+
+// The parts of a log needed to decode it, whether it came from the chain or the indexer service
+type RawLog = Pick<Log, "address" | "data" | "topics" | "blockNumber" | "logIndex" | "transactionHash">;
+
+const logId = (log: RawLog) => `${log.transactionHash}-${log.logIndex}`;
+
+function decodeFrom<C extends IndexedContract>(contract: C, log: RawLog): DecodedEvent<C> {
+  const decoded = decodeEventLog<(typeof ABIS)[C], undefined, Hex[], Hex>({
+    abi: ABIS[contract],
+    data: log.data,
+    topics: log.topics,
+  });
+  return { contract, ...decoded };
+}
+
+function decode(log: RawLog, contracts: IndexerContracts): IndexedEvent | null {
+  const address = log.address.toLowerCase();
+  const source = SOURCES.find((s) => contracts[s.contract].toLowerCase() === address);
+  if (!source || log.blockNumber === null || log.logIndex === null || log.transactionHash === null) return null;
+
+  try {
+    return {
+      ...decodeFrom(source.contract, log),
+      id: logId(log),
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+      transactionHash: log.transactionHash,
+      timestamp: 0,
+    };
+  } catch {
+    // Admin and config events we do not index
+    return null;
+  }
+}
+
+async function fetchBlockTimes(
+  client: IndexerClient,
+  chainId: number,
+  blockNumbers: bigint[]
+): Promise<{ all: Map<bigint, number>; fetched: Map<bigint, number> }> {
+  const cache = await getEventCache();
+  const all = await cache.getBlockTimes(chainId, blockNumbers);
+  const missing = blockNumbers.filter((n) => !all.has(n));
+  const fetched = new Map<bigint, number>();
+
+  for (let i = 0; i < missing.length; i += BLOCK_BATCH) {
+    const blocks = await Promise.all(
+      missing.slice(i, i + BLOCK_BATCH).map((blockNumber) => client.getBlock({ blockNumber }))
+    );
+    for (const block of blocks) {
+      all.set(block.number!, Number(block.timestamp));
+      fetched.set(block.number!, Number(block.timestamp));
+    }
+  }
+  return { all, fetched };
+}
+
+async function decodeLogs(
+  client: IndexerClient,
+  chainId: number,
+  contracts: IndexerContracts,
+  logs: Log[]
+): Promise<{ events: IndexedEvent[]; fetched: Map<bigint, number> }> {
+  const events = logs.map((log) => decode(log, contracts)).filter((e): e is IndexedEvent => e !== null);
+  const blockNumbers = Array.from(new Set(events.map((e) => e.blockNumber)));
+  const { all, fetched } = await fetchBlockTimes(client, chainId, blockNumbers);
+  for (const event of events) event.timestamp = all.get(event.blockNumber) ?? 0;
+  return { events, fetched };
+}
+
+// A range was re-read in full: anything indexed there before but missing now was reorged out
+function replaceRange(state: ScopeState, from: bigint, to: bigint, fresh: IndexedEvent[]) {
+  const freshIds = new Set(fresh.map((e) => e.id));
+  const removedIds = state.events
+    .filter((e) => e.blockNumber >= from && e.blockNumber <= to && !freshIds.has(e.id))
+    .map((e) => e.id);
+  const known = new Set(state.events.map((e) => e.id));
+  const added = fresh.filter((e) => !known.has(e.id));
+  if (added.length > 0 || removedIds.length > 0) apply(state, added, removedIds);
+  notify(state, added, removedIds);
+}
+
+/**
+ * Load confirmed history from the indexer service, from `from` up to what it has ingested.
+ * Returns the first block still to read from the chain; service errors fall back to the chain.
+ */
+async function backfillFromService(
+  chainId: number,
+  contracts: IndexerContracts,
+  from: bigint,
+  head: bigint,
+  startBlock: bigint,
+  state: ScopeState,
+  scope: string
+): Promise<bigint> {
+  const api = createIndexerApi(INDEXER_URL);
+  try {
+    const status = await api.status();
+    const indexedTo = BigInt(status.indexedTo);
+    if (status.chainId !== chainId || indexedTo < from) return from;
+
+    const address = SOURCES.map((s) => contracts[s.contract]).filter((a) => a !== zeroAddress);
+    const events: IndexedEvent[] = [];
+    const blockTimes = new Map<bigint, number>();
+    for (let offset = 0; ; offset += API_PAGE_SIZE) {
+      const page = await api.events({ address, fromBlock: from, toBlock: indexedTo, limit: API_PAGE_SIZE, offset });
+      for (const raw of page) {
+        const [signature, ...topics] = raw.topics;
+        const event = decode(
+          {
+            address: raw.address,
+            data: raw.data,
+            topics: signature ? [signature, ...topics] : [],
+            blockNumber: BigInt(raw.blockNumber),
+            logIndex: raw.logIndex,
+            transactionHash: raw.transactionHash,
+          },
+          contracts
+        );
+        if (!event) continue;
+        event.timestamp = raw.timestamp;
+        events.push(event);
+        blockTimes.set(event.blockNumber, raw.timestamp);
+      }
+      if (page.length < API_PAGE_SIZE) break;
+    }
+
+    await (await getEventCache()).putChunk(scope, chainId, from, events, blockTimes, indexedTo);
+    state.progress = { indexedTo, head, startBlock };
+    replaceRange(state, from, indexedTo, events);
+    return indexedTo + BigInt(1);
+  } catch (e) {
+    console.warn("Indexer service unavailable, reading logs from the chain:", e);
+    return from;
+  }
+}
+
+async function runSync(
+  client: IndexerClient,
+  chainId: number,
+  contracts: IndexerContracts,
+  startBlock: bigint,
+  state: ScopeState,
+  scope: string
+): Promise<IndexedEvent[]> {
+  const cache = await getEventCache();
+
+  if (!state.loaded) {
+    const cached = await cache.getEvents(scope);
+    // Live events may have landed while the cache was loading
+    const live = new Set(state.events.map((e) => e.id));
+    apply(state, cached.filter((e) => !live.has(e.id)), []);
+    state.loaded = true;
+    notify(state);
+  }
+
+  const cursor = await cache.getCursor(scope);
+  const head = await client.getBlockNumber();
+  let from = startBlock;
+  if (cursor !== undefined && cursor + BigInt(1) - REORG_DEPTH > startBlock) {
+    from = cursor + BigInt(1) - REORG_DEPTH;
+  }
+  if (INDEXER_URL) from = await backfillFromService(chainId, contracts, from, head, startBlock, state, scope);
+
+  let chunk = INITIAL_CHUNK;
+  const addresses = SOURCES.map((s) => contracts[s.contract]).filter((a) => a !== zeroAddress);
+
+  while (from <= head) {
+    const to = from + chunk - BigInt(1) < head ? from + chunk - BigInt(1) : head;
+
+    let logs: Log[];
+    try {
+      logs = await client.getLogs({ address: addresses, fromBlock: from, toBlock: to });
+    } catch (e) {
+      if (chunk <= MIN_CHUNK) throw e;
+      chunk = chunk / BigInt(2);
+      continue;
+    }
+
+    const { events: fresh, fetched } = await decodeLogs(client, chainId, contracts, logs);
+    await cache.putChunk(scope, chainId, from, fresh, fetched, to);
+
+    state.progress = { indexedTo: to, head, startBlock };
+    replaceRange(state, from, to, fresh);
+
+    if (logs.length < SPARSE_CHUNK_LOGS && chunk < MAX_CHUNK) chunk = chunk * BigInt(2);
+    from = to + BigInt(1);
+  }
+
+  state.progress = { indexedTo: head, head, startBlock };
+  notify(state);
+  return state.events;
+}
+
+/**
+ * Bring the scope up to the chain head and return every indexed event, oldest first.
+ * Concurrent callers share one sync; listeners see events as each chunk lands.
+ */
+export function syncEvents(
+  client: IndexerClient,
+  chainId: number,
+  contracts: IndexerContracts,
+  startBlock: bigint
+): Promise<IndexedEvent[]> {
+  const scope = indexScope(chainId, contracts);
+  const state = stateFor(scope);
+
+  if (state.syncing) return state.syncing;
+  if (state.loaded && Date.now() - state.lastSynced < MIN_SYNC_INTERVAL_MS) {
+    return Promise.resolve(state.events);
+  }
+
+  state.syncing = runSync(client, chainId, contracts, startBlock, state, scope)
+    .then((events) => {
+      state.lastSynced = Date.now();
+      return events;
+    })
+    .finally(() => {
+      state.syncing = null;
+    });
+  return state.syncing;
+}
+
+async function ingestLogs(
+  client: IndexerClient,
+  chainId: number,
+  contracts: IndexerContracts,
+  state: ScopeState,
+  scope: string,
+  logs: Log[]
+) {
+  // Subscriptions resend logs dropped by a reorg with removed set
+  const dropped = logs.filter((log) => log.removed).map(logId);
+  const seen = new Set(state.events.map((e) => e.id));
+  const { events, fetched } = await decodeLogs(
+    client,
+    chainId,
+    contracts,
+    logs.filter((log) => !log.removed && !seen.has(logId(log)))
+  );
+
+  // Re-check after the awaits, a sync may have indexed the same blocks meanwhile
+  const known = new Set(state.events.map((e) => e.id));
+  const added = events.filter((e) => !known.has(e.id));
+  const removedIds = dropped.filter((id) => known.has(id));
+  if (added.length === 0 && removedIds.length === 0) return;
+
+  const cache = await getEventCache();
+  if (added.length > 0) await cache.putEvents(scope, chainId, added, fetched);
+  if (removedIds.length > 0) await cache.removeEvents(scope, removedIds);
+
+  apply(state, added, removedIds);
+  notify(state, added, removedIds);
+}
+
+/**
+ * Follow new logs for the scope as blocks are mined, over a websocket subscription when the
+ * transport has one and by polling otherwise. Watchers are shared and stop with the last caller.
+ */
+export function watchEvents(client: IndexerClient, chainId: number, contracts: IndexerContracts): () => void {
+  const scope = indexScope(chainId, contracts);
+  const state = stateFor(scope);
+
+  state.watchers++;
+  if (!state.unwatch) {
+    const unwatchers = SOURCES.filter((s) => contracts[s.contract] !== zeroAddress).map((source) =>
+      client.watchContractEvent({
+        address: contracts[source.contract],
+        abi: source.abi,
+        strict: false,
+        pollingInterval: POLLING_INTERVAL_MS,
+        onLogs: (logs) => {
+          ingestLogs(client, chainId, contracts, state, scope, logs as Log[]).catch((e) =>
+            console.error("Error ingesting live events:", e)
+          );
+        },
+        onError: (e) => console.error(`Error watching ${source.contract} events:`, e),
+      })
+    );
+    state.unwatch = () => unwatchers.forEach((unwatch) => unwatch());
+  }
+
+  return () => {
+    state.watchers--;
+    if (state.watchers === 0 && state.unwatch) {
+      state.unwatch();
+      state.unwatch = null;
+    }
+  };
+}
+
+export function subscribeEvents(scope: string, listener: Listener): () => void {
+  const state = stateFor(scope);
+  state.listeners.add(listener);
+  if (state.loaded) listener(state.events, state.progress);
+  return () => {
+    state.listeners.delete(listener);
+  };
+}
+
+// Called only with what changed: events newly indexed and ids dropped by a reorg
+export function subscribeChanges(scope: string, listener: ChangeListener): () => void {
+  const state = stateFor(scope);
+  state.changeListeners.add(listener);
+  return () => {
+    state.changeListeners.delete(listener);
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Fair-rate blend and off-market assessment tests
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { assessFixedRate, calculateFairRate, type FairRate } from "./fairRate";
+import { close } from "./testing";
+
+const totalWeight = (fair: FairRate) => fair.components.reduce((sum, c) => sum + c.weight, 0);
+
+const ALL_FIVE = { "1H": 5, "24H": 5, "7D": 5, "30D": 5 };
+
+describe("calculateFairRate", () => {
+  test("returns null without any inputs", () => {
+    assert.equal(calculateFairRate({ twaps: {}, maturityDays: 90 }), null);
+  });
+
+  test("weights TWAPs by the maturity's profile", () => {
+    const fair = calculateFairRate({ twaps: { "1H": 4, "24H": 5, "7D": 6, "30D": 7 }, maturityDays: 90 })!;
+
+    close(fair.rate, 4 * 0.1 + 5 * 0.3 + 6 * 0.3 + 7 * 0.3);
+    close(totalWeight(fair), 1);
+  });
+
+  test("longer maturities lean on longer windows", () => {
+    const twaps = { "1H": 8, "24H": 6, "7D": 5, "30D": 4 };
+
+    const short = calculateFairRate({ twaps, maturityDays: 30 })!;
+    const long = calculateFairRate({ twaps, maturityDays: 365 })!;
+    assert.ok(short.rate > long.rate);
+  });
+
+  test("renormalises over the windows present", () => {
+    const fair = calculateFairRate({ twaps: { "24H": 4, "30D": 6 }, maturityDays: 90 })!;
+
+    close(fair.rate, 5);
+    assert.deepEqual(
+      fair.components.map((c) => c.label),
+      ["24H TWAP", "30D TWAP"]
+    );
+  });
+
+  test("drops windows with zero weight at the maturity", () => {
+    const fair = calculateFairRate({ twaps: ALL_FIVE, maturityDays: 365 })!;
+
+    assert.ok(fair.components.every((c) => c.label !== "1H TWAP"));
+    close(totalWeight(fair), 1);
+  });
+
+  test("takes half from the pool when both are available", () => {
+    const fair = calculateFairRate({ twaps: ALL_FIVE, poolRate: 6, maturityDays: 90 })!;
+
+    close(fair.rate, 5.5);
+    assert.equal(fair.components.find((c) => c.label === "IRS Pool")?.weight, 0.5);
+    close(totalWeight(fair), 1);
+  });
+
+  test("uses the pool alone when no TWAP applies", () => {
+    const onlyPool = calculateFairRate({ twaps: {}, poolRate: 6, maturityDays: 90 })!;
+    assert.equal(onlyPool.rate, 6);
+    assert.deepEqual(onlyPool.components, [{ label: "IRS Pool", rate: 6, weight: 1 }]);
+
+    // 1H carries no weight at 365 days
+    assert.equal(calculateFairRate({ twaps: { "1H": 4 }, poolRate: 6, maturityDays: 365 })!.rate, 6);
+  });
+
+  test("uses the nearest maturity's profile", () => {
+    const twaps = { "1H": 4, "24H": 5, "7D": 6, "30D": 7 };
+    const rate = (maturityDays: number) => calculateFairRate({ twaps, maturityDays })!.rate;
+
+    assert.equal(rate(200), rate(180));
+    assert.equal(rate(7), rate(30));
+  });
+});
+
+describe("assessFixedRate", () => {
+  test("within 50bp is fair for either side", () => {
+    assert.deepEqual(assessFixedRate(5.49, 5, true), { deviationBps: 49, assessment: "fair", severity: "none" });
+    assert.deepEqual(assessFixedRate(4.51, 5, false), { deviationBps: -49, assessment: "fair", severity: "none" });
+  });
+
+  test("paying fixed above fair is unfavourable", () => {
+    assert.deepEqual(assessFixedRate(5.5, 5, true), { deviationBps: 50, assessment: "unfavorable", severity: "warn" });
+    assert.equal(assessFixedRate(7, 5, true).severity, "danger");
+  });
+
+  test("receiving fixed below fair is unfavourable", () => {
+    assert.deepEqual(assessFixedRate(4.4, 5, false), {
+      deviationBps: -60,
+      assessment: "unfavorable",
+      severity: "warn",
+    });
+    assert.equal(assessFixedRate(3, 5, false).severity, "danger");
+  });
+
+  test("deviation in the user's favour is not flagged", () => {
+    assert.equal(assessFixedRate(4, 5, true).assessment, "favorable");
+    assert.equal(assessFixedRate(6, 5, false).assessment, "favorable");
+    assert.equal(assessFixedRate(8, 5, false).severity, "none");
+  });
+});
@@ -0,0 +1,94 @@
+// Fair fixed-rate estimate from oracle TWAPs and the IRSPool rate
+
+export type TwapWindow = "1H" | "24H" | "7D" | "30D";
+
+export const TWAP_WINDOW_SECONDS: Record<TwapWindow, number> = {
+  "1H": 60 * 60,
+  "24H": 24 * 60 * 60,
+  "7D": 7 * 24 * 60 * 60,
+  "30D": 30 * 24 * 60 * 60,
+};
+
+// Longer swaps lean on longer averages; short ones on recent rates
+const MATURITY_WEIGHTS: Record<number, Record<TwapWindow, number>> = {
+  30: { "1H": 0.2, "24H": 0.4, "7D": 0.3, "30D": 0.1 },
+  90: { "1H": 0.1, "24H": 0.3, "7D": 0.3, "30D": 0.3 },
+  180: { "1H": 0.05, "24H": 0.2, "7D": 0.35, "30D": 0.4 },
+  365: { "1H": 0, "24H": 0.15, "7D": 0.35, "30D": 0.5 },
+};
+
+// Share of the fair rate taken from the pool's market-implied rate when available
+const POOL_WEIGHT = 0.5;
+
+// Deviation thresholds, in basis points
+export const OFF_MARKET_WARN_BPS = 50;
+export const OFF_MARKET_DANGER_BPS = 200;
+
+export interface FairRateInputs {
+  // Annual rates as percentages, e.g. 5.25
+  twaps: Partial<Record<TwapWindow, number>>;
+  poolRate?: number;
+  maturityDays: number;
+}
+
+export interface FairRate {
+  rate: number;
+  // Weights actually applied after dropping missing inputs
+  components: { label: string; rate: number; weight: number }[];
+}
+
+function weightsFor(maturityDays: number): Record<TwapWindow, number> {
+  const tenors = Object.keys(MATURITY_WEIGHTS).map(Number);
+  const nearest = tenors.reduce((best, t) =>
+    Math.abs(t - maturityDays) < Math.abs(best - maturityDays) ? t : best
+  );
+  return MATURITY_WEIGHTS[nearest];
+}
+
+export function calculateFairRate({ twaps, poolRate, maturityDays }: FairRateInputs): FairRate | null {
+  const weights = weightsFor(maturityDays);
+  const available = (Object.keys(weights) as TwapWindow[]).filter(
+    (w) => twaps[w] !== undefined && weights[w] > 0
+  );
+  const twapWeightTotal = available.reduce((sum, w) => sum + weights[w], 0);
+
+  const components: FairRate["components"] = [];
+  const twapShare = poolRate !== undefined ? 1 - POOL_WEIGHT : 1;
+
+  if (twapWeightTotal > 0) {
+    for (const w of available) {
+      components.push({ label: `${w} TWAP`, rate: twaps[w]!, weight: (weights[w] / twapWeightTotal) * twapShare });
+    }
+  }
+  if (poolRate !== undefined) {
+    components.push({ label: "IRS Pool", rate: poolRate, weight: twapWeightTotal > 0 ? POOL_WEIGHT : 1 });
+  }
+
+  if (components.length === 0) return null;
+
+  return {
+    rate: components.reduce((sum, c) => sum + c.rate * c.weight, 0),
+    components,
+  };
+}
+
+export type RateAssessment = "fair" | "favorable" | "unfavorable";
+
+// Paying fixed above fair value (or receiving below it) gives away edge
+export function assessFixedRate(
+  fixedRate: number,
+  fairRate: number,
+  isPayingFixed: boolean
+): { deviationBps: number; assessment: RateAssessment; severity: "none" | "warn" | "danger" } {
+  const deviationBps = Math.round((fixedRate - fairRate) * 100);
+  const magnitude = Math.abs(deviationBps);
+  const againstUser = isPayingFixed ? deviationBps > 0 : deviationBps < 0;
+
+  if (magnitude < OFF_MARKET_WARN_BPS) return { deviationBps, assessment: "fair", severity: "none" };
+  if (!againstUser) return { deviationBps, assessment: "favorable", severity: "none" };
+  return {
+    deviationBps,
+    assessment: "unfavorable",
+    severity: magnitude >= OFF_MARKET_DANGER_BPS ? "danger" : "warn",
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Governance action tests: every builder action encodes the setter arguments the contracts expect
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { decodeFunctionData, parseAbiItem, zeroAddress, type AbiFunction } from "viem";
+import {
+  buildProposalAction,
+  createDraftAction,
+  decodeProposalAction,
+  GOVERNANCE_ACTIONS,
+  type DraftAction,
+} from "./governanceActions";
+import type { FullStackContracts } from "./wagmi";
+
+const address = (n: number) => `0x${n.toString(16).padStart(40, "0")}` as const;
+
+const CONTRACTS: FullStackContracts = {
+  usdc: address(1),
+  wflow: address(2),
+  comet: address(3),
+  cometFactory: address(4),
+  rateModel: address(5),
+  swapFactory: address(6),
+  swapRouter: address(7),
+  positionManager: address(8),
+  settlementEngine: address(9),
+  marginEngine: address(10),
+  liquidationEngine: address(11),
+  rateOracle: address(12),
+  rateAdapter: address(13),
+  irsPool: address(14),
+  irsGovernor: address(15),
+  automation: address(16),
+  orderBook: address(17),
+};
+
+const RECIPIENT = "0x1111111111111111111111111111111111111111";
+const E16 = BigInt(10) ** BigInt(16);
+const E18 = BigInt(10) ** BigInt(18);
+
+// [action id, user inputs, arguments the setter receives]
+const CASES: [string, string[], unknown[]][] = [
+  ["settlementEngine.setKeeperRewardPercentage", ["10"], [BigInt(10) * E16]],
+  ["settlementEngine.setSettlementFee", ["0.5"], [E16 / BigInt(2)]],
+  ["settlementEngine.setCloseFee", ["0.25"], [E16 / BigInt(4)]],
+  ["settlementEngine.setSettlementInterval", ["3600"], [BigInt(3600)]],
+  ["settlementEngine.setPaused", ["true"], [true]],
+  ["settlementEngine.setProtocolFeeRecipient", [RECIPIENT], [RECIPIENT]],
+  ["marginEngine.setMaxLeverage", ["10"], [BigInt(10) * E18]],
+  [
+    "marginEngine.setMarginParameters",
+    ["10", "2.5", "1.05"],
+    [BigInt(10) * E16, (BigInt(25) * E16) / BigInt(10), (BigInt(105) * E18) / BigInt(100)],
+  ],
+  ["marginEngine.setRateVolatilityFactor", ["20"], [BigInt(20) * E16]],
+  ["liquidationEngine.setLiquidationParameters", ["5", "1", "50"], [BigInt(5) * E16, E16, BigInt(50) * E16]],
+  ["liquidationEngine.setPaused", ["false"], [false]],
+  ["liquidationEngine.setProtocolFeeRecipient", [RECIPIENT], [RECIPIENT]],
+  ["rateOracle.addSource", [RECIPIENT], [RECIPIENT]],
+  ["rateOracle.removeSource", [RECIPIENT], [RECIPIENT]],
+  ["rateOracle.setMinSources", ["2"], [BigInt(2)]],
+  ["rateOracle.setMaxStaleness", ["7200"], [BigInt(7200)]],
+  ["rateOracle.tripCircuitBreaker", [], []],
+  ["rateOracle.resetCircuitBreaker", ["5.25"], [(BigInt(525) * E16) / BigInt(100)]],
+  // Basis points: 0.3% -> 30, 20% -> 2000
+  ["irsPool.setFees", ["0.3", "20"], [BigInt(30), BigInt(2000)]],
+  ["irsPool.setTargetRate", ["4"], [BigInt(4) * E16]],
+  ["irsPool.setFeeRecipient", [RECIPIENT], [RECIPIENT]],
+];
+
+const draft = (actionId: string, inputs: string[]): DraftAction => ({
+  mode: "builder",
+  actionId,
+  inputs,
+  target: "",
+  calldata: "",
+});
+
+describe("buildProposalAction", () => {
+  test("covers every builder action", () => {
+    assert.deepEqual(
+      CASES.map(([id]) => id).sort(),
+      GOVERNANCE_ACTIONS.map((def) => def.id).sort()
+    );
+  });
+
+  for (const [id, inputs, expected] of CASES) {
+    test(`encodes ${id}`, () => {
+      const def = GOVERNANCE_ACTIONS.find((d) => d.id === id)!;
+      const { target, calldata } = buildProposalAction(draft(id, inputs), CONTRACTS);
+      const { args } = decodeFunctionData({ abi: [parseAbiItem(def.signature) as AbiFunction], data: calldata });
+
+      assert.equal(target, CONTRACTS[def.contract]);
+      assert.deepEqual(args ?? [], expected);
+    });
+  }
+
+  test("trims whitespace around inputs", () => {
+    const { calldata } = buildProposalAction(draft("rateOracle.setMinSources", [" 3 "]), CONTRACTS);
+    assert.equal(decodeProposalAction(CONTRACTS.rateOracle, calldata, CONTRACTS).args[0].value, "3");
+  });
+
+  test("rejects invalid inputs with the parameter label", () => {
+    const rejects = (id: string, inputs: string[], message: RegExp) =>
+      assert.throws(() => buildProposalAction(draft(id, inputs), CONTRACTS), message);
+
+    rejects("rateOracle.addSource", ["0x1234"], /Source adapter: invalid address/);
+    rejects("settlementEngine.setPaused", ["yes"], /Paused: expected true or false/);
+    rejects("rateOracle.setMinSources", ["1.5"], /Minimum sources: expected a whole number/);
+    rejects("settlementEngine.setSettlementFee", ["-1"], /Settlement fee .*: expected a number/);
+    rejects("irsPool.setFees", ["0.3"], /Protocol fee share .*: expected a number/);
+  });
+
+  test("refuses contracts not deployed on the network", () => {
+    assert.throws(
+      () => buildProposalAction(draft("irsPool.setTargetRate", ["4"]), { ...CONTRACTS, irsPool: zeroAddress }),
+      /IRSPool is not deployed/
+    );
+  });
+
+  test("refuses unknown actions", () => {
+    assert.throws(() => buildProposalAction(draft("irsPool.selfDestruct", []), CONTRACTS), /Unknown action/);
+  });
+
+  test("passes raw target and calldata through after validation", () => {
+    const raw = { ...createDraftAction(), mode: "raw" as const, target: RECIPIENT, calldata: "0xdeadbeef" };
+    assert.deepEqual(buildProposalAction(raw, CONTRACTS), { target: RECIPIENT, calldata: "0xdeadbeef" });
+
+    assert.throws(() => buildProposalAction({ ...raw, target: "nope" }, CONTRACTS), /Target: invalid address/);
+    assert.throws(() => buildProposalAction({ ...raw, calldata: "0xdead" }, CONTRACTS), /function selector/);
+  });
+});
+
+describe("decodeProposalAction", () => {
+  test("formats arguments back into the units they were entered in", () => {
+    const { calldata } = buildProposalAction(
+      draft("marginEngine.setMarginParameters", ["10", "2.5", "1.05"]),
+      CONTRACTS
+    );
+    const decoded = decodeProposalAction(CONTRACTS.marginEngine, calldata, CONTRACTS);
+
+    assert.equal(decoded.contractLabel, "MarginEngine");
+    assert.equal(decoded.functionName, "setMarginParameters");
+    assert.deepEqual(
+      decoded.args.map((a) => a.value),
+      ["10%", "2.5%", "1.05"]
+    );
+  });
+
+  test("shows basis points as percentages", () => {
+    const { calldata } = buildProposalAction(draft("irsPool.setFees", ["0.3", "20"]), CONTRACTS);
+
+    assert.deepEqual(
+      decodeProposalAction(CONTRACTS.irsPool, calldata, CONTRACTS).args.map((a) => a.value),
+      ["0.3%", "20%"]
+    );
+  });
+
+  test("labels known addresses by contract name", () => {
+    const { calldata } = buildProposalAction(draft("rateOracle.addSource", [CONTRACTS.rateAdapter]), CONTRACTS);
+
+    assert.equal(decodeProposalAction(CONTRACTS.rateOracle, calldata, CONTRACTS).args[0].value, "rateAdapter");
+  });
+
+  test("decodes known selectors sent to an unknown target", () => {
+    const { calldata } = buildProposalAction(draft("irsPool.setTargetRate", ["4"]), CONTRACTS);
+    const decoded = decodeProposalAction(RECIPIENT, calldata, CONTRACTS);
+
+    assert.equal(decoded.contractLabel, null);
+    assert.equal(decoded.functionName, "setTargetRate");
+    assert.equal(decoded.args[0].value, "4%");
+  });
+
+  test("leaves unknown calldata undecoded", () => {
+    const decoded = decodeProposalAction(CONTRACTS.irsPool, "0xdeadbeef", CONTRACTS);
+
+    assert.equal(decoded.functionName, null);
+    assert.deepEqual(decoded.args, []);
+  });
+});
@@ -0,0 +1,296 @@
+import {
+  decodeFunctionData,
+  encodeFunctionData,
+  formatUnits,
+  isAddress,
+  isHex,
+  parseAbiItem,
+  parseUnits,
+  zeroAddress,
+  type AbiFunction,
+} from "viem";
+import type { FullStackContracts } from "./wagmi";
+
+// Admin functions of the protocol contracts that governance can call
+
+export type GovernableContract =
+  | "settlementEngine"
+  | "marginEngine"
+  | "liquidationEngine"
+  | "rateOracle"
+  | "irsPool";
+
+/**
+ * How a typed input maps to the on-chain value:
+ * - percentWad: percent entered by the user, stored as a WAD fraction (5 -> 0.05e18)
+ * - wad: decimal entered by the user, stored as WAD (10 -> 10e18)
+ * - bps: percent entered by the user, stored in basis points (0.3 -> 30)
+ * - uint: raw integer (seconds, counts)
+ */
+export type ActionParamKind = "address" | "bool" | "uint" | "wad" | "percentWad" | "bps";
+
+export interface ActionParam {
+  label: string;
+  kind: ActionParamKind;
+}
+
+export interface GovernanceActionDefinition {
+  id: string;
+  contract: GovernableContract;
+  signature: string;
+  label: string;
+  params: ActionParam[];
+}
+
+export const GOVERNABLE_CONTRACT_LABELS: Record<GovernableContract, string> = {
+  settlementEngine: "SettlementEngine",
+  marginEngine: "MarginEngine",
+  liquidationEngine: "LiquidationEngine",
+  rateOracle: "RateOracle",
+  irsPool: "IRSPool",
+};
+
+function action(
+  contract: GovernableContract,
+  signature: string,
+  label: string,
+  params: ActionParam[]
+): GovernanceActionDefinition {
+  const name = signature.slice("function ".length, signature.indexOf("("));
+  return { id: `${contract}.${name}`, contract, signature, label, params };
+}
+
+export const GOVERNANCE_ACTIONS: GovernanceActionDefinition[] = [
+  // SettlementEngine
+  action("settlementEngine", "function setKeeperRewardPercentage(uint256 _percentage)", "Set keeper reward", [
+    { label: "Keeper reward (%, max 50)", kind: "percentWad" },
+  ]),
+  action("settlementEngine", "function setSettlementFee(uint256 _settlementFee)", "Set settlement fee", [
+    { label: "Settlement fee (%, max 5)", kind: "percentWad" },
+  ]),
+  action("settlementEngine", "function setCloseFee(uint256 _closeFee)", "Set close fee", [
+    { label: "Close fee (%, max 0.5)", kind: "percentWad" },
+  ]),
+  action("settlementEngine", "function setSettlementInterval(uint256 newInterval)", "Set settlement interval", [
+    { label: "Interval (seconds, min 3600)", kind: "uint" },
+  ]),
+  action("settlementEngine", "function setPaused(bool _paused)", "Pause settlements", [
+    { label: "Paused", kind: "bool" },
+  ]),
+  action("settlementEngine", "function setProtocolFeeRecipient(address _recipient)", "Set fee recipient", [
+    { label: "Recipient", kind: "address" },
+  ]),
+  // MarginEngine
+  action("marginEngine", "function setMaxLeverage(uint256 _maxLeverage)", "Set max leverage", [
+    { label: "Max leverage (x, max 20)", kind: "wad" },
+  ]),
+  action(
+    "marginEngine",
+    "function setMarginParameters(uint256 _initialRatio, uint256 _maintenanceRatio, uint256 _liquidationThreshold)",
+    "Set margin ratios",
+    [
+      { label: "Initial margin (%, 5-50)", kind: "percentWad" },
+      { label: "Maintenance margin (%, min 2.5)", kind: "percentWad" },
+      { label: "Liquidation threshold (x, max 2)", kind: "wad" },
+    ]
+  ),
+  action("marginEngine", "function setRateVolatilityFactor(uint256 _factor)", "Set rate volatility factor", [
+    { label: "Volatility factor (%, max 25)", kind: "percentWad" },
+  ]),
+  // LiquidationEngine
+  action(
+    "liquidationEngine",
+    "function setLiquidationParameters(uint256 _liquidationBonus, uint256 _protocolFee, uint256 _maxLiquidationRatio)",
+    "Set liquidation parameters",
+    [
+      { label: "Liquidation bonus (%, max 10)", kind: "percentWad" },
+      { label: "Protocol fee (%, max 5)", kind: "percentWad" },
+      { label: "Max liquidation ratio (%, 10-100)", kind: "percentWad" },
+    ]
+  ),
+  action("liquidationEngine", "function setPaused(bool _paused)", "Pause liquidations", [
+    { label: "Paused", kind: "bool" },
+  ]),
+  action("liquidationEngine", "function setProtocolFeeRecipient(address _recipient)", "Set fee recipient", [
+    { label: "Recipient", kind: "address" },
+  ]),
+  // RateOracle
+  action("rateOracle", "function addSource(address source)", "Add rate source", [
+    { label: "Source adapter", kind: "address" },
+  ]),
+  action("rateOracle", "function removeSource(address source)", "Remove rate source", [
+    { label: "Source adapter", kind: "address" },
+  ]),
+  action("rateOracle", "function setMinSources(uint256 _minSources)", "Set minimum sources", [
+    { label: "Minimum sources", kind: "uint" },
+  ]),
+  action("rateOracle", "function setMaxStaleness(uint256 _maxStaleness)", "Set max staleness", [
+    { label: "Max staleness (seconds)", kind: "uint" },
+  ]),
+  action("rateOracle", "function tripCircuitBreaker()", "Trip circuit breaker", []),
+  action("rateOracle", "function resetCircuitBreaker(uint256 newLastRate)", "Reset circuit breaker", [
+    { label: "Baseline rate (%)", kind: "percentWad" },
+  ]),
+  // IRSPool
+  action("irsPool", "function setFees(uint256 _fee, uint256 _protocolFeeShare)", "Set pool fees", [
+    { label: "Trading fee (%, max 10)", kind: "bps" },
+    { label: "Protocol fee share (%, max 50)", kind: "bps" },
+  ]),
+  action("irsPool", "function setTargetRate(uint256 newRate)", "Set target rate", [
+    { label: "Target rate (%)", kind: "percentWad" },
+  ]),
+  action("irsPool", "function setFeeRecipient(address _feeRecipient)", "Set fee recipient", [
+    { label: "Recipient", kind: "address" },
+  ]),
+];
+
+const ACTION_ABI_ITEMS = new Map(
+  GOVERNANCE_ACTIONS.map((def) => [def.id, parseAbiItem(def.signature) as AbiFunction])
+);
+
+/** A proposal action being drafted, either from the builder or as raw target/calldata */
+export interface DraftAction {
+  mode: "builder" | "raw";
+  actionId: string;
+  inputs: string[];
+  target: string;
+  calldata: string;
+}
+
+export function createDraftAction(): DraftAction {
+  const first = GOVERNANCE_ACTIONS[0];
+  return {
+    mode: "builder",
+    actionId: first.id,
+    inputs: first.params.map(() => ""),
+    target: "",
+    calldata: "",
+  };
+}
+
+export function getActionDefinition(actionId: string) {
+  return GOVERNANCE_ACTIONS.find((def) => def.id === actionId);
+}
+
+function encodeParam(param: ActionParam, raw: string): unknown {
+  const value = raw.trim();
+  switch (param.kind) {
+    case "address":
+      if (!isAddress(value)) throw new Error(`${param.label}: invalid address`);
+      return value;
+    case "bool":
+      if (value !== "true" && value !== "false") throw new Error(`${param.label}: expected true or false`);
+      return value === "true";
+    case "uint":
+      if (!/^\d+$/.test(value)) throw new Error(`${param.label}: expected a whole number`);
+      return BigInt(value);
+    case "wad":
+    case "percentWad":
+    case "bps": {
+      if (!/^\d+(\.\d+)?$/.test(value)) throw new Error(`${param.label}: expected a number`);
+      const decimals = param.kind === "wad" ? 18 : param.kind === "percentWad" ? 16 : 2;
+      return parseUnits(value, decimals);
+    }
+  }
+}
+
+/**
+ * Resolve a draft into the target and calldata passed to IRSGovernor.propose
+ * @throws Error with a user-facing message when an input is invalid
+ */
+export function buildProposalAction(
+  draft: DraftAction,
+  contracts: FullStackContracts
+): { target: `0x${string}`; calldata: `0x${string}` } {
+  if (draft.mode === "raw") {
+    if (!isAddress(draft.target)) throw new Error("Target: invalid address");
+    if (!isHex(draft.calldata) || draft.calldata.length < 10) {
+      throw new Error("Calldata must be hex and include a function selector");
+    }
+    return { target: draft.target, calldata: draft.calldata };
+  }
+
+  const def = getActionDefinition(draft.actionId);
+  if (!def) throw new Error("Unknown action");
+
+  const target = contracts[def.contract];
+  if (target === zeroAddress) {
+    throw new Error(`${GOVERNABLE_CONTRACT_LABELS[def.contract]} is not deployed on this network`);
+  }
+
+  const abiItem = ACTION_ABI_ITEMS.get(def.id)!;
+  const args = def.params.map((param, i) => encodeParam(param, draft.inputs[i] ?? ""));
+  const calldata = encodeFunctionData({ abi: [abiItem], args });
+  return { target, calldata };
+}
+
+export interface DecodedProposalAction {
+  target: `0x${string}`;
+  contractLabel: string | null;
+  functionName: string | null;
+  args: { label: string; value: string }[];
+  calldata: `0x${string}`;
+}
+
+function formatParam(param: ActionParam, value: unknown, contracts: FullStackContracts): string {
+  switch (param.kind) {
+    case "address":
+      return getContractLabel(value as string, contracts) ?? (value as string);
+    case "bool":
+      return String(value);
+    case "uint":
+      return (value as bigint).toString();
+    case "wad":
+      return formatUnits(value as bigint, 18);
+    case "percentWad":
+      return `${formatUnits(value as bigint, 16)}%`;
+    case "bps":
+      return `${formatUnits(value as bigint, 2)}%`;
+  }
+}
+
+function getContractLabel(address: string, contracts: FullStackContracts): string | null {
+  const entry = (Object.entries(contracts) as [string, string][]).find(
+    ([, value]) => value.toLowerCase() === address.toLowerCase()
+  );
+  if (!entry) return null;
+  const key = entry[0];
+  return key in GOVERNABLE_CONTRACT_LABELS ? GOVERNABLE_CONTRACT_LABELS[key as GovernableContract] : key;
+}
+
+/** Decode a proposal's target and calldata back into a readable function call */
+export function decodeProposalAction(
+  target: `0x${string}`,
+  calldata: `0x${string}`,
+  contracts: FullStackContracts
+): DecodedProposalAction {
+  const contractLabel = getContractLabel(target, contracts);
+  const targetKey = (Object.keys(GOVERNABLE_CONTRACT_LABELS) as GovernableContract[]).find(
+    (key) => contracts[key].toLowerCase() === target.toLowerCase()
+  );
+
+  // Prefer the target's own admin functions; fall back to any known selector for unknown targets
+  const candidates = targetKey
+    ? GOVERNANCE_ACTIONS.filter((def) => def.contract === targetKey)
+    : GOVERNANCE_ACTIONS;
+
+  for (const def of candidates) {
+    try {
+      const { args } = decodeFunctionData({ abi: [ACTION_ABI_ITEMS.get(def.id)!], data: calldata });
+      return {
+        target,
+        contractLabel,
+        functionName: ACTION_ABI_ITEMS.get(def.id)!.name,
+        args: def.params.map((param, i) => ({
+          label: param.label,
+          value: formatParam(param, (args ?? [])[i], contracts),
+        })),
+        calldata,
+      };
+    } catch {
+      // Selector mismatch, try the next definition
+    }
+  }
+
+  return { target, contractLabel, functionName: null, args: [], calldata };
+}
@@ -0,0 +1,150 @@
+/**
+ * Hedge sizing and order-book fill tests
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { fillFromBook, recommendHedge, suggestHedgeMaturity, type RestingOrder } from "./hedge";
+import { dv01, flatCurve, percentToWad } from "./pricing";
+import type { RiskPosition } from "./risk";
+import { DAY, riskPosition, START, USDC } from "./testing";
+
+const NOW = START;
+const RATE = percentToWad(5);
+
+const positionDv01 = (p: RiskPosition) => dv01(p, flatCurve(RATE), NOW);
+
+const order = (overrides: Partial<RestingOrder> = {}): RestingOrder => ({
+  id: BigInt(0),
+  isPayingFixed: false,
+  notional: BigInt(10_000) * USDC,
+  rate: RATE,
+  maturityDays: 90,
+  expiresAt: Number(NOW) + 3600,
+  ...overrides,
+});
+
+describe("recommendHedge", () => {
+  test("nothing to hedge at zero DV01", () => {
+    assert.equal(recommendHedge(BigInt(0), RATE, 90, NOW), null);
+  });
+
+  test("a pay-fixed portfolio is hedged by receiving fixed", () => {
+    const exposure = positionDv01(riskPosition());
+    const hedge = recommendHedge(exposure, RATE, 90, NOW)!;
+
+    assert.ok(exposure > BigInt(0));
+    assert.equal(hedge.isPayingFixed, false);
+    assert.ok(hedge.dv01 < BigInt(0));
+  });
+
+  test("a receive-fixed portfolio is hedged by paying fixed", () => {
+    const hedge = recommendHedge(positionDv01(riskPosition({ isPayingFixed: false })), RATE, 90, NOW)!;
+
+    assert.equal(hedge.isPayingFixed, true);
+    assert.ok(hedge.dv01 > BigInt(0));
+  });
+
+  test("matches the notional of an identical opposite swap", () => {
+    const exposure = positionDv01(riskPosition());
+    const hedge = recommendHedge(exposure, RATE, 90, NOW)!;
+
+    assert.equal(hedge.notional, BigInt(100_000) * USDC);
+    assert.equal(hedge.maturityDays, 90);
+    // Leaves under 0.1% of the exposure unhedged
+    const residual = exposure + hedge.dv01;
+    assert.ok((residual < BigInt(0) ? -residual : residual) * BigInt(1_000) < exposure);
+  });
+
+  test("needs more notional at a shorter tenor", () => {
+    const exposure = positionDv01(riskPosition());
+
+    assert.ok(recommendHedge(exposure, RATE, 30, NOW)!.notional > recommendHedge(exposure, RATE, 90, NOW)!.notional);
+  });
+
+  test("rounds to 100 USDC and drops hedges that round to nothing", () => {
+    const exposure = positionDv01(riskPosition({ notional: BigInt(12_345) * USDC }));
+
+    assert.equal(recommendHedge(exposure, RATE, 90, NOW)!.notional, BigInt(12_300) * USDC);
+    assert.equal(recommendHedge(exposure / BigInt(1_000), RATE, 90, NOW), null);
+  });
+
+  test("returns null for a zero tenor", () => {
+    assert.equal(recommendHedge(positionDv01(riskPosition()), RATE, 0, NOW), null);
+  });
+});
+
+describe("suggestHedgeMaturity", () => {
+  test("defaults to 90 days without exposure", () => {
+    assert.equal(suggestHedgeMaturity([], new Map(), NOW), 90);
+  });
+
+  test("snaps the DV01-weighted remaining maturity to an offered tenor", () => {
+    const short = riskPosition({ maturity: NOW + BigInt(20) * DAY });
+    const long = riskPosition({ id: BigInt(1), maturity: NOW + BigInt(400) * DAY });
+
+    assert.equal(suggestHedgeMaturity([short], new Map([[short.id, BigInt(1)]]), NOW), 30);
+    assert.equal(suggestHedgeMaturity([long], new Map([[long.id, BigInt(-1)]]), NOW), 365);
+    // 3:1 weighting toward the long position: (3 * 400 + 20) / 4 = 305 days
+    assert.equal(
+      suggestHedgeMaturity([short, long], new Map([[short.id, BigInt(1)], [long.id, BigInt(-3)]]), NOW),
+      365
+    );
+  });
+});
+
+describe("fillFromBook", () => {
+  const notional = BigInt(25_000) * USDC;
+
+  test("returns null for an empty book", () => {
+    assert.equal(fillFromBook([], true, 90, notional, Number(NOW)), null);
+  });
+
+  test("skips same-side, other-tenor and expired orders", () => {
+    const book = [
+      order({ id: BigInt(1), isPayingFixed: true }),
+      order({ id: BigInt(2), maturityDays: 30 }),
+      order({ id: BigInt(3), expiresAt: Number(NOW) }),
+    ];
+
+    assert.equal(fillFromBook(book, true, 90, notional, Number(NOW)), null);
+  });
+
+  test("paying fixed takes the lowest rates first", () => {
+    const book = [
+      order({ id: BigInt(1), rate: percentToWad(5.2) }),
+      order({ id: BigInt(2), rate: percentToWad(4.8) }),
+      order({ id: BigInt(3), rate: percentToWad(5) }),
+    ];
+    const fill = fillFromBook(book, true, 90, notional, Number(NOW))!;
+
+    assert.deepEqual(
+      fill.orders.map((o) => o.id),
+      [BigInt(2), BigInt(3), BigInt(1)]
+    );
+    assert.equal(fill.orders[2].notional, BigInt(5_000) * USDC);
+    assert.equal(fill.filled, notional);
+    // (10k * 4.8 + 10k * 5 + 5k * 5.2) / 25k
+    assert.equal(fill.averageRate, percentToWad(4.96));
+  });
+
+  test("receiving fixed takes the highest rates first", () => {
+    const book = [
+      order({ id: BigInt(1), isPayingFixed: true, rate: percentToWad(4.8) }),
+      order({ id: BigInt(2), isPayingFixed: true, rate: percentToWad(5.2) }),
+    ];
+    const fill = fillFromBook(book, false, 90, BigInt(5_000) * USDC, Number(NOW))!;
+
+    assert.deepEqual(
+      fill.orders.map((o) => [o.id, o.notional]),
+      [[BigInt(2), BigInt(5_000) * USDC]]
+    );
+    assert.equal(fill.averageRate, percentToWad(5.2));
+  });
+
+  test("reports a partial fill when the book is thin", () => {
+    const fill = fillFromBook([order()], true, 90, notional, Number(NOW))!;
+
+    assert.equal(fill.filled, BigInt(10_000) * USDC);
+  });
+});
@@ -0,0 +1,124 @@
+// Offsetting swap that neutralises a portfolio's net DV01
+
+import { dv01, flatCurve, wadDiv, wadMul } from "./pricing";
+import type { RiskPosition } from "./risk";
+
+export const HEDGE_MATURITIES = [30, 90, 180, 365];
+
+// Hedge notionals are rounded to this many USDC
+const NOTIONAL_STEP = BigInt(100) * BigInt(10) ** BigInt(6);
+// DV01 is computed on this notional and scaled, to keep rounding error small
+const REFERENCE_NOTIONAL = BigInt(1_000_000) * BigInt(10) ** BigInt(6);
+
+const DAY = BigInt(24 * 60 * 60);
+const ZERO = BigInt(0);
+
+export interface HedgeTrade {
+  isPayingFixed: boolean;
+  notional: bigint;
+  maturityDays: number;
+  // DV01 the trade adds; should be close to minus the portfolio's
+  dv01: bigint;
+}
+
+// DV01-weighted remaining maturity, snapped to the nearest tenor the wizard offers
+export function suggestHedgeMaturity(positions: RiskPosition[], dv01ById: Map<bigint, bigint>, now: bigint): number {
+  let weighted = ZERO;
+  let total = ZERO;
+  for (const position of positions) {
+    const weight = dv01ById.get(position.id) ?? ZERO;
+    const abs = weight < ZERO ? -weight : weight;
+    const remaining = position.maturity > now ? position.maturity - now : ZERO;
+    weighted += abs * remaining;
+    total += abs;
+  }
+  if (total === ZERO) return HEDGE_MATURITIES[1];
+
+  const days = Number(weighted / total / DAY);
+  return HEDGE_MATURITIES.reduce((best, m) => (Math.abs(m - days) < Math.abs(best - days) ? m : best));
+}
+
+export function recommendHedge(
+  portfolioDv01: bigint,
+  currentRate: bigint,
+  maturityDays: number,
+  now: bigint
+): HedgeTrade | null {
+  if (portfolioDv01 === ZERO) return null;
+
+  // A portfolio that gains as rates rise is hedged by receiving fixed, and vice versa
+  const isPayingFixed = portfolioDv01 < ZERO;
+  const reference = {
+    isPayingFixed,
+    notional: REFERENCE_NOTIONAL,
+    fixedRate: currentRate,
+    startTime: now,
+    maturity: now + BigInt(maturityDays) * DAY,
+  };
+  const referenceDv01 = dv01(reference, flatCurve(currentRate), now);
+  if (referenceDv01 === ZERO) return null;
+
+  const ratio = wadDiv(-portfolioDv01, referenceDv01);
+  if (ratio <= ZERO) return null;
+
+  const raw = wadMul(REFERENCE_NOTIONAL, ratio);
+  const notional = ((raw + NOTIONAL_STEP / BigInt(2)) / NOTIONAL_STEP) * NOTIONAL_STEP;
+  if (notional === ZERO) return null;
+
+  return {
+    isPayingFixed,
+    notional,
+    maturityDays,
+    dv01: (referenceDv01 * notional) / REFERENCE_NOTIONAL,
+  };
+}
+
+export interface RestingOrder {
+  id: bigint;
+  isPayingFixed: boolean;
+  notional: bigint;
+  // maxRate for pay-fixed orders, minRate for pay-floating orders (WAD)
+  rate: bigint;
+  maturityDays: number;
+  expiresAt: number;
+}
+
+export interface BookFill {
+  // Notional-weighted rate across the orders taken (WAD)
+  averageRate: bigint;
+  filled: bigint;
+  orders: { id: bigint; rate: bigint; notional: bigint }[];
+}
+
+/**
+ * Walk resting orders on the opposite side at the same maturity, best first. Posting
+ * at a resting order's rate matches at that rate, since OrderBook fills at the midpoint.
+ */
+export function fillFromBook(
+  orders: RestingOrder[],
+  isPayingFixed: boolean,
+  maturityDays: number,
+  notional: bigint,
+  now: number
+): BookFill | null {
+  const candidates = orders
+    .filter((o) => o.isPayingFixed !== isPayingFixed && o.maturityDays === maturityDays && o.expiresAt > now)
+    // Paying fixed wants the lowest rates counterparties will receive; receiving wants the highest
+    .sort((a, b) => (a.rate === b.rate ? 0 : (a.rate < b.rate) === isPayingFixed ? -1 : 1));
+
+  let remaining = notional;
+  let weighted = ZERO;
+  const taken: BookFill["orders"] = [];
+
+  for (const order of candidates) {
+    if (remaining === ZERO) break;
+    const size = order.notional < remaining ? order.notional : remaining;
+    taken.push({ id: order.id, rate: order.rate, notional: size });
+    weighted += order.rate * size;
+    remaining -= size;
+  }
+
+  const filled = notional - remaining;
+  if (filled === ZERO) return null;
+  return { averageRate: weighted / filled, filled, orders: taken };
+}
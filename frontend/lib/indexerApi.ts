@@ -0,0 +1,217 @@
+// Typed client for the protocol indexer service (scripts/indexer). Amounts, rates and other
+// uint256 values are decimal strings in JSON; timestamps are seconds.
+
+export const INDEXER_URL = process.env.NEXT_PUBLIC_INDEXER_URL || "";
+
+export type IndexedSource =
+  | "positionManager"
+  | "settlementEngine"
+  | "liquidationEngine"
+  | "orderBook"
+  | "automation"
+  | "irsPool"
+  | "irsGovernor"
+  | "rateOracle";
+
+export interface ApiStatus {
+  chainId: number;
+  // Last block fully ingested; only blocks with enough confirmations are indexed
+  indexedTo: string;
+  head: string;
+}
+
+export interface ApiEvent {
+  id: string;
+  contract: IndexedSource;
+  address: `0x${string}`;
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: string;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+  timestamp: number;
+  // Raw log, so clients can decode with their own ABIs
+  topics: `0x${string}`[];
+  data: `0x${string}`;
+}
+
+export type PositionStatus = "active" | "closed" | "liquidated";
+
+export interface ApiPosition {
+  id: string;
+  trader: `0x${string}`;
+  isPayingFixed: boolean;
+  notional: string;
+  fixedRate: string;
+  margin: string;
+  maturity: number;
+  accumulatedPnL: string;
+  status: PositionStatus;
+  openedAt: number;
+  lastSettlement: number | null;
+  closedAt: number | null;
+  finalPnL: string | null;
+  marginReturned: string | null;
+}
+
+export interface ApiPositionDetail extends ApiPosition {
+  events: ApiEvent[];
+}
+
+export type TradeSource = "position" | "pool";
+
+export interface ApiTrade {
+  id: string;
+  source: TradeSource;
+  trader: `0x${string}`;
+  // Set for trades that opened a position
+  positionId: string | null;
+  isPayingFixed: boolean;
+  notional: string;
+  rate: string;
+  timestamp: number;
+  blockNumber: string;
+  transactionHash: `0x${string}`;
+}
+
+export interface ApiSettlement {
+  id: string;
+  positionId: string;
+  settlementAmount: string;
+  floatingRate: string;
+  fixedRate: string;
+  periodDays: number;
+  timestamp: number;
+  blockNumber: string;
+  transactionHash: `0x${string}`;
+}
+
+export interface ApiRate {
+  id: string;
+  rate: string;
+  numSources: number;
+  timestamp: number;
+  blockNumber: string;
+}
+
+// Mirrors IRSGovernor.ProposalState
+export type ProposalStatus =
+  | "pending"
+  | "active"
+  | "canceled"
+  | "defeated"
+  | "succeeded"
+  | "queued"
+  | "expired"
+  | "executed";
+
+export interface ApiVote {
+  id: string;
+  proposalId: string;
+  voter: `0x${string}`;
+  // 0 = against, 1 = for, 2 = abstain
+  support: number;
+  weight: string;
+  timestamp: number;
+}
+
+export interface ApiProposal {
+  id: string;
+  proposer: `0x${string}`;
+  description: string;
+  targets: `0x${string}`[];
+  startTime: number;
+  endTime: number;
+  eta: number | null;
+  status: ProposalStatus;
+  forVotes: string;
+  againstVotes: string;
+  abstainVotes: string;
+  createdAt: number;
+}
+
+export interface ApiProposalDetail extends ApiProposal {
+  votes: ApiVote[];
+}
+
+export interface PageQuery {
+  limit?: number;
+  offset?: number;
+}
+
+export interface EventQuery extends PageQuery {
+  contract?: IndexedSource;
+  eventName?: string;
+  address?: `0x${string}`[];
+  fromBlock?: bigint;
+  toBlock?: bigint;
+}
+
+export interface PositionQuery extends PageQuery {
+  trader?: `0x${string}`;
+  status?: PositionStatus;
+}
+
+export interface TradeQuery extends PageQuery {
+  trader?: `0x${string}`;
+  source?: TradeSource;
+}
+
+export interface SettlementQuery extends PageQuery {
+  positionId?: bigint;
+}
+
+export interface RateQuery extends PageQuery {
+  // Only rates at or after this timestamp
+  since?: number;
+}
+
+export class IndexerApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = "IndexerApiError";
+  }
+}
+
+type QueryValue = string | number | bigint | string[] | undefined;
+
+function queryString(query: Record<string, QueryValue>): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) value.forEach((v) => params.append(key, v));
+    else params.set(key, value.toString());
+  }
+  const qs = params.toString();
+  return qs ? `?${qs}` : "";
+}
+
+export function createIndexerApi(baseUrl: string) {
+  const base = baseUrl.replace(/\/$/, "");
+
+  async function get<T>(path: string, query: Record<string, QueryValue> = {}): Promise<T> {
+    const res = await fetch(`${base}${path}${queryString(query)}`);
+    if (!res.ok) {
+      const body = (await res.json().catch(() => ({}))) as { error?: string };
+      throw new IndexerApiError(body.error ?? `Indexer request failed: ${res.status}`, res.status);
+    }
+    return (await res.json()) as T;
+  }
+
+  return {
+    status: () => get<ApiStatus>("/status"),
+    events: (query: EventQuery = {}) => get<ApiEvent[]>("/events", { ...query }),
+    positions: (query: PositionQuery = {}) => get<ApiPosition[]>("/positions", { ...query }),
+    position: (id: bigint) => get<ApiPositionDetail>(`/positions/${id}`),
+    trades: (query: TradeQuery = {}) => get<ApiTrade[]>("/trades", { ...query }),
+    settlements: (query: SettlementQuery = {}) => get<ApiSettlement[]>("/settlements", { ...query }),
+    rates: (query: RateQuery = {}) => get<ApiRate[]>("/rates", { ...query }),
+    proposals: (query: PageQuery = {}) => get<ApiProposal[]>("/governance/proposals", { ...query }),
+    proposal: (id: bigint) => get<ApiProposalDetail>(`/governance/proposals/${id}`),
+  };
+}
+
+export type IndexerApi = ReturnType<typeof createIndexerApi>;
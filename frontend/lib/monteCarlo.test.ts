@@ -0,0 +1,160 @@
+/**
+ * Monte Carlo tests
+ * Zero-volatility runs are checked against closed-form PnL; seeded runs for reproducibility
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { HistoricalRate } from "./backtest";
+import { calibrateModel, simulate, type SimulationInput } from "./monteCarlo";
+import { close } from "./testing";
+
+const DAY = 24 * 60 * 60;
+const YEAR = 365 * DAY;
+const START = 1_700_000_000;
+
+const daily = (rates: number[]): HistoricalRate[] => rates.map((rate, i) => ({ timestamp: START + i * DAY, rate }));
+
+const input = (overrides: Partial<SimulationInput> = {}): SimulationInput => ({
+  model: { kind: "random-walk", mean: 0, speed: 0, volatility: 0 },
+  startRate: 7,
+  notional: 100_000,
+  fixedRate: 5,
+  maturityDays: 90,
+  isPayingFixed: true,
+  margin: 10_000,
+  settlementIntervalSec: DAY,
+  settlementFee: 0,
+  keeperRewardShare: 0,
+  maintenanceMarginRatio: 0.05,
+  liquidationThreshold: 1,
+  paths: 50,
+  seed: 1,
+  ...overrides,
+});
+
+// 2 points of carry on 100k for 90 days
+const CARRY = (100_000 * 2 * 90 * DAY) / YEAR / 100;
+
+describe("calibrateModel", () => {
+  test("needs at least three samples", () => {
+    assert.equal(calibrateModel([]), null);
+    assert.equal(calibrateModel(daily([5])), null);
+    assert.equal(calibrateModel(daily([5, 6])), null);
+  });
+
+  test("recovers mean and speed from an exact reverting path", () => {
+    // 5% + 2 * 0.9^k: each day closes 10% of the gap to 5%
+    const model = calibrateModel(daily(Array.from({ length: 30 }, (_, k) => 5 + 2 * 0.9 ** k)));
+
+    assert.equal(model?.kind, "mean-reverting");
+    close(model!.mean, 5);
+    close(model!.speed, -Math.log(0.9) * 365, 1e-4);
+    close(model!.volatility, 0);
+  });
+
+  test("falls back to a random walk without reversion", () => {
+    const flat = calibrateModel(daily([5, 5, 5, 5]));
+    assert.deepEqual(flat, { kind: "random-walk", mean: 5, speed: 0, volatility: 0 });
+
+    const trending = calibrateModel(daily([1, 2, 3, 4, 5]));
+    assert.equal(trending?.kind, "random-walk");
+    assert.equal(trending?.mean, 5);
+    close(trending!.volatility, 0);
+  });
+
+  test("ignores input order", () => {
+    const rates = daily([6, 5.5, 5.2, 5.1, 5.3, 4.9]);
+    assert.deepEqual(calibrateModel([...rates].reverse()), calibrateModel(rates));
+  });
+});
+
+describe("simulate", () => {
+  test("a constant rate earns the carry on every path", () => {
+    const result = simulate(input());
+
+    close(result.finalPnL.p5, CARRY);
+    close(result.finalPnL.p95, CARRY);
+    close(result.meanPnL, CARRY);
+    assert.equal(result.probabilityOfProfit, 1);
+    assert.equal(result.liquidationProbability, 0);
+    assert.equal(result.steps, 90);
+    assert.equal(result.stepSec, DAY);
+  });
+
+  test("the receiver side mirrors the payer", () => {
+    const result = simulate(input({ isPayingFixed: false }));
+
+    close(result.meanPnL, -CARRY);
+    assert.equal(result.probabilityOfProfit, 0);
+  });
+
+  test("fees come out of positive settlements and split to keepers", () => {
+    const result = simulate(input({ settlementFee: 0.1, keeperRewardShare: 0.5 }));
+
+    close(result.meanPnL, CARRY * 0.9);
+    close(result.expectedSettlementFees, CARRY * 0.1);
+    close(result.expectedKeeperRewards, CARRY * 0.05);
+  });
+
+  test("freezes PnL once a path is liquidated", () => {
+    const result = simulate(input({ startRate: 3, margin: 10 }));
+
+    assert.equal(result.liquidationProbability, 1);
+    close(result.meanPnL, (-100_000 * 2 * DAY) / YEAR / 100);
+  });
+
+  test("fan ends at maturity on the final PnL", () => {
+    const { fan } = simulate(input());
+    const last = fan[fan.length - 1];
+
+    assert.equal(last.day, 90);
+    close(last.p50, CARRY);
+    assert.ok(fan.every((point, i) => i === 0 || point.day > fan[i - 1].day));
+  });
+
+  test("coarsens steps for long maturities", () => {
+    const result = simulate(input({ maturityDays: 3650, settlementIntervalSec: 60 * 60 }));
+
+    assert.ok(result.steps <= 2000);
+    close(result.meanPnL, (100_000 * 2 * 3650 * DAY) / YEAR / 100, 1e-3);
+  });
+
+  describe("seeded", () => {
+    const seeded = (overrides: Partial<SimulationInput> = {}) =>
+      simulate(
+        input({
+          model: { kind: "mean-reverting", mean: 5, speed: 2, volatility: 1.5 },
+          startRate: 5,
+          paths: 501,
+          seed: 42,
+          ...overrides,
+        })
+      );
+
+    test("is reproducible for a seed", () => {
+      assert.deepEqual(seeded(), seeded());
+      assert.notEqual(seeded().meanPnL, seeded({ seed: 43 }).meanPnL);
+    });
+
+    test("orders percentiles and spreads outcomes around the fixed rate", () => {
+      const { finalPnL, probabilityOfProfit } = seeded();
+
+      assert.ok(finalPnL.p5 < finalPnL.p25);
+      assert.ok(finalPnL.p25 <= finalPnL.p50);
+      assert.ok(finalPnL.p50 <= finalPnL.p75);
+      assert.ok(finalPnL.p75 < finalPnL.p95);
+      assert.ok(finalPnL.p5 < 0 && finalPnL.p95 > 0);
+      assert.ok(probabilityOfProfit > 0.2 && probabilityOfProfit < 0.8);
+    });
+
+    test("payer and receiver see opposite outcomes on the same paths", () => {
+      const payer = seeded();
+      const receiver = seeded({ isPayingFixed: false });
+
+      assert.equal(receiver.meanPnL, -payer.meanPnL);
+      assert.equal(receiver.finalPnL.p5, -payer.finalPnL.p95);
+      assert.equal(receiver.finalPnL.p50, -payer.finalPnL.p50);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+// Monte Carlo simulation of swap PnL over stochastic floating-rate paths
+
+import type { HistoricalRate } from "./backtest";
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+// Simulation steps per path; longer maturities settle several intervals per step
+const MAX_STEPS = 2000;
+// Points kept per path for the fan chart
+const CHECKPOINTS = 40;
+
+export type RateModelKind = "mean-reverting" | "random-walk";
+
+// Annualised parameters, rates in percent
+export interface RateModel {
+  kind: RateModelKind;
+  // Long-run mean the rate reverts to (mean-reverting only)
+  mean: number;
+  // Speed of reversion per year (mean-reverting only)
+  speed: number;
+  // Volatility in percentage points per sqrt(year)
+  volatility: number;
+}
+
+export interface SimulationInput {
+  model: RateModel;
+  startRate: number;
+  notional: number;
+  fixedRate: number;
+  maturityDays: number;
+  isPayingFixed: boolean;
+  margin: number;
+  settlementIntervalSec: number;
+  settlementFee: number;
+  keeperRewardShare: number;
+  maintenanceMarginRatio: number;
+  liquidationThreshold: number;
+  paths: number;
+  seed: number;
+}
+
+export interface PnLPercentiles {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface SimulationResult {
+  finalPnL: PnLPercentiles;
+  meanPnL: number;
+  probabilityOfProfit: number;
+  // Share of paths where health fell below the liquidation threshold before maturity
+  liquidationProbability: number;
+  // Mean total settlement fees per path, and the part of them paid to keepers
+  expectedSettlementFees: number;
+  expectedKeeperRewards: number;
+  // Cumulative PnL percentiles over time, for a fan chart
+  fan: { day: number; p5: number; p50: number; p95: number }[];
+  steps: number;
+  stepSec: number;
+}
+
+/**
+ * Estimate model parameters from rate history by regressing each sampled rate on
+ * the previous one (the exact discretisation of an Ornstein-Uhlenbeck process).
+ * Falls back to a random walk when the history shows no reversion.
+ */
+export function calibrateModel(history: HistoricalRate[], sampleSec = 24 * 60 * 60): RateModel | null {
+  const sorted = [...history].sort((a, b) => a.timestamp - b.timestamp);
+  if (sorted.length < 2) return null;
+
+  // Resample the step function onto a regular grid
+  const samples: number[] = [];
+  let cursor = 0;
+  for (let t = sorted[0].timestamp; t <= sorted[sorted.length - 1].timestamp; t += sampleSec) {
+    while (cursor + 1 < sorted.length && sorted[cursor + 1].timestamp <= t) cursor++;
+    samples.push(sorted[cursor].rate);
+  }
+  // The grid only lands on the last update when the span is a whole number of samples
+  const span = sorted[sorted.length - 1].timestamp - sorted[0].timestamp;
+  if (span % sampleSec !== 0) samples.push(sorted[sorted.length - 1].rate);
+  if (samples.length < 3) return null;
+
+  const dt = sampleSec / SECONDS_PER_YEAR;
+  const xs = samples.slice(0, -1);
+  const ys = samples.slice(1);
+  const n = xs.length;
+  const meanX = xs.reduce((s, x) => s + x, 0) / n;
+  const meanY = ys.reduce((s, y) => s + y, 0) / n;
+  const covXY = xs.reduce((s, x, i) => s + (x - meanX) * (ys[i] - meanY), 0);
+  const varX = xs.reduce((s, x) => s + (x - meanX) ** 2, 0);
+
+  const b = varX > 0 ? covXY / varX : 1;
+  const a = meanY - b * meanX;
+
+  if (b > 0 && b < 1) {
+    const residualVar = ys.reduce((s, y, i) => s + (y - a - b * xs[i]) ** 2, 0) / Math.max(1, n - 2);
+    const speed = -Math.log(b) / dt;
+    return {
+      kind: "mean-reverting",
+      mean: a / (1 - b),
+      speed,
+      volatility: Math.sqrt((residualVar * 2 * speed) / (1 - b * b)),
+    };
+  }
+
+  const changes = ys.map((y, i) => y - xs[i]);
+  const meanChange = changes.reduce((s, c) => s + c, 0) / n;
+  const changeVar = changes.reduce((s, c) => s + (c - meanChange) ** 2, 0) / Math.max(1, n - 1);
+  return {
+    kind: "random-walk",
+    mean: samples[samples.length - 1],
+    speed: 0,
+    volatility: Math.sqrt(changeVar / dt),
+  };
+}
+
+// mulberry32: small seeded PRNG so runs are reproducible
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function createNormal(random: () => number): () => number {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+    // Box-Muller
+    const u = 1 - random();
+    const v = random();
+    const r = Math.sqrt(-2 * Math.log(u));
+    spare = r * Math.sin(2 * Math.PI * v);
+    return r * Math.cos(2 * Math.PI * v);
+  };
+}
+
+function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+export function simulate(input: SimulationInput): SimulationResult {
+  const maturitySec = input.maturityDays * 24 * 60 * 60;
+  const stepSec = Math.max(input.settlementIntervalSec, Math.ceil(maturitySec / MAX_STEPS));
+  const steps = Math.max(1, Math.ceil(maturitySec / stepSec));
+  const checkpointEvery = Math.max(1, Math.floor(steps / CHECKPOINTS));
+  const checkpointCount = Math.ceil(steps / checkpointEvery);
+
+  const { model } = input;
+  const dt = stepSec / SECONDS_PER_YEAR;
+  // Exact OU transition over one step; reduces to a random walk when speed is 0
+  const decay = model.kind === "mean-reverting" ? Math.exp(-model.speed * dt) : 1;
+  const stepVol =
+    model.kind === "mean-reverting" && model.speed > 0
+      ? model.volatility * Math.sqrt((1 - decay * decay) / (2 * model.speed))
+      : model.volatility * Math.sqrt(dt);
+
+  const required = input.notional * input.maintenanceMarginRatio;
+  const normal = createNormal(createRandom(input.seed));
+
+  const finals = new Float64Array(input.paths);
+  const checkpoints = new Float64Array(input.paths * checkpointCount);
+  let liquidated = 0;
+  let totalFees = 0;
+
+  for (let path = 0; path < input.paths; path++) {
+    let rate = input.startRate;
+    let pnl = 0;
+    let breached = false;
+    let elapsed = 0;
+
+    for (let step = 0; step < steps; step++) {
+      const periodSec = Math.min(stepSec, maturitySec - elapsed);
+      elapsed += periodSec;
+
+      if (!breached) {
+        rate = model.mean + (rate - model.mean) * decay + stepVol * normal();
+        // Oracle rates are floored at zero
+        if (rate < 0) rate = 0;
+
+        const diff = input.isPayingFixed ? rate - input.fixedRate : input.fixedRate - rate;
+        const gross = (input.notional * diff * periodSec) / SECONDS_PER_YEAR / 100;
+        const fee = gross > 0 ? gross * input.settlementFee : 0;
+        pnl += gross - fee;
+        totalFees += fee;
+
+        const effectiveMargin = input.margin + pnl;
+        const health = effectiveMargin <= 0 ? 0 : effectiveMargin / required;
+        // A liquidated position stops settling; its PnL is frozen at that point
+        if (health < input.liquidationThreshold) breached = true;
+      }
+
+      if ((step + 1) % checkpointEvery === 0 || step === steps - 1) {
+        const index = Math.min(checkpointCount - 1, Math.floor(step / checkpointEvery));
+        checkpoints[path * checkpointCount + index] = pnl;
+      }
+    }
+
+    finals[path] = pnl;
+    if (breached) liquidated++;
+  }
+
+  const sortedFinals = Float64Array.from(finals).sort();
+  const fan: SimulationResult["fan"] = [];
+  const column = new Float64Array(input.paths);
+  for (let c = 0; c < checkpointCount; c++) {
+    for (let path = 0; path < input.paths; path++) column[path] = checkpoints[path * checkpointCount + c];
+    column.sort();
+    const step = Math.min(steps, (c + 1) * checkpointEvery);
+    fan.push({
+      day: Math.min(input.maturityDays, (step * stepSec) / 86400),
+      p5: percentile(column, 0.05),
+      p50: percentile(column, 0.5),
+      p95: percentile(column, 0.95),
+    });
+  }
+
+  const paths = Math.max(1, input.paths);
+  const expectedSettlementFees = totalFees / paths;
+
+  return {
+    finalPnL: {
+      p5: percentile(sortedFinals, 0.05),
+      p25: percentile(sortedFinals, 0.25),
+      p50: percentile(sortedFinals, 0.5),
+      p75: percentile(sortedFinals, 0.75),
+      p95: percentile(sortedFinals, 0.95),
+    },
+    meanPnL: finals.reduce((s, v) => s + v, 0) / paths,
+    probabilityOfProfit: finals.reduce((n, v) => (v > 0 ? n + 1 : n), 0) / paths,
+    liquidationProbability: liquidated / paths,
+    expectedSettlementFees,
+    expectedKeeperRewards: expectedSettlementFees * input.keeperRewardShare,
+    fan,
+    steps,
+    stepSec,
+  };
+}
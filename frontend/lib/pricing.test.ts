@@ -0,0 +1,130 @@
+/**
+ * Pricing library tests
+ * Settlement vectors are asserted against the contract in test/unit/SettlementPricingVectors.t.sol
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  accruedPnL,
+  carry,
+  dv01,
+  flatCurve,
+  markToMarket,
+  netOfFee,
+  parRate,
+  percentToWad,
+  projectSettlement,
+  rateAt,
+  settlementAmount,
+} from "./pricing";
+import { DAY, pricingPosition, START, USDC } from "./testing";
+
+const wad = (percent: number) => percentToWad(percent);
+
+// [notional, fixedRate, floatingRate, periodSeconds, isPayingFixed, expected]
+// Expected values are SettlementEngine._calculateSettlementWithRates outputs
+const SETTLEMENT_VECTORS: [bigint, bigint, bigint, bigint, boolean, bigint][] = [
+  [BigInt(100_000) * USDC, wad(5), wad(7), DAY, true, BigInt(5_479_452)],
+  [BigInt(100_000) * USDC, wad(5), wad(7), DAY, false, BigInt(-5_479_452)],
+  [BigInt(100_000) * USDC, wad(5), wad(3), BigInt(3600), true, BigInt(-228_311)],
+  [BigInt(1_234_567_891_234), wad(4.25), wad(5.1337), BigInt(7) * DAY + BigInt(13), false, BigInt(-209_235_004)],
+  [BigInt(10_000) * USDC, wad(5), wad(5), BigInt(90) * DAY, true, BigInt(0)],
+  [BigInt(1_000) * USDC, wad(3.33), wad(7.77), BigInt(12_345), true, BigInt(17_381)],
+  [BigInt(50_000_000) * USDC, wad(12), wad(0.1), BigInt(365) * DAY, true, BigInt(-5_950_000_000_000)],
+  [BigInt(100_000) * USDC, wad(5), wad(7), BigInt(0), true, BigInt(0)],
+];
+
+describe("settlementAmount", () => {
+  SETTLEMENT_VECTORS.forEach(([notional, fixedRate, floatingRate, period, isPayingFixed, expected], i) => {
+    test(`matches the contract for vector ${i}`, () => {
+      assert.equal(settlementAmount({ notional, fixedRate, isPayingFixed }, floatingRate, period), expected);
+    });
+  });
+});
+
+describe("accruedPnL", () => {
+  test("accrues from start when never settled", () => {
+    assert.equal(accruedPnL(pricingPosition(), wad(7), START + DAY), BigInt(5_479_452));
+  });
+
+  test("accrues from the last settlement", () => {
+    const settled = pricingPosition({ lastSettlement: START + BigInt(10) * DAY });
+    assert.equal(accruedPnL(settled, wad(7), START + BigInt(11) * DAY), BigInt(5_479_452));
+  });
+
+  test("stops at maturity", () => {
+    const pos = pricingPosition();
+    assert.equal(
+      accruedPnL(pos, wad(7), pos.maturity + BigInt(30) * DAY),
+      settlementAmount(pos, wad(7), pos.maturity - START)
+    );
+  });
+});
+
+describe("markToMarket", () => {
+  test("undiscounted flat curve equals the sum of daily settlements", () => {
+    const pos = pricingPosition();
+    const now = START + BigInt(10) * DAY;
+    const value = markToMarket(pos, flatCurve(wad(7)), now, { discount: false });
+    const expected = settlementAmount(pos, wad(7), BigInt(10) * DAY) + settlementAmount(pos, wad(7), DAY) * BigInt(80);
+    assert.equal(value, expected);
+  });
+
+  test("is zero at the par rate", () => {
+    const curve = flatCurve(wad(6));
+    assert.equal(parRate(curve, START, START + BigInt(90) * DAY), wad(6));
+    const value = markToMarket(pricingPosition({ fixedRate: wad(6) }), curve, START);
+    assert.equal(value, BigInt(0));
+  });
+
+  test("discounting shrinks the magnitude", () => {
+    const pos = pricingPosition();
+    const undiscounted = markToMarket(pos, flatCurve(wad(7)), START, { discount: false });
+    const discounted = markToMarket(pos, flatCurve(wad(7)), START);
+    assert.ok(discounted > BigInt(0) && discounted < undiscounted);
+  });
+});
+
+describe("dv01", () => {
+  test("payers gain and receivers lose when rates rise", () => {
+    const curve = flatCurve(wad(5));
+    const payer = dv01(pricingPosition(), curve, START);
+    const receiver = dv01(pricingPosition({ isPayingFixed: false }), curve, START);
+    assert.ok(payer > BigInt(0));
+    assert.ok(receiver < BigInt(0));
+    // 100k notional, 90 days, 1bp: roughly $2.47
+    assert.ok(payer > BigInt(2_400_000) && payer < BigInt(2_500_000));
+  });
+});
+
+describe("carry and fees", () => {
+  test("carry is one day of settlement at the current rate", () => {
+    assert.equal(carry(pricingPosition(), wad(7)), BigInt(5_479_452));
+  });
+
+  test("fees are only taken from gains", () => {
+    assert.equal(netOfFee(BigInt(1_000_000), wad(1)), BigInt(990_000));
+    assert.equal(netOfFee(BigInt(-1_000_000), wad(1)), BigInt(-1_000_000));
+  });
+});
+
+describe("projectSettlement", () => {
+  test("converts plain numbers and matches the bigint settlement", () => {
+    assert.equal(projectSettlement({ notional: 100_000, fixedRate: 5, isPayingFixed: true }, 7, 1), 5.479452);
+    assert.equal(projectSettlement({ notional: 0, fixedRate: 5, isPayingFixed: true }, 7, 90), 0);
+    assert.equal(projectSettlement({ notional: NaN, fixedRate: 5, isPayingFixed: true }, 7, 90), 0);
+  });
+});
+
+describe("rateAt", () => {
+  test("interpolates linearly and extrapolates flat", () => {
+    const curve = [
+      { time: BigInt(100), rate: wad(4) },
+      { time: BigInt(200), rate: wad(6) },
+    ];
+    assert.equal(rateAt(curve, BigInt(0)), wad(4));
+    assert.equal(rateAt(curve, BigInt(150)), wad(5));
+    assert.equal(rateAt(curve, BigInt(300)), wad(6));
+  });
+});
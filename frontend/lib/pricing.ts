@@ -0,0 +1,198 @@
+// Swap pricing in WAD fixed point, mirroring FixedPointMath.sol and SettlementEngine
+
+import { formatUnits, parseUnits } from "viem";
+
+export const WAD = BigInt(10) ** BigInt(18);
+export const SECONDS_PER_YEAR = BigInt(365 * 24 * 60 * 60);
+// One basis point in WAD
+export const ONE_BP = BigInt(10) ** BigInt(14);
+
+// Default spacing of projected settlements, matching SettlementEngine's default interval
+const DEFAULT_SETTLEMENT_INTERVAL = BigInt(24 * 60 * 60);
+
+const ZERO = BigInt(0);
+
+export function wadMul(a: bigint, b: bigint): bigint {
+  return (a * b) / WAD;
+}
+
+export function wadDiv(a: bigint, b: bigint): bigint {
+  return (a * WAD) / b;
+}
+
+// Percentage (e.g. 5.25) to a WAD rate
+export function percentToWad(percent: number): bigint {
+  return parseUnits(percent.toFixed(6), 16);
+}
+
+// The fields of PositionManager.Position that pricing needs
+export interface PricingPosition {
+  isPayingFixed: boolean;
+  // Collateral token units (USDC, 6 decimals)
+  notional: bigint;
+  // WAD
+  fixedRate: bigint;
+  // Unix seconds
+  startTime: bigint;
+  maturity: bigint;
+  // Last settlement time; startTime when the position has never settled
+  lastSettlement?: bigint;
+}
+
+// Expected floating rate (WAD) at points in time; flat before the first and after the last point
+export type RateCurve = { time: bigint; rate: bigint }[];
+
+export function flatCurve(rate: bigint): RateCurve {
+  return [{ time: ZERO, rate }];
+}
+
+export function shiftCurve(curve: RateCurve, shift: bigint): RateCurve {
+  return curve.map((point) => ({ time: point.time, rate: point.rate + shift }));
+}
+
+export function rateAt(curve: RateCurve, time: bigint): bigint {
+  if (curve.length === 0) return ZERO;
+  if (time <= curve[0].time) return curve[0].rate;
+  for (let i = 1; i < curve.length; i++) {
+    const prev = curve[i - 1];
+    const next = curve[i];
+    if (time <= next.time) {
+      return prev.rate + ((next.rate - prev.rate) * (time - prev.time)) / (next.time - prev.time);
+    }
+  }
+  return curve[curve.length - 1].rate;
+}
+
+/**
+ * Net settlement for a period, exactly as SettlementEngine._calculateSettlementWithRates
+ * computes it (before fees). Positive means the position receives.
+ */
+export function settlementAmount(
+  position: Pick<PricingPosition, "isPayingFixed" | "notional" | "fixedRate">,
+  floatingRate: bigint,
+  periodSeconds: bigint
+): bigint {
+  if (periodSeconds === ZERO) return ZERO;
+
+  const yearFraction = (periodSeconds * WAD) / SECONDS_PER_YEAR;
+  const fixedInterest = wadMul(wadMul(position.notional, position.fixedRate), yearFraction);
+  const floatingInterest = wadMul(wadMul(position.notional, floatingRate), yearFraction);
+
+  return position.isPayingFixed ? floatingInterest - fixedInterest : fixedInterest - floatingInterest;
+}
+
+/**
+ * Accrued-but-unsettled PnL at `now`, as SettlementEngine._calculateSettlement and
+ * getPendingSettlement report it: the current rate applied since the last settlement.
+ */
+export function accruedPnL(position: PricingPosition, currentRate: bigint, now: bigint): bigint {
+  const lastSettled = position.lastSettlement || position.startTime;
+  const endTime = now > position.maturity ? position.maturity : now;
+  if (endTime <= lastSettled) return ZERO;
+  return settlementAmount(position, currentRate, endTime - lastSettled);
+}
+
+// Settlement after SettlementEngine's fee, which is only taken from gains
+export function netOfFee(settlement: bigint, settlementFee: bigint): bigint {
+  return settlement > ZERO ? settlement - wadMul(settlement, settlementFee) : settlement;
+}
+
+// Simple-interest discount factor in WAD
+function discountFactor(rate: bigint, seconds: bigint): bigint {
+  return wadDiv(WAD, WAD + (rate * seconds) / SECONDS_PER_YEAR);
+}
+
+export interface MarkToMarketOptions {
+  settlementInterval?: bigint;
+  // Discount future settlements at the curve rate (default true)
+  discount?: boolean;
+}
+
+/**
+ * Mark-to-market value at `now`: accrued PnL at the curve's spot rate plus the
+ * present value of remaining settlements, each projected at the curve rate for its period.
+ */
+export function markToMarket(
+  position: PricingPosition,
+  curve: RateCurve,
+  now: bigint,
+  { settlementInterval = DEFAULT_SETTLEMENT_INTERVAL, discount = true }: MarkToMarketOptions = {}
+): bigint {
+  let value = accruedPnL(position, rateAt(curve, now), now);
+
+  const lastSettled = position.lastSettlement || position.startTime;
+  let periodStart = now > lastSettled ? now : lastSettled;
+
+  while (periodStart < position.maturity) {
+    const periodEnd =
+      periodStart + settlementInterval < position.maturity ? periodStart + settlementInterval : position.maturity;
+    const rate = rateAt(curve, periodEnd);
+    const cashflow = settlementAmount(position, rate, periodEnd - periodStart);
+    value += discount ? wadMul(cashflow, discountFactor(rate, periodEnd - now)) : cashflow;
+    periodStart = periodEnd;
+  }
+
+  return value;
+}
+
+// Change in mark-to-market value for a one basis point parallel rise in the curve
+export function dv01(
+  position: PricingPosition,
+  curve: RateCurve,
+  now: bigint,
+  options?: MarkToMarketOptions
+): bigint {
+  return markToMarket(position, shiftCurve(curve, ONE_BP), now, options) - markToMarket(position, curve, now, options);
+}
+
+// Settlement earned over `periodSeconds` (default one day) if the rate stays at `currentRate`
+export function carry(
+  position: Pick<PricingPosition, "isPayingFixed" | "notional" | "fixedRate">,
+  currentRate: bigint,
+  periodSeconds: bigint = BigInt(24 * 60 * 60)
+): bigint {
+  return settlementAmount(position, currentRate, periodSeconds);
+}
+
+/**
+ * Settlement over `days` at a constant floating rate, for UI projections that work in
+ * plain numbers: notional in USDC, rates as percentages. Returns USDC.
+ */
+export function projectSettlement(
+  { notional, fixedRate, isPayingFixed }: { notional: number; fixedRate: number; isPayingFixed: boolean },
+  floatingRate: number,
+  days: number
+): number {
+  if (![notional, fixedRate, floatingRate, days].every(Number.isFinite) || notional <= 0 || days <= 0) return 0;
+
+  const position = { isPayingFixed, notional: parseUnits(notional.toFixed(6), 6), fixedRate: percentToWad(fixedRate) };
+  const settlement = settlementAmount(position, percentToWad(floatingRate), BigInt(Math.round(days * 24 * 60 * 60)));
+  return Number(formatUnits(settlement, 6));
+}
+
+/**
+ * Fixed rate at which the remaining swap has zero value on this curve: the
+ * discount-weighted average of projected floating rates.
+ */
+export function parRate(
+  curve: RateCurve,
+  start: bigint,
+  maturity: bigint,
+  { settlementInterval = DEFAULT_SETTLEMENT_INTERVAL, discount = true }: MarkToMarketOptions = {}
+): bigint {
+  let weighted = ZERO;
+  let totalWeight = ZERO;
+  let periodStart = start;
+
+  while (periodStart < maturity) {
+    const periodEnd = periodStart + settlementInterval < maturity ? periodStart + settlementInterval : maturity;
+    const rate = rateAt(curve, periodEnd);
+    const length = periodEnd - periodStart;
+    const weight = discount ? wadMul(length * WAD, discountFactor(rate, periodEnd - start)) : length * WAD;
+    weighted += wadMul(rate, weight);
+    totalWeight += weight;
+    periodStart = periodEnd;
+  }
+
+  return totalWeight === ZERO ? rateAt(curve, start) : wadDiv(weighted, totalWeight);
+}
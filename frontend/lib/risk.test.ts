@@ -0,0 +1,108 @@
+/**
+ * Portfolio risk tests: DV01 signs, the shock ladder and liquidation flags
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { percentToWad, WAD } from "./pricing";
+import { analyzePortfolio, SHOCKS_BPS, type RiskParams } from "./risk";
+import { DAY, riskPosition, START, USDC } from "./testing";
+
+const RATE = percentToWad(5);
+
+const PARAMS: RiskParams = { maintenanceMarginRatio: percentToWad(5), liquidationThreshold: WAD };
+
+const row = (risk: ReturnType<typeof analyzePortfolio>, shockBps: number) =>
+  risk.ladder.find((r) => r.shockBps === shockBps)!;
+
+describe("analyzePortfolio", () => {
+  test("an empty portfolio has no risk", () => {
+    const risk = analyzePortfolio([], RATE, PARAMS, START);
+
+    assert.equal(risk.dv01, BigInt(0));
+    assert.equal(risk.netNotional, BigInt(0));
+    assert.equal(risk.ladder.length, SHOCKS_BPS.length);
+    assert.ok(risk.ladder.every((r) => r.pnl === BigInt(0) && r.liquidatableCount === 0 && r.minHealth === BigInt(0)));
+  });
+
+  test("pay-fixed gains and receive-fixed loses as rates rise", () => {
+    const risk = analyzePortfolio(
+      [riskPosition(), riskPosition({ id: BigInt(1), isPayingFixed: false })],
+      RATE,
+      PARAMS,
+      START
+    );
+
+    assert.ok(risk.positionDv01.get(BigInt(0))! > BigInt(0));
+    assert.ok(risk.positionDv01.get(BigInt(1))! < BigInt(0));
+    assert.equal(risk.positionDv01.get(BigInt(0))! + risk.positionDv01.get(BigInt(1))!, risk.dv01);
+  });
+
+  test("offsetting positions net to zero", () => {
+    const risk = analyzePortfolio(
+      [riskPosition(), riskPosition({ id: BigInt(1), isPayingFixed: false })],
+      RATE,
+      PARAMS,
+      START
+    );
+
+    assert.equal(risk.dv01, BigInt(0));
+    assert.equal(risk.netNotional, BigInt(0));
+    assert.equal(risk.payFixedNotional, BigInt(100_000) * USDC);
+    assert.equal(risk.receiveFixedNotional, BigInt(100_000) * USDC);
+    assert.ok(risk.ladder.every((r) => r.pnl === BigInt(0)));
+  });
+
+  test("ladder PnL is zero unshocked and rises with rates for a payer", () => {
+    const risk = analyzePortfolio([riskPosition()], RATE, PARAMS, START);
+
+    assert.equal(row(risk, 0).pnl, BigInt(0));
+    for (let i = 1; i < risk.ladder.length; i++) {
+      assert.ok(risk.ladder[i].pnl > risk.ladder[i - 1].pnl, `shock ${risk.ladder[i].shockBps}`);
+    }
+  });
+
+  test("floors shocked rates at zero", () => {
+    const risk = analyzePortfolio([riskPosition()], percentToWad(2), PARAMS, START);
+
+    assert.equal(row(risk, -300).rate, BigInt(0));
+    assert.equal(row(risk, -200).rate, BigInt(0));
+    assert.equal(row(risk, 100).rate, percentToWad(3));
+  });
+
+  test("flags positions that breach before maturity under an adverse shock", () => {
+    // 5,500 margin against 5,000 maintenance; 300bp over 90 days costs about 740
+    const margin = BigInt(5_500) * USDC;
+    const thin = [riskPosition({ margin }), riskPosition({ id: BigInt(1), isPayingFixed: false, margin })];
+    const risk = analyzePortfolio(thin, RATE, PARAMS, START);
+
+    assert.equal(row(risk, 0).liquidatableCount, 0);
+    assert.deepEqual(
+      row(risk, 300).positions.map((p) => p.liquidatable),
+      [null, "before-maturity"]
+    );
+    assert.deepEqual(
+      row(risk, -300).positions.map((p) => p.liquidatable),
+      ["before-maturity", null]
+    );
+    assert.ok(row(risk, 300).minHealth < WAD);
+  });
+
+  test("flags positions already under water as liquidatable now", () => {
+    const risk = analyzePortfolio([riskPosition({ accumulatedPnL: BigInt(-10_001) * USDC })], RATE, PARAMS, START);
+
+    for (const { positions } of risk.ladder) {
+      assert.equal(positions[0].liquidatable, "now");
+      assert.equal(positions[0].healthNow, BigInt(0));
+    }
+  });
+
+  test("health now includes accrual at the shocked rate", () => {
+    const now = START + BigInt(30) * DAY;
+    const risk = analyzePortfolio([riskPosition()], RATE, PARAMS, now);
+
+    assert.equal(row(risk, 0).positions[0].healthNow, BigInt(2) * WAD);
+    assert.ok(row(risk, 100).positions[0].healthNow > BigInt(2) * WAD);
+    assert.ok(row(risk, -100).positions[0].healthNow < BigInt(2) * WAD);
+  });
+});
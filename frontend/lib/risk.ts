@@ -0,0 +1,135 @@
+// Portfolio DV01 and parallel rate-shock ladder built on the pricing library
+
+import {
+  accruedPnL,
+  dv01,
+  flatCurve,
+  markToMarket,
+  wadDiv,
+  wadMul,
+  ONE_BP,
+  type PricingPosition,
+  type RateCurve,
+} from "./pricing";
+
+export const SHOCKS_BPS = [-300, -200, -100, -50, 0, 50, 100, 200, 300];
+
+export interface RiskPosition extends PricingPosition {
+  id: bigint;
+  margin: bigint;
+  accumulatedPnL: bigint;
+}
+
+export interface RiskParams {
+  // WAD
+  maintenanceMarginRatio: bigint;
+  liquidationThreshold: bigint;
+}
+
+export interface PositionShock {
+  positionId: bigint;
+  // Change in mark-to-market value versus no shock
+  pnl: bigint;
+  // Health as MarginEngine computes it right after the shock (WAD)
+  healthNow: bigint;
+  // Health at maturity if the shocked rate persists (WAD); PnL is monotonic under a flat rate
+  healthAtMaturity: bigint;
+  liquidatable: "now" | "before-maturity" | null;
+}
+
+export interface ShockRow {
+  shockBps: number;
+  rate: bigint;
+  pnl: bigint;
+  minHealth: bigint;
+  positions: PositionShock[];
+  liquidatableCount: number;
+}
+
+export interface PortfolioRisk {
+  dv01: bigint;
+  payFixedNotional: bigint;
+  receiveFixedNotional: bigint;
+  // Positive when the portfolio is net pay-fixed (gains as rates rise)
+  netNotional: bigint;
+  positionDv01: Map<bigint, bigint>;
+  ladder: ShockRow[];
+}
+
+const ZERO = BigInt(0);
+
+function health(position: RiskPosition, pnl: bigint, params: RiskParams): bigint {
+  const effectiveMargin = position.margin + position.accumulatedPnL + pnl;
+  if (effectiveMargin <= ZERO) return ZERO;
+  return wadDiv(effectiveMargin, wadMul(position.notional, params.maintenanceMarginRatio));
+}
+
+// Positions are valued on `curve` when given (e.g. the market term structure), else flat at the current rate
+export function analyzePortfolio(
+  positions: RiskPosition[],
+  currentRate: bigint,
+  params: RiskParams,
+  now: bigint,
+  curve: RateCurve = flatCurve(currentRate)
+): PortfolioRisk {
+  const positionDv01 = new Map<bigint, bigint>();
+  let totalDv01 = ZERO;
+  let payFixedNotional = ZERO;
+  let receiveFixedNotional = ZERO;
+
+  for (const position of positions) {
+    const value = dv01(position, curve, now);
+    positionDv01.set(position.id, value);
+    totalDv01 += value;
+    if (position.isPayingFixed) payFixedNotional += position.notional;
+    else receiveFixedNotional += position.notional;
+  }
+
+  const baseValues = positions.map((p) => markToMarket(p, curve, now));
+
+  const ladder = SHOCKS_BPS.map((shockBps) => {
+    const shift = BigInt(shockBps) * ONE_BP;
+    // Oracle rates cannot go negative
+    const floor = (r: bigint) => (r > ZERO ? r : ZERO);
+    const rate = floor(currentRate + shift);
+    const shockedCurve = curve.map((point) => ({ time: point.time, rate: floor(point.rate + shift) }));
+
+    const rows = positions.map((position, i): PositionShock => {
+      const healthNow = health(position, accruedPnL(position, rate, now), params);
+      const toMaturity = markToMarket(position, shockedCurve, now, { discount: false });
+      const healthAtMaturity = health(position, toMaturity, params);
+      return {
+        positionId: position.id,
+        pnl: markToMarket(position, shockedCurve, now) - baseValues[i],
+        healthNow,
+        healthAtMaturity,
+        liquidatable:
+          healthNow < params.liquidationThreshold
+            ? "now"
+            : healthAtMaturity < params.liquidationThreshold
+              ? "before-maturity"
+              : null,
+      };
+    });
+
+    return {
+      shockBps,
+      rate,
+      pnl: rows.reduce((sum, r) => sum + r.pnl, ZERO),
+      minHealth: rows
+        .flatMap((r) => [r.healthNow, r.healthAtMaturity])
+        .reduce((min, h) => (min === null || h < min ? h : min), null as bigint | null) ?? ZERO,
+      positions: rows,
+      liquidatableCount: rows.filter((r) => r.liquidatable !== null).length,
+    };
+  });
+
+  return {
+    dv01: totalDv01,
+    payFixedNotional,
+    receiveFixedNotional,
+    netNotional: payFixedNotional - receiveFixedNotional,
+    positionDv01,
+    ladder,
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Term structure tests: bucketing, book and trade inputs, and the source blend
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { percentToWad } from "./pricing";
+import {
+  bucketFor,
+  buildTermStructure,
+  MATURITY_BUCKETS,
+  toRateCurve,
+  type BookQuote,
+  type TermStructureInputs,
+} from "./termStructure";
+import { close } from "./testing";
+
+const NOW = 1_700_000_000;
+const DAY = BigInt(24 * 60 * 60);
+
+const inputs = (overrides: Partial<TermStructureInputs> = {}): TermStructureInputs => ({
+  quotes: [],
+  trades: [],
+  twaps: {},
+  now: NOW,
+  ...overrides,
+});
+
+const quote = (overrides: Partial<BookQuote> = {}): BookQuote => ({
+  isPayingFixed: true,
+  rate: 5,
+  maturityDays: 90,
+  expiresAt: NOW + 3600,
+  ...overrides,
+});
+
+const at = (points: ReturnType<typeof buildTermStructure>, maturityDays: number) =>
+  points.find((p) => p.maturityDays === maturityDays)!;
+
+describe("bucketFor", () => {
+  test("snaps to the nearest traded maturity", () => {
+    assert.equal(bucketFor(1), 30);
+    assert.equal(bucketFor(45), 30);
+    assert.equal(bucketFor(120), 90);
+    assert.equal(bucketFor(1000), 365);
+  });
+
+  test("breaks ties toward the shorter maturity", () => {
+    assert.equal(bucketFor(60), 30);
+  });
+});
+
+describe("buildTermStructure", () => {
+  test("has a point per bucket and nothing implied without data", () => {
+    const points = buildTermStructure(inputs());
+
+    assert.deepEqual(
+      points.map((p) => p.maturityDays),
+      MATURITY_BUCKETS
+    );
+    assert.ok(points.every((p) => p.impliedRate === undefined && p.twapRate === undefined && p.tradeCount === 0));
+  });
+
+  test("takes the best live bid and offer at each maturity", () => {
+    const point = at(
+      buildTermStructure(
+        inputs({
+          quotes: [
+            quote({ rate: 4.9 }),
+            quote({ rate: 5.0 }),
+            quote({ isPayingFixed: false, rate: 5.3 }),
+            quote({ isPayingFixed: false, rate: 5.2 }),
+            // Expired, and at another maturity
+            quote({ rate: 5.1, expiresAt: NOW }),
+            quote({ isPayingFixed: false, rate: 4.0, maturityDays: 30 }),
+          ],
+        })
+      ),
+      90
+    );
+
+    assert.equal(point.bookBid, 5.0);
+    assert.equal(point.bookAsk, 5.2);
+    close(point.bookMid, 5.1);
+  });
+
+  test("uses a one-sided book as its mid", () => {
+    const point = at(buildTermStructure(inputs({ quotes: [quote({ isPayingFixed: false, rate: 5.4 })] })), 90);
+
+    assert.equal(point.bookBid, undefined);
+    assert.equal(point.bookMid, 5.4);
+  });
+
+  test("weights trades by notional within their nearest bucket", () => {
+    const point = at(
+      buildTermStructure(
+        inputs({
+          trades: [
+            { fixedRate: 5, notional: 30_000, maturityDays: 90 },
+            { fixedRate: 6, notional: 10_000, maturityDays: 100 },
+            { fixedRate: 9, notional: 0, maturityDays: 90 },
+            { fixedRate: 4, notional: 10_000, maturityDays: 30 },
+          ],
+        })
+      ),
+      90
+    );
+
+    close(point.tradedRate, 5.25);
+    assert.equal(point.tradeCount, 2);
+  });
+
+  test("blends book, trades and pool, renormalised over what is present", () => {
+    const full = at(
+      buildTermStructure(
+        inputs({
+          poolRate: 4,
+          quotes: [quote({ rate: 5 })],
+          trades: [{ fixedRate: 6, notional: 1_000, maturityDays: 90 }],
+        })
+      ),
+      90
+    );
+    close(full.impliedRate, 5 * 0.4 + 6 * 0.4 + 4 * 0.2);
+
+    const bookAndPool = at(buildTermStructure(inputs({ poolRate: 4, quotes: [quote({ rate: 5 })] })), 90);
+    close(bookAndPool.impliedRate, (5 * 0.4 + 4 * 0.2) / 0.6);
+
+    // The pool quote is not maturity-specific, so it alone sets every bucket
+    const poolOnly = buildTermStructure(inputs({ poolRate: 4 }));
+    assert.ok(poolOnly.every((p) => p.impliedRate === 4));
+  });
+
+  test("reports the maturity-weighted TWAP separately from the implied rate", () => {
+    const points = buildTermStructure(inputs({ twaps: { "1H": 5, "24H": 5, "7D": 5, "30D": 5 } }));
+
+    assert.ok(points.every((p) => p.twapRate !== undefined && Math.abs(p.twapRate - 5) < 1e-9));
+    assert.ok(points.every((p) => p.impliedRate === undefined));
+  });
+});
+
+describe("toRateCurve", () => {
+  test("returns null with no implied rates", () => {
+    assert.equal(toRateCurve(buildTermStructure(inputs()), BigInt(NOW)), null);
+  });
+
+  test("places each implied rate at its maturity", () => {
+    const points = buildTermStructure(inputs({ quotes: [quote({ rate: 5 }), quote({ rate: 6, maturityDays: 365 })] }));
+
+    assert.deepEqual(toRateCurve(points, BigInt(NOW)), [
+      { time: BigInt(NOW) + BigInt(90) * DAY, rate: percentToWad(5) },
+      { time: BigInt(NOW) + BigInt(365) * DAY, rate: percentToWad(6) },
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+// Implied fixed-rate term structure across the maturities the protocol trades
+
+import { calculateFairRate, type TwapWindow } from "./fairRate";
+import { percentToWad, type RateCurve } from "./pricing";
+
+// OrderBook only accepts these maturities; the wizard offers the same set
+export const MATURITY_BUCKETS = [30, 90, 180, 365];
+
+// How much each market source contributes to a bucket's implied rate, renormalised
+// over the sources present. The pool quote is not maturity-specific so it counts least.
+const SOURCE_WEIGHTS = { book: 0.4, trades: 0.4, pool: 0.2 };
+
+const DAY = BigInt(24 * 60 * 60);
+
+// Rates below are annual percentages, e.g. 5.25
+
+export interface BookQuote {
+  isPayingFixed: boolean;
+  // maxRate for pay-fixed orders, minRate for pay-floating orders
+  rate: number;
+  maturityDays: number;
+  expiresAt: number;
+}
+
+export interface TradeObservation {
+  fixedRate: number;
+  notional: number;
+  // Tenor the position was opened with
+  maturityDays: number;
+}
+
+export interface TermStructureInputs {
+  poolRate?: number;
+  quotes: BookQuote[];
+  trades: TradeObservation[];
+  twaps: Partial<Record<TwapWindow, number>>;
+  now: number;
+}
+
+export interface TermPoint {
+  maturityDays: number;
+  poolRate?: number;
+  // Best pay-fixed bid and pay-floating offer resting at this maturity
+  bookBid?: number;
+  bookAsk?: number;
+  bookMid?: number;
+  tradedRate?: number;
+  tradeCount: number;
+  // Blend of the market sources above; undefined when none is available
+  impliedRate?: number;
+  // Maturity-weighted oracle TWAP, the floating-rate benchmark
+  twapRate?: number;
+}
+
+export function bucketFor(days: number): number {
+  return MATURITY_BUCKETS.reduce((best, m) => (Math.abs(m - days) < Math.abs(best - days) ? m : best));
+}
+
+export function buildTermStructure({ poolRate, quotes, trades, twaps, now }: TermStructureInputs): TermPoint[] {
+  return MATURITY_BUCKETS.map((maturityDays) => {
+    const resting = quotes.filter((q) => q.maturityDays === maturityDays && q.expiresAt > now);
+    const bids = resting.filter((q) => q.isPayingFixed).map((q) => q.rate);
+    const asks = resting.filter((q) => !q.isPayingFixed).map((q) => q.rate);
+    const bookBid = bids.length > 0 ? Math.max(...bids) : undefined;
+    const bookAsk = asks.length > 0 ? Math.min(...asks) : undefined;
+    const bookMid =
+      bookBid !== undefined && bookAsk !== undefined ? (bookBid + bookAsk) / 2 : (bookBid ?? bookAsk);
+
+    const bucketTrades = trades.filter((t) => bucketFor(t.maturityDays) === maturityDays && t.notional > 0);
+    const tradedNotional = bucketTrades.reduce((sum, t) => sum + t.notional, 0);
+    const tradedRate =
+      tradedNotional > 0
+        ? bucketTrades.reduce((sum, t) => sum + t.fixedRate * t.notional, 0) / tradedNotional
+        : undefined;
+
+    const sources = [
+      { rate: bookMid, weight: SOURCE_WEIGHTS.book },
+      { rate: tradedRate, weight: SOURCE_WEIGHTS.trades },
+      { rate: poolRate, weight: SOURCE_WEIGHTS.pool },
+    ].filter((s): s is { rate: number; weight: number } => s.rate !== undefined);
+    const totalWeight = sources.reduce((sum, s) => sum + s.weight, 0);
+
+    return {
+      maturityDays,
+      poolRate,
+      bookBid,
+      bookAsk,
+      bookMid,
+      tradedRate,
+      tradeCount: bucketTrades.length,
+      impliedRate: totalWeight > 0 ? sources.reduce((sum, s) => sum + s.rate * s.weight, 0) / totalWeight : undefined,
+      twapRate: calculateFairRate({ twaps, maturityDays })?.rate,
+    };
+  });
+}
+
+/**
+ * Turn implied fixed rates into a pricing curve starting at `now`. Each par rate is used
+ * as the expected floating rate at its maturity, with flat extrapolation either side.
+ */
+export function toRateCurve(points: TermPoint[], now: bigint): RateCurve | null {
+  const curve = points
+    .filter((p) => p.impliedRate !== undefined)
+    .map((p) => ({ time: now + BigInt(p.maturityDays) * DAY, rate: percentToWad(p.impliedRate!) }));
+  return curve.length > 0 ? curve : null;
+}
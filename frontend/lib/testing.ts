@@ -0,0 +1,36 @@
+/**
+ * Shared helpers for the lib tests: float comparison and position fixtures
+ */
+
+import assert from "node:assert/strict";
+import { percentToWad, type PricingPosition } from "./pricing";
+import type { RiskPosition } from "./risk";
+
+export const USDC = BigInt(10) ** BigInt(6);
+export const DAY = BigInt(24 * 60 * 60);
+export const START = BigInt(1_700_000_000);
+
+export const close = (actual: number | undefined, expected: number, tolerance = 1e-9) =>
+  assert.ok(
+    actual !== undefined && Math.abs(actual - expected) <= tolerance,
+    `${actual} is not within ${tolerance} of ${expected}`
+  );
+
+// 100k USDC paying 5% fixed for 90 days from START
+export const pricingPosition = (overrides: Partial<PricingPosition> = {}): PricingPosition => ({
+  isPayingFixed: true,
+  notional: BigInt(100_000) * USDC,
+  fixedRate: percentToWad(5),
+  startTime: START,
+  maturity: START + BigInt(90) * DAY,
+  ...overrides,
+});
+
+// The pricing fixture with 10k USDC of margin and nothing settled yet
+export const riskPosition = (overrides: Partial<RiskPosition> = {}): RiskPosition => ({
+  id: BigInt(0),
+  ...pricingPosition(),
+  margin: BigInt(10_000) * USDC,
+  accumulatedPnL: BigInt(0),
+  ...overrides,
+});
@@ -71,6 +71,14 @@ export interface FullStackContracts {
   liquidationEngine: `0x${string}`;
   rateOracle: `0x${string}`;
   rateAdapter: `0x${string}`;
+  // Rate AMM
+  irsPool: `0x${string}`;
+  // Governance
+  irsGovernor: `0x${string}`;
+  // Automation
+  automation: `0x${string}`;
+  // Peer-to-peer order book
+  orderBook: `0x${string}`;
 }
 
 export const CONTRACT_ADDRESSES: Record<number, FullStackContracts> = {
@@ -93,6 +101,14 @@ export const CONTRACT_ADDRESSES: Record<number, FullStackContracts> = {
     liquidationEngine: "0x39618E21B20c18B54d9656d90Db7C4835Eb38b68",
     rateOracle: "0x914664B39D8DF72601086ebf903b741907d9cCD0",
     rateAdapter: "0xff0D1Ef082Aabe9bb00DC3e599bcc7d885C683fe",
+    // Rate AMM - TO BE DEPLOYED (script/DeployGovernanceAndAMM.s.sol)
+    irsPool: "0x0000000000000000000000000000000000000000",
+    // Governance - TO BE DEPLOYED (script/DeployGovernanceAndAMM.s.sol)
+    irsGovernor: "0x0000000000000000000000000000000000000000",
+    // Automation - TO BE DEPLOYED
+    automation: "0x0000000000000000000000000000000000000000",
+    // OrderBook - TO BE DEPLOYED
+    orderBook: "0x0000000000000000000000000000000000000000",
   },
   // Flow EVM Mainnet - TO BE DEPLOYED
   [flowMainnet.id]: {
@@ -109,5 +125,15 @@ export const CONTRACT_ADDRESSES: Record<number, FullStackContracts> = {
     liquidationEngine: "0x0000000000000000000000000000000000000000",
     rateOracle: "0x0000000000000000000000000000000000000000",
     rateAdapter: "0x0000000000000000000000000000000000000000",
+    irsPool: "0x0000000000000000000000000000000000000000",
+    irsGovernor: "0x0000000000000000000000000000000000000000",
+    automation: "0x0000000000000000000000000000000000000000",
+    orderBook: "0x0000000000000000000000000000000000000000",
   },
 };
+
+// First block holding Cascade IRS contracts; event indexing backfills from here
+export const DEPLOYMENT_BLOCKS: Record<number, bigint> = {
+  [flowTestnet.id]: BigInt(96084373),
+  [flowMainnet.id]: BigInt(0),
+};
@@ -0,0 +1,58 @@
+/**
+ * Proposal status derivation, checked against the order of IRSGovernor.state()
+ * Pure: needs no chain or database
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { proposalStatus, type QuorumInputs } from "./api";
+
+const DAY = 24 * 60 * 60;
+const START = 1_000_000;
+const END = START + 3 * DAY;
+
+// 10% of 1000 voting power
+const QUORUM: QuorumInputs = { totalVotingPower: BigInt(1_000), quorumBps: BigInt(1_000) };
+
+function row(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    status: "created",
+    start_time: START,
+    end_time: END,
+    eta: null,
+    for_votes: "0",
+    against_votes: "0",
+    abstain_votes: "0",
+    ...overrides,
+  };
+}
+
+const passed = { for_votes: "80", against_votes: "20" };
+
+describe("proposalStatus", () => {
+  test("follows the voting window", () => {
+    assert.equal(proposalStatus(row(), QUORUM, START - 1), "pending");
+    assert.equal(proposalStatus(row(), QUORUM, START), "active");
+    assert.equal(proposalStatus(row(), QUORUM, END), "active");
+  });
+
+  test("is defeated without quorum or a for majority", () => {
+    assert.equal(proposalStatus(row({ for_votes: "99" }), QUORUM, END + 1), "defeated");
+    assert.equal(proposalStatus(row({ for_votes: "60", against_votes: "60" }), QUORUM, END + 1), "defeated");
+    // Abstentions count toward quorum but not the majority
+    assert.equal(proposalStatus(row({ for_votes: "1", abstain_votes: "99" }), QUORUM, END + 1), "succeeded");
+  });
+
+  test("moves from succeeded through queued to expired", () => {
+    const eta = END + 2 * DAY;
+    assert.equal(proposalStatus(row(passed), QUORUM, END + 1), "succeeded");
+    assert.equal(proposalStatus(row({ ...passed, status: "queued", eta }), QUORUM, eta - 1), "queued");
+    assert.equal(proposalStatus(row({ ...passed, status: "queued", eta }), QUORUM, eta + 14 * DAY), "queued");
+    assert.equal(proposalStatus(row({ ...passed, status: "queued", eta }), QUORUM, eta + 14 * DAY + 1), "expired");
+  });
+
+  test("terminal events win over timing", () => {
+    assert.equal(proposalStatus(row({ status: "canceled" }), QUORUM, START - 1), "canceled");
+    assert.equal(proposalStatus(row({ ...passed, status: "executed", eta: END }), QUORUM, END + 30 * DAY), "executed");
+  });
+});
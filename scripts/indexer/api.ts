@@ -0,0 +1,361 @@
+/**
+ * Read-only HTTP/JSON API over the indexed tables. Response shapes are the Api* types the
+ * frontend client uses.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { isAddress } from "viem";
+import type {
+  ApiEvent,
+  ApiPosition,
+  ApiPositionDetail,
+  ApiProposal,
+  ApiProposalDetail,
+  ApiRate,
+  ApiSettlement,
+  ApiStatus,
+  ApiTrade,
+  ApiVote,
+  IndexedSource,
+  PositionStatus,
+  ProposalStatus,
+  TradeSource,
+} from "../../frontend/lib/indexerApi";
+import type { Logger } from "../keeper/logger";
+import { getMeta, type Db } from "./db";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1_000;
+
+const POSITION_STATUSES: PositionStatus[] = ["active", "closed", "liquidated"];
+const TRADE_SOURCES: TradeSource[] = ["position", "pool"];
+
+class BadRequest extends Error {}
+
+class NotFound extends Error {}
+
+type Row = Record<string, unknown>;
+
+type Handler = (db: Db, query: URLSearchParams, params: string[]) => unknown;
+
+function integer(query: URLSearchParams, name: string): number | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 0) throw new BadRequest(`${name} must be a non-negative integer`);
+  return parsed;
+}
+
+function page(query: URLSearchParams): { limit: number; offset: number } {
+  return {
+    limit: Math.min(integer(query, "limit") ?? DEFAULT_LIMIT, MAX_LIMIT),
+    offset: integer(query, "offset") ?? 0,
+  };
+}
+
+function addressParam(query: URLSearchParams, name: string): string | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  if (!isAddress(value)) throw new BadRequest(`${name} is not a valid address`);
+  return value.toLowerCase();
+}
+
+function oneOf<T extends string>(query: URLSearchParams, name: string, allowed: T[]): T | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  if (!allowed.includes(value as T)) throw new BadRequest(`${name} must be one of ${allowed.join(", ")}`);
+  return value as T;
+}
+
+// Builds a WHERE clause from the filters that are set
+function where(filters: [string, unknown][]): { sql: string; values: unknown[] } {
+  const set = filters.filter(([, value]) => value !== undefined);
+  return {
+    sql: set.length > 0 ? `WHERE ${set.map(([clause]) => clause).join(" AND ")}` : "",
+    values: set.map(([, value]) => value),
+  };
+}
+
+const toEvent = (row: Row): ApiEvent => ({
+  id: row.id as string,
+  contract: row.contract as IndexedSource,
+  address: row.address as `0x${string}`,
+  eventName: row.event_name as string,
+  args: JSON.parse(row.args as string),
+  blockNumber: String(row.block_number),
+  logIndex: row.log_index as number,
+  transactionHash: row.transaction_hash as `0x${string}`,
+  timestamp: row.timestamp as number,
+  topics: JSON.parse(row.topics as string),
+  data: row.data as `0x${string}`,
+});
+
+const toPosition = (row: Row): ApiPosition => ({
+  id: String(row.id),
+  trader: row.trader as `0x${string}`,
+  isPayingFixed: row.is_paying_fixed === 1,
+  notional: row.notional as string,
+  fixedRate: row.fixed_rate as string,
+  margin: row.margin as string,
+  maturity: row.maturity as number,
+  accumulatedPnL: row.accumulated_pnl as string,
+  status: row.status as PositionStatus,
+  openedAt: row.opened_at as number,
+  lastSettlement: row.last_settlement as number | null,
+  closedAt: row.closed_at as number | null,
+  finalPnL: row.final_pnl as string | null,
+  marginReturned: row.margin_returned as string | null,
+});
+
+const toTrade = (row: Row): ApiTrade => ({
+  id: row.id as string,
+  source: row.source as TradeSource,
+  trader: row.trader as `0x${string}`,
+  positionId: row.position_id as string | null,
+  isPayingFixed: row.is_paying_fixed === 1,
+  notional: row.notional as string,
+  rate: row.rate as string,
+  timestamp: row.timestamp as number,
+  blockNumber: String(row.block_number),
+  transactionHash: row.transaction_hash as `0x${string}`,
+});
+
+const toSettlement = (row: Row): ApiSettlement => ({
+  id: row.id as string,
+  positionId: String(row.position_id),
+  settlementAmount: row.settlement_amount as string,
+  floatingRate: row.floating_rate as string,
+  fixedRate: row.fixed_rate as string,
+  periodDays: row.period_days as number,
+  timestamp: row.timestamp as number,
+  blockNumber: String(row.block_number),
+  transactionHash: row.transaction_hash as `0x${string}`,
+});
+
+const toRate = (row: Row): ApiRate => ({
+  id: row.id as string,
+  rate: row.rate as string,
+  numSources: row.num_sources as number,
+  timestamp: row.timestamp as number,
+  blockNumber: String(row.block_number),
+});
+
+// Window after eta in which IRSGovernor still lets a queued proposal execute
+const GRACE_PERIOD = 14 * 24 * 60 * 60;
+
+export interface QuorumInputs {
+  totalVotingPower: bigint;
+  quorumBps: bigint;
+}
+
+/** Same checks, in the same order, as IRSGovernor.state() */
+export function proposalStatus(row: Row, quorum: QuorumInputs, now: number): ProposalStatus {
+  if (row.status === "canceled") return "canceled";
+  if (row.status === "executed") return "executed";
+  if (now < (row.start_time as number)) return "pending";
+  if (now <= (row.end_time as number)) return "active";
+
+  const forVotes = BigInt(row.for_votes as string);
+  const againstVotes = BigInt(row.against_votes as string);
+  const totalVotes = forVotes + againstVotes + BigInt(row.abstain_votes as string);
+  const quorumRequired = (quorum.totalVotingPower * quorum.quorumBps) / BigInt(10_000);
+  if (totalVotes < quorumRequired || forVotes <= againstVotes) return "defeated";
+
+  const eta = row.eta as number | null;
+  if (!eta) return "succeeded";
+  if (now < eta) return "queued";
+  if (now > eta + GRACE_PERIOD) return "expired";
+  return "queued";
+}
+
+function quorumInputs(db: Db): QuorumInputs {
+  return {
+    totalVotingPower: BigInt(getMeta(db, "governor.totalVotingPower") ?? "0"),
+    quorumBps: BigInt(getMeta(db, "governor.quorumBps") ?? "0"),
+  };
+}
+
+const toProposal = (row: Row, quorum: QuorumInputs, now: number): ApiProposal => ({
+  id: String(row.id),
+  proposer: row.proposer as `0x${string}`,
+  description: row.description as string,
+  targets: JSON.parse(row.targets as string),
+  startTime: row.start_time as number,
+  endTime: row.end_time as number,
+  eta: row.eta as number | null,
+  status: proposalStatus(row, quorum, now),
+  forVotes: row.for_votes as string,
+  againstVotes: row.against_votes as string,
+  abstainVotes: row.abstain_votes as string,
+  createdAt: row.created_at as number,
+});
+
+const toVote = (row: Row): ApiVote => ({
+  id: row.id as string,
+  proposalId: String(row.proposal_id),
+  voter: row.voter as `0x${string}`,
+  support: row.support as number,
+  weight: row.weight as string,
+  timestamp: row.timestamp as number,
+});
+
+function idParam(value: string): number {
+  const id = Number(value);
+  if (!Number.isSafeInteger(id) || id < 0) throw new BadRequest("id must be a non-negative integer");
+  return id;
+}
+
+const status: Handler = (db): ApiStatus => ({
+  chainId: Number(getMeta(db, "chainId") ?? 0),
+  indexedTo: getMeta(db, "indexedTo") ?? "0",
+  head: getMeta(db, "head") ?? "0",
+});
+
+// Oldest first, so clients can page forward from a block
+const events: Handler = (db, query): ApiEvent[] => {
+  const { limit, offset } = page(query);
+  const addresses = query.getAll("address");
+  if (addresses.some((a) => !isAddress(a))) throw new BadRequest("address is not a valid address");
+
+  const filters = where([
+    ["contract = ?", query.get("contract") ?? undefined],
+    ["event_name = ?", query.get("eventName") ?? undefined],
+    ["block_number >= ?", integer(query, "fromBlock")],
+    ["block_number <= ?", integer(query, "toBlock")],
+  ]);
+  const addressClause =
+    addresses.length > 0
+      ? `${filters.sql ? " AND" : "WHERE"} lower(address) IN (${addresses.map(() => "?").join(", ")})`
+      : "";
+
+  return db
+    .prepare(`SELECT * FROM events ${filters.sql}${addressClause} ORDER BY block_number, log_index LIMIT ? OFFSET ?`)
+    .all(...filters.values, ...addresses.map((a) => a.toLowerCase()), limit, offset)
+    .map((row) => toEvent(row as Row));
+};
+
+const positions: Handler = (db, query): ApiPosition[] => {
+  const { limit, offset } = page(query);
+  const filters = where([
+    ["lower(trader) = ?", addressParam(query, "trader")],
+    ["status = ?", oneOf(query, "status", POSITION_STATUSES)],
+  ]);
+  return db
+    .prepare(`SELECT * FROM positions ${filters.sql} ORDER BY id DESC LIMIT ? OFFSET ?`)
+    .all(...filters.values, limit, offset)
+    .map((row) => toPosition(row as Row));
+};
+
+const position: Handler = (db, _query, [id]): ApiPositionDetail => {
+  const row = db.prepare("SELECT * FROM positions WHERE id = ?").get(idParam(id)) as Row | undefined;
+  if (!row) throw new NotFound(`position ${id} not found`);
+  const history = db
+    .prepare(
+      "SELECT * FROM events WHERE json_extract(args, '$.positionId') = ? ORDER BY block_number, log_index"
+    )
+    .all(String(row.id))
+    .map((r) => toEvent(r as Row));
+  return { ...toPosition(row), events: history };
+};
+
+const trades: Handler = (db, query): ApiTrade[] => {
+  const { limit, offset } = page(query);
+  const filters = where([
+    ["lower(trader) = ?", addressParam(query, "trader")],
+    ["source = ?", oneOf(query, "source", TRADE_SOURCES)],
+  ]);
+  return db
+    .prepare(`SELECT * FROM trades ${filters.sql} ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?`)
+    .all(...filters.values, limit, offset)
+    .map((row) => toTrade(row as Row));
+};
+
+const settlements: Handler = (db, query): ApiSettlement[] => {
+  const { limit, offset } = page(query);
+  const filters = where([["position_id = ?", integer(query, "positionId")]]);
+  return db
+    .prepare(`SELECT * FROM settlements ${filters.sql} ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?`)
+    .all(...filters.values, limit, offset)
+    .map((row) => toSettlement(row as Row));
+};
+
+const rates: Handler = (db, query): ApiRate[] => {
+  const { limit, offset } = page(query);
+  const filters = where([["timestamp >= ?", integer(query, "since")]]);
+  return db
+    .prepare(`SELECT * FROM rates ${filters.sql} ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?`)
+    .all(...filters.values, limit, offset)
+    .map((row) => toRate(row as Row));
+};
+
+const proposals: Handler = (db, query): ApiProposal[] => {
+  const { limit, offset } = page(query);
+  const quorum = quorumInputs(db);
+  const now = Math.floor(Date.now() / 1000);
+  return db
+    .prepare("SELECT * FROM proposals ORDER BY id DESC LIMIT ? OFFSET ?")
+    .all(limit, offset)
+    .map((row) => toProposal(row as Row, quorum, now));
+};
+
+const proposal: Handler = (db, _query, [id]): ApiProposalDetail => {
+  const row = db.prepare("SELECT * FROM proposals WHERE id = ?").get(idParam(id)) as Row | undefined;
+  if (!row) throw new NotFound(`proposal ${id} not found`);
+  const votes = db
+    .prepare("SELECT * FROM votes WHERE proposal_id = ? ORDER BY timestamp, id")
+    .all(row.id)
+    .map((r) => toVote(r as Row));
+  return { ...toProposal(row, quorumInputs(db), Math.floor(Date.now() / 1000)), votes };
+};
+
+const ROUTES: [RegExp, Handler][] = [
+  [/^\/status$/, status],
+  [/^\/events$/, events],
+  [/^\/positions$/, positions],
+  [/^\/positions\/([^/]+)$/, position],
+  [/^\/trades$/, trades],
+  [/^\/settlements$/, settlements],
+  [/^\/rates$/, rates],
+  [/^\/governance\/proposals$/, proposals],
+  [/^\/governance\/proposals\/([^/]+)$/, proposal],
+];
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    // The frontend is served from another origin
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+}
+
+export function handleRequest(db: Db, log: Logger, req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url ?? "/", "http://localhost");
+
+  if (req.method !== "GET") {
+    send(res, 405, { error: "method not allowed" });
+    return;
+  }
+
+  for (const [pattern, handler] of ROUTES) {
+    const match = pattern.exec(url.pathname);
+    if (!match) continue;
+    try {
+      send(res, 200, handler(db, url.searchParams, match.slice(1)));
+    } catch (error) {
+      if (error instanceof BadRequest) send(res, 400, { error: error.message });
+      else if (error instanceof NotFound) send(res, 404, { error: error.message });
+      else {
+        log.error("request failed", { path: url.pathname, reason: error instanceof Error ? error.message : String(error) });
+        send(res, 500, { error: "internal error" });
+      }
+    }
+    return;
+  }
+
+  send(res, 404, { error: "not found" });
+}
+
+export function createApiServer(db: Db, log: Logger): Server {
+  return createServer((req, res) => handleRequest(db, log, req, res));
+}
@@ -0,0 +1,95 @@
+/**
+ * Indexer configuration, read from environment variables
+ */
+
+import { getAddress, isAddress, type Address } from "viem";
+import type { IndexedSource } from "../../frontend/lib/indexerApi";
+import { ConfigError, type LogLevel } from "../keeper/config";
+
+export type IndexerContracts = { positionManager: Address } & Partial<Record<IndexedSource, Address>>;
+
+export interface IndexerConfig {
+  rpcUrl: string;
+  // SQLite file, or ":memory:"
+  dbPath: string;
+  contracts: IndexerContracts;
+  // First block to ingest on an empty database, usually the deployment block
+  startBlock: bigint;
+  // Blocks behind head left unindexed so ingested history is never reorged out
+  confirmations: number;
+  // Upper bound on the eth_getLogs range per request
+  chunkSize: bigint;
+  pollIntervalMs: number;
+  host: string;
+  port: number;
+  logLevel: LogLevel;
+}
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+// Environment variable for each contract, shared with the keeper where they overlap
+const CONTRACT_ENV: Record<IndexedSource, string> = {
+  positionManager: "POSITION_MANAGER",
+  settlementEngine: "SETTLEMENT_ENGINE",
+  liquidationEngine: "LIQUIDATION_ENGINE",
+  orderBook: "ORDER_BOOK",
+  automation: "AUTOMATION",
+  irsPool: "IRS_POOL",
+  irsGovernor: "IRS_GOVERNOR",
+  rateOracle: "RATE_ORACLE",
+};
+
+type Env = Record<string, string | undefined>;
+
+function required(env: Env, name: string): string {
+  const value = env[name];
+  if (!value) throw new ConfigError(`${name} environment variable not set`);
+  return value;
+}
+
+function address(env: Env, name: string): Address | undefined {
+  const value = env[name];
+  if (!value) return undefined;
+  if (!isAddress(value)) throw new ConfigError(`${name} is not a valid address: ${value}`);
+  return getAddress(value);
+}
+
+function nonNegativeInteger(env: Env, name: string, fallback: number): number {
+  const value = env[name];
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new ConfigError(`${name} must be a non-negative integer: ${value}`);
+  }
+  return parsed;
+}
+
+export function loadConfig(env: Env = process.env): IndexerConfig {
+  const contracts: Partial<Record<IndexedSource, Address>> = {};
+  for (const [source, name] of Object.entries(CONTRACT_ENV) as [IndexedSource, string][]) {
+    const value = address(env, name);
+    if (value) contracts[source] = value;
+  }
+  if (!contracts.positionManager) throw new ConfigError("POSITION_MANAGER environment variable not set");
+
+  const logLevel = (env.LOG_LEVEL ?? "info") as LogLevel;
+  if (!LOG_LEVELS.includes(logLevel)) {
+    throw new ConfigError(`LOG_LEVEL must be one of ${LOG_LEVELS.join(", ")}`);
+  }
+
+  const chunkSize = nonNegativeInteger(env, "INDEXER_CHUNK_SIZE", 5_000);
+  if (chunkSize === 0) throw new ConfigError("INDEXER_CHUNK_SIZE must be positive");
+
+  return {
+    rpcUrl: required(env, "RPC_URL"),
+    dbPath: env.INDEXER_DB ?? "indexer.db",
+    contracts: contracts as IndexerContracts,
+    startBlock: BigInt(nonNegativeInteger(env, "START_BLOCK", 0)),
+    confirmations: nonNegativeInteger(env, "CONFIRMATIONS", 5),
+    chunkSize: BigInt(chunkSize),
+    pollIntervalMs: Math.max(nonNegativeInteger(env, "INDEXER_INTERVAL_SEC", 5), 1) * 1000,
+    host: env.INDEXER_HOST ?? "127.0.0.1",
+    port: nonNegativeInteger(env, "INDEXER_PORT", 4000),
+    logLevel,
+  };
+}
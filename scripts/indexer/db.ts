@@ -0,0 +1,144 @@
+/**
+ * SQLite storage: raw events plus tables projected from them for the query API.
+ * uint256 values are stored as decimal TEXT since they overflow SQLite integers.
+ */
+
+import Database from "better-sqlite3";
+
+export type Db = Database.Database;
+
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS events (
+    id TEXT PRIMARY KEY,
+    contract TEXT NOT NULL,
+    address TEXT NOT NULL,
+    event_name TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    args TEXT NOT NULL,
+    topics TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS events_order ON events (block_number, log_index);
+  CREATE INDEX IF NOT EXISTS events_name ON events (contract, event_name);
+  -- Every event keyed by a position id, for position detail lookups
+  CREATE INDEX IF NOT EXISTS events_position ON events (json_extract(args, '$.positionId'));
+
+  CREATE TABLE IF NOT EXISTS positions (
+    id INTEGER PRIMARY KEY,
+    trader TEXT NOT NULL,
+    is_paying_fixed INTEGER NOT NULL,
+    notional TEXT NOT NULL,
+    fixed_rate TEXT NOT NULL,
+    margin TEXT NOT NULL,
+    maturity INTEGER NOT NULL,
+    accumulated_pnl TEXT NOT NULL,
+    status TEXT NOT NULL,
+    opened_at INTEGER NOT NULL,
+    last_settlement INTEGER,
+    closed_at INTEGER,
+    final_pnl TEXT,
+    margin_returned TEXT
+  );
+  CREATE INDEX IF NOT EXISTS positions_trader ON positions (trader, status);
+
+  CREATE TABLE IF NOT EXISTS trades (
+    id TEXT PRIMARY KEY,
+    source TEXT NOT NULL,
+    trader TEXT NOT NULL,
+    position_id TEXT,
+    is_paying_fixed INTEGER NOT NULL,
+    notional TEXT NOT NULL,
+    rate TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS trades_trader ON trades (trader);
+
+  CREATE TABLE IF NOT EXISTS settlements (
+    id TEXT PRIMARY KEY,
+    position_id INTEGER NOT NULL,
+    settlement_amount TEXT NOT NULL,
+    floating_rate TEXT NOT NULL,
+    fixed_rate TEXT NOT NULL,
+    period_days INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS settlements_position ON settlements (position_id);
+
+  CREATE TABLE IF NOT EXISTS rates (
+    id TEXT PRIMARY KEY,
+    rate TEXT NOT NULL,
+    num_sources INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS rates_time ON rates (timestamp);
+
+  -- status holds the last lifecycle event (created, queued, executed, canceled); the API derives
+  -- the governor's state from it, the voting window, the tallies and the current time
+  CREATE TABLE IF NOT EXISTS proposals (
+    id INTEGER PRIMARY KEY,
+    proposer TEXT NOT NULL,
+    description TEXT NOT NULL,
+    targets TEXT NOT NULL,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER NOT NULL,
+    eta INTEGER,
+    status TEXT NOT NULL,
+    for_votes TEXT NOT NULL,
+    against_votes TEXT NOT NULL,
+    abstain_votes TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS votes (
+    id TEXT PRIMARY KEY,
+    proposal_id INTEGER NOT NULL,
+    voter TEXT NOT NULL,
+    support INTEGER NOT NULL,
+    weight TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS votes_proposal ON votes (proposal_id);
+`;
+
+export function openDatabase(path: string): Db {
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  const version = getMeta(db, "schemaVersion");
+  if (version !== undefined && Number(version) !== SCHEMA_VERSION) {
+    throw new Error(`Database schema v${version} does not match v${SCHEMA_VERSION}; re-index into a new file`);
+  }
+  setMeta(db, "schemaVersion", String(SCHEMA_VERSION));
+  return db;
+}
+
+export function getMeta(db: Db, key: string): string | undefined {
+  const row = db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+  return row?.value;
+}
+
+export function setMeta(db: Db, key: string, value: string) {
+  db.prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value").run(
+    key,
+    value
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * IRS Protocol indexer
+ * Ingests protocol events into SQLite and serves them over an HTTP/JSON API
+ *
+ * Usage: npm run indexer [-- --once]
+ */
+
+import { createPublicClient, http } from "viem";
+import { ConfigError } from "../keeper/config";
+import { createLogger } from "../keeper/logger";
+import { createApiServer } from "./api";
+import { loadConfig } from "./config";
+import { openDatabase } from "./db";
+import { checkChain, runLoop, syncOnce, type IndexerContext } from "./indexer";
+
+async function main() {
+  const config = loadConfig();
+  const log = createLogger(config.logLevel, { service: "indexer" });
+  const db = openDatabase(config.dbPath);
+  const publicClient = createPublicClient({ transport: http(config.rpcUrl, { batch: true }) });
+
+  const ctx: IndexerContext = { config, db, log, publicClient };
+  const chainId = await checkChain(ctx);
+  ctx.log = log.child({ chainId });
+
+  if (process.argv.includes("--once")) {
+    ctx.log.info("indexed", { ...(await syncOnce(ctx)) });
+    db.close();
+    return;
+  }
+
+  const server = createApiServer(db, ctx.log);
+  server.listen(config.port, config.host, () => ctx.log.info("api listening", { host: config.host, port: config.port }));
+
+  const controller = new AbortController();
+  process.on("SIGINT", () => controller.abort());
+  process.on("SIGTERM", () => controller.abort());
+  await runLoop(ctx, controller.signal);
+
+  server.close();
+  db.close();
+}
+
+main().catch((error) => {
+  const log = createLogger("error", { service: "indexer" });
+  log.error(error instanceof ConfigError ? "invalid configuration" : "indexer crashed", {
+    reason: error instanceof Error ? error.message : String(error),
+  });
+  process.exit(1);
+});
@@ -0,0 +1,230 @@
+/**
+ * Indexer end-to-end tests against a local Anvil chain
+ * Requires anvil and forge on PATH; deploys script/DeployLocal.s.sol
+ */
+
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync, spawn, spawnSync, type ChildProcess } from "node:child_process";
+import { readFileSync } from "node:fs";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import path from "node:path";
+import { createPublicClient, createWalletClient, http, parseUnits, type Address, type Hash } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import {
+  ERC20_ABI,
+  POSITION_MANAGER_ABI,
+  RATE_ORACLE_ABI,
+  SETTLEMENT_ENGINE_ABI,
+} from "../../frontend/lib/abis";
+import { createIndexerApi, IndexerApiError, type IndexerApi } from "../../frontend/lib/indexerApi";
+import { createLogger } from "../keeper/logger";
+import { createApiServer } from "./api";
+import { openDatabase } from "./db";
+import { checkChain, syncOnce, type IndexerContext } from "./indexer";
+
+const REPO_ROOT = path.resolve(__dirname, "../..");
+const PORT = 8547;
+const RPC_URL = `http://127.0.0.1:${PORT}`;
+// Anvil's first default account, which DeployLocal also funds
+const PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+const hasFoundry = ["anvil", "forge"].every((bin) => spawnSync(bin, ["--version"]).status === 0);
+
+const account = privateKeyToAccount(PRIVATE_KEY);
+const publicClient = createPublicClient({ chain: foundry, transport: http(RPC_URL) });
+const walletClient = createWalletClient({ account, chain: foundry, transport: http(RPC_URL) });
+
+let anvil: ChildProcess | undefined;
+let server: Server | undefined;
+let deployed: Record<string, Address>;
+let ctx: IndexerContext;
+let api: IndexerApi;
+
+async function waitForAnvil() {
+  for (let i = 0; i < 50; i++) {
+    try {
+      await publicClient.getChainId();
+      return;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+  }
+  throw new Error("anvil did not start");
+}
+
+function deployLocal(): Record<string, Address> {
+  execFileSync(
+    "forge",
+    ["script", "script/DeployLocal.s.sol", "--rpc-url", RPC_URL, "--broadcast", "--private-key", PRIVATE_KEY],
+    { cwd: REPO_ROOT, stdio: "ignore" }
+  );
+  const run = JSON.parse(
+    readFileSync(path.join(REPO_ROOT, "broadcast/DeployLocal.s.sol/31337/run-latest.json"), "utf8")
+  ) as { transactions: { transactionType: string; contractName: string; contractAddress: Address }[] };
+
+  return Object.fromEntries(
+    run.transactions
+      .filter((tx) => tx.transactionType === "CREATE")
+      .map((tx) => [tx.contractName, tx.contractAddress])
+  );
+}
+
+async function confirm(hash: Promise<Hash>) {
+  await publicClient.waitForTransactionReceipt({ hash: await hash });
+}
+
+async function increaseTime(seconds: number) {
+  await publicClient.request({ method: "evm_increaseTime" as never, params: [seconds] as never });
+  await publicClient.request({ method: "evm_mine" as never });
+}
+
+// Open, top up, then settle one position after a fresh rate update
+async function tradeAndSettle() {
+  await confirm(
+    walletClient.writeContract({
+      address: deployed.MockERC20,
+      abi: ERC20_ABI,
+      functionName: "approve",
+      args: [deployed.PositionManager, parseUnits("3000", 6)],
+    })
+  );
+  await confirm(
+    walletClient.writeContract({
+      address: deployed.PositionManager,
+      abi: POSITION_MANAGER_ABI,
+      functionName: "openPosition",
+      args: [true, parseUnits("10000", 6), parseUnits("5", 16), BigInt(90), parseUnits("2000", 6)],
+    })
+  );
+  await confirm(
+    walletClient.writeContract({
+      address: deployed.PositionManager,
+      abi: POSITION_MANAGER_ABI,
+      functionName: "addMargin",
+      args: [BigInt(0), parseUnits("500", 6)],
+    })
+  );
+
+  // Past both the oracle's max staleness and the settlement interval (1 hour each)
+  await increaseTime(2 * 60 * 60);
+  await confirm(
+    walletClient.writeContract({ address: deployed.RateOracle, abi: RATE_ORACLE_ABI, functionName: "updateRate" })
+  );
+  await confirm(
+    walletClient.writeContract({
+      address: deployed.SettlementEngine,
+      abi: SETTLEMENT_ENGINE_ABI,
+      functionName: "settle",
+      args: [BigInt(0)],
+    })
+  );
+}
+
+describe("indexer", { skip: !hasFoundry && "anvil/forge not installed" }, () => {
+  before(async () => {
+    anvil = spawn("anvil", ["--port", String(PORT), "--silent"], { stdio: "ignore" });
+    await waitForAnvil();
+    deployed = deployLocal();
+    await tradeAndSettle();
+
+    const log = createLogger("error", {}, () => {});
+    ctx = {
+      config: {
+        rpcUrl: RPC_URL,
+        dbPath: ":memory:",
+        contracts: {
+          positionManager: deployed.PositionManager,
+          settlementEngine: deployed.SettlementEngine,
+          liquidationEngine: deployed.LiquidationEngine,
+          rateOracle: deployed.RateOracle,
+        },
+        startBlock: BigInt(0),
+        confirmations: 0,
+        chunkSize: BigInt(1_000),
+        pollIntervalMs: 1_000,
+        host: "127.0.0.1",
+        port: 0,
+        logLevel: "error",
+      },
+      db: openDatabase(":memory:"),
+      log,
+      publicClient,
+    };
+    await checkChain(ctx);
+
+    server = createApiServer(ctx.db, log);
+    await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+    api = createIndexerApi(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  });
+
+  after(() => {
+    server?.close();
+    ctx?.db.close();
+    anvil?.kill();
+  });
+
+  test("ingests every event up to the head", async () => {
+    const result = await syncOnce(ctx);
+    const head = await publicClient.getBlockNumber();
+
+    assert.equal(result.indexedTo, head);
+    assert.ok(result.events > 0);
+
+    const status = await api.status();
+    assert.equal(status.chainId, foundry.id);
+    assert.equal(status.indexedTo, head.toString());
+  });
+
+  test("re-syncing an indexed range adds nothing", async () => {
+    const result = await syncOnce(ctx);
+
+    assert.equal(result.events, 0);
+  });
+
+  test("serves positions with margin and settlement applied", async () => {
+    const [position] = await api.positions({ trader: account.address });
+
+    assert.equal(position.id, "0");
+    assert.equal(position.status, "active");
+    assert.equal(position.isPayingFixed, true);
+    assert.equal(position.notional, parseUnits("10000", 6).toString());
+    assert.equal(position.margin, parseUnits("2500", 6).toString());
+    assert.notEqual(position.lastSettlement, null);
+
+    const detail = await api.position(BigInt(0));
+    const names = detail.events.map((e) => e.eventName);
+    assert.ok(names.includes("PositionOpened"));
+    assert.ok(names.includes("MarginAdded"));
+    assert.ok(names.includes("PositionSettled"));
+  });
+
+  test("serves trades, settlements and rates", async () => {
+    const trades = await api.trades();
+    assert.equal(trades.length, 1);
+    assert.equal(trades[0].source, "position");
+    assert.equal(trades[0].positionId, "0");
+
+    const settlements = await api.settlements({ positionId: BigInt(0) });
+    assert.equal(settlements.length, 1);
+    assert.ok(Number(settlements[0].floatingRate) > 0);
+
+    const rates = await api.rates();
+    assert.ok(rates.length >= 1);
+  });
+
+  test("serves raw events filtered by contract and name", async () => {
+    const opened = await api.events({ contract: "positionManager", eventName: "PositionOpened" });
+
+    assert.equal(opened.length, 1);
+    assert.equal(opened[0].args.positionId, "0");
+    assert.ok(opened[0].topics.length > 0);
+  });
+
+  test("rejects bad queries and unknown ids", async () => {
+    await assert.rejects(api.positions({ trader: "0x1234" }), (e) => e instanceof IndexerApiError && e.status === 400);
+    await assert.rejects(api.position(BigInt(999)), (e) => e instanceof IndexerApiError && e.status === 404);
+  });
+});
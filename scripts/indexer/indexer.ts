@@ -0,0 +1,201 @@
+/**
+ * Log ingestion: walks confirmed blocks in chunks, decodes every configured contract's events
+ * and writes each chunk in one transaction together with the cursor
+ */
+
+import { decodeEventLog, type Abi, type Address, type Log, type PublicClient } from "viem";
+import {
+  AUTOMATION_ABI,
+  IRS_GOVERNOR_ABI,
+  IRS_POOL_ABI,
+  LIQUIDATION_ENGINE_ABI,
+  ORDER_BOOK_ABI,
+  POSITION_MANAGER_ABI,
+  RATE_ORACLE_ABI,
+  SETTLEMENT_ENGINE_ABI,
+} from "../../frontend/lib/abis";
+import type { IndexedSource } from "../../frontend/lib/indexerApi";
+import type { Logger } from "../keeper/logger";
+import { sleep } from "../keeper/sleep";
+import { errorMessage } from "../keeper/tx";
+import type { IndexerConfig } from "./config";
+import { getMeta, setMeta, type Db } from "./db";
+import { ingestEvent, type DecodedEvent } from "./projections";
+
+export interface IndexerContext {
+  config: IndexerConfig;
+  db: Db;
+  log: Logger;
+  publicClient: Pick<PublicClient, "getChainId" | "getBlockNumber" | "getBlock" | "getLogs" | "readContract">;
+}
+
+export interface SyncResult {
+  fromBlock: bigint;
+  indexedTo: bigint;
+  events: number;
+}
+
+const ABIS: Record<IndexedSource, Abi> = {
+  positionManager: POSITION_MANAGER_ABI,
+  settlementEngine: SETTLEMENT_ENGINE_ABI,
+  liquidationEngine: LIQUIDATION_ENGINE_ABI,
+  orderBook: ORDER_BOOK_ABI,
+  automation: AUTOMATION_ABI,
+  irsPool: IRS_POOL_ABI,
+  irsGovernor: IRS_GOVERNOR_ABI,
+  rateOracle: RATE_ORACLE_ABI,
+};
+
+// getBlock calls in flight at once when filling timestamps
+const BLOCK_BATCH = 10;
+// Never shrink a failing getLogs range below this
+const MIN_CHUNK = BigInt(100);
+
+export function getCursor(db: Db): bigint | undefined {
+  const value = getMeta(db, "indexedTo");
+  return value === undefined ? undefined : BigInt(value);
+}
+
+function sourcesByAddress(config: IndexerConfig): Map<string, IndexedSource> {
+  const sources = new Map<string, IndexedSource>();
+  for (const [source, address] of Object.entries(config.contracts) as [IndexedSource, Address][]) {
+    sources.set(address.toLowerCase(), source);
+  }
+  return sources;
+}
+
+function decode(log: Log, sources: Map<string, IndexedSource>): Omit<DecodedEvent, "timestamp"> | null {
+  const contract = sources.get(log.address.toLowerCase());
+  if (!contract || log.blockNumber === null || log.logIndex === null || log.transactionHash === null) return null;
+
+  try {
+    const decoded = decodeEventLog({ abi: ABIS[contract], data: log.data, topics: log.topics }) as {
+      eventName: string;
+      args?: unknown;
+    };
+    return {
+      id: `${log.transactionHash}-${log.logIndex}`,
+      contract,
+      address: log.address,
+      eventName: decoded.eventName,
+      args: (decoded.args ?? {}) as Record<string, unknown>,
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+      transactionHash: log.transactionHash,
+      topics: log.topics as `0x${string}`[],
+      data: log.data,
+    };
+  } catch {
+    // Admin and config events the API does not serve
+    return null;
+  }
+}
+
+async function blockTimes(ctx: IndexerContext, blockNumbers: bigint[]): Promise<Map<bigint, number>> {
+  const times = new Map<bigint, number>();
+  for (let i = 0; i < blockNumbers.length; i += BLOCK_BATCH) {
+    const blocks = await Promise.all(
+      blockNumbers.slice(i, i + BLOCK_BATCH).map((blockNumber) => ctx.publicClient.getBlock({ blockNumber }))
+    );
+    for (const block of blocks) times.set(block.number!, Number(block.timestamp));
+  }
+  return times;
+}
+
+// Refuse to mix chains in one database
+export async function checkChain(ctx: IndexerContext): Promise<number> {
+  const chainId = await ctx.publicClient.getChainId();
+  const stored = getMeta(ctx.db, "chainId");
+  if (stored !== undefined && Number(stored) !== chainId) {
+    throw new Error(`Database was indexed on chain ${stored}, but RPC_URL is chain ${chainId}`);
+  }
+  setMeta(ctx.db, "chainId", String(chainId));
+  return chainId;
+}
+
+/**
+ * Proposal status depends on the governor's quorum inputs, and quorumBps changes without an
+ * event, so both are read each pass rather than projected
+ */
+async function syncGovernor(ctx: IndexerContext): Promise<void> {
+  const address = ctx.config.contracts.irsGovernor;
+  if (!address) return;
+  const [totalVotingPower, quorumBps] = await Promise.all([
+    ctx.publicClient.readContract({ address, abi: IRS_GOVERNOR_ABI, functionName: "totalVotingPower" }),
+    ctx.publicClient.readContract({ address, abi: IRS_GOVERNOR_ABI, functionName: "quorumBps" }),
+  ]);
+  setMeta(ctx.db, "governor.totalVotingPower", totalVotingPower.toString());
+  setMeta(ctx.db, "governor.quorumBps", quorumBps.toString());
+}
+
+/**
+ * Ingest every confirmed block after the cursor. Safe to call repeatedly; returns what was indexed.
+ */
+export async function syncOnce(ctx: IndexerContext): Promise<SyncResult> {
+  const { config, db } = ctx;
+  const head = await ctx.publicClient.getBlockNumber();
+  setMeta(db, "head", head.toString());
+  await syncGovernor(ctx);
+
+  const cursor = getCursor(db);
+  const fromBlock = cursor !== undefined ? cursor + BigInt(1) : config.startBlock;
+  const target = head - BigInt(config.confirmations);
+  const sources = sourcesByAddress(config);
+  const addresses = Object.values(config.contracts) as Address[];
+  const result: SyncResult = { fromBlock, indexedTo: cursor ?? fromBlock - BigInt(1), events: 0 };
+
+  const writeChunk = db.transaction((events: DecodedEvent[], to: bigint) => {
+    for (const event of events) ingestEvent(db, event);
+    setMeta(db, "indexedTo", to.toString());
+  });
+
+  let from = fromBlock;
+  let chunk = config.chunkSize;
+  while (from <= target) {
+    const to = from + chunk - BigInt(1) < target ? from + chunk - BigInt(1) : target;
+
+    let logs: Log[];
+    try {
+      logs = await ctx.publicClient.getLogs({ address: addresses, fromBlock: from, toBlock: to });
+    } catch (error) {
+      if (chunk <= MIN_CHUNK) throw error;
+      chunk = chunk / BigInt(2);
+      ctx.log.warn("getLogs failed, shrinking range", { from, to, chunk, reason: errorMessage(error) });
+      continue;
+    }
+
+    const decoded = logs
+      .map((log) => decode(log, sources))
+      .filter((e): e is Omit<DecodedEvent, "timestamp"> => e !== null);
+    const times = await blockTimes(ctx, Array.from(new Set(decoded.map((e) => e.blockNumber))));
+    const events = decoded.map((e) => ({ ...e, timestamp: times.get(e.blockNumber) ?? 0 }));
+
+    writeChunk(events, to);
+    result.indexedTo = to;
+    result.events += events.length;
+    ctx.log.debug("chunk indexed", { from, to, events: events.length });
+
+    // Grow back after a failure once ranges succeed again
+    if (chunk < config.chunkSize) chunk = chunk * BigInt(2);
+    from = to + BigInt(1);
+  }
+
+  return result;
+}
+
+export async function runLoop(ctx: IndexerContext, signal?: AbortSignal): Promise<void> {
+  ctx.log.info("indexer started", { intervalMs: ctx.config.pollIntervalMs, contracts: ctx.config.contracts });
+
+  while (!signal?.aborted) {
+    try {
+      const result = await syncOnce(ctx);
+      if (result.events > 0) ctx.log.info("indexed", { ...result });
+    } catch (error) {
+      // Transient RPC failures retry on the next pass from the same cursor
+      ctx.log.error("sync failed", { reason: errorMessage(error) });
+    }
+    await sleep(ctx.config.pollIntervalMs, signal);
+  }
+
+  ctx.log.info("indexer stopped");
+}
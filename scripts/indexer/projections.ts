@@ -0,0 +1,227 @@
+/**
+ * Keeps the query tables in step with ingested events. Each handler applies one decoded event;
+ * they run inside the ingest transaction so tables never disagree with the raw log.
+ */
+
+import type { IndexedSource } from "../../frontend/lib/indexerApi";
+import type { Db } from "./db";
+
+export interface DecodedEvent {
+  id: string;
+  contract: IndexedSource;
+  address: `0x${string}`;
+  eventName: string;
+  args: Record<string, unknown>;
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: `0x${string}`;
+  timestamp: number;
+  topics: `0x${string}`[];
+  data: `0x${string}`;
+}
+
+type Handler = (db: Db, event: DecodedEvent) => void;
+
+const str = (value: unknown) => (value as bigint).toString();
+const num = (value: unknown) => Number(value as bigint);
+
+function addVotes(current: string, weight: unknown): string {
+  return (BigInt(current) + (weight as bigint)).toString();
+}
+
+const HANDLERS: Partial<Record<IndexedSource, Record<string, Handler>>> = {
+  positionManager: {
+    PositionOpened: (db, { args, timestamp, id, blockNumber, logIndex, transactionHash }) => {
+      db.prepare(
+        `INSERT OR IGNORE INTO positions
+          (id, trader, is_paying_fixed, notional, fixed_rate, margin, maturity, accumulated_pnl, status, opened_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, '0', 'active', ?)`
+      ).run(
+        num(args.positionId),
+        args.trader,
+        args.isPayingFixed ? 1 : 0,
+        str(args.notional),
+        str(args.fixedRate),
+        str(args.margin),
+        num(args.maturity),
+        timestamp
+      );
+      // Order book matches and the wizard both open positions here, so this is the one trade record for them
+      db.prepare(
+        `INSERT OR IGNORE INTO trades
+          (id, source, trader, position_id, is_paying_fixed, notional, rate, timestamp, block_number, log_index, transaction_hash)
+         VALUES (?, 'position', ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        id,
+        args.trader,
+        str(args.positionId),
+        args.isPayingFixed ? 1 : 0,
+        str(args.notional),
+        str(args.fixedRate),
+        timestamp,
+        Number(blockNumber),
+        logIndex,
+        transactionHash
+      );
+    },
+    MarginAdded: (db, { args }) => {
+      db.prepare("UPDATE positions SET margin = ? WHERE id = ?").run(str(args.newMargin), num(args.positionId));
+    },
+    MarginRemoved: (db, { args }) => {
+      db.prepare("UPDATE positions SET margin = ? WHERE id = ?").run(str(args.newMargin), num(args.positionId));
+    },
+    // The ABI names the last field newMargin, but PositionManager emits the new accumulated PnL there
+    PositionSettled: (db, { args, timestamp }) => {
+      db.prepare("UPDATE positions SET accumulated_pnl = ?, last_settlement = ? WHERE id = ?").run(
+        str(args.newMargin),
+        timestamp,
+        num(args.positionId)
+      );
+    },
+    // Liquidations close through here too; keep their status once set
+    PositionClosed: (db, { args, timestamp }) => {
+      db.prepare(
+        `UPDATE positions
+         SET status = CASE status WHEN 'liquidated' THEN 'liquidated' ELSE 'closed' END,
+             closed_at = ?, final_pnl = ?, margin_returned = ?
+         WHERE id = ?`
+      ).run(timestamp, str(args.finalPnL), str(args.marginReturned), num(args.positionId));
+    },
+  },
+  settlementEngine: {
+    PositionSettled: (db, { id, args, timestamp, blockNumber, logIndex, transactionHash }) => {
+      db.prepare(
+        `INSERT OR IGNORE INTO settlements
+          (id, position_id, settlement_amount, floating_rate, fixed_rate, period_days, timestamp, block_number, log_index, transaction_hash)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        id,
+        num(args.positionId),
+        str(args.settlementAmount),
+        str(args.floatingRate),
+        str(args.fixedRate),
+        num(args.periodDays),
+        timestamp,
+        Number(blockNumber),
+        logIndex,
+        transactionHash
+      );
+    },
+  },
+  liquidationEngine: {
+    PositionLiquidated: (db, { args }) => {
+      db.prepare("UPDATE positions SET status = 'liquidated' WHERE id = ?").run(num(args.positionId));
+    },
+    PartialLiquidation: (db, { args }) => {
+      db.prepare("UPDATE positions SET margin = ? WHERE id = ?").run(str(args.remainingMargin), num(args.positionId));
+    },
+  },
+  irsPool: {
+    RateSwap: (db, { id, args, timestamp, blockNumber, logIndex, transactionHash }) => {
+      db.prepare(
+        `INSERT OR IGNORE INTO trades
+          (id, source, trader, position_id, is_paying_fixed, notional, rate, timestamp, block_number, log_index, transaction_hash)
+         VALUES (?, 'pool', ?, NULL, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        id,
+        args.trader,
+        args.isPayingFixed ? 1 : 0,
+        str(args.notional),
+        str(args.rate),
+        timestamp,
+        Number(blockNumber),
+        logIndex,
+        transactionHash
+      );
+    },
+  },
+  rateOracle: {
+    RateUpdated: (db, { id, args, timestamp, blockNumber, logIndex }) => {
+      db.prepare(
+        `INSERT OR IGNORE INTO rates (id, rate, num_sources, timestamp, block_number, log_index)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      ).run(id, str(args.rate), num(args.numSources), timestamp, Number(blockNumber), logIndex);
+    },
+  },
+  irsGovernor: {
+    ProposalCreated: (db, { args, timestamp }) => {
+      db.prepare(
+        `INSERT OR IGNORE INTO proposals
+          (id, proposer, description, targets, start_time, end_time, eta, status, for_votes, against_votes, abstain_votes, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, NULL, 'created', '0', '0', '0', ?)`
+      ).run(
+        num(args.proposalId),
+        args.proposer,
+        args.description,
+        JSON.stringify(args.targets),
+        num(args.startTime),
+        num(args.endTime),
+        timestamp
+      );
+    },
+    VoteCast: (db, { id, args, timestamp }) => {
+      const proposalId = num(args.proposalId);
+      const inserted = db
+        .prepare(
+          `INSERT OR IGNORE INTO votes (id, proposal_id, voter, support, weight, timestamp)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .run(id, proposalId, args.voter, Number(args.support), str(args.weight), timestamp);
+      if (inserted.changes === 0) return;
+
+      const column = ["against_votes", "for_votes", "abstain_votes"][Number(args.support)];
+      const row = db.prepare(`SELECT ${column} AS votes FROM proposals WHERE id = ?`).get(proposalId) as
+        | { votes: string }
+        | undefined;
+      if (row) {
+        db.prepare(`UPDATE proposals SET ${column} = ? WHERE id = ?`).run(addVotes(row.votes, args.weight), proposalId);
+      }
+    },
+    ProposalQueued: (db, { args }) => {
+      db.prepare("UPDATE proposals SET status = 'queued', eta = ? WHERE id = ?").run(
+        num(args.eta),
+        num(args.proposalId)
+      );
+    },
+    ProposalExecuted: (db, { args }) => {
+      db.prepare("UPDATE proposals SET status = 'executed' WHERE id = ?").run(num(args.proposalId));
+    },
+    ProposalCanceled: (db, { args }) => {
+      db.prepare("UPDATE proposals SET status = 'canceled' WHERE id = ?").run(num(args.proposalId));
+    },
+  },
+};
+
+// bigints go into the JSON column as decimal strings
+function argsJson(args: Record<string, unknown>): string {
+  return JSON.stringify(args, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+}
+
+/**
+ * Store the raw event and apply it to the query tables. Events already stored are skipped,
+ * so re-ingesting a range is harmless.
+ */
+export function ingestEvent(db: Db, event: DecodedEvent) {
+  const inserted = db
+    .prepare(
+      `INSERT OR IGNORE INTO events
+        (id, contract, address, event_name, block_number, log_index, transaction_hash, timestamp, args, topics, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      event.id,
+      event.contract,
+      event.address,
+      event.eventName,
+      Number(event.blockNumber),
+      event.logIndex,
+      event.transactionHash,
+      event.timestamp,
+      argsJson(event.args),
+      JSON.stringify(event.topics),
+      event.data
+    );
+  if (inserted.changes === 0) return;
+
+  HANDLERS[event.contract]?.[event.eventName]?.(db, event);
+}
@@ -0,0 +1,129 @@
+/**
+ * Keeper configuration, read from environment variables and CLI flags
+ */
+
+import { getAddress, isAddress, parseGwei, type Address, type Hex } from "viem";
+
+export interface KeeperContracts {
+  positionManager: Address;
+  rateOracle?: Address;
+  settlementEngine?: Address;
+  automation?: Address;
+  liquidationEngine?: Address;
+}
+
+// Copies Lendle's rates on Mantle into a MockRateSource, for testnets that have no live source
+export interface RateMirrorConfig {
+  mockRateSource: Address;
+  sourceRpcUrl: string;
+  lendingPool: Address;
+  asset: Address;
+}
+
+export interface KeeperConfig {
+  rpcUrl: string;
+  privateKey: Hex;
+  contracts: KeeperContracts;
+  // Only set when MOCK_RATE_SOURCE is
+  rateMirror?: RateMirrorConfig;
+  // Simulate and log every transaction without sending it
+  dryRun: boolean;
+  // Run a single tick and exit
+  once: boolean;
+  intervalMs: number;
+  // Refresh the oracle once its last update is older than this, even if not yet stale
+  rateUpdateIntervalSec: number;
+  // Skip sending while the network gas price is above this
+  maxGasPrice: bigint;
+  // Skip any transaction whose estimated gas is above this
+  maxGasPerTx: bigint;
+  // Upper bound on ids passed to batchSettle / batchLiquidate
+  maxBatchSize: number;
+  logLevel: LogLevel;
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+// Lendle's LendingPool and USDC on Mantle mainnet
+const LENDLE_RPC_URL = "https://rpc.mantle.xyz";
+const LENDLE_POOL = "0xCFa5aE7c2CE8Fadc6426C1ff872cA45378Fb7cF3";
+const LENDLE_ASSET = "0x09Bc4E0D864854c6aFB6eB9A9cdF58aC190D0dF9";
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+function required(env: Env, name: string): string {
+  const value = env[name];
+  if (!value) throw new ConfigError(`${name} environment variable not set`);
+  return value;
+}
+
+function address(env: Env, name: string): Address | undefined {
+  const value = env[name];
+  if (!value) return undefined;
+  if (!isAddress(value)) throw new ConfigError(`${name} is not a valid address: ${value}`);
+  return getAddress(value);
+}
+
+function positiveNumber(env: Env, name: string, fallback: number): number {
+  const value = env[name];
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new ConfigError(`${name} must be a positive number: ${value}`);
+  }
+  return parsed;
+}
+
+function positiveInteger(env: Env, name: string, fallback: number): number {
+  const parsed = positiveNumber(env, name, fallback);
+  if (!Number.isInteger(parsed)) throw new ConfigError(`${name} must be a positive integer: ${env[name]}`);
+  return parsed;
+}
+
+export function loadConfig(env: Env = process.env, argv: string[] = process.argv.slice(2)): KeeperConfig {
+  const privateKey = required(env, "PRIVATE_KEY");
+  const positionManager = address(env, "POSITION_MANAGER");
+  if (!positionManager) throw new ConfigError("POSITION_MANAGER environment variable not set");
+
+  const logLevel = (env.LOG_LEVEL ?? "info") as LogLevel;
+  if (!LOG_LEVELS.includes(logLevel)) {
+    throw new ConfigError(`LOG_LEVEL must be one of ${LOG_LEVELS.join(", ")}`);
+  }
+
+  const mockRateSource = address(env, "MOCK_RATE_SOURCE");
+
+  return {
+    rpcUrl: required(env, "RPC_URL"),
+    privateKey: (privateKey.startsWith("0x") ? privateKey : `0x${privateKey}`) as Hex,
+    contracts: {
+      positionManager,
+      rateOracle: address(env, "RATE_ORACLE"),
+      settlementEngine: address(env, "SETTLEMENT_ENGINE"),
+      automation: address(env, "AUTOMATION"),
+      liquidationEngine: address(env, "LIQUIDATION_ENGINE"),
+    },
+    rateMirror: mockRateSource && {
+      mockRateSource,
+      sourceRpcUrl: env.LENDLE_RPC_URL || LENDLE_RPC_URL,
+      lendingPool: address(env, "LENDLE_POOL") ?? LENDLE_POOL,
+      asset: address(env, "LENDLE_ASSET") ?? LENDLE_ASSET,
+    },
+    dryRun: argv.includes("--dry-run") || env.DRY_RUN === "true",
+    once: argv.includes("--once"),
+    intervalMs: positiveNumber(env, "KEEPER_INTERVAL_SEC", 60) * 1000,
+    rateUpdateIntervalSec: positiveNumber(env, "RATE_UPDATE_INTERVAL_SEC", 15 * 60),
+    maxGasPrice: parseGwei(String(positiveNumber(env, "MAX_GAS_PRICE_GWEI", 50))),
+    maxGasPerTx: BigInt(positiveInteger(env, "MAX_GAS_PER_TX", 5_000_000)),
+    maxBatchSize: positiveInteger(env, "MAX_BATCH_SIZE", 50),
+    logLevel,
+  };
+}
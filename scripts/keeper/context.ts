@@ -0,0 +1,51 @@
+/**
+ * Clients and shared state handed to every keeper task
+ */
+
+import {
+  createPublicClient,
+  createWalletClient,
+  defineChain,
+  http,
+  type Account,
+  type Chain,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import type { KeeperConfig } from "./config";
+import type { Logger } from "./logger";
+
+export interface KeeperContext {
+  config: KeeperConfig;
+  log: Logger;
+  publicClient: PublicClient<Transport, Chain>;
+  walletClient: WalletClient<Transport, Chain, Account>;
+  // Reads the Lendle pool on Mantle; only present when the rate mirror is configured
+  rateMirrorClient?: PublicClient;
+}
+
+export async function createKeeperContext(config: KeeperConfig, log: Logger): Promise<KeeperContext> {
+  // Batch JSON-RPC requests so position scans don't depend on Multicall3 being deployed
+  const transport = http(config.rpcUrl, { batch: true });
+
+  const probe = createPublicClient({ transport });
+  const chainId = await probe.getChainId();
+  const chain = defineChain({
+    id: chainId,
+    name: `chain-${chainId}`,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: { default: { http: [config.rpcUrl] } },
+  });
+
+  const account = privateKeyToAccount(config.privateKey);
+
+  return {
+    config,
+    log: log.child({ chainId, keeper: account.address }),
+    publicClient: createPublicClient({ chain, transport }),
+    walletClient: createWalletClient({ account, chain, transport }),
+    rateMirrorClient: config.rateMirror && createPublicClient({ transport: http(config.rateMirror.sourceRpcUrl) }),
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * IRS Protocol keeper
+ * Refreshes the rate oracle and settles, executes and liquidates whatever is due
+ *
+ * Usage: npm run keeper [-- --once] [-- --dry-run]
+ */
+
+import { ConfigError, loadConfig } from "./config";
+import { createKeeperContext } from "./context";
+import { runLoop, runTick } from "./keeper";
+import { createLogger } from "./logger";
+
+async function main() {
+  const config = loadConfig();
+  const log = createLogger(config.logLevel, { service: "keeper" });
+  const ctx = await createKeeperContext(config, log);
+
+  if (config.once) {
+    await runTick(ctx);
+    return;
+  }
+
+  const controller = new AbortController();
+  process.on("SIGINT", () => controller.abort());
+  process.on("SIGTERM", () => controller.abort());
+  await runLoop(ctx, controller.signal);
+}
+
+main().catch((error) => {
+  const log = createLogger("error", { service: "keeper" });
+  log.error(error instanceof ConfigError ? "invalid configuration" : "keeper crashed", {
+    reason: error instanceof Error ? error.message : String(error),
+  });
+  process.exit(1);
+});
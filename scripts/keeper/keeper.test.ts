@@ -0,0 +1,175 @@
+/**
+ * Keeper integration tests against a local Anvil chain
+ * Requires anvil and forge on PATH; deploys script/DeployLocal.s.sol
+ */
+
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync, spawn, spawnSync, type ChildProcess } from "node:child_process";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { createPublicClient, createWalletClient, http, parseUnits, type Address } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import { ERC20_ABI, POSITION_MANAGER_ABI, RATE_ORACLE_ABI, SETTLEMENT_ENGINE_ABI } from "../../frontend/lib/abis";
+import type { KeeperConfig } from "./config";
+import { createKeeperContext, type KeeperContext } from "./context";
+import { runTick } from "./keeper";
+import { createLogger } from "./logger";
+
+const REPO_ROOT = path.resolve(__dirname, "../..");
+const PORT = 8546;
+const RPC_URL = `http://127.0.0.1:${PORT}`;
+// Anvil's first default account, which DeployLocal also funds
+const PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+const hasFoundry = ["anvil", "forge"].every((bin) => spawnSync(bin, ["--version"]).status === 0);
+
+const account = privateKeyToAccount(PRIVATE_KEY);
+const publicClient = createPublicClient({ chain: foundry, transport: http(RPC_URL) });
+const walletClient = createWalletClient({ account, chain: foundry, transport: http(RPC_URL) });
+
+let anvil: ChildProcess | undefined;
+let deployed: Record<string, Address>;
+
+async function waitForAnvil() {
+  for (let i = 0; i < 50; i++) {
+    try {
+      await publicClient.getChainId();
+      return;
+    } catch {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+  }
+  throw new Error("anvil did not start");
+}
+
+function deployLocal(): Record<string, Address> {
+  execFileSync(
+    "forge",
+    ["script", "script/DeployLocal.s.sol", "--rpc-url", RPC_URL, "--broadcast", "--private-key", PRIVATE_KEY],
+    { cwd: REPO_ROOT, stdio: "ignore" }
+  );
+  const run = JSON.parse(
+    readFileSync(path.join(REPO_ROOT, "broadcast/DeployLocal.s.sol/31337/run-latest.json"), "utf8")
+  ) as { transactions: { transactionType: string; contractName: string; contractAddress: Address }[] };
+
+  return Object.fromEntries(
+    run.transactions
+      .filter((tx) => tx.transactionType === "CREATE")
+      .map((tx) => [tx.contractName, tx.contractAddress])
+  );
+}
+
+async function openPosition() {
+  const notional = parseUnits("10000", 6);
+  const margin = parseUnits("2000", 6);
+  const approve = await walletClient.writeContract({
+    address: deployed.MockERC20,
+    abi: ERC20_ABI,
+    functionName: "approve",
+    args: [deployed.PositionManager, margin],
+  });
+  await publicClient.waitForTransactionReceipt({ hash: approve });
+  const open = await walletClient.writeContract({
+    address: deployed.PositionManager,
+    abi: POSITION_MANAGER_ABI,
+    functionName: "openPosition",
+    args: [true, notional, parseUnits("5", 16), BigInt(90), margin],
+  });
+  await publicClient.waitForTransactionReceipt({ hash: open });
+}
+
+async function increaseTime(seconds: number) {
+  await publicClient.request({ method: "evm_increaseTime" as never, params: [seconds] as never });
+  await publicClient.request({ method: "evm_mine" as never });
+}
+
+async function keeper(overrides: Partial<KeeperConfig> = {}): Promise<KeeperContext> {
+  const config: KeeperConfig = {
+    rpcUrl: RPC_URL,
+    privateKey: PRIVATE_KEY,
+    contracts: {
+      positionManager: deployed.PositionManager,
+      rateOracle: deployed.RateOracle,
+      settlementEngine: deployed.SettlementEngine,
+      liquidationEngine: deployed.LiquidationEngine,
+    },
+    dryRun: false,
+    once: true,
+    intervalMs: 1000,
+    rateUpdateIntervalSec: 15 * 60,
+    maxGasPrice: parseUnits("100", 9),
+    maxGasPerTx: BigInt(5_000_000),
+    maxBatchSize: 50,
+    logLevel: "error",
+    ...overrides,
+  };
+  return createKeeperContext(config, createLogger(config.logLevel, {}, () => {}));
+}
+
+describe("keeper", { skip: !hasFoundry && "anvil/forge not installed" }, () => {
+  before(async () => {
+    anvil = spawn("anvil", ["--port", String(PORT), "--silent"], { stdio: "ignore" });
+    await waitForAnvil();
+    deployed = deployLocal();
+
+    await openPosition();
+    // Past both the oracle's max staleness and the settlement interval (1 hour each)
+    await increaseTime(2 * 60 * 60);
+  });
+
+  after(() => {
+    anvil?.kill();
+  });
+
+  test("dry run simulates due work without sending", async () => {
+    const nonce = await publicClient.getTransactionCount({ address: account.address });
+
+    const report = await runTick(await keeper({ dryRun: true }));
+
+    assert.equal(report.updateRate?.[0]?.status, "dry-run");
+    assert.equal(report.settle?.[0]?.status, "dry-run");
+    assert.deepEqual(report.liquidate, []);
+    assert.equal(await publicClient.getTransactionCount({ address: account.address }), nonce);
+  });
+
+  test("skips transactions above the gas price cap", async () => {
+    const report = await runTick(await keeper({ maxGasPrice: BigInt(1) }));
+
+    assert.equal(report.updateRate?.[0]?.status, "skipped");
+    assert.equal(report.settle?.[0]?.status, "skipped");
+  });
+
+  test("skips transactions above the gas limit cap", async () => {
+    const report = await runTick(await keeper({ maxGasPerTx: BigInt(21_000) }));
+
+    assert.equal(report.updateRate?.[0]?.status, "skipped");
+  });
+
+  test("updates the rate and settles due positions", async () => {
+    const report = await runTick(await keeper());
+
+    assert.equal(report.updateRate?.[0]?.status, "sent");
+    assert.equal(report.settle?.[0]?.status, "sent");
+
+    const [isStale, canSettle] = await Promise.all([
+      publicClient.readContract({ address: deployed.RateOracle, abi: RATE_ORACLE_ABI, functionName: "isStale" }),
+      publicClient.readContract({
+        address: deployed.SettlementEngine,
+        abi: SETTLEMENT_ENGINE_ABI,
+        functionName: "canSettle",
+        args: [BigInt(0)],
+      }),
+    ]);
+    assert.equal(isStale, false);
+    assert.equal(canSettle, false);
+  });
+
+  test("does nothing once everything is up to date", async () => {
+    const report = await runTick(await keeper());
+
+    assert.deepEqual(report.updateRate, []);
+    assert.deepEqual(report.settle, []);
+  });
+});
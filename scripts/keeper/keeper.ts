@@ -0,0 +1,53 @@
+/**
+ * One keeper pass over every configured contract, and the loop that repeats it
+ */
+
+import type { KeeperContext } from "./context";
+import { sleep } from "./sleep";
+import { executeAutomation, liquidatePositions, mirrorRates, settlePositions, updateRate } from "./tasks";
+import { errorMessage, type TxResult } from "./tx";
+
+export type TaskName = "mirrorRates" | "updateRate" | "settle" | "automation" | "liquidate";
+
+export type TickReport = Partial<Record<TaskName, TxResult[]>>;
+
+export async function runTick(ctx: KeeperContext): Promise<TickReport> {
+  const { contracts, rateMirror } = ctx.config;
+  const report: TickReport = {};
+
+  // Order matters: the oracle reads the mirrored source, settlement uses a fresh rate, and
+  // liquidation runs after settlement has moved margin
+  const tasks: [TaskName, (() => Promise<TxResult[]>) | undefined][] = [
+    ["mirrorRates", rateMirror && (() => mirrorRates(ctx, rateMirror))],
+    ["updateRate", contracts.rateOracle && (() => updateRate(ctx, contracts.rateOracle!))],
+    ["settle", contracts.settlementEngine && (() => settlePositions(ctx, contracts.settlementEngine!))],
+    ["automation", contracts.automation && (() => executeAutomation(ctx, contracts.automation!))],
+    ["liquidate", contracts.liquidationEngine && (() => liquidatePositions(ctx, contracts.liquidationEngine!))],
+  ];
+
+  for (const [name, task] of tasks) {
+    if (!task) continue;
+    try {
+      report[name] = await task();
+    } catch (error) {
+      // One failing task should not stop the others
+      ctx.log.error("task failed", { task: name, reason: errorMessage(error) });
+      report[name] = [];
+    }
+  }
+
+  const sent = Object.values(report).flat().filter((r) => r.status === "sent" || r.status === "dry-run");
+  ctx.log.info("tick complete", { transactions: sent.length, dryRun: ctx.config.dryRun });
+  return report;
+}
+
+export async function runLoop(ctx: KeeperContext, signal?: AbortSignal): Promise<void> {
+  ctx.log.info("keeper started", { intervalMs: ctx.config.intervalMs, dryRun: ctx.config.dryRun });
+
+  while (!signal?.aborted) {
+    await runTick(ctx);
+    await sleep(ctx.config.intervalMs, signal);
+  }
+
+  ctx.log.info("keeper stopped");
+}
@@ -0,0 +1,43 @@
+/**
+ * Structured JSON-lines logger
+ */
+
+import type { LogLevel } from "./config";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+}
+
+const SEVERITY: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// bigints are not JSON-serialisable; log them as decimal strings
+function replacer(_key: string, value: unknown) {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Error) return { name: value.name, message: value.message };
+  return value;
+}
+
+export function createLogger(
+  level: LogLevel = "info",
+  base: LogFields = {},
+  write: (line: string) => void = (line) => process.stdout.write(line + "\n")
+): Logger {
+  const log = (lvl: LogLevel) => (msg: string, fields: LogFields = {}) => {
+    if (SEVERITY[lvl] < SEVERITY[level]) return;
+    write(JSON.stringify({ time: new Date().toISOString(), level: lvl, msg, ...base, ...fields }, replacer));
+  };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    child: (fields) => createLogger(level, { ...base, ...fields }, write),
+  };
+}
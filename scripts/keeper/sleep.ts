@@ -0,0 +1,14 @@
+/**
+ * Abortable delay between loop passes
+ */
+
+import { setTimeout as delay } from "node:timers/promises";
+
+// Resolves after `ms`, or early once `signal` aborts; never rejects on abort
+export async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  try {
+    await delay(ms, undefined, { signal });
+  } catch (error) {
+    if (!(error instanceof Error && error.name === "AbortError")) throw error;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Due-selection logic behind the keeper tasks
+ * Pure: needs no chain
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { chunk, isRateMirrorDue, isRateUpdateDue, scanRanges } from "./tasks";
+
+describe("isRateUpdateDue", () => {
+  test("refreshes a stale oracle regardless of age", () => {
+    assert.equal(isRateUpdateDue(true, BigInt(0), 900), true);
+  });
+
+  test("refreshes once the update interval has passed", () => {
+    assert.equal(isRateUpdateDue(false, BigInt(899), 900), false);
+    assert.equal(isRateUpdateDue(false, BigInt(900), 900), true);
+  });
+});
+
+describe("scanRanges", () => {
+  test("covers every id with inclusive ends", () => {
+    assert.deepEqual(scanRanges(BigInt(5), 2), [
+      [BigInt(0), BigInt(1)],
+      [BigInt(2), BigInt(3)],
+      [BigInt(4), BigInt(4)],
+    ]);
+    assert.deepEqual(scanRanges(BigInt(4), 2), [
+      [BigInt(0), BigInt(1)],
+      [BigInt(2), BigInt(3)],
+    ]);
+  });
+
+  test("is empty with no positions", () => {
+    assert.deepEqual(scanRanges(BigInt(0), 200), []);
+  });
+});
+
+describe("chunk", () => {
+  test("splits into batches of at most the given size", () => {
+    assert.deepEqual(chunk([1, 2, 3, 4, 5], 2), [[1, 2], [3, 4], [5]]);
+    assert.deepEqual(chunk([], 50), []);
+  });
+});
+
+describe("isRateMirrorDue", () => {
+  const lendle = { supply: BigInt(5e16), borrow: BigInt(8e16) };
+
+  test("leaves rates within 0.01% alone", () => {
+    assert.equal(isRateMirrorDue({ supply: lendle.supply + BigInt(1e14), borrow: lendle.borrow }, lendle), false);
+  });
+
+  test("copies when either rate drifts further", () => {
+    const supply = lendle.supply - BigInt(1e14) - BigInt(1);
+    assert.equal(isRateMirrorDue({ supply, borrow: lendle.borrow }, lendle), true);
+    assert.equal(isRateMirrorDue({ supply: lendle.supply, borrow: lendle.borrow + BigInt(2e14) }, lendle), true);
+  });
+});
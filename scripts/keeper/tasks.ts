@@ -0,0 +1,266 @@
+/**
+ * Keeper tasks. Each reads what is due on-chain and sends the matching transactions.
+ */
+
+import { encodeFunctionData, parseAbi, type Address } from "viem";
+import {
+  AUTOMATION_ABI,
+  LIQUIDATION_ENGINE_ABI,
+  POSITION_MANAGER_ABI,
+  RATE_ORACLE_ABI,
+  SETTLEMENT_ENGINE_ABI,
+} from "../../frontend/lib/abis";
+import type { RateMirrorConfig } from "./config";
+import type { KeeperContext } from "./context";
+import { sendTx, type TxResult } from "./tx";
+
+// Positions checked per round of batched canSettle reads
+const SETTLE_SCAN_CHUNK = 100;
+// Id range per findLiquidatablePositions call, kept small enough for RPC gas limits
+const LIQUIDATION_SCAN_CHUNK = 200;
+// Leave the mock source alone while both rates are within 0.01% (WAD) of Lendle's
+const RATE_MIRROR_THRESHOLD = BigInt(1e14);
+
+// Lendle is an Aave V2 fork; the reserve struct is flattened into outputs
+const LENDLE_POOL_ABI = parseAbi([
+  "function getReserveData(address asset) view returns (uint256 configuration, uint128 liquidityIndex, uint128 variableBorrowIndex, uint128 currentLiquidityRate, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint8 id)",
+]);
+
+const MOCK_RATE_SOURCE_ABI = parseAbi([
+  "function supplyRate() view returns (uint256)",
+  "function borrowRate() view returns (uint256)",
+  "function setRates(uint256 newSupplyRate, uint256 newBorrowRate)",
+]);
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function getNextPositionId(ctx: KeeperContext): Promise<bigint> {
+  return ctx.publicClient.readContract({
+    address: ctx.config.contracts.positionManager,
+    abi: POSITION_MANAGER_ABI,
+    functionName: "nextPositionId",
+  });
+}
+
+export function isRateUpdateDue(isStale: boolean, age: bigint, intervalSec: number): boolean {
+  return isStale || age >= BigInt(intervalSec);
+}
+
+// Inclusive [start, end] id ranges covering 0..count-1
+export function scanRanges(count: bigint, size: number): [bigint, bigint][] {
+  const ranges: [bigint, bigint][] = [];
+  for (let start = BigInt(0); start < count; start += BigInt(size)) {
+    const end = start + BigInt(size - 1);
+    ranges.push([start, end < count ? end : count - BigInt(1)]);
+  }
+  return ranges;
+}
+
+export interface Rates {
+  supply: bigint;
+  borrow: bigint;
+}
+
+export function isRateMirrorDue(current: Rates, target: Rates): boolean {
+  const diff = (a: bigint, b: bigint) => (a > b ? a - b : b - a);
+  return (
+    diff(current.supply, target.supply) > RATE_MIRROR_THRESHOLD ||
+    diff(current.borrow, target.borrow) > RATE_MIRROR_THRESHOLD
+  );
+}
+
+export async function mirrorRates(ctx: KeeperContext, mirror: RateMirrorConfig): Promise<TxResult[]> {
+  const { publicClient, rateMirrorClient } = ctx;
+  const log = ctx.log.child({ task: "mirrorRates" });
+  if (!rateMirrorClient) throw new Error("rate mirror client not configured");
+
+  const [reserve, supply, borrow] = await Promise.all([
+    rateMirrorClient.readContract({
+      address: mirror.lendingPool,
+      abi: LENDLE_POOL_ABI,
+      functionName: "getReserveData",
+      args: [mirror.asset],
+    }),
+    publicClient.readContract({ address: mirror.mockRateSource, abi: MOCK_RATE_SOURCE_ABI, functionName: "supplyRate" }),
+    publicClient.readContract({ address: mirror.mockRateSource, abi: MOCK_RATE_SOURCE_ABI, functionName: "borrowRate" }),
+  ]);
+
+  // RAY (1e27) to WAD (1e18)
+  const target: Rates = { supply: reserve[3] / BigInt(1e9), borrow: reserve[4] / BigInt(1e9) };
+  if (!isRateMirrorDue({ supply, borrow }, target)) {
+    log.debug("mock rates in sync", { supply, borrow });
+    return [];
+  }
+
+  return [
+    await sendTx(ctx, {
+      label: "setRates",
+      to: mirror.mockRateSource,
+      data: encodeFunctionData({ abi: MOCK_RATE_SOURCE_ABI, functionName: "setRates", args: [target.supply, target.borrow] }),
+      meta: { from: { supply, borrow }, to: target },
+    }),
+  ];
+}
+
+export async function updateRate(ctx: KeeperContext, oracle: Address): Promise<TxResult[]> {
+  const { publicClient, config } = ctx;
+  const log = ctx.log.child({ task: "updateRate" });
+
+  const [breakerActive, isStale, lastUpdateTime, block] = await Promise.all([
+    publicClient.readContract({ address: oracle, abi: RATE_ORACLE_ABI, functionName: "isCircuitBreakerActive" }),
+    publicClient.readContract({ address: oracle, abi: RATE_ORACLE_ABI, functionName: "isStale" }),
+    publicClient.readContract({ address: oracle, abi: RATE_ORACLE_ABI, functionName: "lastUpdateTime" }),
+    publicClient.getBlock(),
+  ]);
+
+  // updateRate reverts while tripped; only governance can reset the breaker
+  if (breakerActive) {
+    log.warn("circuit breaker active, skipping rate update");
+    return [];
+  }
+
+  const age = block.timestamp - lastUpdateTime;
+  if (!isRateUpdateDue(isStale, age, config.rateUpdateIntervalSec)) {
+    log.debug("rate is fresh", { age });
+    return [];
+  }
+
+  return [
+    await sendTx(ctx, {
+      label: "updateRate",
+      to: oracle,
+      data: encodeFunctionData({ abi: RATE_ORACLE_ABI, functionName: "updateRate" }),
+      meta: { age, isStale },
+    }),
+  ];
+}
+
+export async function settlePositions(ctx: KeeperContext, settlementEngine: Address): Promise<TxResult[]> {
+  const { publicClient, config } = ctx;
+  const log = ctx.log.child({ task: "settle" });
+
+  const paused = await publicClient.readContract({
+    address: settlementEngine,
+    abi: SETTLEMENT_ENGINE_ABI,
+    functionName: "paused",
+  });
+  if (paused) {
+    log.warn("settlement engine paused");
+    return [];
+  }
+
+  const nextPositionId = await getNextPositionId(ctx);
+  const ids = Array.from({ length: Number(nextPositionId) }, (_, i) => BigInt(i));
+
+  const due: bigint[] = [];
+  for (const batch of chunk(ids, SETTLE_SCAN_CHUNK)) {
+    const ready = await Promise.all(
+      batch.map((id) =>
+        publicClient
+          .readContract({ address: settlementEngine, abi: SETTLEMENT_ENGINE_ABI, functionName: "canSettle", args: [id] })
+          .catch(() => false)
+      )
+    );
+    batch.forEach((id, i) => ready[i] && due.push(id));
+  }
+
+  log.info("scanned positions", { scanned: ids.length, due: due.length });
+
+  const results: TxResult[] = [];
+  for (const batch of chunk(due, config.maxBatchSize)) {
+    results.push(
+      await sendTx(ctx, {
+        label: "batchSettle",
+        to: settlementEngine,
+        data: encodeFunctionData({ abi: SETTLEMENT_ENGINE_ABI, functionName: "batchSettle", args: [batch] }),
+        meta: { positionIds: batch },
+      })
+    );
+  }
+  return results;
+}
+
+export async function executeAutomation(ctx: KeeperContext, automation: Address): Promise<TxResult[]> {
+  const { publicClient, config } = ctx;
+  const log = ctx.log.child({ task: "automation" });
+
+  const [orderIds, stopLossIds] = await Promise.all([
+    publicClient.readContract({ address: automation, abi: AUTOMATION_ABI, functionName: "getExecutableLimitOrders" }),
+    publicClient.readContract({ address: automation, abi: AUTOMATION_ABI, functionName: "getTriggerableStopLosses" }),
+  ]);
+
+  log.info("scanned automation", { limitOrders: orderIds.length, stopLosses: stopLossIds.length });
+
+  // Automation has no batch entry points, so cap the number of single sends per tick instead
+  const results: TxResult[] = [];
+  for (const orderId of orderIds.slice(0, config.maxBatchSize)) {
+    results.push(
+      await sendTx(ctx, {
+        label: "executeLimitOrder",
+        to: automation,
+        data: encodeFunctionData({ abi: AUTOMATION_ABI, functionName: "executeLimitOrder", args: [orderId] }),
+        meta: { orderId },
+      })
+    );
+  }
+  for (const positionId of stopLossIds.slice(0, config.maxBatchSize)) {
+    results.push(
+      await sendTx(ctx, {
+        label: "executeStopLoss",
+        to: automation,
+        data: encodeFunctionData({ abi: AUTOMATION_ABI, functionName: "executeStopLoss", args: [positionId] }),
+        meta: { positionId },
+      })
+    );
+  }
+  return results;
+}
+
+export async function liquidatePositions(ctx: KeeperContext, liquidationEngine: Address): Promise<TxResult[]> {
+  const { publicClient, config } = ctx;
+  const log = ctx.log.child({ task: "liquidate" });
+
+  const paused = await publicClient.readContract({
+    address: liquidationEngine,
+    abi: LIQUIDATION_ENGINE_ABI,
+    functionName: "paused",
+  });
+  if (paused) {
+    log.warn("liquidation engine paused");
+    return [];
+  }
+
+  const nextPositionId = await getNextPositionId(ctx);
+  const liquidatable: bigint[] = [];
+  // findLiquidatablePositions treats endId as inclusive
+  for (const [start, end] of scanRanges(nextPositionId, LIQUIDATION_SCAN_CHUNK)) {
+    const found = await publicClient.readContract({
+      address: liquidationEngine,
+      abi: LIQUIDATION_ENGINE_ABI,
+      functionName: "findLiquidatablePositions",
+      args: [start, end],
+    });
+    liquidatable.push(...found);
+  }
+
+  log.info("scanned positions", { scanned: nextPositionId, liquidatable: liquidatable.length });
+
+  const results: TxResult[] = [];
+  for (const batch of chunk(liquidatable, config.maxBatchSize)) {
+    results.push(
+      await sendTx(ctx, {
+        label: "batchLiquidate",
+        to: liquidationEngine,
+        data: encodeFunctionData({ abi: LIQUIDATION_ENGINE_ABI, functionName: "batchLiquidate", args: [batch] }),
+        meta: { positionIds: batch },
+      })
+    );
+  }
+  return results;
+}
@@ -0,0 +1,93 @@
+/**
+ * sendTx gas caps and dry-run handling against stub clients
+ * Pure: needs no chain
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { parseGwei, zeroAddress } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { createLogger } from "./logger";
+import { sendTx, type TxContext } from "./tx";
+
+// Anvil's first default account; nothing is ever signed
+const account = privateKeyToAccount("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80");
+
+const TX = { label: "batchSettle", to: zeroAddress, data: "0x" as const };
+
+function stubContext(
+  overrides: { gas?: bigint; gasPrice?: bigint; revert?: boolean; dryRun?: boolean } = {}
+): { ctx: TxContext; calls: { sent: number } } {
+  const calls = { sent: 0 };
+  const ctx: TxContext = {
+    config: {
+      dryRun: overrides.dryRun ?? false,
+      maxGasPerTx: BigInt(5_000_000),
+      maxGasPrice: parseGwei("50"),
+    },
+    log: createLogger("error", {}, () => {}),
+    publicClient: {
+      estimateGas: async () => {
+        if (overrides.revert) throw new Error("execution reverted");
+        return overrides.gas ?? BigInt(200_000);
+      },
+      getGasPrice: async () => overrides.gasPrice ?? parseGwei("1"),
+      waitForTransactionReceipt: async () => {
+        throw new Error("no receipt in stub");
+      },
+    },
+    walletClient: {
+      account,
+      sendTransaction: async () => {
+        calls.sent++;
+        throw new Error("stub does not send");
+      },
+    },
+  };
+  return { ctx, calls };
+}
+
+describe("sendTx", () => {
+  test("reports a reverting simulation as failed without sending", async () => {
+    const stub = stubContext({ revert: true });
+    const result = await sendTx(stub.ctx, TX);
+
+    assert.equal(result.status, "failed");
+    assert.equal(stub.calls.sent, 0);
+  });
+
+  test("skips when estimated gas is above the per-transaction cap", async () => {
+    const stub = stubContext({ gas: BigInt(5_000_001) });
+    const result = await sendTx(stub.ctx, TX);
+
+    assert.equal(result.status, "skipped");
+    assert.match(result.status === "skipped" ? result.reason : "", /estimated gas/);
+    assert.equal(stub.calls.sent, 0);
+  });
+
+  test("skips when the gas price is above the cap", async () => {
+    const stub = stubContext({ gasPrice: parseGwei("51") });
+    const result = await sendTx(stub.ctx, TX);
+
+    assert.equal(result.status, "skipped");
+    assert.match(result.status === "skipped" ? result.reason : "", /gas price/);
+    assert.equal(stub.calls.sent, 0);
+  });
+
+  test("dry run returns the estimate without sending", async () => {
+    const stub = stubContext({ dryRun: true, gas: BigInt(123_456) });
+    const result = await sendTx(stub.ctx, TX);
+
+    assert.deepEqual(result, { label: "batchSettle", status: "dry-run", gas: BigInt(123_456) });
+    assert.equal(stub.calls.sent, 0);
+  });
+
+  test("sends when within both caps", async () => {
+    const stub = stubContext();
+    const result = await sendTx(stub.ctx, TX);
+
+    // The stub wallet throws once called, which sendTx reports as a failed send
+    assert.equal(stub.calls.sent, 1);
+    assert.equal(result.status, "failed");
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Transaction sending with gas caps and dry-run support
+ */
+
+import { BaseError, type Address, type Hex } from "viem";
+import type { KeeperContext } from "./context";
+
+// The parts of KeeperContext that sending uses
+export interface TxContext {
+  config: Pick<KeeperContext["config"], "dryRun" | "maxGasPerTx" | "maxGasPrice">;
+  log: KeeperContext["log"];
+  publicClient: Pick<KeeperContext["publicClient"], "estimateGas" | "getGasPrice" | "waitForTransactionReceipt">;
+  walletClient: Pick<KeeperContext["walletClient"], "account" | "sendTransaction">;
+}
+
+export interface TxRequest {
+  // Human-readable action, e.g. "batchSettle"
+  label: string;
+  to: Address;
+  data: Hex;
+  // Extra fields attached to every log line for this transaction
+  meta?: Record<string, unknown>;
+}
+
+export type TxResult =
+  | { label: string; status: "sent"; hash: Hex; gasUsed: bigint }
+  | { label: string; status: "dry-run"; gas: bigint }
+  | { label: string; status: "skipped"; reason: string }
+  | { label: string; status: "failed"; reason: string; hash?: Hex };
+
+export function errorMessage(error: unknown): string {
+  if (error instanceof BaseError) return error.shortMessage;
+  if (error instanceof Error) return error.message;
+  return String(error);
+}
+
+// Simulates, checks gas caps, then sends (or only logs in dry-run mode)
+export async function sendTx(ctx: TxContext, tx: TxRequest): Promise<TxResult> {
+  const { config, publicClient, walletClient } = ctx;
+  const log = ctx.log.child({ action: tx.label, to: tx.to, ...tx.meta });
+  const account = walletClient.account;
+
+  // estimateGas executes the call, so a revert here means the transaction would fail
+  let gas: bigint;
+  try {
+    gas = await publicClient.estimateGas({ account, to: tx.to, data: tx.data });
+  } catch (error) {
+    const reason = errorMessage(error);
+    log.warn("simulation reverted", { reason });
+    return { label: tx.label, status: "failed", reason };
+  }
+
+  if (gas > config.maxGasPerTx) {
+    const reason = `estimated gas ${gas} above cap ${config.maxGasPerTx}`;
+    log.warn("skipping transaction", { reason });
+    return { label: tx.label, status: "skipped", reason };
+  }
+
+  const gasPrice = await publicClient.getGasPrice();
+  if (gasPrice > config.maxGasPrice) {
+    const reason = `gas price ${gasPrice} above cap ${config.maxGasPrice}`;
+    log.warn("skipping transaction", { reason });
+    return { label: tx.label, status: "skipped", reason };
+  }
+
+  if (config.dryRun) {
+    log.info("dry run: would send transaction", { gas, gasPrice });
+    return { label: tx.label, status: "dry-run", gas };
+  }
+
+  let hash: Hex | undefined;
+  try {
+    // Pad the estimate; state can shift between simulation and inclusion
+    hash = await walletClient.sendTransaction({ to: tx.to, data: tx.data, gas: (gas * BigInt(12)) / BigInt(10), gasPrice });
+    log.info("transaction sent", { hash });
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      log.error("transaction reverted", { hash, blockNumber: receipt.blockNumber });
+      return { label: tx.label, status: "failed", reason: "reverted", hash };
+    }
+
+    log.info("transaction confirmed", { hash, blockNumber: receipt.blockNumber, gasUsed: receipt.gasUsed });
+    return { label: tx.label, status: "sent", hash, gasUsed: receipt.gasUsed };
+  } catch (error) {
+    const reason = errorMessage(error);
+    log.error("transaction failed", { hash, reason });
+    return { label: tx.label, status: "failed", reason, hash };
+  }
+}
@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "forge-std/Test.sol";
+import "../../src/core/SettlementEngine.sol";
+import "../../src/core/PositionManager.sol";
+import "../../src/mocks/MockERC20.sol";
+
+/// @notice Exposes the internal settlement math for vector tests
+contract SettlementEngineHarness is SettlementEngine {
+    constructor(address _positionManager, address _collateralToken)
+        SettlementEngine(_positionManager, address(1), 1 days, _collateralToken, msg.sender)
+    {}
+
+    function calculateSettlementWithRates(
+        PositionManager.Position memory pos,
+        uint256 floatingRate,
+        uint256 periodSeconds
+    ) external pure returns (int256) {
+        return _calculateSettlementWithRates(pos, floatingRate, periodSeconds);
+    }
+}
+
+/// @notice Pins settlement outputs that frontend/lib/pricing.test.ts reproduces off-chain
+contract SettlementPricingVectorsTest is Test {
+    SettlementEngineHarness public harness;
+
+    function setUp() public {
+        MockERC20 usdc = new MockERC20("USD Coin", "USDC", 6);
+        PositionManager pm = new PositionManager(address(usdc), 6, address(this));
+        harness = new SettlementEngineHarness(address(pm), address(usdc));
+    }
+
+    function _position(uint256 notional, uint256 fixedRate, bool isPayingFixed)
+        internal
+        pure
+        returns (PositionManager.Position memory pos)
+    {
+        pos.isPayingFixed = isPayingFixed;
+        pos.notional = uint128(notional);
+        pos.fixedRate = uint128(fixedRate);
+    }
+
+    function _assertVector(
+        uint256 notional,
+        uint256 fixedRate,
+        uint256 floatingRate,
+        uint256 periodSeconds,
+        bool isPayingFixed,
+        int256 expected
+    ) internal view {
+        assertEq(
+            harness.calculateSettlementWithRates(
+                _position(notional, fixedRate, isPayingFixed), floatingRate, periodSeconds
+            ),
+            expected
+        );
+    }
+
+    function test_vectors_PayingFixed() public view {
+        _assertVector(100_000e6, 0.05e18, 0.07e18, 1 days, true, 5_479_452);
+        _assertVector(100_000e6, 0.05e18, 0.03e18, 1 hours, true, -228_311);
+        _assertVector(1_000e6, 0.0333e18, 0.0777e18, 12_345, true, 17_381);
+        _assertVector(50_000_000e6, 0.12e18, 0.001e18, 365 days, true, -5_950_000_000_000);
+    }
+
+    function test_vectors_ReceivingFixed() public view {
+        _assertVector(100_000e6, 0.05e18, 0.07e18, 1 days, false, -5_479_452);
+        _assertVector(1_234_567_891_234, 0.0425e18, 0.051337e18, 7 days + 13, false, -209_235_004);
+    }
+
+    function test_vectors_Zero() public view {
+        _assertVector(10_000e6, 0.05e18, 0.05e18, 90 days, true, 0);
+        _assertVector(100_000e6, 0.05e18, 0.07e18, 0, true, 0);
+    }
+}